@@ -5,10 +5,13 @@ import {
   LayoutDashboard, Users, UserCircle, Briefcase, Settings as SettingsIcon, 
   BarChart3, Package, LogOut, Menu, X, Search, Plus, Trash2, Edit, Save, 
   ChevronRight, Home, Shield, Loader2, ChevronLeft, Bell, Sun, Moon, AlertTriangle, Clock,
-  CheckCircle2, FileText, Calendar
+  CheckCircle2, FileText, Calendar, History, Archive, Database, ShieldCheck, LogIn, Building2, ReceiptText, Wallet
 } from 'lucide-react';
 import { db } from './db';
-import { User, Privilege, Job } from './types';
+import { SessionUser, Privilege, Job, Branch } from './types';
+import { isOpenStatus } from './utils/jobTotals';
+import { jobNumber } from './utils/documents';
+import TwoFactorDialog from './components/TwoFactorDialog';
 
 // Pages
 import HomePage from './pages/HomePage';
@@ -22,14 +25,31 @@ import UserManagement from './pages/UserManagement';
 import Reports from './pages/Reports';
 import InvoicePage from './pages/InvoicePage';
 import SettingsPage from './pages/SettingsPage';
+import TrashPage from './pages/TrashPage';
+import AuditLogPage from './pages/AuditLogPage';
+import LoginHistoryPage from './pages/LoginHistoryPage';
+import BackupsPage from './pages/BackupsPage';
+import MigrationsPage from './pages/MigrationsPage';
+import BranchManagement from './pages/BranchManagement';
+import CreditNotesPage from './pages/CreditNotesPage';
+import CashRegisterPage from './pages/CashRegisterPage';
+
+// Components
+import SyncStatusIndicator from './components/SyncStatusIndicator';
+import RequirePrivilege from './components/RequirePrivilege';
+
+const SESSION_CHECK_INTERVAL = 60000;
 
 const App: React.FC = () => {
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isDarkMode, setIsDarkMode] = useState(true);
   const [overdueJobs, setOverdueJobs] = useState<Job[]>([]);
   const [showNotifications, setShowNotifications] = useState(false);
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [activeBranchId, setActiveBranchId] = useState<string | null>(null);
   const notificationRef = useRef<HTMLDivElement>(null);
   
   const navigate = useNavigate();
@@ -47,7 +67,6 @@ const App: React.FC = () => {
         await db.init();
         const user = await db.auth.getSession();
         setCurrentUser(user);
-        if (user) fetchNotifications();
       } catch (e) {
         console.error("Failed to initialize system", e);
       } finally {
@@ -59,14 +78,47 @@ const App: React.FC = () => {
 
   useEffect(() => {
     if (currentUser) {
-      fetchNotifications();
-      // Real-time notification subscription
-      const unsub = db.jobs.subscribe(() => {
-        fetchNotifications();
-      });
+      // Shared job cache; new, edited and deleted jobs arrive without a reload.
+      const unsub = db.jobs.watch(updateNotifications);
       return () => unsub();
     }
-  }, [location.pathname, currentUser]);
+  }, [currentUser, activeBranchId]);
+
+  // The branches this user can switch between; edits made elsewhere show up straight away.
+  useEffect(() => {
+    if (!currentUser) return;
+    const loadBranches = async () => {
+      setBranches(await db.branches.available());
+      setActiveBranchId(db.branches.active());
+    };
+    loadBranches();
+    const unsub = db.branches.subscribe(() => loadBranches());
+    return () => unsub();
+  }, [currentUser]);
+
+  // Signed-in sessions expire and time out when idle; another device can also
+  // revoke them. Activity keeps the session alive, and a periodic check sends
+  // the user back to the login screen once it has ended.
+  useEffect(() => {
+    if (!currentUser) return;
+    const touch = () => { db.auth.touch().catch(err => console.warn('Could not record activity:', err)); };
+    const check = setInterval(async () => {
+      const user = await db.auth.getSession();
+      if (!user) {
+        setCurrentUser(null);
+        navigate('/login');
+      } else if (JSON.stringify(user.role) !== JSON.stringify(currentUser.role)) {
+        // The role was edited elsewhere; menus and guards follow it.
+        setCurrentUser(user);
+      }
+    }, SESSION_CHECK_INTERVAL);
+    const events = ['mousedown', 'keydown', 'touchstart'];
+    events.forEach(event => window.addEventListener(event, touch));
+    return () => {
+      clearInterval(check);
+      events.forEach(event => window.removeEventListener(event, touch));
+    };
+  }, [currentUser]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -78,26 +130,39 @@ const App: React.FC = () => {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  const fetchNotifications = async () => {
-    const allJobs = await db.jobs.all();
+  const updateNotifications = (allJobs: Job[]) => {
     const threeDaysAgo = new Date();
     threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
 
     const overdue = allJobs.filter(j => 
-      j.status !== 'COMPLETED' && 
+      isOpenStatus(j.status) && 
       new Date(j.createdAt) < threeDaysAgo
     );
     setOverdueJobs(overdue);
   };
 
-  const handleLogout = () => {
-    db.auth.setSession(null);
+  const handleLogout = async () => {
+    try {
+      await db.auth.setSession(null);
+    } catch (err) {
+      console.warn('Could not close the session:', err);
+    }
     setCurrentUser(null);
     navigate('/');
   };
 
+  // Every page reads the active branch's records, so they are remounted to load afresh.
+  const handleBranchChange = async (id: string) => {
+    try {
+      await db.branches.setActive(id);
+      setActiveBranchId(id);
+    } catch (err) {
+      console.warn('Could not switch branch:', err);
+    }
+  };
+
   const hasPrivilege = (privilege: Privilege) => {
-    return currentUser?.privileges.includes(privilege);
+    return currentUser?.role.privileges.includes(privilege);
   };
 
   const isPublicPath = ['/', '/login'].includes(location.pathname);
@@ -139,28 +204,55 @@ const App: React.FC = () => {
               <SidebarItem to="/dashboard" icon={<LayoutDashboard size={20} />} label="Dashboard" active={location.pathname === '/dashboard'} />
               <div className="my-4 border-t border-slate-800/50 mx-4" />
               
-              {hasPrivilege('MANAGE_CUSTOMERS') && (
+              {hasPrivilege('CUSTOMERS_VIEW') && (
                 <SidebarItem to="/customers" icon={<Users size={20} />} label="Customers" active={location.pathname === '/customers'} />
               )}
-              {hasPrivilege('MANAGE_SERVICES') && (
+              {hasPrivilege('SERVICES_VIEW') && (
                 <SidebarItem to="/services" icon={<SettingsIcon size={20} />} label="Services" active={location.pathname === '/services'} />
               )}
               
-              <SidebarItem to="/invoices" icon={<FileText size={20} />} label="Invoices" active={location.pathname === '/invoices'} />
+              {hasPrivilege('JOBS_VIEW') && (
+                <SidebarItem to="/invoices" icon={<FileText size={20} />} label="Invoices" active={location.pathname === '/invoices'} />
+              )}
               
-              {hasPrivilege('MANAGE_JOBS') && (
+              {hasPrivilege('JOBS_VIEW') && (
+                <SidebarItem to="/credit-notes" icon={<ReceiptText size={20} />} label="Credit Notes" active={location.pathname === '/credit-notes'} />
+              )}
+              {hasPrivilege('JOBS_VIEW') && (
+                <SidebarItem to="/cash-register" icon={<Wallet size={20} />} label="Cash Register" active={location.pathname === '/cash-register'} />
+              )}
+
+              {hasPrivilege('JOBS_VIEW') && (
                 <SidebarItem to="/jobs" icon={<Briefcase size={20} />} label="Job Workflow" active={location.pathname === '/jobs'} />
               )}
-              {hasPrivilege('MANAGE_INVENTORY') && (
+              {hasPrivilege('INVENTORY_VIEW') && (
                 <SidebarItem to="/inventory" icon={<Package size={20} />} label="Inventory" active={location.pathname === '/inventory'} />
               )}
-              {hasPrivilege('VIEW_REPORTS') && (
+              {hasPrivilege('REPORTS_VIEW') && (
                 <SidebarItem to="/reports" icon={<BarChart3 size={20} />} label="Reports" active={location.pathname === '/reports'} />
               )}
-              {hasPrivilege('MANAGE_USERS') && (
+              {(hasPrivilege('USERS_MANAGE') || hasPrivilege('ROLES_MANAGE')) && (
                 <SidebarItem to="/users" icon={<Shield size={20} />} label="User Access" active={location.pathname === '/users'} />
               )}
-              <SidebarItem to="/settings" icon={<SettingsIcon size={20} />} label="Settings" active={location.pathname === '/settings'} />
+              {hasPrivilege('AUDIT_VIEW') && (
+                <SidebarItem to="/audit" icon={<History size={20} />} label="Audit Trail" active={location.pathname === '/audit'} />
+              )}
+              {hasPrivilege('AUDIT_VIEW') && (
+                <SidebarItem to="/logins" icon={<LogIn size={20} />} label="Sign-In History" active={location.pathname === '/logins'} />
+              )}
+              {hasPrivilege('BACKUP_CREATE') && (
+                <SidebarItem to="/backups" icon={<Archive size={20} />} label="Backups" active={location.pathname === '/backups'} />
+              )}
+              {hasPrivilege('BRANCHES_MANAGE') && (
+                <SidebarItem to="/branches" icon={<Building2 size={20} />} label="Branches" active={location.pathname === '/branches'} />
+              )}
+              {hasPrivilege('MIGRATIONS_RUN') && (
+                <SidebarItem to="/migrations" icon={<Database size={20} />} label="Migrations" active={location.pathname === '/migrations'} />
+              )}
+              <SidebarItem to="/trash" icon={<Trash2 size={20} />} label="Trash" active={location.pathname === '/trash'} />
+              {hasPrivilege('SETTINGS_MANAGE') && (
+                <SidebarItem to="/settings" icon={<SettingsIcon size={20} />} label="Settings" active={location.pathname === '/settings'} />
+              )}
             </nav>
           </aside>
 
@@ -195,7 +287,28 @@ const App: React.FC = () => {
                   />
                 </div>
 
+                {branches.length > 0 && (
+                  <div className="flex items-center space-x-2 px-3 py-1.5 rounded-[15px] bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 text-slate-600 dark:text-slate-300 shadow-sm" title="Active branch">
+                    <Building2 size={14} className="text-blue-500 shrink-0" />
+                    {branches.length > 1 ? (
+                      <select
+                        value={activeBranchId ?? ''}
+                        onChange={(e) => handleBranchChange(e.target.value)}
+                        className="bg-transparent border-none outline-none text-[10px] font-black uppercase tracking-widest dark:text-white cursor-pointer"
+                      >
+                        {branches.map(branch => (
+                          <option key={branch.id} value={branch.id} className="text-slate-900">{branch.code} · {branch.name}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-[10px] font-black uppercase tracking-widest">{branches[0].code} · {branches[0].name}</span>
+                    )}
+                  </div>
+                )}
+
                 <div className="flex items-center space-x-1">
+                  <SyncStatusIndicator />
+
                   <button 
                     onClick={() => setIsDarkMode(!isDarkMode)}
                     className="p-2 rounded-[15px] text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 transition-all"
@@ -246,7 +359,7 @@ const App: React.FC = () => {
                                     <AlertTriangle size={18} />
                                   </div>
                                   <div className="flex-1 min-w-0">
-                                    <p className="text-xs font-black text-slate-800 dark:text-slate-100 truncate">Job #{job.id.slice(-6)}</p>
+                                    <p className="text-xs font-black text-slate-800 dark:text-slate-100 truncate">Job {jobNumber(job)}</p>
                                     <p className="text-[10px] font-bold text-slate-400 mt-1">Pending for {Math.floor((Date.now() - new Date(job.createdAt).getTime()) / (1000 * 60 * 60 * 24))} days</p>
                                   </div>
                                   <ChevronRight size={14} className="text-slate-300 mt-1" />
@@ -269,9 +382,16 @@ const App: React.FC = () => {
                     </div>
                     <div className="hidden sm:block">
                       <p className="text-xs font-bold text-slate-800 dark:text-white leading-tight">{currentUser.username}</p>
-                      <p className="text-[8px] text-blue-500 font-black uppercase tracking-wider">{currentUser.role}</p>
+                      <p className="text-[8px] text-blue-500 font-black uppercase tracking-wider">{currentUser.role.name}</p>
                     </div>
                   </div>
+                  <button 
+                    onClick={() => setShowTwoFactor(true)}
+                    title="Two-Factor Sign-In"
+                    className="p-2.5 rounded-[15px] bg-slate-50 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-all active:scale-90 border border-slate-100 dark:border-slate-800"
+                  >
+                    <ShieldCheck size={18} />
+                  </button>
                   <button 
                     onClick={handleLogout}
                     title="Sign Out"
@@ -283,18 +403,28 @@ const App: React.FC = () => {
               </div>
             </header>
 
+            {showTwoFactor && <TwoFactorDialog user={currentUser} onClose={() => setShowTwoFactor(false)} />}
+
             <div className="flex-1 overflow-y-auto p-8 scroll-smooth bg-slate-50 dark:bg-slate-950">
-              <div className="max-w-7xl mx-auto">
+              <div className="max-w-7xl mx-auto" key={activeBranchId ?? 'no-branch'}>
                 <Routes>
                   <Route path="/dashboard" element={<Dashboard />} />
-                  <Route path="/invoices" element={<InvoicePage />} />
-                  <Route path="/customers" element={<CustomerManagement />} />
-                  <Route path="/services" element={<ServiceManagement />} />
-                  <Route path="/jobs" element={<JobManagement />} />
-                  <Route path="/inventory" element={<InventoryManagement />} />
-                  <Route path="/users" element={<UserManagement />} />
-                  <Route path="/reports" element={<Reports />} />
-                  <Route path="/settings" element={<SettingsPage />} />
+                  <Route path="/invoices" element={<RequirePrivilege user={currentUser} privilege="JOBS_VIEW"><InvoicePage /></RequirePrivilege>} />
+                  <Route path="/customers" element={<RequirePrivilege user={currentUser} privilege="CUSTOMERS_VIEW"><CustomerManagement /></RequirePrivilege>} />
+                  <Route path="/services" element={<RequirePrivilege user={currentUser} privilege="SERVICES_VIEW"><ServiceManagement /></RequirePrivilege>} />
+                  <Route path="/cash-register" element={<RequirePrivilege user={currentUser} privilege="JOBS_VIEW"><CashRegisterPage /></RequirePrivilege>} />
+                  <Route path="/credit-notes" element={<RequirePrivilege user={currentUser} privilege="JOBS_VIEW"><CreditNotesPage /></RequirePrivilege>} />
+                  <Route path="/jobs" element={<RequirePrivilege user={currentUser} privilege="JOBS_VIEW"><JobManagement /></RequirePrivilege>} />
+                  <Route path="/inventory" element={<RequirePrivilege user={currentUser} privilege="INVENTORY_VIEW"><InventoryManagement /></RequirePrivilege>} />
+                  <Route path="/users" element={<RequirePrivilege user={currentUser} privilege={['USERS_MANAGE', 'ROLES_MANAGE']}><UserManagement /></RequirePrivilege>} />
+                  <Route path="/reports" element={<RequirePrivilege user={currentUser} privilege="REPORTS_VIEW"><Reports /></RequirePrivilege>} />
+                  <Route path="/settings" element={<RequirePrivilege user={currentUser} privilege="SETTINGS_MANAGE"><SettingsPage /></RequirePrivilege>} />
+                  <Route path="/trash" element={<TrashPage />} />
+                  <Route path="/audit" element={<RequirePrivilege user={currentUser} privilege="AUDIT_VIEW"><AuditLogPage /></RequirePrivilege>} />
+                  <Route path="/logins" element={<RequirePrivilege user={currentUser} privilege="AUDIT_VIEW"><LoginHistoryPage /></RequirePrivilege>} />
+                  <Route path="/backups" element={<RequirePrivilege user={currentUser} privilege="BACKUP_CREATE"><BackupsPage /></RequirePrivilege>} />
+                  <Route path="/branches" element={<RequirePrivilege user={currentUser} privilege="BRANCHES_MANAGE"><BranchManagement /></RequirePrivilege>} />
+                  <Route path="/migrations" element={<RequirePrivilege user={currentUser} privilege="MIGRATIONS_RUN"><MigrationsPage /></RequirePrivilege>} />
                   <Route path="*" element={<Navigate to="/dashboard" replace />} />
                 </Routes>
               </div>
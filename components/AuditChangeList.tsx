@@ -0,0 +1,29 @@
+
+import React from 'react';
+import { FieldChange } from '../types';
+
+const show = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length} entr${value.length === 1 ? 'y' : 'ies'}`;
+  if (typeof value === 'object') return JSON.stringify(value).slice(0, 80);
+  return String(value);
+};
+
+// Field-level before → after lines of one audit entry.
+const AuditChangeList: React.FC<{ changes: FieldChange[] }> = ({ changes }) => {
+  if (changes.length === 0) return <span className="text-[10px] font-bold text-slate-400 italic">No field changes</span>;
+  return (
+    <ul className="space-y-1">
+      {changes.map(change => (
+        <li key={change.field} className="text-[11px] font-bold text-slate-600 dark:text-slate-300 break-words">
+          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest mr-2">{change.field}</span>
+          <span className="text-rose-500 line-through decoration-rose-300">{show(change.before)}</span>
+          <span className="mx-1.5 text-slate-300">→</span>
+          <span className="text-emerald-600">{show(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default AuditChangeList;
@@ -0,0 +1,112 @@
+
+import React, { useState, useMemo } from 'react';
+import { AlertTriangle, X, Loader2, GitMerge, Check } from 'lucide-react';
+import { sameRecord } from '../storage/syncQueue';
+
+export interface ConflictField<T> {
+  key: keyof T;
+  label: string;
+  format?: (value: any) => string;
+}
+
+interface ConflictDialogProps<T> {
+  title: string;
+  mine: T;
+  theirs: T;
+  fields: ConflictField<T>[];
+  isSaving?: boolean;
+  onResolve: (merged: T) => void;
+  onCancel: () => void;
+}
+
+// Side-by-side compare of a rejected edit and the copy that was saved first.
+// Every differing field starts on "yours"; the merged record keeps everything
+// else from theirs, including its version, so it can be saved straight away.
+function ConflictDialog<T extends { updatedAt?: string }>({ title, mine, theirs, fields, isSaving, onResolve, onCancel }: ConflictDialogProps<T>) {
+  const differing = useMemo(() => fields.filter(f => !sameRecord({ v: mine[f.key] }, { v: theirs[f.key] })), [fields, mine, theirs]);
+  const [choice, setChoice] = useState<Record<string, 'MINE' | 'THEIRS'>>(() =>
+    differing.reduce((acc, f) => ({ ...acc, [String(f.key)]: 'MINE' }), {} as Record<string, 'MINE' | 'THEIRS'>)
+  );
+
+  const pickAll = (side: 'MINE' | 'THEIRS') => {
+    setChoice(differing.reduce((acc, f) => ({ ...acc, [String(f.key)]: side }), {} as Record<string, 'MINE' | 'THEIRS'>));
+  };
+
+  const handleResolve = () => {
+    const merged = { ...theirs };
+    differing.forEach(f => {
+      if (choice[String(f.key)] === 'MINE') merged[f.key] = mine[f.key];
+    });
+    onResolve(merged);
+  };
+
+  const show = (field: ConflictField<T>, value: any) => {
+    if (field.format) return field.format(value);
+    if (value === null || value === undefined || value === '') return '—';
+    return String(value);
+  };
+
+  const sideClass = (active: boolean) => `flex-1 text-left p-4 rounded-[15px] border text-xs font-bold transition-all whitespace-pre-line ${
+    active ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-slate-900 dark:text-white shadow-sm' : 'border-slate-100 dark:border-slate-800 text-slate-400 hover:border-slate-300 dark:hover:border-slate-600'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md print:hidden">
+      <div className="bg-white dark:bg-slate-950 w-full max-w-3xl rounded-[15px] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in zoom-in duration-300">
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <div className="flex items-center space-x-4">
+            <div className="bg-amber-50 dark:bg-amber-900/20 text-amber-600 p-3 rounded-[15px]"><AlertTriangle size={20} /></div>
+            <div>
+              <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight">{title}</h3>
+              <p className="text-[9px] font-bold text-slate-500 uppercase tracking-[0.2em]">
+                Saved elsewhere{theirs.updatedAt ? ` at ${new Date(theirs.updatedAt).toLocaleString('en-IN')}` : ''} · choose what to keep
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2.5 bg-white dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-slate-900 dark:hover:text-white transition-all shadow-sm"><X size={20} /></button>
+        </div>
+
+        <div className="p-8 space-y-5 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          {differing.length === 0 ? (
+            <p className="text-xs font-bold text-slate-500 text-center py-6">Both copies match on every field you edited. Saving will simply confirm them.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4 text-[9px] font-black text-slate-400 uppercase tracking-widest px-1">
+                <span>Your version</span>
+                <span>Saved version</span>
+              </div>
+              {differing.map(field => {
+                const key = String(field.key);
+                return (
+                  <div key={key} className="space-y-2">
+                    <label className="block text-[9px] font-black text-slate-500 uppercase tracking-widest ml-1">{field.label}</label>
+                    <div className="flex gap-4">
+                      <button onClick={() => setChoice({ ...choice, [key]: 'MINE' })} className={sideClass(choice[key] === 'MINE')}>{show(field, mine[field.key])}</button>
+                      <button onClick={() => setChoice({ ...choice, [key]: 'THEIRS' })} className={sideClass(choice[key] === 'THEIRS')}>{show(field, theirs[field.key])}</button>
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex flex-col md:flex-row justify-between items-center gap-4">
+          <div className="flex space-x-2">
+            <button onClick={() => pickAll('MINE')} className="px-4 py-2 rounded-[15px] bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-blue-600 transition-all">All Mine</button>
+            <button onClick={() => pickAll('THEIRS')} className="px-4 py-2 rounded-[15px] bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-blue-600 transition-all">All Theirs</button>
+          </div>
+          <div className="flex space-x-4">
+            <button onClick={onCancel} className="px-6 py-3 font-black text-slate-400 uppercase tracking-widest text-[9px] hover:text-slate-900 dark:hover:text-white transition-colors">Discard My Edit</button>
+            <button onClick={handleResolve} disabled={isSaving} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl flex items-center space-x-2 disabled:opacity-50">
+              {isSaving ? <Loader2 className="animate-spin" size={16} /> : differing.length === 0 ? <Check size={16} /> : <GitMerge size={16} />}
+              <span>Save Merged</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ConflictDialog;
@@ -0,0 +1,122 @@
+
+import React, { useState } from 'react';
+import { db, errorMessage, PAYMENT_MODES } from '../db';
+import { Job, PaymentMode } from '../types';
+import { jobNumber } from '../utils/documents';
+import { roundMoney } from '../utils/money';
+import { X, Loader2, ReceiptText, AlertCircle, Send } from 'lucide-react';
+
+interface CreditNoteDialogProps {
+  job: Job;
+  onClose: () => void;
+  onRaised: () => void;
+}
+
+// Raises a credit note against an invoice. Nothing changes on the invoice
+// until someone who may approve refunds does so from the Credit Notes page.
+const CreditNoteDialog: React.FC<CreditNoteDialogProps> = ({ job, onClose, onRaised }) => {
+  const [cancelInvoice, setCancelInvoice] = useState(false);
+  const [amount, setAmount] = useState(0);
+  const [refundAmount, setRefundAmount] = useState(0);
+  const [refundMode, setRefundMode] = useState<PaymentMode>('CASH');
+  const [refundReference, setRefundReference] = useState('');
+  const [reason, setReason] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const creditable = roundMoney(job.totalAmount - (job.creditedAmount || 0));
+  const credit = cancelInvoice ? roundMoney(job.balance + refundAmount) : amount;
+  const mustRefund = Math.max(0, roundMoney(credit - job.balance));
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      setError("Give the reason for the credit note");
+      return;
+    }
+    setIsWorking(true);
+    setError('');
+    try {
+      await db.creditNotes.request({ jobId: job.id, reason, amount: credit, refundAmount, refundMode, refundReference, cancelInvoice });
+      onRaised();
+    } catch (err) {
+      setError(errorMessage(err, "Could not raise the credit note"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const labelClass = "block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-2";
+  const inputClass = "w-full px-5 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white text-sm font-bold outline-none focus:border-blue-500 transition-all disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md">
+      <div className="bg-white dark:bg-slate-950 w-full max-w-xl rounded-[15px] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in zoom-in duration-300">
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <div className="flex items-center space-x-4">
+            <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><ReceiptText size={20} /></div>
+            <div>
+              <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight">Credit Note</h3>
+              <p className="text-[9px] font-bold text-slate-500 uppercase tracking-[0.2em]">Against {jobNumber(job)} · ₹{job.totalAmount} billed · ₹{job.paidAmount} paid · ₹{job.balance} due</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={isWorking} className="p-2.5 bg-white dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-slate-900 dark:hover:text-white transition-all shadow-sm"><X size={20} /></button>
+        </div>
+
+        <div className="p-8 space-y-6">
+          {error && (
+            <div className="flex items-center space-x-3 p-4 rounded-[15px] bg-rose-50 dark:bg-rose-900/20 text-rose-600 text-xs font-bold">
+              <AlertCircle size={18} className="shrink-0" /><span>{error}</span>
+            </div>
+          )}
+          <label className="flex items-center space-x-3 cursor-pointer">
+            <input type="checkbox" checked={cancelInvoice} onChange={(e) => setCancelInvoice(e.target.checked)} className="w-4 h-4 accent-rose-600" />
+            <span className="text-xs font-black text-slate-700 dark:text-slate-200 uppercase tracking-widest">Cancel the invoice</span>
+          </label>
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <label className={labelClass}>Credit (₹) · up to ₹{creditable}</label>
+              <input type="number" min="0" value={credit} disabled={cancelInvoice} onChange={(e) => setAmount(Number(e.target.value))} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Refund (₹){mustRefund > 0 ? ` · at least ₹${mustRefund}` : ''}</label>
+              <input type="number" min="0" max={job.paidAmount} value={refundAmount} onChange={(e) => setRefundAmount(Number(e.target.value))} className={inputClass} />
+            </div>
+          </div>
+          {refundAmount > 0 && (
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <label className={labelClass}>Refunded By</label>
+                <select value={refundMode} onChange={(e) => setRefundMode(e.target.value as PaymentMode)} className={inputClass}>
+                  {PAYMENT_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Reference</label>
+                <input type="text" value={refundReference} onChange={(e) => setRefundReference(e.target.value)} className={inputClass} placeholder={refundMode === 'CASH' ? 'Optional' : 'Txn / Ref No.'} />
+              </div>
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>Reason *</label>
+            <textarea value={reason} onChange={(e) => setReason(e.target.value)} className={`${inputClass} min-h-[90px] resize-none font-medium`} placeholder="e.g. Application rejected by the portal" />
+          </div>
+          {cancelInvoice && (
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              The invoice is kept but marked cancelled; ₹{roundMoney(job.paidAmount - refundAmount)} paid and not refunded stays with the centre.
+            </p>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end space-x-4">
+          <button onClick={onClose} disabled={isWorking} className="px-6 py-3 font-black text-slate-400 uppercase text-[10px] tracking-widest hover:text-slate-900 dark:hover:text-white transition-colors">Discard</button>
+          <button onClick={handleSubmit} disabled={isWorking} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl active:scale-95 disabled:opacity-50">
+            {isWorking ? <Loader2 className="animate-spin" size={18} /> : <Send size={18} />}
+            <span>Send for Approval</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreditNoteDialog;
@@ -0,0 +1,28 @@
+
+import React, { useMemo } from 'react';
+import { encodeQr } from '../utils/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// Quiet zone, in modules, that scanners need around the symbol.
+const MARGIN = 4;
+
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 192 }) => {
+  const modules = useMemo(() => encodeQr(value), [value]);
+  const extent = modules.length + MARGIN * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + MARGIN} ${y + MARGIN}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${extent} ${extent}`} shapeRendering="crispEdges" role="img" aria-label="QR code">
+      <rect width={extent} height={extent} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,69 @@
+
+import React, { useState, useEffect } from 'react';
+import { Loader2, History } from 'lucide-react';
+import { AuditEntry } from '../types';
+import AuditChangeList from './AuditChangeList';
+
+export const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  CREATE: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20',
+  UPDATE: 'bg-blue-50 text-blue-600 dark:bg-blue-900/20',
+  DELETE: 'bg-rose-50 text-rose-600 dark:bg-rose-900/20',
+  RESTORE: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20',
+  PURGE: 'bg-slate-900 text-white dark:bg-white dark:text-black',
+  RESET_REQUESTED: 'bg-indigo-50 text-indigo-600 dark:bg-indigo-900/20',
+  RESET_FAILED: 'bg-rose-50 text-rose-600 dark:bg-rose-900/20',
+  RESET_COMPLETED: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20',
+  TWO_FACTOR_ENABLED: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20',
+  TWO_FACTOR_DISABLED: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20',
+  TWO_FACTOR_FAILED: 'bg-rose-50 text-rose-600 dark:bg-rose-900/20',
+  TWO_FACTOR_RECOVERY: 'bg-indigo-50 text-indigo-600 dark:bg-indigo-900/20'
+};
+
+interface RecordHistoryProps {
+  recordId: string;
+  load: (id: string) => Promise<AuditEntry[]>;
+}
+
+// Newest-first timeline of every audited write to one record.
+const RecordHistory: React.FC<RecordHistoryProps> = ({ recordId, load }) => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    load(recordId)
+      .then(rows => { if (!cancelled) setEntries(rows); })
+      .catch(() => { if (!cancelled) setEntries([]); });
+    return () => { cancelled = true; };
+  }, [recordId]);
+
+  if (!entries) {
+    return <div className="py-16 flex justify-center"><Loader2 className="animate-spin text-blue-500" size={32} /></div>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="py-16 flex flex-col items-center space-y-3 text-slate-300 dark:text-slate-700">
+        <History size={40} />
+        <p className="text-[10px] font-black uppercase tracking-widest">No recorded changes yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-4">
+      {entries.map(entry => (
+        <li key={entry.id} className="p-5 rounded-[15px] border border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+            <span className="text-xs font-black text-slate-900 dark:text-white">{entry.actorName || 'System'}</span>
+            <span className="text-[10px] font-bold text-slate-400">{new Date(entry.at).toLocaleString('en-IN')}</span>
+          </div>
+          <AuditChangeList changes={entry.changes} />
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default RecordHistory;
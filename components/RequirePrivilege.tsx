@@ -0,0 +1,19 @@
+
+import React from 'react';
+import { SessionUser, Privilege } from '../types';
+import ForbiddenPage from '../pages/ForbiddenPage';
+
+interface RequirePrivilegeProps {
+  user: SessionUser | null;
+  privilege: Privilege | Privilege[]; // Any one of a list is enough
+  children: React.ReactNode;
+}
+
+// Route guard: renders the page only for users whose role holds the privilege,
+// the 403 page otherwise. The db layer checks the same privileges on every call.
+const RequirePrivilege: React.FC<RequirePrivilegeProps> = ({ user, privilege, children }) => {
+  const needed = Array.isArray(privilege) ? privilege : [privilege];
+  return needed.some(p => user?.role.privileges.includes(p)) ? <>{children}</> : <ForbiddenPage privileges={needed} />;
+};
+
+export default RequirePrivilege;
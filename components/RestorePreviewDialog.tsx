@@ -0,0 +1,127 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, BackupFile, RestoreMode, RestorePlan, errorMessage } from '../db';
+import { X, Loader2, Upload, ShieldCheck, AlertCircle } from 'lucide-react';
+
+interface RestorePreviewDialogProps {
+  backup: BackupFile;
+  onCancel: () => void;
+  onRestored: () => void;
+}
+
+const MODES: { mode: RestoreMode; label: string; hint: string }[] = [
+  { mode: 'MERGE', label: 'Merge', hint: 'Adds and updates records; keeps anything not in the backup' },
+  { mode: 'REPLACE', label: 'Replace', hint: 'Makes every table match the backup exactly' }
+];
+
+// Dry-run preview of a verified backup: per-table adds, updates and deletes for
+// the chosen mode, applied only when confirmed.
+const RestorePreviewDialog: React.FC<RestorePreviewDialogProps> = ({ backup, onCancel, onRestored }) => {
+  const [mode, setMode] = useState<RestoreMode>('MERGE');
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setPlan(null);
+    db.system.planRestore(backup, mode)
+      .then(result => { if (!cancelled) setPlan(result); })
+      .catch(err => { if (!cancelled) setError(errorMessage(err, "Could not compare the backup with this terminal")); });
+    return () => { cancelled = true; };
+  }, [backup, mode]);
+
+  const totals = plan?.tables.reduce(
+    (acc, t) => ({ adds: acc.adds + t.adds.length, updates: acc.updates + t.updates.length, deletes: acc.deletes + t.deletes.length }),
+    { adds: 0, updates: 0, deletes: 0 }
+  );
+  const hasChanges = !!totals && totals.adds + totals.updates + totals.deletes > 0;
+
+  const handleApply = async () => {
+    if (!plan) return;
+    if (totals!.deletes > 0 && !window.confirm(`Replace mode will permanently remove ${totals!.deletes} record(s) that are not in the backup. Continue?`)) return;
+    setIsApplying(true);
+    setError('');
+    try {
+      await db.system.restore(plan);
+      onRestored();
+    } catch (err) {
+      setError(errorMessage(err, "Restore failed and was rolled back"));
+      setIsApplying(false);
+    }
+  };
+
+  const { manifest } = backup;
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md">
+      <div className="bg-white dark:bg-slate-950 w-full max-w-2xl rounded-[15px] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in zoom-in duration-300">
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <div className="flex items-center space-x-4">
+            <div className="bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 p-3 rounded-[15px]"><ShieldCheck size={20} /></div>
+            <div>
+              <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight">Restore Preview</h3>
+              <p className="text-[9px] font-bold text-slate-500 uppercase tracking-[0.2em]">
+                Checksum verified · format v{manifest.version} · {new Date(manifest.createdAt).toLocaleString('en-IN')}{manifest.createdBy ? ` · by ${manifest.createdBy}` : ''}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} disabled={isApplying} className="p-2.5 bg-white dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-slate-900 dark:hover:text-white transition-all shadow-sm"><X size={20} /></button>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          <div className="grid grid-cols-2 gap-4">
+            {MODES.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => setMode(option.mode)}
+                disabled={isApplying}
+                className={`text-left p-4 rounded-[15px] border transition-all ${mode === option.mode ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-slate-100 dark:border-slate-800 hover:border-slate-300 dark:hover:border-slate-600'}`}
+              >
+                <div className="text-xs font-black uppercase tracking-widest text-slate-900 dark:text-white">{option.label}</div>
+                <div className="text-[10px] font-bold text-slate-500 mt-1">{option.hint}</div>
+              </button>
+            ))}
+          </div>
+
+          {!plan ? (
+            <div className="py-10 flex justify-center"><Loader2 className="animate-spin text-blue-500" size={32} /></div>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-[9px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 dark:border-slate-800">
+                <tr><th className="py-3">Table</th><th className="py-3 text-center">Add</th><th className="py-3 text-center">Update</th><th className="py-3 text-center">Delete</th><th className="py-3 text-center">Same</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50 dark:divide-slate-800">
+                {plan.tables.map(t => (
+                  <tr key={t.table} className="text-xs font-bold">
+                    <td className="py-3 font-black text-slate-900 dark:text-white uppercase tracking-widest text-[10px]">{t.table}</td>
+                    <td className="py-3 text-center text-emerald-600">{t.adds.length}</td>
+                    <td className="py-3 text-center text-blue-600">{t.updates.length}</td>
+                    <td className="py-3 text-center text-rose-600">{t.deletes.length}</td>
+                    <td className="py-3 text-center text-slate-400">{t.unchanged}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-3 p-4 rounded-[15px] bg-rose-50 dark:bg-rose-900/20 text-rose-600 text-xs font-bold">
+              <AlertCircle size={18} className="shrink-0" /><span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end space-x-4">
+          <button onClick={onCancel} disabled={isApplying} className="px-6 py-3 font-black text-slate-400 uppercase tracking-widest text-[9px] hover:text-slate-900 dark:hover:text-white transition-colors">Cancel</button>
+          <button onClick={handleApply} disabled={!hasChanges || isApplying} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest hover:bg-emerald-600 hover:text-white transition-all shadow-xl flex items-center space-x-2 disabled:opacity-50">
+            {isApplying ? <Loader2 className="animate-spin" size={16} /> : <Upload size={16} />}
+            <span>{hasChanges ? 'Apply Restore' : 'Nothing to Restore'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestorePreviewDialog;
@@ -0,0 +1,145 @@
+
+import React, { useState } from 'react';
+import { db, errorMessage, ADMIN_ROLE_ID, PERMISSION_ENTITIES, PERMISSION_ACTIONS, ENTITY_LABELS, ACTION_LABELS, OTHER_PRIVILEGES } from '../db';
+import { Role, Privilege } from '../types';
+import { newId } from '../utils/ids';
+import { X, Loader2, Save, KeyRound, AlertCircle, ShieldCheck } from 'lucide-react';
+
+interface RoleEditorDialogProps {
+  role: Role | null; // null creates a new role
+  onClose: () => void;
+  onSaved: (role: Role) => void;
+}
+
+const EMPTY_ROLE: Omit<Role, 'id'> = { name: '', description: '', privileges: [], maxDiscountPercent: 0 };
+
+// Name, discount limit, two-factor requirement and the entity-by-action permission grid of one role.
+// The administrator role's permissions are fixed, so only its two-factor requirement can be edited.
+const RoleEditorDialog: React.FC<RoleEditorDialogProps> = ({ role, onClose, onSaved }) => {
+  const [draft, setDraft] = useState<Omit<Role, 'id'>>(role ? { ...role } : EMPTY_ROLE);
+  const locked = role?.id === ADMIN_ROLE_ID;
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const has = (privilege: Privilege) => draft.privileges.includes(privilege);
+
+  const toggle = (privilege: Privilege) => setDraft({
+    ...draft,
+    privileges: has(privilege) ? draft.privileges.filter(p => p !== privilege) : [...draft.privileges, privilege]
+  });
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      setError('Give the role a name');
+      return;
+    }
+    setIsSaving(true);
+    setError('');
+    try {
+      onSaved(await db.roles.save({ ...draft, id: role?.id ?? newId('role') }));
+    } catch (err) {
+      setError(errorMessage(err, "Could not save the role"));
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-sm font-bold text-slate-900 dark:text-white outline-none focus:border-blue-500 transition-all";
+  const labelClass = "block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2";
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md">
+      <div className="bg-white dark:bg-slate-950 w-full max-w-3xl rounded-[15px] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in zoom-in duration-300">
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <div className="flex items-center space-x-4">
+            <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><KeyRound size={20} /></div>
+            <div>
+              <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight">{role ? 'Edit Role' : 'New Role'}</h3>
+              <p className="text-[9px] font-bold text-slate-500 uppercase tracking-[0.2em]">{locked ? 'Administrator permissions are fixed' : 'Permissions apply to everyone holding the role'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={isSaving} className="p-2.5 bg-white dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-slate-900 dark:hover:text-white transition-all shadow-sm"><X size={20} /></button>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[65vh] overflow-y-auto custom-scrollbar">
+          {error && (
+            <div className="flex items-center space-x-3 p-4 rounded-[15px] bg-rose-50 dark:bg-rose-900/20 text-rose-600 text-xs font-bold">
+              <AlertCircle size={18} className="shrink-0" /><span>{error}</span>
+            </div>
+          )}
+
+          <label className="flex items-center space-x-3 p-4 rounded-[15px] border border-slate-100 dark:border-slate-800 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900 transition-colors">
+            <input type="checkbox" checked={!!draft.requireTwoFactor} onChange={(e) => setDraft({ ...draft, requireTwoFactor: e.target.checked })} className="w-4 h-4 rounded border-slate-300 dark:border-slate-700 text-blue-600 focus:ring-blue-500" />
+            <ShieldCheck size={18} className="text-blue-600 shrink-0" />
+            <span>
+              <span className="block text-[10px] font-black text-slate-600 dark:text-slate-300 uppercase tracking-widest">Require two-factor sign-in</span>
+              <span className="block text-[10px] font-medium text-slate-500 mt-0.5">Holders must set up an authenticator app before they can sign in</span>
+            </span>
+          </label>
+
+          <fieldset disabled={locked} className="space-y-6 disabled:opacity-50">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2"><label className={labelClass}>Role Name</label><input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} placeholder="e.g. Cashier" /></div>
+              <div><label className={labelClass}>Max Discount (%)</label><input type="number" min="0" max="100" value={draft.maxDiscountPercent} onChange={(e) => setDraft({ ...draft, maxDiscountPercent: Math.min(100, Math.max(0, Number(e.target.value))) })} className={`${inputClass} no-spinner`} /></div>
+              <div className="md:col-span-3"><label className={labelClass}>Description</label><input type="text" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} className={inputClass} placeholder="What this role is for" /></div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Record Permissions</label>
+              <div className="rounded-[15px] border border-slate-100 dark:border-slate-800 overflow-hidden">
+                <table className="w-full text-left">
+                  <thead className="bg-slate-50 dark:bg-slate-900/50 text-[9px] font-black text-slate-500 uppercase tracking-widest">
+                    <tr>
+                      <th className="px-5 py-3">Records</th>
+                      {PERMISSION_ACTIONS.map(action => <th key={action} className="px-3 py-3 text-center">{ACTION_LABELS[action]}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                    {PERMISSION_ENTITIES.map(entity => (
+                      <tr key={entity}>
+                        <td className="px-5 py-3 text-xs font-black text-slate-900 dark:text-white">{ENTITY_LABELS[entity]}</td>
+                        {PERMISSION_ACTIONS.map(action => {
+                          const privilege = `${entity}_${action}` as Privilege;
+                          return (
+                            <td key={action} className="px-3 py-3 text-center">
+                              <input type="checkbox" checked={has(privilege)} onChange={() => toggle(privilege)} className="w-4 h-4 rounded border-slate-300 dark:border-slate-700 text-blue-600 focus:ring-blue-500" />
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Other Permissions</label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {OTHER_PRIVILEGES.map(({ privilege, label }) => (
+                  <label key={privilege} className="flex items-center space-x-3 p-3 rounded-[15px] border border-slate-100 dark:border-slate-800 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900 transition-colors">
+                    <input type="checkbox" checked={has(privilege)} onChange={() => toggle(privilege)} className="w-4 h-4 rounded border-slate-300 dark:border-slate-700 text-blue-600 focus:ring-blue-500" />
+                    <span className="text-[10px] font-black text-slate-600 dark:text-slate-300 uppercase tracking-widest">{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="px-8 py-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end space-x-4">
+          <button onClick={onClose} disabled={isSaving} className="px-6 py-3 font-black text-slate-400 uppercase tracking-widest text-[10px] hover:text-slate-900 dark:hover:text-white transition-colors">Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 hover:text-white transition-all shadow-xl active:scale-95 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />}
+            <span>Save Role</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoleEditorDialog;
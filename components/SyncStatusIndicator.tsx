@@ -0,0 +1,112 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, HardDrive, CheckCircle2, Loader2 } from 'lucide-react';
+import { db, SyncState, SyncStatus } from '../db';
+
+const STATUS_META: Record<SyncStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  SYNCED: { label: 'Synced', className: 'text-emerald-600 bg-emerald-50 dark:bg-emerald-900/20 border-emerald-100 dark:border-emerald-900/30', icon: <Cloud size={14} /> },
+  SYNCING: { label: 'Syncing', className: 'text-blue-600 bg-blue-50 dark:bg-blue-900/20 border-blue-100 dark:border-blue-900/30', icon: <Loader2 size={14} className="animate-spin" /> },
+  PENDING: { label: 'Pending', className: 'text-amber-600 bg-amber-50 dark:bg-amber-900/20 border-amber-100 dark:border-amber-900/30', icon: <RefreshCw size={14} /> },
+  OFFLINE: { label: 'Offline', className: 'text-rose-600 bg-rose-50 dark:bg-rose-900/20 border-rose-100 dark:border-rose-900/30', icon: <CloudOff size={14} /> },
+  CONFLICT: { label: 'Conflict', className: 'text-rose-600 bg-rose-50 dark:bg-rose-900/20 border-rose-100 dark:border-rose-900/30', icon: <AlertTriangle size={14} /> },
+  LOCAL_ONLY: { label: 'Local Only', className: 'text-slate-500 bg-slate-50 dark:bg-slate-800 border-slate-100 dark:border-slate-700', icon: <HardDrive size={14} /> }
+};
+
+const SyncStatusIndicator: React.FC = () => {
+  const [state, setState] = useState<SyncState>(db.sync.getState());
+  const [isOpen, setIsOpen] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => db.sync.subscribe(setState), []);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleResolve = async (seq: number | undefined, resolution: 'KEEP_LOCAL' | 'KEEP_REMOTE') => {
+    if (seq === undefined) return;
+    setIsResolving(true);
+    try {
+      await db.sync.resolveConflict(seq, resolution);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const meta = STATUS_META[state.status];
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title={state.lastError || meta.label}
+        className={`hidden sm:flex items-center space-x-2 px-3 py-1.5 rounded-[15px] border shadow-sm transition-all ${meta.className}`}
+      >
+        {meta.icon}
+        <span className="text-[10px] font-black uppercase tracking-widest">{meta.label}</span>
+        {state.pending > 0 && (
+          <span className="text-[8px] font-black bg-white/70 dark:bg-slate-900/70 px-1.5 py-0.5 rounded-full">{state.pending}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-96 bg-white dark:bg-slate-900 rounded-[15px] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden z-50 animate-in fade-in zoom-in duration-200">
+          <div className="p-5 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-800/50">
+            <div>
+              <h3 className="text-sm font-black uppercase tracking-widest text-slate-800 dark:text-white">Cloud Sync</h3>
+              <p className="text-[10px] font-bold text-slate-400 mt-1">
+                {state.lastSyncedAt ? `Last synced ${new Date(state.lastSyncedAt).toLocaleTimeString('en-IN')}` : 'Not synced this session'}
+              </p>
+            </div>
+            {state.status !== 'LOCAL_ONLY' && (
+              <button
+                onClick={() => db.sync.flush()}
+                disabled={!state.online || state.status === 'SYNCING'}
+                className="p-2 rounded-[15px] bg-white dark:bg-slate-800 text-slate-500 hover:text-blue-600 border border-slate-100 dark:border-slate-700 transition-all disabled:opacity-40"
+                title="Sync now"
+              >
+                <RefreshCw size={16} className={state.status === 'SYNCING' ? 'animate-spin' : ''} />
+              </button>
+            )}
+          </div>
+          <div className="p-5 space-y-3 text-xs font-bold text-slate-500 dark:text-slate-400">
+            {state.status === 'LOCAL_ONLY' && <p>Cloud database is not configured. All records stay on this terminal.</p>}
+            {state.status === 'OFFLINE' && <p>Connection lost. Work continues locally and {state.pending} change(s) will upload when the internet returns.</p>}
+            {state.status === 'PENDING' && <p>{state.pending} change(s) waiting to upload.{state.lastError ? ` Last error: ${state.lastError}` : ''}</p>}
+            {state.status === 'SYNCED' && <p className="flex items-center"><CheckCircle2 size={14} className="mr-2 text-emerald-500" /> All changes are saved to the cloud.</p>}
+          </div>
+          {state.conflicts.length > 0 && (
+            <div className="max-h-[320px] overflow-y-auto border-t border-slate-100 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+              {state.conflicts.map(op => (
+                <div key={op.seq} className="p-4 space-y-3">
+                  <div className="flex items-start space-x-3">
+                    <div className="bg-rose-50 dark:bg-rose-900/20 text-rose-600 p-2 rounded-[15px]"><AlertTriangle size={16} /></div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-black text-slate-800 dark:text-slate-100 uppercase truncate">{op.table} #{op.recordId.slice(-6)}</p>
+                      <p className="text-[10px] font-bold text-slate-400 mt-1">
+                        {op.conflict?.remote ? 'Changed on another terminal' : 'Deleted on another terminal'} while this one was offline.
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button disabled={isResolving} onClick={() => handleResolve(op.seq, 'KEEP_LOCAL')} className="flex-1 px-3 py-2 rounded-[15px] bg-slate-900 dark:bg-white text-white dark:text-black text-[9px] font-black uppercase tracking-widest hover:bg-blue-600 hover:text-white transition-all disabled:opacity-50">Keep Mine</button>
+                    <button disabled={isResolving} onClick={() => handleResolve(op.seq, 'KEEP_REMOTE')} className="flex-1 px-3 py-2 rounded-[15px] bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-[9px] font-black uppercase tracking-widest hover:bg-slate-200 dark:hover:bg-slate-700 transition-all disabled:opacity-50">Keep Server</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusIndicator;
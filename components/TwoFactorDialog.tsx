@@ -0,0 +1,123 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, errorMessage, TwoFactorStatus } from '../db';
+import { User } from '../types';
+import TwoFactorSetup, { RecoveryCodeList } from './TwoFactorSetup';
+import { X, Loader2, ShieldCheck, KeyRound, ShieldOff, AlertCircle } from 'lucide-react';
+
+interface TwoFactorDialogProps {
+  user: User; // Always the signed-in user; enrollment is never done for someone else
+  onClose: () => void;
+}
+
+// The signed-in user's own authenticator: set it up, replace the recovery codes or turn it off.
+const TwoFactorDialog: React.FC<TwoFactorDialogProps> = ({ user, onClose }) => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [code, setCode] = useState('');
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    try {
+      setStatus(await db.twoFactor.status(user.id));
+    } catch (err) {
+      setError(errorMessage(err, "Could not load two-factor settings"));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [user.id]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError('');
+    try {
+      await action();
+      setCode('');
+      await load();
+    } catch (err) {
+      setError(errorMessage(err, "Could not update two-factor sign-in"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = () => {
+    if (!window.confirm('Turn off two-factor sign-in? Your password alone will open this account.')) return;
+    run(() => db.twoFactor.disable(user.id, code));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md">
+      <div className="bg-white dark:bg-slate-950 w-full max-w-lg rounded-[15px] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in zoom-in duration-300">
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <div className="flex items-center space-x-4">
+            <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><ShieldCheck size={20} /></div>
+            <div>
+              <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight">Two-Factor Sign-In</h3>
+              <p className="text-[9px] font-bold text-slate-500 uppercase tracking-[0.2em]">{user.username}</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={isWorking} className="p-2.5 bg-white dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-slate-900 dark:hover:text-white transition-all shadow-sm"><X size={20} /></button>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
+          {error && (
+            <div className="flex items-center space-x-3 p-4 rounded-[15px] bg-rose-50 dark:bg-rose-900/20 text-rose-600 text-xs font-bold">
+              <AlertCircle size={18} className="shrink-0" /><span>{error}</span>
+            </div>
+          )}
+          {newCodes ? (
+            <RecoveryCodeList codes={newCodes} onDone={() => setNewCodes(null)} />
+          ) : !status ? (
+            !error && <div className="py-12 flex items-center justify-center"><Loader2 className="animate-spin text-blue-500" size={32} /></div>
+          ) : !status.enabled ? (
+            <TwoFactorSetup userId={user.id} onDone={load} />
+          ) : (
+            <>
+              <div className="p-4 rounded-[15px] border border-emerald-100 dark:border-emerald-900/30 bg-emerald-50 dark:bg-emerald-900/10">
+                <p className="text-xs font-black text-emerald-600 uppercase tracking-widest">Turned on</p>
+                <p className="text-[10px] font-bold text-slate-500 mt-1">
+                  {status.recoveryCodesLeft} recovery code{status.recoveryCodesLeft === 1 ? '' : 's'} left{status.required ? ' · required by your role' : ''}
+                </p>
+              </div>
+              <div>
+                <label className="block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2">Current Code From Your App</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-sm font-black tracking-[0.5em] text-slate-900 dark:text-white outline-none focus:border-blue-500 transition-all"
+                  placeholder="000000"
+                />
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <button
+                  onClick={() => run(async () => setNewCodes(await db.twoFactor.regenerateRecoveryCodes(user.id, code)))}
+                  disabled={isWorking || code.length < 6}
+                  className="flex-1 px-4 py-3 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:text-blue-600 border border-slate-200 dark:border-slate-700 transition-all inline-flex items-center justify-center space-x-2 disabled:opacity-50"
+                >
+                  <KeyRound size={14} /><span>New Recovery Codes</span>
+                </button>
+                <button
+                  onClick={handleDisable}
+                  disabled={isWorking || code.length < 6 || status.required}
+                  title={status.required ? 'Your role requires two-factor sign-in' : undefined}
+                  className="flex-1 px-4 py-3 bg-rose-50 dark:bg-rose-900/20 rounded-[15px] text-[10px] font-black uppercase tracking-widest text-rose-600 border border-rose-100 dark:border-rose-900/30 hover:bg-rose-600 hover:text-white transition-all inline-flex items-center justify-center space-x-2 disabled:opacity-50"
+                >
+                  <ShieldOff size={14} /><span>Turn Off</span>
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorDialog;
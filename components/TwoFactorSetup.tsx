@@ -0,0 +1,126 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, errorMessage, formatSecret } from '../db';
+import QrCode from './QrCode';
+import { Loader2, AlertCircle, ShieldCheck, Copy, CheckCircle2 } from 'lucide-react';
+
+interface RecoveryCodeListProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Shown once, right after the codes are made; only their hashes are kept.
+export const RecoveryCodeList: React.FC<RecoveryCodeListProps> = ({ codes, onDone }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard?.writeText(codes.join('\n'));
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-start space-x-3 p-4 rounded-[15px] bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 text-xs font-bold">
+        <AlertCircle size={18} className="shrink-0" />
+        <span>Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they will not be shown again.</span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {codes.map(code => (
+          <div key={code} className="px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 font-mono text-sm font-bold text-slate-900 dark:text-white text-center tracking-widest">{code}</div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <button type="button" onClick={handleCopy} className="flex items-center space-x-2 text-[10px] font-black text-blue-600 hover:text-blue-700 uppercase tracking-widest transition-colors">
+          {copied ? <CheckCircle2 size={14} /> : <Copy size={14} />}
+          <span>{copied ? 'Copied' : 'Copy Codes'}</span>
+        </button>
+        <button type="button" onClick={onDone} className="bg-emerald-600 text-white px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest hover:bg-emerald-700 transition-all shadow-xl shadow-emerald-500/20">
+          I Saved Them
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface TwoFactorSetupProps {
+  userId: string;
+  onDone: () => void;
+}
+
+// Scan (or type) the key into an authenticator app, prove it with a code, then keep the recovery codes.
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ userId, onDone }) => {
+  const [setup, setSetup] = useState<{ secret: string; url: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    db.twoFactor.begin(userId)
+      .then(setSetup)
+      .catch(err => setError(errorMessage(err, 'Could not start the setup')));
+  }, [userId]);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    try {
+      setRecoveryCodes(await db.twoFactor.confirm(userId, code));
+    } catch (err) {
+      setError(errorMessage(err, 'Could not turn on two-factor sign-in'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (recoveryCodes) return <RecoveryCodeList codes={recoveryCodes} onDone={onDone} />;
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-6 animate-in fade-in duration-500">
+      {error && (
+        <div className="flex items-center space-x-3 p-4 rounded-[15px] bg-rose-50 dark:bg-rose-900/20 text-rose-600 text-xs font-bold">
+          <AlertCircle size={18} className="shrink-0" /><span>{error}</span>
+        </div>
+      )}
+      {!setup ? (
+        !error && <div className="py-12 flex justify-center"><Loader2 className="animate-spin text-blue-600" size={32} /></div>
+      ) : (
+        <>
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-3 bg-white rounded-[15px] border border-slate-200 dark:border-slate-800">
+              <QrCode value={setup.url} />
+            </div>
+            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 text-center">Scan this with Google Authenticator, Microsoft Authenticator or any TOTP app, or type the key in by hand.</p>
+            <div className="px-4 py-2 rounded-[15px] bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 font-mono text-xs font-bold text-slate-900 dark:text-white tracking-widest select-all">{formatSecret(setup.secret)}</div>
+          </div>
+          <div className="space-y-3">
+            <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] ml-2">Code From The App</label>
+            <div className="relative group">
+              <ShieldCheck className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-blue-500 transition-colors" size={20} />
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                className="w-full pl-14 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black tracking-[0.5em] outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all"
+                placeholder="000000"
+                required
+              />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving || code.length < 6}
+            className="w-full bg-emerald-600 text-white py-4 rounded-[15px] font-black text-xs uppercase tracking-[0.2em] hover:bg-emerald-700 transition-all shadow-xl shadow-emerald-500/20 flex items-center justify-center disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="animate-spin" size={20} /> : <span>Turn On Two-Factor</span>}
+          </button>
+        </>
+      )}
+    </form>
+  );
+};
+
+export default TwoFactorSetup;
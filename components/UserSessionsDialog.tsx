@@ -0,0 +1,116 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, errorMessage } from '../db';
+import { User, Session } from '../types';
+import { X, Loader2, MonitorSmartphone, LogOut, AlertCircle } from 'lucide-react';
+
+interface UserSessionsDialogProps {
+  user: User;
+  onClose: () => void;
+  onSignedOutHere: () => void; // This terminal's own session was among those revoked
+}
+
+// Devices a user is currently signed in on, with per-device and all-device sign out.
+const UserSessionsDialog: React.FC<UserSessionsDialogProps> = ({ user, onClose, onSignedOutHere }) => {
+  const [sessions, setSessions] = useState<Session[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const currentId = db.auth.currentSessionId();
+
+  const load = async () => {
+    try {
+      setSessions(await db.auth.sessions(user.id));
+    } catch (err) {
+      setError(errorMessage(err, "Could not load sessions"));
+      setSessions([]);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [user.id]);
+
+  const run = async (action: () => Promise<void>, endsOwnSession: boolean) => {
+    setIsWorking(true);
+    setError('');
+    try {
+      await action();
+      if (endsOwnSession) {
+        onSignedOutHere();
+        return;
+      }
+      await load();
+    } catch (err) {
+      setError(errorMessage(err, "Could not sign the session out"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleLogoutAll = () => {
+    if (!window.confirm(`Sign ${user.username} out of every device?`)) return;
+    run(() => db.auth.logoutAll(user.id), !!sessions?.some(s => s.id === currentId));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md">
+      <div className="bg-white dark:bg-slate-950 w-full max-w-2xl rounded-[15px] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in zoom-in duration-300">
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <div className="flex items-center space-x-4">
+            <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><MonitorSmartphone size={20} /></div>
+            <div>
+              <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight">Active Sessions</h3>
+              <p className="text-[9px] font-bold text-slate-500 uppercase tracking-[0.2em]">{user.username}</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={isWorking} className="p-2.5 bg-white dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-slate-900 dark:hover:text-white transition-all shadow-sm"><X size={20} /></button>
+        </div>
+
+        <div className="p-8 space-y-4 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          {error && (
+            <div className="flex items-center space-x-3 p-4 rounded-[15px] bg-rose-50 dark:bg-rose-900/20 text-rose-600 text-xs font-bold">
+              <AlertCircle size={18} className="shrink-0" /><span>{error}</span>
+            </div>
+          )}
+          {!sessions ? (
+            <div className="py-12 flex items-center justify-center"><Loader2 className="animate-spin text-blue-500" size={32} /></div>
+          ) : sessions.length === 0 ? (
+            <p className="py-12 text-center text-xs font-black text-slate-400 uppercase tracking-widest">Not signed in anywhere</p>
+          ) : sessions.map(session => (
+            <div key={session.id} className="flex items-center justify-between p-4 rounded-[15px] border border-slate-100 dark:border-slate-800">
+              <div>
+                <p className="text-sm font-black text-slate-900 dark:text-white flex items-center space-x-2">
+                  <span>{session.device}</span>
+                  {session.id === currentId && <span className="px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20">This device</span>}
+                </p>
+                <p className="text-[10px] font-bold text-slate-500 mt-1">
+                  Signed in {new Date(session.createdAt).toLocaleString('en-IN')} · last active {new Date(session.lastSeenAt).toLocaleString('en-IN')}
+                </p>
+              </div>
+              <button
+                onClick={() => run(() => db.auth.revokeSession(session.id), session.id === currentId)}
+                disabled={isWorking}
+                className="px-4 py-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-600 border border-slate-200 dark:border-slate-700 transition-all inline-flex items-center space-x-2 disabled:opacity-50"
+              >
+                <LogOut size={14} /><span>Sign Out</span>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-8 py-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end">
+          <button
+            onClick={handleLogoutAll}
+            disabled={isWorking || !sessions?.length}
+            className="bg-rose-600 text-white px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-rose-700 transition-all shadow-xl active:scale-95 disabled:opacity-50"
+          >
+            {isWorking ? <Loader2 className="animate-spin" size={18} /> : <LogOut size={18} />}
+            <span>Log Out All Devices</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserSessionsDialog;
@@ -1,108 +1,1057 @@
 
-import { User, Customer, Service, Job, InventoryItem, CompanySettings } from './types';
-import * as XLSX from 'xlsx';
-import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import { User, SessionUser, Role, Branch, Privilege, PermissionEntity, Customer, Service, Job, Payment, CreditNote, CashDay, CashExpense, InventoryItem, CompanySettings, SoftDeletable, AuditEntry, DocumentType, NumberSeries, Session, PasswordReset, TwoFactor, LoginAttempt, AuditAction, FieldChange } from './types';
+import { LocalStore } from './storage/localStore';
+import { SyncQueue, SyncState, ConflictResolution } from './storage/syncQueue';
+import { StorageAdapter, ChangeEvent } from './storage/storageAdapter';
+import { SupabaseAdapter } from './storage/supabaseAdapter';
+import { MemoryAdapter } from './storage/memoryAdapter';
+import { QueryFilter, QueryOptions, QueryResult, runQuery, dayRange } from './storage/query';
+import { TableCache } from './storage/tableCache';
+import { Rule, validate, UserSchema, BranchSchema, CustomerSchema, ServiceSchema, JobSchema, PaymentSchema, CreditNoteSchema, CashDaySchema, CashExpenseSchema, InventoryItemSchema, CompanySettingsSchema, AuditEntrySchema, SessionSchema, PasswordResetSchema, RoleSchema, TwoFactorSchema, LoginAttemptSchema } from './storage/schema';
+import { diffRecords, auditAction } from './storage/audit';
+import { newId } from './utils/ids';
+import { FieldIssue, DbError, ConflictError, NotFoundError, ValidationError, PermissionError, RateLimitError, toDbError } from './storage/errors';
+import { BackupFile, RestoreMode, RestorePlan, createBackup, parseBackup, diffTable } from './storage/backup';
+import { SnapshotScheduler, SNAPSHOT_STORE, BackupSchedule, SnapshotTrigger } from './storage/snapshots';
+import { MigrationStatus, LATEST_SCHEMA_VERSION, runMigrations, describeMigrations, upgradeRows } from './storage/migrations';
+import { NumberingService, COUNTER_STORE, BLOCK_STORE, DEFAULT_SERIES } from './storage/numbering';
+import { hashPassword, isPasswordHash, verifyPassword, passwordProblem } from './storage/passwords';
+import { Notifier, ConsoleNotifier, WebhookNotifier } from './storage/notifier';
+import { createReset, isUsableReset, codeMatches, recentRequests, takeTerminalRequest, MAX_REQUESTS_PER_ACCOUNT, RESET_CODE_TTL } from './storage/passwordResets';
+import { SessionEnd, TOUCH_INTERVAL, openSession, sessionIdOf, checkSession, isActiveSession, describeDevice } from './storage/sessions';
+import { Lockout, terminalId, normalizeUsername, createAttempt, lockState, findLockouts, MAX_USER_FAILURES, MAX_TERMINAL_FAILURES, FAILURE_WINDOW } from './storage/loginAttempts';
+import { TwoFactorStatus, generateSecret, otpauthUrl, matchTotp, looksLikeRecoveryCode, generateRecoveryCodes, spendRecoveryCode, MAX_TOTP_ATTEMPTS } from './storage/totp';
+import { ADMIN_ROLE_ID, DEFAULT_ROLES, NO_ROLE, effectiveRole, privilegeLabel } from './storage/roles';
+import { BranchScoped, MAIN_BRANCH_ID, DEFAULT_BRANCHES, branchOf, mayUseBranch, branchesFor } from './storage/branches';
+import { CashBook, businessDay, cashDayId, cashBook } from './storage/cashbook';
+import { Earnings, NO_EARNINGS, discountPercent, earnings, ledgerPaid, withPaid } from './utils/jobTotals';
+import { roundMoney } from './utils/money';
+
+export type { SyncState, SyncStatus, ConflictResolution } from './storage/syncQueue';
+export type { QueuedOperation } from './storage/localStore';
+export type { StorageAdapter, ChangeEvent, ChangeType } from './storage/storageAdapter';
+export type { QueryFilter, QueryOptions, QueryResult } from './storage/query';
+export { dayRange, matchesQuery } from './storage/query';
+export { DbError, ValidationError, NotFoundError, ConflictError, OfflineError, PermissionError, RateLimitError, errorMessage } from './storage/errors';
+export type { DbErrorCode, FieldIssue } from './storage/errors';
+export type { BackupFile, BackupManifest, RestoreMode, RestorePlan, TableDiff } from './storage/backup';
+export type { BackupSchedule, LocalSnapshot, SnapshotTrigger } from './storage/snapshots';
+export type { MigrationStatus, MigrationStep } from './storage/migrations';
+export { DEFAULT_SERIES, financialYear, formatNumber } from './storage/numbering';
+export { MIN_PASSWORD_LENGTH, passwordProblem } from './storage/passwords';
+export { SESSION_END_MESSAGES } from './storage/sessions';
+export { formatSecret } from './storage/totp';
+export type { TwoFactorStatus } from './storage/totp';
+export type { Lockout } from './storage/loginAttempts';
+export { ConsoleNotifier, WebhookNotifier } from './storage/notifier';
+export type { Notifier, Notification, NotificationChannel } from './storage/notifier';
+export type { SessionEnd } from './storage/sessions';
+export { ADMIN_ROLE_ID, DEFAULT_ROLE_ID, ENTITY_LABELS, ACTION_LABELS, OTHER_PRIVILEGES, privilegeLabel } from './storage/roles';
+export { PERMISSION_ENTITIES, PERMISSION_ACTIONS, PAYMENT_MODES, CREDIT_NOTE_STATUSES } from './storage/schema';
+export { MAIN_BRANCH_ID, branchOf } from './storage/branches';
+export { businessDay } from './storage/cashbook';
+export type { CashBook } from './storage/cashbook';
+export { SupabaseAdapter, MemoryAdapter };
 
 // --- Database Configuration ---
 const STORES = {
   USERS: 'users',
+  ROLES: 'roles',
+  BRANCHES: 'branches',
   CUSTOMERS: 'customers',
   SERVICES: 'services',
   JOBS: 'jobs',
+  PAYMENTS: 'payments',
+  CREDIT_NOTES: 'credit_notes',
+  CASH_DAYS: 'cash_days',
+  CASH_EXPENSES: 'cash_expenses',
   INVENTORY: 'inventory',
-  SETTINGS: 'settings'
+  SETTINGS: 'settings',
+  AUDIT: 'audit_log',
+  SESSIONS: 'sessions',
+  RESETS: 'password_resets',
+  TWO_FACTOR: 'two_factor',
+  LOGINS: 'login_attempts'
+};
+
+// Every write is checked against these before it touches the mirror or the cloud.
+const SCHEMAS: Record<string, Rule> = {
+  [STORES.USERS]: UserSchema,
+  [STORES.ROLES]: RoleSchema,
+  [STORES.BRANCHES]: BranchSchema,
+  [STORES.CUSTOMERS]: CustomerSchema,
+  [STORES.SERVICES]: ServiceSchema,
+  [STORES.JOBS]: JobSchema,
+  [STORES.PAYMENTS]: PaymentSchema,
+  [STORES.CREDIT_NOTES]: CreditNoteSchema,
+  [STORES.CASH_DAYS]: CashDaySchema,
+  [STORES.CASH_EXPENSES]: CashExpenseSchema,
+  [STORES.INVENTORY]: InventoryItemSchema,
+  [STORES.SETTINGS]: CompanySettingsSchema,
+  [STORES.AUDIT]: AuditEntrySchema,
+  [STORES.SESSIONS]: SessionSchema,
+  [STORES.RESETS]: PasswordResetSchema,
+  [STORES.TWO_FACTOR]: TwoFactorSchema,
+  [STORES.LOGINS]: LoginAttemptSchema
+};
+
+// Tables saved through saveVersioned.
+const VERSIONED = new Set([STORES.JOBS, STORES.CREDIT_NOTES]);
+
+// Tables whose rows go to the trash instead of being erased.
+const TRASHABLE = new Set([STORES.USERS, STORES.CUSTOMERS, STORES.SERVICES, STORES.JOBS, STORES.INVENTORY]);
+
+// Tables whose rows belong to one branch; see storage/branches.ts.
+const BRANCH_SCOPED = [STORES.CUSTOMERS, STORES.JOBS, STORES.PAYMENTS, STORES.CREDIT_NOTES, STORES.CASH_DAYS, STORES.CASH_EXPENSES, STORES.INVENTORY];
+
+// Login sessions, reset codes, authenticator keys and sign-in attempts are
+// credentials: they are neither backed up nor diffed into the audit trail (resets
+// and authenticator changes log their own events, attempts are their own log).
+// A restored install asks for a new enrollment.
+const CREDENTIALS = new Set([STORES.SESSIONS, STORES.RESETS, STORES.TWO_FACTOR, STORES.LOGINS]);
+const BACKED_UP = Object.values(STORES).filter(store => !CREDENTIALS.has(store));
+
+// --- Storage Backend Selection ---
+// VITE_STORAGE_BACKEND=memory runs the ERP without any cloud project.
+const env = (key: string): string => (import.meta as any).env?.[key] || (typeof process !== 'undefined' ? (process.env as any)?.[key] : '') || '';
+
+const SUPABASE_URL = env('VITE_SUPABASE_URL');
+const SUPABASE_ANON_KEY = env('VITE_SUPABASE_ANON_KEY');
+const STORAGE_BACKEND = env('VITE_STORAGE_BACKEND');
+const NOTIFY_WEBHOOK = env('VITE_NOTIFY_WEBHOOK');
+
+const createDefaultAdapter = (): StorageAdapter | null => {
+  if (STORAGE_BACKEND === 'memory') return new MemoryAdapter();
+  if (SUPABASE_URL && SUPABASE_ANON_KEY) return new SupabaseAdapter(SUPABASE_URL, SUPABASE_ANON_KEY);
+  return null;
+};
+
+const SESSION_KEY = 'regal_erp_session';
+const BRANCH_KEY = 'regal_erp_branch';
+
+// The session this terminal is signed in with, once getSession/setSession has checked it.
+let activeSession: Session | null = null;
+let sessionEnd: SessionEnd | null = null;
+let activeUser: SessionUser | null = null;
+// A sign-in whose password was right but which may still owe an authenticator code.
+let pendingSignIn: { userId: string; verified: boolean; attempts: number } | null = null;
+// A key shown for enrollment; it is only stored once a code made from it is accepted.
+let pendingEnrollment: { userId: string; secret: string } | null = null;
+// The branch the signed-in user is working in; null when they are assigned to none.
+let activeBranchId: string | null = null;
+const currentUserId = () => activeSession?.userId ?? null;
+
+// --- Access Control ---
+// The sidebar and routes only hide what a user may not do; these checks make
+// the data layer refuse it as well, whichever page or console the call comes
+// from. Internal work (seeding, scheduled snapshots, sign-in) bypasses them.
+const requirePrivilege = (privilege: Privilege) => {
+  if (!activeUser) throw new PermissionError('Sign in to continue');
+  if (!activeUser.role.privileges.includes(privilege)) {
+    throw new PermissionError(`Your role does not allow you to ${privilegeLabel(privilege).toLowerCase()}`);
+  }
+};
+
+// Any one of several privileges will do; the first is the one named when refused.
+const requireAnyPrivilege = (privileges: Privilege | Privilege[]) => {
+  const options = Array.isArray(privileges) ? privileges : [privileges];
+  if (!options.some(privilege => activeUser?.role.privileges.includes(privilege))) requirePrivilege(options[0]);
 };
 
-// --- Cloud Connectivity (Supabase) ---
-const SUPABASE_URL = (import.meta as any).env?.VITE_SUPABASE_URL || (process.env as any)?.VITE_SUPABASE_URL || '';
-const SUPABASE_ANON_KEY = (import.meta as any).env?.VITE_SUPABASE_ANON_KEY || (process.env as any)?.VITE_SUPABASE_ANON_KEY || '';
+const guarded = <A extends unknown[], R>(privilege: Privilege | Privilege[], action: (...args: A) => Promise<R>) =>
+  async (...args: A): Promise<R> => {
+    requireAnyPrivilege(privilege);
+    return action(...args);
+  };
 
-let supabase: SupabaseClient | null = null;
-if (SUPABASE_URL && SUPABASE_ANON_KEY) {
-  supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+// Watchers are not refused; a table the role may not read simply arrives empty.
+const watchedBy = <T>(privilege: Privilege | Privilege[], listener: (rows: T[]) => void) => (rows: T[]) => {
+  const options = Array.isArray(privilege) ? privilege : [privilege];
+  listener(options.some(p => activeUser?.role.privileges.includes(p)) ? rows : []);
+};
+
+// What each table's readers need. Invoices name their customer and services and
+// reports list all three, so those privileges open them too.
+const READ_JOBS: Privilege[] = ['JOBS_VIEW', 'REPORTS_VIEW'];
+const READ_CUSTOMERS: Privilege[] = ['CUSTOMERS_VIEW', ...READ_JOBS];
+const READ_SERVICES: Privilege[] = ['SERVICES_VIEW', ...READ_JOBS];
+
+// Password hashes never leave the data layer.
+const withoutPassword = <T extends User | null>(user: T): T => {
+  if (!user) return user;
+  const { password: _password, ...rest } = user;
+  return rest as T;
+};
+
+// Users may look after their own sessions; anyone else's need USERS_MANAGE.
+const requireSelfOr = (userId: string, privilege: Privilege) => {
+  if (activeUser?.id !== userId) requirePrivilege(privilege);
+};
+
+// Enrollment belongs to the account holder: either signed in, or halfway through signing in.
+const requireOwner = (userId: string) => {
+  if (activeUser?.id !== userId && pendingSignIn?.userId !== userId) throw new PermissionError('Only the account holder can do this');
+};
+
+// New rows need the entity's CREATE privilege, changes to stored ones its EDIT privilege.
+const requireWrite = async <T extends { id: string }>(table: string, entity: PermissionEntity, id: string): Promise<T | null> => {
+  const stored = await engine.getById<T>(table, id);
+  requirePrivilege(`${entity}_${stored ? 'EDIT' : 'CREATE'}`);
+  return stored;
+};
+
+// --- Branch Scoping ---
+// Signed-in users read and write customers, jobs and inventory of the active
+// branch only. Internal work done before anyone signs in is not filtered.
+// allBranches lifts the filter for consolidated reports.
+interface BranchOptions {
+  allBranches?: boolean;
+}
+
+const filtersBranch = ({ allBranches }: BranchOptions = {}) => {
+  if (allBranches) requirePrivilege('REPORTS_ALL_BRANCHES');
+  return !allBranches && !!activeUser;
+};
+
+const inActiveBranch = <T extends BranchScoped>(rows: T[], options?: BranchOptions): T[] =>
+  filtersBranch(options) ? rows.filter(row => branchOf(row) === activeBranchId) : rows;
+
+const branchQuery = <T extends { id: string }>(table: string, { allBranches, ...options }: QueryOptions & BranchOptions) =>
+  engine.query<T>(table, filtersBranch({ allBranches })
+    ? { ...options, filters: [...(options.filters ?? []), { field: 'branchId', op: 'eq', value: activeBranchId ?? '' }] }
+    : options);
+
+// Changes to other branches' rows are not passed on.
+const branchFeed = <T extends BranchScoped>(callback: (change: ChangeEvent<T>) => void) => (change: ChangeEvent<T>) => {
+  if (!change.record || !activeUser || branchOf(change.record) === activeBranchId) callback(change);
+};
+
+// New rows join the active branch; stored ones stay in theirs, and only someone who may use it can change them.
+const inBranch = <T extends BranchScoped>(row: T, stored: T | null): T => {
+  const branchId = stored ? branchOf(stored) : row.branchId || activeBranchId;
+  if (!branchId || !activeUser || !mayUseBranch(activeUser, branchId)) throw new PermissionError('You are not assigned to this branch');
+  return { ...row, branchId };
+};
+
+// The branch this terminal last worked in if the user may still use it, otherwise their first one.
+const chooseBranch = async (user: User) => {
+  const branches = branchesFor(user, await engine.all<Branch>(STORES.BRANCHES));
+  const remembered = localStorage.getItem(BRANCH_KEY);
+  activeBranchId = (branches.find(branch => branch.id === remembered) ?? branches[0])?.id ?? null;
+};
+
+const SETTINGS_ID = 'current_config';
+// The main branch uses the company row; another branch gets its own once its settings are saved.
+const settingsIdFor = (branchId: string | null) => !branchId || branchId === MAIN_BRANCH_ID ? SETTINGS_ID : `${SETTINGS_ID}:${branchId}`;
+
+// Snapshots, number counters and reserved number blocks live next to the
+// mirror but never go through the sync queue or into backups: counters only
+// move by compare-and-swap, and restoring one could hand out a number twice.
+const local = new LocalStore([...Object.values(STORES), SNAPSHOT_STORE, COUNTER_STORE, BLOCK_STORE]);
+let remote: StorageAdapter | null = createDefaultAdapter();
+// VITE_NOTIFY_WEBHOOK hands reset codes to an email/SMS gateway; otherwise they are printed to the console.
+let notifier: Notifier = NOTIFY_WEBHOOK ? new WebhookNotifier(NOTIFY_WEBHOOK) : new ConsoleNotifier();
+const syncQueue = new SyncQueue(local, remote);
+
+interface ChangeFeed {
+  listeners: Set<(change: ChangeEvent) => void>;
+  detachRemote: (() => void) | null;
 }
 
 class DatabaseEngine {
-  
-  async all<T>(table: string): Promise<T[]> {
-    if (!supabase) return [];
+  private feeds = new Map<string, ChangeFeed>();
+
+  private canReachRemote() {
+    return !!remote && syncQueue.isOnline();
+  }
+
+  // The mirror keeps trashed rows too; callers only see them when they ask.
+  async all<T extends { id: string }>(table: string, { includeDeleted = false } = {}): Promise<T[]> {
+    const visible = (rows: T[]) => includeDeleted ? rows : rows.filter(row => !(row as SoftDeletable).deletedAt);
+    if (this.canReachRemote()) {
+      try {
+        const data = await remote!.all<T>(table);
+        const rows = await syncQueue.overlay(table, data);
+        await local.replaceAll(table, rows);
+        return visible(rows);
+      } catch (err) {
+        console.warn(`Remote read failed for ${table}, serving local mirror:`, err);
+      }
+    }
     try {
-      const { data, error } = await supabase.from(table).select('*');
-      if (error) throw error;
-      return (data as T[]) || [];
+      return visible(await local.all<T>(table));
     } catch (err) {
-      console.error(`Error fetching from ${table}:`, err);
+      console.error(`Error reading local mirror of ${table}:`, err);
       return [];
     }
   }
 
+  // Filtering, ordering and paging run on the server. Offline, the same query is
+  // evaluated against the rows this terminal has mirrored.
+  async query<T extends { id: string }>(table: string, options: QueryOptions = {}): Promise<QueryResult<T>> {
+    // Tables without a trash have no deletedAt column to filter on.
+    if (!TRASHABLE.has(table)) options = { ...options, includeDeleted: true };
+    if (this.canReachRemote()) {
+      try {
+        const result = await remote!.query<T>(table, options);
+        const rows = await syncQueue.patch(table, result.rows);
+        for (const row of rows) await local.put(table, row);
+        return { ...result, rows };
+      } catch (err) {
+        console.warn(`Remote query failed for ${table}, serving local mirror:`, err);
+      }
+    }
+    try {
+      return runQuery(await local.all<T>(table), options);
+    } catch (err) {
+      console.error(`Error querying local mirror of ${table}:`, err);
+      return { rows: [], total: 0, nextCursor: null };
+    }
+  }
+
   async save<T extends { id: string }>(table: string, item: T): Promise<T> {
-    if (!supabase) throw new Error(`Supabase not configured.`);
+    const record = SCHEMAS[table] ? validate<T>(SCHEMAS[table], table, item) : item;
     try {
-      const { error } = await supabase.from(table).upsert(item);
-      if (error) throw error;
-      return item;
+      const existing = await local.get(table, record.id);
+      await local.put(table, record);
+      this.emit({ table, type: existing ? 'UPDATE' : 'INSERT', id: record.id, record });
+      if (remote) await syncQueue.enqueue(table, 'UPSERT', record.id, record, existing);
+      await this.audit(table, record.id, existing, record);
+      if (remote) await syncQueue.flush();
+      return record;
     } catch (err) {
-      console.error(`Error saving to ${table}:`, err);
-      throw err;
+      throw toDbError(err, table, record.id);
+    }
+  }
+
+  // Optimistic concurrency: the caller's copy must carry the version it was
+  // loaded at. If someone saved in between, the write is refused and the newer
+  // copy travels with the ConflictError so the UI can offer a merge.
+  async saveVersioned<T extends { id: string; version?: number }>(table: string, item: T): Promise<T> {
+    const conflict = (current: T | null) =>
+      new ConflictError(table, item.id, `#${item.id.slice(-6).toUpperCase()} was changed by someone else while you were editing`, current);
+    const current = await this.getById<T>(table, item.id);
+    const expected = item.version ?? 0;
+    if (current && (current.version ?? 0) !== expected) throw conflict(current);
+    const next = { ...item, version: expected + 1 };
+
+    // The check above is only a read, so online the cloud makes the write itself
+    // conditional: two terminals saving at once cannot both get through. Rows
+    // still at version 0 from before versioning have nothing to swap on and take
+    // the queued path once; so do writes made offline or behind queued ones.
+    if (this.canReachRemote() && !(current && expected === 0) && !(await syncQueue.pendingFor(table, item.id))) {
+      const record = SCHEMAS[table] ? validate<T & { version: number }>(SCHEMAS[table], table, next) : next;
+      let won: boolean | null = null;
+      try {
+        won = await remote!.saveIfVersion(table, record, expected);
+      } catch (err) {
+        console.warn(`Versioned write to ${table} failed, queueing it instead:`, err);
+      }
+      if (won === false) throw conflict(await this.getById<T>(table, item.id));
+      if (won) return this.mirror(table, record);
     }
+    return this.save(table, next);
+  }
+
+  // A write the cloud has already accepted: the mirror, listeners and audit
+  // trail catch up, but nothing is queued for it.
+  private async mirror<T extends { id: string }>(table: string, record: T): Promise<T> {
+    try {
+      const existing = await local.get(table, record.id);
+      await local.put(table, record);
+      this.emit({ table, type: existing ? 'UPDATE' : 'INSERT', id: record.id, record });
+      await this.audit(table, record.id, existing, record);
+      if (remote) await syncQueue.flush();
+      return record;
+    } catch (err) {
+      throw toDbError(err, table, record.id);
+    }
+  }
+
+  // --- Trash ---
+  // Deleting only stamps the record; it stays restorable until purged. Versioned
+  // tables get a new version so an editor still holding the old copy cannot
+  // silently bring it back.
+  async softDelete<T extends { id: string } & SoftDeletable>(table: string, id: string): Promise<T> {
+    const current = await this.getById<T>(table, id);
+    if (!current || current.deletedAt) throw new NotFoundError(table, id);
+    return this.save<T>(table, this.bump<T>(table, { ...current, deletedAt: new Date().toISOString(), deletedBy: currentUserId() }));
+  }
+
+  async restore<T extends { id: string } & SoftDeletable>(table: string, id: string): Promise<T> {
+    const current = await this.getById<T>(table, id);
+    if (!current?.deletedAt) throw new NotFoundError(table, id);
+    return this.save<T>(table, this.bump<T>(table, { ...current, deletedAt: null, deletedBy: null }));
+  }
+
+  async trash<T extends { id: string }>(table: string): Promise<T[]> {
+    const { rows } = await this.query<T>(table, {
+      filters: [{ field: 'deletedAt', op: 'notNull', value: null }],
+      orderBy: { field: 'deletedAt', direction: 'DESC' },
+      includeDeleted: true
+    });
+    return rows;
+  }
+
+  // Permanent removal is reserved for records already in the trash.
+  async purge(table: string, id: string): Promise<void> {
+    const current = await this.getById<SoftDeletable & { id: string }>(table, id);
+    if (current && !current.deletedAt) {
+      throw new ConflictError(table, id, `#${id.slice(-6).toUpperCase()} must be moved to the trash before it can be purged`);
+    }
+    return this.delete(table, id);
+  }
+
+  private bump<T extends { id: string }>(table: string, record: T): T {
+    const version = (record as { version?: number }).version ?? 0;
+    return VERSIONED.has(table) ? { ...record, version: version + 1 } : record;
   }
 
   async delete(table: string, id: string): Promise<void> {
-    if (!supabase) return;
+    const existing = await local.get(table, id) ?? await this.getById(table, id);
+    if (!existing) throw new NotFoundError(table, id);
     try {
-      const { error } = await supabase.from(table).delete().eq('id', id);
-      if (error) throw error;
+      await local.remove(table, id);
+      this.emit({ table, type: 'DELETE', id, record: null });
+      if (remote) await syncQueue.enqueue(table, 'DELETE', id, null, existing);
+      await this.audit(table, id, existing, null);
+      if (remote) await syncQueue.flush();
     } catch (err) {
-      console.error(`Error deleting from ${table}:`, err);
-      throw err;
+      throw toDbError(err, table, id);
     }
   }
 
-  async getById<T>(table: string, id: string): Promise<T | null> {
-    if (!supabase) return null;
+  // --- Audit Trail ---
+  // Every write leaves an entry naming the logged-in user and the fields it
+  // changed. Entries travel through the same mirror and queue as the record, so
+  // offline edits are attributed too.
+  private async audit(table: string, recordId: string, before: any | null, after: any | null) {
+    if (table === STORES.AUDIT || CREDENTIALS.has(table)) return;
+    const action = auditAction(before, after);
+    const changes = diffRecords(before, after);
+    if (action === 'UPDATE' && changes.length === 0) return;
+    await this.logEvent(table, recordId, action, changes);
+  }
+
+  // An audit entry for something other than a plain write, e.g. a password reset attempt.
+  async logEvent(table: string, recordId: string, action: AuditAction, changes: FieldChange[]) {
+    const actorId = currentUserId();
+    const actor = actorId ? await local.get<User>(STORES.USERS, actorId) : null;
+    const entry: AuditEntry = {
+      id: newId('log'),
+      table,
+      recordId,
+      action,
+      actorId,
+      actorName: actor?.username ?? null,
+      at: new Date().toISOString(),
+      changes
+    };
+    await local.put(STORES.AUDIT, entry);
+    this.emit({ table: STORES.AUDIT, type: 'INSERT', id: entry.id, record: entry });
+    if (remote) await syncQueue.enqueue(STORES.AUDIT, 'UPSERT', entry.id, entry, null);
+  }
+
+  history(table: string, recordId: string): Promise<QueryResult<AuditEntry>> {
+    return this.query<AuditEntry>(STORES.AUDIT, {
+      filters: [{ field: 'table', op: 'eq', value: table }, { field: 'recordId', op: 'eq', value: recordId }],
+      orderBy: { field: 'at', direction: 'DESC' }
+    });
+  }
+
+  async getById<T extends { id: string }>(table: string, id: string): Promise<T | null> {
+    const pending = await syncQueue.pendingFor(table, id);
+    if (pending) return pending.action === 'DELETE' ? null : pending.payload as T;
+
+    if (this.canReachRemote()) {
+      try {
+        const data = await remote!.getById<T>(table, id);
+        if (data) await local.put(table, data);
+        else await local.remove(table, id);
+        return data;
+      } catch (err) {
+        console.warn(`Remote lookup failed for ${table}, serving local mirror:`, err);
+      }
+    }
     try {
-      const { data, error } = await supabase.from(table).select('*').eq('id', id).single();
-      if (error && error.code !== 'PGRST116') throw error;
-      return (data as T) || null;
+      return await local.get<T>(table, id);
     } catch (err) {
       console.error(`Error getting item from ${table}:`, err);
       return null;
     }
   }
 
-  // --- Real-Time Subscription Helper ---
-  subscribe(table: string, callback: () => void): () => void {
-    if (!supabase) return () => {};
-    
-    const channel: RealtimeChannel = supabase
-      .channel(`public:${table}`)
-      .on(
-        'postgres_changes', 
-        { event: '*', schema: 'public', table: table }, 
-        () => {
-          console.debug(`Real-time update received for table: ${table}`);
-          callback();
-        }
-      )
-      .subscribe();
-
+  // --- Real-Time Change Feed ---
+  // Local writes are announced straight away; remote changes arrive through one
+  // adapter subscription per table, however many screens are listening.
+  subscribe<T extends { id: string }>(table: string, callback: (change: ChangeEvent<T>) => void): () => void {
+    let feed = this.feeds.get(table);
+    if (!feed) {
+      feed = { listeners: new Set(), detachRemote: this.attachRemote(table) };
+      this.feeds.set(table, feed);
+    }
+    const listener = callback as (change: ChangeEvent) => void;
+    feed.listeners.add(listener);
     return () => {
-      supabase?.removeChannel(channel);
+      feed!.listeners.delete(listener);
+      if (feed!.listeners.size === 0) {
+        feed!.detachRemote?.();
+        this.feeds.delete(table);
+      }
     };
   }
+
+  // Moves every open feed over to the adapter currently configured.
+  rebindFeeds() {
+    this.feeds.forEach((feed, table) => {
+      feed.detachRemote?.();
+      feed.detachRemote = this.attachRemote(table);
+    });
+  }
+
+  private attachRemote(table: string): (() => void) | null {
+    return remote ? remote.subscribe(table, change => this.emit(change)) : null;
+  }
+
+  private emit(change: ChangeEvent) {
+    this.feeds.get(change.table)?.listeners.forEach(listener => listener(change));
+  }
 }
 
 const engine = new DatabaseEngine();
 
+const cacheFor = <T extends { id: string } & SoftDeletable>(table: string) =>
+  new TableCache<T>(() => engine.all<T>(table), listener => engine.subscribe<T>(table, listener), row => !row.deletedAt);
+
+const caches = {
+  customers: cacheFor<Customer>(STORES.CUSTOMERS),
+  services: cacheFor<Service>(STORES.SERVICES),
+  jobs: cacheFor<Job>(STORES.JOBS),
+  inventory: cacheFor<InventoryItem>(STORES.INVENTORY)
+};
+
+const downloadBackup = (backup: BackupFile) => {
+  const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `regal_erp_backup_${backup.manifest.createdAt.split('T')[0]}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Every table, trashed rows included, in the checksummed backup format.
+const takeSnapshot = async (): Promise<BackupFile> => {
+  const data: BackupFile['data'] = {};
+  for (const storeName of BACKED_UP) {
+    data[storeName] = await engine.all<{ id: string }>(storeName, { includeDeleted: true });
+  }
+  const actorId = currentUserId();
+  const actor = actorId ? await local.get<User>(STORES.USERS, actorId) : null;
+  return createBackup(data, actor?.username ?? null, (await loadSettings())?.schemaVersion ?? 0);
+};
+
+const snapshots = new SnapshotScheduler(local, takeSnapshot);
+const numbering = new NumberingService(local, () => remote, () => syncQueue.isOnline());
+
+type StoredSettings = CompanySettings & { id: string };
+
+const loadSettings = () => engine.getById<StoredSettings>(STORES.SETTINGS, SETTINGS_ID);
+const loadBranchSettings = async () => (await engine.getById<StoredSettings>(STORES.SETTINGS, settingsIdFor(activeBranchId))) ?? loadSettings();
+
+// A password typed into a form arrives in plain text and is hashed here.
+const saveUser = async (user: User) => engine.save(STORES.USERS, user.password && !isPasswordHash(user.password)
+  ? { ...user, password: await hashPassword(user.password) }
+  : user);
+
+// The schema version is owned by the migration runner, never by the form, and lives on the company row only.
+const saveSettings = async (settings: CompanySettings) => {
+  const id = settingsIdFor(activeBranchId);
+  const schemaVersion = id === SETTINGS_ID ? (await loadSettings())?.schemaVersion ?? settings.schemaVersion : undefined;
+  await engine.save(STORES.SETTINGS, { ...settings, id, schemaVersion });
+};
+
+const revokeSessions = async (userId: string) => {
+  const { rows } = await engine.query<Session>(STORES.SESSIONS, { filters: [{ field: 'userId', op: 'eq', value: userId }] });
+  const now = new Date().toISOString();
+  for (const session of rows.filter(row => isActiveSession(row))) await engine.save(STORES.SESSIONS, { ...session, revokedAt: now });
+};
+
+const recordAttempt = (fields: Omit<LoginAttempt, 'id' | 'at' | 'terminalId' | 'device'>) =>
+  engine.save(STORES.LOGINS, createAttempt({ ...fields, terminalId: terminalId(), device: describeDevice() }));
+
+const recentAttempts = async (field: 'username' | 'terminalId', value: string) => {
+  const from = new Date(Date.now() - FAILURE_WINDOW).toISOString();
+  return (await engine.query<LoginAttempt>(STORES.LOGINS, { filters: [{ field, op: 'eq', value }], dateRange: { field: 'at', from } })).rows;
+};
+
+// Refuses the attempt before any password is checked while the username or
+// this terminal is locked out or still waiting out its delay.
+const checkThrottle = async (username: string, userId: string | null) => {
+  const byName = lockState(await recentAttempts('username', username), MAX_USER_FAILURES);
+  const byTerminal = lockState(await recentAttempts('terminalId', terminalId()), MAX_TERMINAL_FAILURES);
+  const lockedUntil = Math.max(byName.lockedUntil ?? 0, byTerminal.lockedUntil ?? 0);
+  if (lockedUntil) {
+    await recordAttempt({ username, userId, outcome: 'LOCKED', reason: byName.lockedUntil ? 'Username locked' : 'Terminal locked' });
+    const time = new Date(lockedUntil).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+    throw new RateLimitError(`Too many failed sign-ins. Try again after ${time} or ask an administrator to unlock`);
+  }
+  const retryAt = Math.max(byName.retryAt ?? 0, byTerminal.retryAt ?? 0);
+  if (retryAt) throw new RateLimitError(`Wait ${Math.ceil((retryAt - Date.now()) / 1000)} seconds before trying again`);
+};
+
+const loadTwoFactor = (userId: string) => engine.getById<TwoFactor>(STORES.TWO_FACTOR, userId);
+
+// The record with the code's step remembered so it cannot be replayed, or null when the code is wrong.
+const acceptTotp = async (record: TwoFactor, code: string): Promise<TwoFactor | null> => {
+  const step = await matchTotp(record.secret, code, record.lastUsedStep);
+  return step === null ? null : engine.save(STORES.TWO_FACTOR, { ...record, lastUsedStep: step });
+};
+
+// Changes to an enrollment need the holder, signed in, and a current code from their app.
+const requireCurrentCode = async (userId: string, code: string): Promise<TwoFactor> => {
+  if (activeUser?.id !== userId) throw new PermissionError('Only the account holder can do this');
+  const record = await loadTwoFactor(userId);
+  if (!record) throw new ConflictError(STORES.TWO_FACTOR, userId, 'Two-factor sign-in is not turned on');
+  const accepted = await acceptTotp(record, code);
+  if (!accepted) throw new PermissionError('That code is not valid. Check the time on your device and try again');
+  return accepted;
+};
+
+const withRole = async (user: User): Promise<SessionUser> => {
+  const role = user.roleId ? await engine.getById<Role>(STORES.ROLES, user.roleId) : null;
+  return { ...withoutPassword(user), role: role ? effectiveRole(role) : { ...NO_ROLE, id: user.roleId } };
+};
+
+// Someone must always hold the administrator role, or no one could repair the others.
+const ensureAdminRemains = async (userId: string, nextRoleId: string | null) => {
+  if (nextRoleId === ADMIN_ROLE_ID) return;
+  const users = await engine.all<User>(STORES.USERS);
+  if (!users.some(u => u.id === userId && u.roleId === ADMIN_ROLE_ID)) return;
+  if (!users.some(u => u.id !== userId && u.roleId === ADMIN_ROLE_ID)) {
+    throw new ConflictError(STORES.USERS, userId, 'At least one active user must keep the Administrator role');
+  }
+};
+
+// Managing users is not managing roles: without ROLES_MANAGE, nobody can hand
+// out a role that does more than their own, or edit (and so reset the password
+// of, or demote) an account that holds one.
+const requireRolesWithin = async (roleIds: (string | null | undefined)[]) => {
+  if (activeUser?.role.privileges.includes('ROLES_MANAGE')) return;
+  for (const roleId of new Set(roleIds.filter(Boolean))) {
+    const role = await engine.getById<Role>(STORES.ROLES, roleId!);
+    if (role && effectiveRole(role).privileges.some(p => !activeUser?.role.privileges.includes(p))) {
+      throw new PermissionError(`Only someone who can manage roles can assign the ${role.name} role or change an account that has it`);
+    }
+  }
+};
+
+const saveRole = async (role: Role) => {
+  if (role.id === ADMIN_ROLE_ID) {
+    // Its privileges are fixed; only whether it demands two-factor sign-in can change.
+    const stored = await engine.getById<Role>(STORES.ROLES, ADMIN_ROLE_ID);
+    if (!stored) throw new NotFoundError(STORES.ROLES, ADMIN_ROLE_ID);
+    role = { ...stored, requireTwoFactor: role.requireTwoFactor };
+  }
+  const roles = await engine.all<Role>(STORES.ROLES);
+  const name = (role.name || '').trim().toLowerCase();
+  if (roles.some(r => r.id !== role.id && r.name.trim().toLowerCase() === name)) {
+    throw new ValidationError(STORES.ROLES, [{ path: 'name', message: 'is already used by another role' }]);
+  }
+  // Only seeding marks a role as built in.
+  const saved = await engine.save(STORES.ROLES, { ...role, builtIn: roles.find(r => r.id === role.id)?.builtIn });
+  if (activeUser?.roleId === saved.id) activeUser = { ...activeUser, role: effectiveRole(saved) };
+  return saved;
+};
+
+// Roles have no trash: one nobody holds can simply be erased.
+const deleteRole = async (id: string) => {
+  const role = await engine.getById<Role>(STORES.ROLES, id);
+  if (!role) throw new NotFoundError(STORES.ROLES, id);
+  if (role.builtIn) throw new ConflictError(STORES.ROLES, id, `${role.name} is a built-in role and cannot be deleted`);
+  const holders = (await engine.all<User>(STORES.USERS, { includeDeleted: true })).filter(u => u.roleId === id).length;
+  if (holders > 0) {
+    throw new ConflictError(STORES.ROLES, id, `${role.name} is still assigned to ${holders} user${holders === 1 ? '' : 's'}. Move them to another role first`);
+  }
+  await engine.delete(STORES.ROLES, id);
+};
+
+const saveBranch = async (branch: Branch) => {
+  const branches = await engine.all<Branch>(STORES.BRANCHES);
+  const issues: FieldIssue[] = [];
+  const same = (a: string, b: string) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+  if (branches.some(b => b.id !== branch.id && same(b.name, branch.name))) issues.push({ path: 'name', message: 'is already used by another branch' });
+  if (branches.some(b => b.id !== branch.id && same(b.code, branch.code))) issues.push({ path: 'code', message: 'is already used by another branch' });
+  if (issues.length > 0) throw new ValidationError(STORES.BRANCHES, issues);
+  return engine.save(STORES.BRANCHES, { ...branch, code: branch.code.trim().toUpperCase() });
+};
+
+// Branches have no trash: one without records or users can simply be erased.
+const deleteBranch = async (id: string) => {
+  const branch = await engine.getById<Branch>(STORES.BRANCHES, id);
+  if (!branch) throw new NotFoundError(STORES.BRANCHES, id);
+  if (id === MAIN_BRANCH_ID) throw new ConflictError(STORES.BRANCHES, id, `${branch.name} is the main branch and cannot be deleted`);
+  let records = 0;
+  for (const table of BRANCH_SCOPED) {
+    records += (await engine.all<BranchScoped & { id: string }>(table, { includeDeleted: true })).filter(row => branchOf(row) === id).length;
+  }
+  if (records > 0) {
+    throw new ConflictError(STORES.BRANCHES, id, `${branch.name} still has ${records} record${records === 1 ? '' : 's'}, including any in the trash`);
+  }
+  const members = (await engine.all<User>(STORES.USERS, { includeDeleted: true })).filter(u => u.branchIds?.includes(id)).length;
+  if (members > 0) {
+    throw new ConflictError(STORES.BRANCHES, id, `${branch.name} is still assigned to ${members} user${members === 1 ? '' : 's'}. Remove it from them first`);
+  }
+  if (await engine.getById(STORES.SETTINGS, settingsIdFor(id))) await engine.delete(STORES.SETTINGS, settingsIdFor(id));
+  await engine.delete(STORES.BRANCHES, id);
+};
+
+// Recording a payment is always allowed on a completed job; anything else needs JOBS_EDIT_COMPLETED.
+const PAYMENT_FIELDS = new Set(['paidAmount', 'balance', 'paymentStatus']);
+
+const saveJob = async (edited: Job) => {
+  const stored = await requireWrite<Job>(STORES.JOBS, 'JOBS', edited.id);
+  if (stored?.cancelledAt) throw new ValidationError(STORES.JOBS, [{ path: 'status', message: 'is cancelled; a cancelled invoice cannot be changed' }]);
+  // Money only moves through the payment ledger and credit notes, whatever the caller sent.
+  const job = withPaid({
+    ...edited,
+    paidBeforeLedger: stored?.paidBeforeLedger,
+    creditedAmount: stored?.creditedAmount,
+    refundedAmount: stored?.refundedAmount,
+    cancelledAt: stored?.cancelledAt
+  }, stored?.paidAmount ?? 0);
+  if (stored?.status === 'COMPLETED' && diffRecords(stored, job).some(change => !PAYMENT_FIELDS.has(change.field))) {
+    requirePrivilege('JOBS_EDIT_COMPLETED');
+  }
+  // A discount already on the invoice may stay when someone with a lower limit edits it.
+  const limit = activeUser!.role.maxDiscountPercent;
+  const percent = discountPercent(job);
+  if (percent > limit && percent > (stored ? discountPercent(stored) : 0)) {
+    throw new PermissionError(`Your role allows discounts up to ${limit}% of the invoice; this one is ${percent.toFixed(1)}%`);
+  }
+  return engine.saveVersioned(STORES.JOBS, inBranch(job, stored));
+};
+
+// Earnings over any number of jobs, read a page at a time so a report over
+// all time never holds the whole table.
+const EARNINGS_PAGE_SIZE = 500;
+
+const jobEarnings = async (options: QueryOptions & BranchOptions = {}): Promise<Earnings> => {
+  let total = NO_EARNINGS;
+  let cursor: string | null = null;
+  do {
+    const page: QueryResult<Job> = await branchQuery<Job>(STORES.JOBS, { ...options, orderBy: { field: 'createdAt', direction: 'ASC' }, limit: EARNINGS_PAGE_SIZE, cursor });
+    total = earnings(page.rows, total);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return total;
+};
+
+// --- Payment Ledger ---
+// Each installment is its own row; a job's paidAmount, balance and payment
+// status are worked out from them after every change. Payments are voided,
+// never deleted, so the till can always be reconciled.
+const paymentsFor = async (jobId: string) =>
+  (await engine.query<Payment>(STORES.PAYMENTS, { filters: [{ field: 'jobId', op: 'eq', value: jobId }], orderBy: { field: 'receivedAt', direction: 'ASC' } })).rows;
+
+const settleJob = async (job: Job) =>
+  engine.saveVersioned(STORES.JOBS, withPaid(job, ledgerPaid(job, await paymentsFor(job.id))));
+
+const loadPayableJob = async (jobId: string) => {
+  const job = await engine.getById<Job>(STORES.JOBS, jobId);
+  if (!job || job.deletedAt) throw new NotFoundError(STORES.JOBS, jobId);
+  if (!mayUseBranch(activeUser!, branchOf(job))) throw new PermissionError('You are not assigned to this branch');
+  return job;
+};
+
+// Whoever may raise or edit an invoice may take money against it.
+const requirePaymentWrite = () => {
+  if (!activeUser?.role.privileges.includes('JOBS_EDIT')) requirePrivilege('JOBS_CREATE');
+};
+
+const recordPayment = async (fields: Pick<Payment, 'jobId' | 'amount' | 'mode' | 'reference'> & { receivedAt?: string }) => {
+  requirePaymentWrite();
+  const job = await loadPayableJob(fields.jobId);
+  if (job.cancelledAt) throw new ValidationError(STORES.PAYMENTS, [{ path: 'jobId', message: 'is a cancelled invoice' }]);
+  const amount = roundMoney(fields.amount);
+  const receivedAt = fields.receivedAt || new Date().toISOString();
+  if (fields.mode === 'CASH') await requireOpenDay(branchOf(job), receivedAt);
+  if (!(amount > 0)) throw new ValidationError(STORES.PAYMENTS, [{ path: 'amount', message: 'must be more than zero' }]);
+  if (amount > job.balance) throw new ValidationError(STORES.PAYMENTS, [{ path: 'amount', message: `is more than the ₹${job.balance} due` }]);
+  const payment = await engine.save<Payment>(STORES.PAYMENTS, {
+    ...fields,
+    amount,
+    id: newId('pay'),
+    receivedAt,
+    receivedBy: activeUser!.id,
+    receivedByName: activeUser!.username,
+    branchId: branchOf(job),
+    voidedAt: null,
+    voidedBy: null
+  });
+  await settleJob(job);
+  return payment;
+};
+
+const voidPayment = async (id: string) => {
+  const payment = await engine.getById<Payment>(STORES.PAYMENTS, id);
+  if (!payment) throw new NotFoundError(STORES.PAYMENTS, id);
+  if (payment.voidedAt) return payment;
+  const job = await loadPayableJob(payment.jobId);
+  if (job.cancelledAt) throw new ValidationError(STORES.PAYMENTS, [{ path: 'jobId', message: 'is a cancelled invoice' }]);
+  if (payment.mode === 'CASH') await requireOpenDay(branchOf(job), payment.receivedAt);
+  const voided = await engine.save<Payment>(STORES.PAYMENTS, { ...payment, voidedAt: new Date().toISOString(), voidedBy: currentUserId() });
+  await settleJob(job);
+  return voided;
+};
+
+// An invoice with money on it is settled by a credit note instead, so the record stays.
+const deleteJob = async (id: string) => {
+  const job = await engine.getById<Job>(STORES.JOBS, id);
+  if (job?.cancelledAt) throw new ValidationError(STORES.JOBS, [{ path: 'status', message: 'is cancelled; cancelled invoices are kept' }]);
+  if (job && job.paidAmount > 0) throw new ValidationError(STORES.JOBS, [{ path: 'paidAmount', message: 'is not zero; cancel the invoice with a credit note instead' }]);
+  return engine.softDelete<Job>(STORES.JOBS, id);
+};
+
+// --- Credit Notes ---
+// Staff who may take payments raise a credit note against an invoice with a
+// reason; it only takes effect when someone with REFUNDS_APPROVE approves it.
+// Approval numbers the note, takes its amount off the invoice and records the
+// refund, which leaves the till; a cancelling note also marks the invoice
+// cancelled. Both the invoice and the note are kept.
+const checkCredit = (job: Job, note: Pick<CreditNote, 'amount' | 'refundAmount' | 'cancelInvoice'>) => {
+  const creditable = roundMoney(job.totalAmount - (job.creditedAmount || 0));
+  // Credit beyond what is still owed was already paid, so it has to go back.
+  const mustRefund = Math.max(0, roundMoney(note.amount - job.balance));
+  const issues: FieldIssue[] = [];
+  if (!(note.amount > 0) && !note.cancelInvoice) issues.push({ path: 'amount', message: 'must be more than zero' });
+  else if (note.amount > creditable) issues.push({ path: 'amount', message: `is more than the ₹${creditable} left on the invoice` });
+  if (note.refundAmount > Math.min(note.amount, job.paidAmount)) issues.push({ path: 'refundAmount', message: `cannot be more than the credit or the ₹${job.paidAmount} paid` });
+  else if (note.refundAmount < mustRefund) issues.push({ path: 'refundAmount', message: `must be at least ₹${mustRefund}, the part of the credit already paid` });
+  if (issues.length) throw new ValidationError(STORES.CREDIT_NOTES, issues);
+};
+
+// Cancelling keeps what was paid and not refunded, so the invoice ends fully settled.
+const cancellingCredit = (job: Job, refundAmount: number) => roundMoney(job.balance + refundAmount);
+
+const creditNotesFor = async (jobId: string) =>
+  (await engine.query<CreditNote>(STORES.CREDIT_NOTES, { filters: [{ field: 'jobId', op: 'eq', value: jobId }], orderBy: { field: 'requestedAt', direction: 'ASC' } })).rows;
+
+const requestCreditNote = async (fields: Pick<CreditNote, 'jobId' | 'reason' | 'amount' | 'refundAmount' | 'refundMode' | 'refundReference' | 'cancelInvoice'>) => {
+  requirePaymentWrite();
+  const job = await loadPayableJob(fields.jobId);
+  if (job.cancelledAt) throw new ValidationError(STORES.CREDIT_NOTES, [{ path: 'jobId', message: 'is already cancelled' }]);
+  if ((await creditNotesFor(job.id)).some(note => note.status === 'PENDING')) {
+    throw new ValidationError(STORES.CREDIT_NOTES, [{ path: 'jobId', message: 'already has a credit note awaiting approval' }]);
+  }
+  const refundAmount = roundMoney(fields.refundAmount);
+  const amount = fields.cancelInvoice ? cancellingCredit(job, refundAmount) : roundMoney(fields.amount);
+  checkCredit(job, { amount, refundAmount, cancelInvoice: fields.cancelInvoice });
+  return engine.saveVersioned<CreditNote>(STORES.CREDIT_NOTES, {
+    ...fields,
+    amount,
+    refundAmount,
+    id: newId('cn'),
+    status: 'PENDING',
+    requestedAt: new Date().toISOString(),
+    requestedBy: activeUser!.id,
+    requestedByName: activeUser!.username,
+    decidedAt: null,
+    decidedBy: null,
+    decidedByName: null,
+    branchId: branchOf(job)
+  });
+};
+
+const loadPendingNote = async (id: string) => {
+  const note = await engine.getById<CreditNote>(STORES.CREDIT_NOTES, id);
+  if (!note) throw new NotFoundError(STORES.CREDIT_NOTES, id);
+  if (note.status !== 'PENDING') throw new ValidationError(STORES.CREDIT_NOTES, [{ path: 'status', message: `is already ${note.status.toLowerCase()}` }]);
+  return note;
+};
+
+const decided = (note: CreditNote, status: CreditNote['status'], decisionNote = '') => ({
+  ...note,
+  status,
+  decisionNote: decisionNote.trim() || undefined,
+  decidedAt: new Date().toISOString(),
+  decidedBy: activeUser!.id,
+  decidedByName: activeUser!.username
+});
+
+const approveCreditNote = async (id: string, decisionNote?: string) => {
+  const pending = await loadPendingNote(id);
+  const job = await loadPayableJob(pending.jobId);
+  if (job.cancelledAt) throw new ValidationError(STORES.CREDIT_NOTES, [{ path: 'jobId', message: 'is already cancelled' }]);
+  // The invoice may have been paid or changed since the note was raised.
+  const note = pending.cancelInvoice ? { ...pending, amount: cancellingCredit(job, pending.refundAmount) } : pending;
+  checkCredit(job, note);
+  const now = new Date().toISOString();
+  if (note.refundAmount > 0 && note.refundMode === 'CASH') await requireOpenDay(branchOf(job), now);
+  const credited: Job = {
+    ...job,
+    creditedAmount: roundMoney((job.creditedAmount || 0) + note.amount),
+    refundedAmount: roundMoney((job.refundedAmount || 0) + note.refundAmount),
+    updatedAt: now
+  };
+  // The note is numbered and approved before the invoice moves, and put back if
+  // the invoice cannot be saved, so a failed approval never credits it twice.
+  // Both writes are versioned: of two managers deciding at once only one gets
+  // through, and the rollback leaves the note alone once anyone else has moved it.
+  const number = await numbering.next('CREDIT_NOTE', await db.numbering.series('CREDIT_NOTE'));
+  const approved = await engine.saveVersioned<CreditNote>(STORES.CREDIT_NOTES, { ...decided(note, 'APPROVED', decisionNote), number });
+  try {
+    await settleJob(note.cancelInvoice
+      ? { ...credited, status: 'CANCELLED', items: job.items.map(item => ({ ...item, status: 'CANCELLED' })), cancelledAt: now }
+      : credited);
+  } catch (err) {
+    await engine.saveVersioned<CreditNote>(STORES.CREDIT_NOTES, { ...pending, version: approved.version }).catch(rollback => {
+      if (!(rollback instanceof ConflictError)) throw rollback;
+    });
+    throw err;
+  }
+  return approved;
+};
+
+const rejectCreditNote = async (id: string, decisionNote?: string) =>
+  engine.saveVersioned<CreditNote>(STORES.CREDIT_NOTES, decided(await loadPendingNote(id), 'REJECTED', decisionNote));
+
+// --- Cash Book ---
+// See storage/cashbook.ts. Days belong to the active branch; a day has no row
+// until it is opened or closed.
+const requireOpen = (day: CashDay | null) => {
+  if (day?.closedAt) throw new ValidationError(STORES.CASH_DAYS, [{ path: 'date', message: `${day.date} is closed; a manager has to reopen it first` }]);
+};
+
+const requireOpenDay = async (branchId: string, at: string) =>
+  requireOpen(await engine.getById<CashDay>(STORES.CASH_DAYS, cashDayId(branchId, businessDay(at))));
+
+const cashBranch = () => activeBranchId ?? MAIN_BRANCH_ID;
+
+const loadCashBook = async (date: string): Promise<CashBook> => {
+  const branchId = cashBranch();
+  const inBranchOn = (field: string, filters: QueryFilter[] = []): QueryOptions => ({
+    filters: [{ field: 'branchId', op: 'eq', value: branchId }, ...filters],
+    dateRange: { field, ...dayRange(date) },
+    orderBy: { field, direction: 'ASC' }
+  });
+  const [day, previous, payments, refunds, expenses] = await Promise.all([
+    engine.getById<CashDay>(STORES.CASH_DAYS, cashDayId(branchId, date)),
+    engine.query<CashDay>(STORES.CASH_DAYS, {
+      filters: [{ field: 'branchId', op: 'eq', value: branchId }, { field: 'date', op: 'lt', value: date }, { field: 'closedAt', op: 'notNull', value: null }],
+      orderBy: { field: 'date', direction: 'DESC' },
+      limit: 1
+    }),
+    engine.query<Payment>(STORES.PAYMENTS, inBranchOn('receivedAt', [{ field: 'mode', op: 'eq', value: 'CASH' }])),
+    engine.query<CreditNote>(STORES.CREDIT_NOTES, inBranchOn('decidedAt', [{ field: 'status', op: 'eq', value: 'APPROVED' }, { field: 'refundMode', op: 'eq', value: 'CASH' }])),
+    engine.query<CashExpense>(STORES.CASH_EXPENSES, inBranchOn('paidAt'))
+  ]);
+  return cashBook(date, day, previous.rows[0] ?? null, payments.rows, refunds.rows.filter(note => note.refundAmount > 0), expenses.rows);
+};
+
+const openCashDay = async (date: string, openingBalance: number) => {
+  requirePaymentWrite();
+  const branchId = cashBranch();
+  const day = await engine.getById<CashDay>(STORES.CASH_DAYS, cashDayId(branchId, date));
+  requireOpen(day);
+  return engine.save<CashDay>(STORES.CASH_DAYS, {
+    expectedClosing: null,
+    countedClosing: null,
+    variance: null,
+    closingNote: null,
+    closedAt: null,
+    closedBy: null,
+    closedByName: null,
+    ...day,
+    id: cashDayId(branchId, date),
+    branchId,
+    date,
+    openingBalance: roundMoney(openingBalance)
+  });
+};
+
+const closeCashDay = async (date: string, countedClosing: number, closingNote = '') => {
+  requirePaymentWrite();
+  const book = await loadCashBook(date);
+  if (book.day?.closedAt) throw new ValidationError(STORES.CASH_DAYS, [{ path: 'date', message: `${date} is already closed` }]);
+  const counted = roundMoney(countedClosing);
+  return engine.save<CashDay>(STORES.CASH_DAYS, {
+    ...book.day,
+    id: cashDayId(cashBranch(), date),
+    branchId: cashBranch(),
+    date,
+    openingBalance: book.openingBalance,
+    expectedClosing: book.expected,
+    countedClosing: counted,
+    variance: roundMoney(counted - book.expected),
+    closingNote: closingNote.trim() || null,
+    closedAt: new Date().toISOString(),
+    closedBy: activeUser!.id,
+    closedByName: activeUser!.username
+  });
+};
+
+// The old count stays in the audit trail; the day is counted again when it closes.
+const reopenCashDay = async (date: string) => {
+  const day = await engine.getById<CashDay>(STORES.CASH_DAYS, cashDayId(cashBranch(), date));
+  if (!day?.closedAt) throw new ValidationError(STORES.CASH_DAYS, [{ path: 'date', message: `${date} is not closed` }]);
+  return engine.save<CashDay>(STORES.CASH_DAYS, { ...day, expectedClosing: null, countedClosing: null, variance: null, closingNote: null, closedAt: null, closedBy: null, closedByName: null });
+};
+
+const addCashExpense = async (fields: Pick<CashExpense, 'amount' | 'description'>) => {
+  requirePaymentWrite();
+  const paidAt = new Date().toISOString();
+  await requireOpenDay(cashBranch(), paidAt);
+  const amount = roundMoney(fields.amount);
+  if (!(amount > 0)) throw new ValidationError(STORES.CASH_EXPENSES, [{ path: 'amount', message: 'must be more than zero' }]);
+  return engine.save<CashExpense>(STORES.CASH_EXPENSES, {
+    ...fields,
+    amount,
+    id: newId('exp'),
+    paidAt,
+    paidBy: activeUser!.id,
+    paidByName: activeUser!.username,
+    branchId: cashBranch(),
+    voidedAt: null,
+    voidedBy: null
+  });
+};
+
+const voidCashExpense = async (id: string) => {
+  const expense = await engine.getById<CashExpense>(STORES.CASH_EXPENSES, id);
+  if (!expense) throw new NotFoundError(STORES.CASH_EXPENSES, id);
+  if (expense.voidedAt) return expense;
+  if (!mayUseBranch(activeUser!, branchOf(expense))) throw new PermissionError('You are not assigned to this branch');
+  await requireOpenDay(branchOf(expense), expense.paidAt);
+  return engine.save<CashExpense>(STORES.CASH_EXPENSES, { ...expense, voidedAt: new Date().toISOString(), voidedBy: currentUserId() });
+};
+
+// Result of the last migration run on this terminal; null until one has run.
+let lastMigration: MigrationStatus | null = null;
+
+const migrate = async (): Promise<MigrationStatus> => {
+  lastMigration = await runMigrations((await loadSettings())?.schemaVersion ?? 0, {
+    rows: table => engine.all(table, { includeDeleted: true }),
+    write: async (table, row) => { await engine.save(table, row); },
+    setVersion: async version => {
+      await engine.save(STORES.SETTINGS, { ...DEFAULT_SETTINGS, ...(await loadSettings()), id: SETTINGS_ID, schemaVersion: version });
+    }
+  });
+  return lastMigration;
+};
+
+// Known to anyone who has read this file, so it can only ever be used to set a new one.
+const DEFAULT_PASSWORD = 'password123';
+
 const DEFAULT_USERS: User[] = [
   {
     id: 'u1',
     username: 'admin',
     email: 'admin@regal-erp.com',
-    password: 'password123',
-    role: 'ADMIN',
-    privileges: ['MANAGE_USERS', 'VIEW_REPORTS', 'MANAGE_CUSTOMERS', 'MANAGE_SERVICES', 'MANAGE_JOBS', 'MANAGE_INVENTORY']
+    password: DEFAULT_PASSWORD,
+    mustChangePassword: true,
+    roleId: ADMIN_ROLE_ID,
+    branchIds: [MAIN_BRANCH_ID]
   }
 ];
 
@@ -117,132 +1066,616 @@ const DEFAULT_SETTINGS: CompanySettings = {
 
 export const db = {
   users: {
-    all: () => engine.all<User>(STORES.USERS),
-    save: (user: User) => engine.save(STORES.USERS, user),
-    delete: (id: string) => engine.delete(STORES.USERS, id),
-    subscribe: (cb: () => void) => engine.subscribe(STORES.USERS, cb)
+    all: guarded(['USERS_MANAGE', 'ROLES_MANAGE'], async (options?: { includeDeleted?: boolean }) =>
+      (await engine.all<User>(STORES.USERS, options)).map(withoutPassword)),
+    // Who is who, for naming the people behind audit entries and trashed rows.
+    names: async (): Promise<Pick<User, 'id' | 'username'>[]> => {
+      if (!activeUser) throw new PermissionError('Sign in to continue');
+      return (await engine.all<User>(STORES.USERS, { includeDeleted: true })).map(({ id, username }) => ({ id, username }));
+    },
+    // A blank password keeps the stored one, since listed users carry none.
+    save: guarded('USERS_MANAGE', async (user: User) => {
+      const stored = await engine.getById<User>(STORES.USERS, user.id);
+      await requireRolesWithin([user.roleId, stored?.roleId]);
+      await ensureAdminRemains(user.id, user.roleId);
+      return withoutPassword(await saveUser({ ...user, password: user.password || stored?.password }));
+    }),
+    delete: guarded('USERS_MANAGE', async (id: string) => {
+      await ensureAdminRemains(id, null);
+      return engine.softDelete<User>(STORES.USERS, id);
+    }),
+    restore: guarded('USERS_MANAGE', (id: string) => engine.restore<User>(STORES.USERS, id)),
+    purge: guarded('TRASH_PURGE', async (id: string) => {
+      await engine.purge(STORES.USERS, id);
+      if (await loadTwoFactor(id)) await engine.delete(STORES.TWO_FACTOR, id);
+    }),
+    trash: guarded('USERS_MANAGE', async () => (await engine.trash<User>(STORES.USERS)).map(withoutPassword)),
+    history: guarded('USERS_MANAGE', (id: string) => engine.history(STORES.USERS, id).then(result => result.rows)),
+    subscribe: (cb: (change: ChangeEvent<User>) => void) => {
+      requirePrivilege('USERS_MANAGE');
+      return engine.subscribe<User>(STORES.USERS, change => cb({ ...change, record: withoutPassword(change.record) }));
+    }
+  },
+  roles: {
+    all: () => engine.all<Role>(STORES.ROLES),
+    save: guarded('ROLES_MANAGE', saveRole),
+    delete: guarded('ROLES_MANAGE', deleteRole),
+    history: guarded('ROLES_MANAGE', (id: string) => engine.history(STORES.ROLES, id).then(result => result.rows)),
+    subscribe: (cb: (change: ChangeEvent<Role>) => void) => engine.subscribe(STORES.ROLES, cb)
+  },
+  // Shop locations and the one this terminal works in; see storage/branches.ts.
+  branches: {
+    all: () => engine.all<Branch>(STORES.BRANCHES),
+    // The branches the signed-in user can switch to.
+    available: async (): Promise<Branch[]> => activeUser ? branchesFor(activeUser, await engine.all<Branch>(STORES.BRANCHES)) : [],
+    active: () => activeBranchId,
+    setActive: async (id: string) => {
+      if (!(await db.branches.available()).some(branch => branch.id === id)) throw new PermissionError('You are not assigned to this branch');
+      activeBranchId = id;
+      localStorage.setItem(BRANCH_KEY, id);
+    },
+    save: guarded('BRANCHES_MANAGE', saveBranch),
+    delete: guarded('BRANCHES_MANAGE', deleteBranch),
+    history: guarded('BRANCHES_MANAGE', (id: string) => engine.history(STORES.BRANCHES, id).then(result => result.rows)),
+    subscribe: (cb: (change: ChangeEvent<Branch>) => void) => engine.subscribe(STORES.BRANCHES, cb)
   },
   customers: {
-    all: () => engine.all<Customer>(STORES.CUSTOMERS),
-    save: (customer: Customer) => engine.save(STORES.CUSTOMERS, customer),
-    delete: (id: string) => engine.delete(STORES.CUSTOMERS, id),
-    subscribe: (cb: () => void) => engine.subscribe(STORES.CUSTOMERS, cb)
+    all: guarded(READ_CUSTOMERS, async (options?: { includeDeleted?: boolean } & BranchOptions) => inActiveBranch(await engine.all<Customer>(STORES.CUSTOMERS, options), options)),
+    query: guarded(READ_CUSTOMERS, (options: QueryOptions & BranchOptions) => branchQuery<Customer>(STORES.CUSTOMERS, options)),
+    save: async (customer: Customer) => {
+      const stored = await requireWrite<Customer>(STORES.CUSTOMERS, 'CUSTOMERS', customer.id);
+      return engine.save(STORES.CUSTOMERS, inBranch(customer, stored));
+    },
+    delete: guarded('CUSTOMERS_DELETE', (id: string) => engine.softDelete<Customer>(STORES.CUSTOMERS, id)),
+    restore: guarded('CUSTOMERS_DELETE', (id: string) => engine.restore<Customer>(STORES.CUSTOMERS, id)),
+    purge: guarded('TRASH_PURGE', (id: string) => engine.purge(STORES.CUSTOMERS, id)),
+    trash: guarded('CUSTOMERS_DELETE', async () => inActiveBranch(await engine.trash<Customer>(STORES.CUSTOMERS))),
+    history: guarded('CUSTOMERS_VIEW', (id: string) => engine.history(STORES.CUSTOMERS, id).then(result => result.rows)),
+    subscribe: (cb: (change: ChangeEvent<Customer>) => void) => engine.subscribe(STORES.CUSTOMERS, branchFeed(cb)),
+    watch: (listener: (rows: Customer[]) => void) => caches.customers.watch(watchedBy(READ_CUSTOMERS, rows => listener(inActiveBranch(rows))))
   },
   services: {
-    all: () => engine.all<Service>(STORES.SERVICES),
-    save: (service: Service) => engine.save(STORES.SERVICES, service),
-    delete: (id: string) => engine.delete(STORES.SERVICES, id),
-    subscribe: (cb: () => void) => engine.subscribe(STORES.SERVICES, cb)
+    all: guarded(READ_SERVICES, (options?: { includeDeleted?: boolean }) => engine.all<Service>(STORES.SERVICES, options)),
+    save: async (service: Service) => {
+      await requireWrite(STORES.SERVICES, 'SERVICES', service.id);
+      if (Number(service.governmentFee || 0) > Number(service.basePrice)) {
+        throw new ValidationError(STORES.SERVICES, [{ path: 'governmentFee', message: 'cannot be more than the base price' }]);
+      }
+      return engine.save(STORES.SERVICES, service);
+    },
+    delete: guarded('SERVICES_DELETE', (id: string) => engine.softDelete<Service>(STORES.SERVICES, id)),
+    restore: guarded('SERVICES_DELETE', (id: string) => engine.restore<Service>(STORES.SERVICES, id)),
+    purge: guarded('TRASH_PURGE', (id: string) => engine.purge(STORES.SERVICES, id)),
+    trash: guarded('SERVICES_DELETE', () => engine.trash<Service>(STORES.SERVICES)),
+    history: guarded('SERVICES_VIEW', (id: string) => engine.history(STORES.SERVICES, id).then(result => result.rows)),
+    subscribe: (cb: (change: ChangeEvent<Service>) => void) => engine.subscribe(STORES.SERVICES, cb),
+    watch: (listener: (rows: Service[]) => void) => caches.services.watch(watchedBy(READ_SERVICES, listener))
   },
   jobs: {
-    all: () => engine.all<Job>(STORES.JOBS),
-    save: (job: Job) => engine.save(STORES.JOBS, job),
-    delete: (id: string) => engine.delete(STORES.JOBS, id),
-    subscribe: (cb: () => void) => engine.subscribe(STORES.JOBS, cb)
+    all: guarded(READ_JOBS, async (options?: { includeDeleted?: boolean } & BranchOptions) => inActiveBranch(await engine.all<Job>(STORES.JOBS, options), options)),
+    query: guarded(READ_JOBS, (options: QueryOptions & BranchOptions) => branchQuery<Job>(STORES.JOBS, options)),
+    earnings: guarded('REPORTS_REVENUE', jobEarnings),
+    save: saveJob,
+    delete: guarded('JOBS_DELETE', deleteJob),
+    restore: guarded('JOBS_DELETE', (id: string) => engine.restore<Job>(STORES.JOBS, id)),
+    purge: guarded('TRASH_PURGE', (id: string) => engine.purge(STORES.JOBS, id)),
+    trash: guarded('JOBS_DELETE', async () => inActiveBranch(await engine.trash<Job>(STORES.JOBS))),
+    history: guarded('JOBS_VIEW', (id: string) => engine.history(STORES.JOBS, id).then(result => result.rows)),
+    subscribe: (cb: (change: ChangeEvent<Job>) => void) => engine.subscribe(STORES.JOBS, branchFeed(cb)),
+    watch: (listener: (rows: Job[]) => void) => caches.jobs.watch(watchedBy(READ_JOBS, rows => listener(inActiveBranch(rows))))
+  },
+  payments: {
+    // Oldest first, voided ones included.
+    forJob: guarded('JOBS_VIEW', paymentsFor),
+    query: guarded('JOBS_VIEW', (options: QueryOptions & BranchOptions) => branchQuery<Payment>(STORES.PAYMENTS, options)),
+    record: recordPayment,
+    void: guarded('JOBS_DELETE', voidPayment),
+    subscribe: (cb: (change: ChangeEvent<Payment>) => void) => engine.subscribe(STORES.PAYMENTS, branchFeed(cb))
+  },
+  cashBook: {
+    get: guarded('JOBS_VIEW', loadCashBook),
+    // Closed and opened days, newest first.
+    days: guarded('JOBS_VIEW', (options: QueryOptions & BranchOptions) => branchQuery<CashDay>(STORES.CASH_DAYS, options)),
+    open: openCashDay,
+    close: closeCashDay,
+    reopen: guarded('CASHBOOK_REOPEN', reopenCashDay),
+    addExpense: addCashExpense,
+    voidExpense: guarded('JOBS_DELETE', voidCashExpense),
+    subscribe: (cb: (change: ChangeEvent<CashDay>) => void) => engine.subscribe(STORES.CASH_DAYS, branchFeed(cb))
+  },
+  creditNotes: {
+    query: guarded('JOBS_VIEW', (options: QueryOptions & BranchOptions) => branchQuery<CreditNote>(STORES.CREDIT_NOTES, options)),
+    forJob: guarded('JOBS_VIEW', creditNotesFor),
+    request: requestCreditNote,
+    approve: guarded('REFUNDS_APPROVE', approveCreditNote),
+    reject: guarded('REFUNDS_APPROVE', rejectCreditNote),
+    subscribe: (cb: (change: ChangeEvent<CreditNote>) => void) => engine.subscribe(STORES.CREDIT_NOTES, branchFeed(cb))
   },
   inventory: {
-    all: () => engine.all<InventoryItem>(STORES.INVENTORY),
-    save: (item: InventoryItem) => engine.save(STORES.INVENTORY, item),
-    delete: (id: string) => engine.delete(STORES.INVENTORY, id),
-    subscribe: (cb: () => void) => engine.subscribe(STORES.INVENTORY, cb)
+    all: guarded('INVENTORY_VIEW', async (options?: { includeDeleted?: boolean } & BranchOptions) => inActiveBranch(await engine.all<InventoryItem>(STORES.INVENTORY, options), options)),
+    save: async (item: InventoryItem) => {
+      const stored = await requireWrite<InventoryItem>(STORES.INVENTORY, 'INVENTORY', item.id);
+      return engine.save(STORES.INVENTORY, inBranch(item, stored));
+    },
+    delete: guarded('INVENTORY_DELETE', (id: string) => engine.softDelete<InventoryItem>(STORES.INVENTORY, id)),
+    restore: guarded('INVENTORY_DELETE', (id: string) => engine.restore<InventoryItem>(STORES.INVENTORY, id)),
+    purge: guarded('TRASH_PURGE', (id: string) => engine.purge(STORES.INVENTORY, id)),
+    trash: guarded('INVENTORY_DELETE', async () => inActiveBranch(await engine.trash<InventoryItem>(STORES.INVENTORY))),
+    history: guarded('INVENTORY_VIEW', (id: string) => engine.history(STORES.INVENTORY, id).then(result => result.rows)),
+    subscribe: (cb: (change: ChangeEvent<InventoryItem>) => void) => engine.subscribe(STORES.INVENTORY, branchFeed(cb)),
+    watch: (listener: (rows: InventoryItem[]) => void) => caches.inventory.watch(watchedBy('INVENTORY_VIEW', rows => listener(inActiveBranch(rows))))
   },
   settings: {
+    // The active branch's settings, or the company's until the branch saves its own.
     get: async (): Promise<CompanySettings> => {
-      const settings = await engine.getById<CompanySettings>(STORES.SETTINGS, 'current_config');
+      const settings = await loadBranchSettings();
       return settings || DEFAULT_SETTINGS;
     },
-    save: async (settings: CompanySettings) => {
-      await engine.save(STORES.SETTINGS, { ...settings, id: 'current_config' });
-    },
-    subscribe: (cb: () => void) => engine.subscribe(STORES.SETTINGS, cb)
+    save: guarded('SETTINGS_MANAGE', saveSettings),
+    subscribe: (cb: (change: ChangeEvent<CompanySettings & { id: string }>) => void) => engine.subscribe(STORES.SETTINGS, cb)
+  },
+  numbering: {
+    series: async (type: DocumentType): Promise<NumberSeries> => ({ ...DEFAULT_SERIES[type], ...(await loadBranchSettings())?.numberSeries?.[type] }),
+    next: async (type: DocumentType, date = new Date()) => numbering.next(type, await db.numbering.series(type), date)
+  },
+  audit: {
+    query: guarded('AUDIT_VIEW', (options: QueryOptions) => engine.query<AuditEntry>(STORES.AUDIT, options)),
+    subscribe: (cb: (change: ChangeEvent<AuditEntry>) => void) => {
+      requirePrivilege('AUDIT_VIEW');
+      return engine.subscribe(STORES.AUDIT, cb);
+    }
   },
   auth: {
-    getSession: async (): Promise<User | null> => {
-      const storedId = localStorage.getItem('regal_erp_session_id');
-      if (!storedId) return null;
-      return engine.getById<User>(STORES.USERS, storedId);
-    },
-    setSession: (user: User | null) => {
-      if (user) {
-        localStorage.setItem('regal_erp_session_id', user.id);
+    getSession: async (): Promise<SessionUser | null> => {
+      const token = localStorage.getItem(SESSION_KEY);
+      const sessionId = sessionIdOf(token);
+      if (!token || !sessionId) return null;
+      const session = await engine.getById<Session>(STORES.SESSIONS, sessionId);
+      const end = await checkSession(session, token);
+      const user = end ? null : await engine.getById<User>(STORES.USERS, session!.userId);
+      if (!user || user.deletedAt) {
+        localStorage.removeItem(SESSION_KEY);
+        activeSession = null;
+        activeUser = null;
+        activeBranchId = null;
+        sessionEnd = end ?? 'REVOKED';
+        return null;
+      }
+      activeSession = session;
+      activeUser = await withRole(user);
+      await chooseBranch(activeUser);
+      return activeUser;
+    },
+    // Starts a session for a user who has just proven who they are, or ends this terminal's session.
+    // Only the user login just accepted qualifies, read back from storage rather than taken as passed in.
+    setSession: async (signingIn: User | null): Promise<SessionUser | null> => {
+      if (signingIn) {
+        const pending = pendingSignIn;
+        if (pending?.userId !== signingIn.id) throw new PermissionError('Sign in with your password first');
+        const user = await engine.getById<User>(STORES.USERS, pending.userId);
+        if (!user || user.deletedAt) throw new NotFoundError(STORES.USERS, pending.userId);
+        if (user.mustChangePassword) throw new PermissionError('Choose a new password to finish signing in');
+        const sessionUser = await withRole(user);
+        if (!pending.verified && (sessionUser.role.requireTwoFactor || await loadTwoFactor(user.id))) {
+          throw new PermissionError('Enter the code from your authenticator app to finish signing in');
+        }
+        pendingSignIn = null;
+        const { session, token } = await openSession(user.id);
+        await engine.save(STORES.SESSIONS, session);
+        // Ended sessions are only kept until the user next signs in.
+        const { rows } = await engine.query<Session>(STORES.SESSIONS, { filters: [{ field: 'userId', op: 'eq', value: user.id }] });
+        for (const old of rows.filter(row => !isActiveSession(row))) await engine.delete(STORES.SESSIONS, old.id);
+        localStorage.setItem(SESSION_KEY, token);
+        activeSession = session;
+        activeUser = sessionUser;
+        sessionEnd = null;
+        await chooseBranch(sessionUser);
+        await recordAttempt({ username: normalizeUsername(user.username), userId: user.id, outcome: 'SUCCESS' });
+        return activeUser;
       } else {
-        localStorage.removeItem('regal_erp_session_id');
+        const session = activeSession;
+        pendingSignIn = null;
+        pendingEnrollment = null;
+        localStorage.removeItem(SESSION_KEY);
+        activeSession = null;
+        activeUser = null;
+        activeBranchId = null;
+        if (session) await engine.save(STORES.SESSIONS, { ...session, revokedAt: new Date().toISOString() });
+        return null;
       }
     },
-    login: async (username: string, password: string): Promise<User | null> => {
-      if (!supabase) return null;
+    // Whether the signed-in user's role grants a privilege; pages use it to hide what would be refused.
+    can: (privilege: Privilege): boolean => !!activeUser?.role.privileges.includes(privilege),
+    // Why the last session ended, for the login screen; read once.
+    takeSessionEnd: (): SessionEnd | null => {
+      const end = sessionEnd;
+      sessionEnd = null;
+      return end;
+    },
+    // Records activity so the idle timeout starts over. Cheap to call on every input.
+    touch: async () => {
+      const session = activeSession;
+      if (!session || Date.now() - Date.parse(session.lastSeenAt) < TOUCH_INTERVAL || !isActiveSession(session)) return;
+      activeSession = { ...session, lastSeenAt: new Date().toISOString() };
+      await engine.save(STORES.SESSIONS, activeSession);
+    },
+    currentSessionId: () => activeSession?.id ?? null,
+    sessions: async (userId: string): Promise<Session[]> => {
+      requireSelfOr(userId, 'USERS_MANAGE');
+      const { rows } = await engine.query<Session>(STORES.SESSIONS, {
+        filters: [{ field: 'userId', op: 'eq', value: userId }],
+        orderBy: { field: 'lastSeenAt', direction: 'DESC' }
+      });
+      return rows.filter(session => isActiveSession(session));
+    },
+    revokeSession: async (sessionId: string) => {
+      const session = await engine.getById<Session>(STORES.SESSIONS, sessionId);
+      if (!session) throw new NotFoundError(STORES.SESSIONS, sessionId);
+      requireSelfOr(session.userId, 'USERS_MANAGE');
+      if (!session.revokedAt) await engine.save(STORES.SESSIONS, { ...session, revokedAt: new Date().toISOString() });
+    },
+    // Sends a reset code to the account's email. Unknown addresses get the same
+    // answer as known ones, so the form cannot be used to discover accounts.
+    requestReset: async (email: string): Promise<void> => {
+      if (!takeTerminalRequest()) throw new RateLimitError('Too many reset requests from this terminal. Try again in an hour');
+      const address = email.trim().toLowerCase();
+      const user = (await engine.all<User>(STORES.USERS)).find(u => u.email?.toLowerCase() === address);
+      if (!user) {
+        await engine.logEvent(STORES.RESETS, address, 'RESET_REQUESTED', [{ field: 'outcome', before: null, after: 'No matching account' }]);
+        return;
+      }
+      const { rows } = await engine.query<PasswordReset>(STORES.RESETS, { filters: [{ field: 'userId', op: 'eq', value: user.id }] });
+      if (recentRequests(rows) >= MAX_REQUESTS_PER_ACCOUNT) {
+        await engine.logEvent(STORES.USERS, user.id, 'RESET_REQUESTED', [{ field: 'outcome', before: null, after: 'Rate limited' }]);
+        return;
+      }
+      const { reset, code } = await createReset(user.id);
+      await engine.save(STORES.RESETS, reset);
       try {
-        const { data, error } = await supabase
-          .from(STORES.USERS)
-          .select('*')
-          .eq('username', username)
-          .eq('password', password)
-          .single();
-        
-        if (error) return null;
-        return data as User;
-      } catch (e) {
+        await notifier.send({
+          channel: 'EMAIL',
+          to: user.email,
+          subject: 'Password reset code',
+          body: `Your password reset code is ${code}. It expires in ${RESET_CODE_TTL / 60000} minutes. If you did not ask for it, ignore this message.`
+        });
+      } catch (err) {
+        await engine.save(STORES.RESETS, { ...reset, usedAt: new Date().toISOString() });
+        await engine.logEvent(STORES.USERS, user.id, 'RESET_REQUESTED', [{ field: 'outcome', before: null, after: 'Delivery failed' }]);
+        throw new DbError('The reset code could not be sent. Try again later', 'UNKNOWN', err);
+      }
+      await engine.logEvent(STORES.USERS, user.id, 'RESET_REQUESTED', [{ field: 'outcome', before: null, after: `Code sent via ${notifier.name}` }]);
+    },
+    // Only the newest code counts, and each wrong guess uses up one of its attempts.
+    resetPassword: async (email: string, code: string, newPassword: string): Promise<void> => {
+      const rejected = new PermissionError('The code is wrong or has expired. Request a new one');
+      const address = email.trim().toLowerCase();
+      const user = (await engine.all<User>(STORES.USERS)).find(u => u.email?.toLowerCase() === address);
+      if (!user) {
+        await engine.logEvent(STORES.RESETS, address, 'RESET_FAILED', [{ field: 'outcome', before: null, after: 'No matching account' }]);
+        throw rejected;
+      }
+      const problem = passwordProblem(newPassword);
+      if (problem) throw new DbError(problem, 'VALIDATION');
+
+      const { rows } = await engine.query<PasswordReset>(STORES.RESETS, {
+        filters: [{ field: 'userId', op: 'eq', value: user.id }],
+        orderBy: { field: 'createdAt', direction: 'DESC' },
+        limit: 1
+      });
+      const reset = rows[0];
+      if (!reset || !isUsableReset(reset)) {
+        await engine.logEvent(STORES.USERS, user.id, 'RESET_FAILED', [{ field: 'outcome', before: null, after: 'No valid code' }]);
+        throw rejected;
+      }
+      if (!(await codeMatches(reset, code))) {
+        await engine.save(STORES.RESETS, { ...reset, attempts: reset.attempts + 1 });
+        await engine.logEvent(STORES.USERS, user.id, 'RESET_FAILED', [{ field: 'attempts', before: reset.attempts, after: reset.attempts + 1 }]);
+        throw rejected;
+      }
+
+      await engine.save(STORES.RESETS, { ...reset, usedAt: new Date().toISOString() });
+      await saveUser({ ...user, password: newPassword, mustChangePassword: false });
+      await revokeSessions(user.id);
+      await engine.logEvent(STORES.USERS, user.id, 'RESET_COMPLETED', [{ field: 'outcome', before: null, after: 'Password replaced; all sessions signed out' }]);
+    },
+    // Every device, this one included, has to sign in again.
+    logoutAll: async (userId: string) => {
+      requireSelfOr(userId, 'USERS_MANAGE');
+      await revokeSessions(userId);
+    },
+    login: async (username: string, password: string): Promise<User | null> => {
+      const users = await engine.all<User>(STORES.USERS);
+      const user = users.find(u => u.username === username);
+      const name = normalizeUsername(username);
+      pendingSignIn = null;
+      await checkThrottle(name, user?.id ?? null);
+      const check = user ? await verifyPassword(password, user.password) : null;
+      if (!user || !check?.valid) {
+        await recordAttempt({ username: name, userId: user?.id ?? null, outcome: 'FAILED', reason: user ? 'Wrong password' : 'Unknown username' });
         return null;
       }
+      pendingSignIn = { userId: user.id, verified: false, attempts: 0 };
+      // Plaintext rows from before hashing are upgraded on their first successful login,
+      // and installs still on the seeded password are made to replace it.
+      const mustChangePassword = user.mustChangePassword || password === DEFAULT_PASSWORD;
+      if (check.needsRehash || mustChangePassword !== !!user.mustChangePassword) {
+        return withoutPassword(await saveUser({ ...user, password: check.needsRehash ? password : user.password, mustChangePassword }));
+      }
+      return withoutPassword(user);
+    },
+    // Only for the account holder, signed in or halfway through signing in. Guesses
+    // at the current password are throttled and recorded like sign-ins.
+    changePassword: async (userId: string, currentPassword: string, newPassword: string): Promise<User> => {
+      requireOwner(userId);
+      const user = await engine.getById<User>(STORES.USERS, userId);
+      if (!user || user.deletedAt) throw new NotFoundError(STORES.USERS, userId);
+      const name = normalizeUsername(user.username);
+      await checkThrottle(name, user.id);
+      if (!(await verifyPassword(currentPassword, user.password)).valid) {
+        await recordAttempt({ username: name, userId: user.id, outcome: 'FAILED', reason: 'Wrong current password' });
+        throw new PermissionError('Current password is incorrect');
+      }
+      await recordAttempt({ username: name, userId: user.id, outcome: 'SUCCESS' });
+      const problem = passwordProblem(newPassword);
+      if (problem) throw new DbError(problem, 'VALIDATION');
+      if (newPassword === DEFAULT_PASSWORD) throw new DbError('The default password cannot be reused', 'VALIDATION');
+      if (newPassword === currentPassword) throw new DbError('Choose a password different from the current one', 'VALIDATION');
+      return withoutPassword(await saveUser({ ...user, password: newPassword, mustChangePassword: false }));
     }
   },
+  // Sign-in attempts and lockouts; see storage/loginAttempts.ts.
+  logins: {
+    history: guarded('AUDIT_VIEW', (options: QueryOptions) => engine.query<LoginAttempt>(STORES.LOGINS, options)),
+    lockouts: guarded('AUDIT_VIEW', async (): Promise<Lockout[]> => {
+      const from = new Date(Date.now() - FAILURE_WINDOW).toISOString();
+      return findLockouts((await engine.query<LoginAttempt>(STORES.LOGINS, { dateRange: { field: 'at', from } })).rows);
+    }),
+    // Lifts the lockout at once; the failures before it stop counting.
+    unlock: guarded('USERS_MANAGE', async (lockout: Pick<Lockout, 'username' | 'terminalId'>) => {
+      await engine.save(STORES.LOGINS, createAttempt({
+        username: lockout.username ?? '',
+        userId: null,
+        terminalId: lockout.terminalId,
+        device: describeDevice(),
+        outcome: 'UNLOCKED',
+        reason: `Unlocked by ${activeUser!.username}`
+      }));
+    }),
+    subscribe: (cb: (change: ChangeEvent<LoginAttempt>) => void) => {
+      requirePrivilege('AUDIT_VIEW');
+      return engine.subscribe(STORES.LOGINS, cb);
+    }
+  },
+  // Authenticator (TOTP) sign-in; see storage/totp.ts.
+  twoFactor: {
+    status: async (userId: string): Promise<TwoFactorStatus> => {
+      if (pendingSignIn?.userId !== userId) requireSelfOr(userId, 'USERS_MANAGE');
+      const user = await engine.getById<User>(STORES.USERS, userId);
+      if (!user) throw new NotFoundError(STORES.USERS, userId);
+      const record = await loadTwoFactor(userId);
+      return { enabled: !!record, required: !!(await withRole(user)).role.requireTwoFactor, recoveryCodesLeft: record?.recoveryCodes.length ?? 0 };
+    },
+    // A fresh key and the otpauth:// link an authenticator app reads from the QR code.
+    begin: async (userId: string): Promise<{ secret: string; url: string }> => {
+      requireOwner(userId);
+      const user = await engine.getById<User>(STORES.USERS, userId);
+      if (!user) throw new NotFoundError(STORES.USERS, userId);
+      if (await loadTwoFactor(userId)) throw new ConflictError(STORES.TWO_FACTOR, userId, 'Two-factor sign-in is already turned on');
+      const secret = generateSecret();
+      pendingEnrollment = { userId, secret };
+      const issuer = (await loadSettings())?.companyName || DEFAULT_SETTINGS.companyName;
+      return { secret, url: otpauthUrl(issuer, user.username, secret) };
+    },
+    // A code from the app proves it holds the key. Returns the recovery codes, shown only this once.
+    confirm: async (userId: string, code: string): Promise<string[]> => {
+      requireOwner(userId);
+      const enrollment = pendingEnrollment;
+      if (enrollment?.userId !== userId) throw new ConflictError(STORES.TWO_FACTOR, userId, 'The setup has expired. Start again');
+      const step = await matchTotp(enrollment.secret, code, 0);
+      if (step === null) throw new DbError('That code did not match. Check the time on your device and try again', 'VALIDATION');
+      const { codes, hashes } = await generateRecoveryCodes(userId);
+      await engine.save(STORES.TWO_FACTOR, { id: userId, secret: enrollment.secret, enabledAt: new Date().toISOString(), lastUsedStep: step, recoveryCodes: hashes });
+      pendingEnrollment = null;
+      if (pendingSignIn?.userId === userId) pendingSignIn = { ...pendingSignIn, verified: true };
+      await engine.logEvent(STORES.USERS, userId, 'TWO_FACTOR_ENABLED', [{ field: 'outcome', before: null, after: 'Authenticator app added' }]);
+      return codes;
+    },
+    // The second step of signing in: a code from the app or one of the recovery codes.
+    // Too many wrong codes and the password has to be entered again.
+    verify: async (userId: string, code: string): Promise<void> => {
+      const pending = pendingSignIn;
+      if (pending?.userId !== userId) throw new PermissionError('Sign in with your password first');
+      const user = await engine.getById<User>(STORES.USERS, userId);
+      const name = normalizeUsername(user?.username ?? '');
+      await checkThrottle(name, userId);
+      const record = await loadTwoFactor(userId);
+      if (record && await acceptTotp(record, code)) {
+        pendingSignIn = { ...pending, verified: true };
+        return;
+      }
+      const spent = record && looksLikeRecoveryCode(code) ? await spendRecoveryCode(record, code) : null;
+      if (record && spent) {
+        await engine.save(STORES.TWO_FACTOR, spent);
+        await engine.logEvent(STORES.USERS, userId, 'TWO_FACTOR_RECOVERY', [{ field: 'recoveryCodes', before: record.recoveryCodes.length, after: spent.recoveryCodes.length }]);
+        pendingSignIn = { ...pending, verified: true };
+        return;
+      }
+      const attempts = pending.attempts + 1;
+      await engine.logEvent(STORES.USERS, userId, 'TWO_FACTOR_FAILED', [{ field: 'attempts', before: pending.attempts, after: attempts }]);
+      await recordAttempt({ username: name, userId, outcome: 'FAILED', reason: 'Wrong authentication code' });
+      if (attempts >= MAX_TOTP_ATTEMPTS) {
+        pendingSignIn = null;
+        throw new RateLimitError('Too many wrong codes. Sign in again');
+      }
+      pendingSignIn = { ...pending, attempts };
+      throw new PermissionError('That code is not valid. Check the time on your device and try again');
+    },
+    // Replaces every recovery code, used or not.
+    regenerateRecoveryCodes: async (userId: string, code: string): Promise<string[]> => {
+      const record = await requireCurrentCode(userId, code);
+      const { codes, hashes } = await generateRecoveryCodes(userId);
+      await engine.save(STORES.TWO_FACTOR, { ...record, recoveryCodes: hashes });
+      return codes;
+    },
+    disable: async (userId: string, code: string): Promise<void> => {
+      await requireCurrentCode(userId, code);
+      if (activeUser?.role.requireTwoFactor) throw new PermissionError('Your role requires two-factor sign-in');
+      await engine.delete(STORES.TWO_FACTOR, userId);
+      await engine.logEvent(STORES.USERS, userId, 'TWO_FACTOR_DISABLED', [{ field: 'outcome', before: null, after: 'Turned off by the account holder' }]);
+    },
+    // For a lost device: the user signs in with their password alone, or sets up again if their role requires it.
+    // False when the user had nothing to reset.
+    reset: guarded('USERS_MANAGE', async (userId: string): Promise<boolean> => {
+      if (!(await loadTwoFactor(userId))) return false;
+      await engine.delete(STORES.TWO_FACTOR, userId);
+      await engine.logEvent(STORES.USERS, userId, 'TWO_FACTOR_DISABLED', [{ field: 'outcome', before: null, after: 'Reset by an administrator' }]);
+      return true;
+    })
+  },
   system: {
-    backup: async () => {
-      const workbook = XLSX.utils.book_new();
-      for (const storeName of Object.values(STORES)) {
-        const data = await engine.all(storeName);
-        const worksheet = XLSX.utils.json_to_sheet(data);
-        XLSX.utils.book_append_sheet(workbook, worksheet, storeName);
-      }
-      const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
-      const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `regal_erp_backup_${new Date().toISOString().split('T')[0]}.xlsx`;
-      link.click();
-      URL.revokeObjectURL(url);
-    },
-    restore: async (file: File): Promise<boolean> => {
-      return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = async (e) => {
+    snapshot: guarded('BACKUP_CREATE', takeSnapshot),
+    backup: guarded('BACKUP_CREATE', async () => downloadBackup(await takeSnapshot())),
+    // Verifies the file and every row in it; nothing is written.
+    readBackup: guarded('BACKUP_RESTORE', async (file: File | Blob): Promise<BackupFile> => {
+      const backup = await parseBackup(await file.text());
+      const issues: FieldIssue[] = [];
+      const data: BackupFile['data'] = {};
+      // Rows from an older schema are upgraded before they are checked, and the
+      // restored settings then record the version they were upgraded to.
+      const fromVersion = backup.manifest.schemaVersion ?? 0;
+      for (const storeName of BACKED_UP) {
+        if (!backup.data[storeName]) continue;
+        let rows = upgradeRows(storeName, backup.data[storeName], fromVersion);
+        if (storeName === STORES.SETTINGS) rows = rows.map(row => ({ ...row, schemaVersion: LATEST_SCHEMA_VERSION }));
+        data[storeName] = [];
+        rows.forEach((row, index) => {
           try {
-            const data = new Uint8Array(e.target?.result as ArrayBuffer);
-            const workbook = XLSX.read(data, { type: 'array' });
-            for (const storeName of Object.values(STORES)) {
-              const sheet = workbook.Sheets[storeName];
-              if (sheet) {
-                const jsonData = XLSX.utils.sheet_to_json(sheet, { defval: null });
-                for (const item of jsonData) await engine.save(storeName, item as any);
-              }
-            }
-            resolve(true);
+            data[storeName].push(validate<{ id: string }>(SCHEMAS[storeName], storeName, row));
           } catch (err) {
-            reject(err);
+            if (!(err instanceof ValidationError)) throw err;
+            issues.push(...err.issues.map(issue => ({ ...issue, path: `${storeName} row ${index + 1}: ${issue.path}` })));
           }
-        };
-        reader.readAsArrayBuffer(file);
-      });
-    }
+        });
+      }
+      if (issues.length > 0) throw new ValidationError('backup', issues);
+      return { manifest: backup.manifest, data };
+    }),
+    // Dry run: what restoring would add, change and (in REPLACE mode) remove per table.
+    planRestore: guarded('BACKUP_RESTORE', async (backup: BackupFile, mode: RestoreMode): Promise<RestorePlan> => {
+      const tables = [];
+      for (const [storeName, rows] of Object.entries(backup.data)) {
+        const current = await engine.all<{ id: string }>(storeName, { includeDeleted: true });
+        tables.push(diffTable(storeName, current, rows, mode));
+      }
+      return { manifest: backup.manifest, mode, tables };
+    }),
+    // Applies a plan all-or-nothing: if any write fails, the ones already made
+    // are undone from the copies taken beforehand.
+    restore: guarded('BACKUP_RESTORE', async (plan: RestorePlan): Promise<void> => {
+      const undo: { table: string; id: string; before: { id: string } | null }[] = [];
+      try {
+        for (const diff of plan.tables) {
+          const current = new Map((await engine.all<{ id: string }>(diff.table, { includeDeleted: true })).map(row => [row.id, row]));
+          for (const row of [...diff.adds, ...diff.updates]) {
+            await engine.save(diff.table, row);
+            undo.push({ table: diff.table, id: row.id, before: current.get(row.id) ?? null });
+          }
+          for (const id of diff.deletes) {
+            await engine.delete(diff.table, id);
+            undo.push({ table: diff.table, id, before: current.get(id) ?? null });
+          }
+        }
+      } catch (err) {
+        for (const step of undo.reverse()) {
+          try {
+            if (step.before) await engine.save(step.table, step.before);
+            else await engine.delete(step.table, step.id);
+          } catch (undoErr) {
+            console.error(`Rollback of ${step.table} #${step.id} failed:`, undoErr);
+          }
+        }
+        const cause = toDbError(err);
+        throw new DbError(`Restore failed and was rolled back: ${cause.message}`, cause.code, err);
+      }
+    })
+  },
+  snapshots: {
+    list: guarded('BACKUP_CREATE', () => snapshots.list()),
+    take: guarded('BACKUP_CREATE', (trigger: SnapshotTrigger = 'MANUAL') => snapshots.take(trigger)),
+    remove: guarded('BACKUP_CREATE', (id: string) => snapshots.remove(id)),
+    download: guarded('BACKUP_CREATE', async (id: string) => {
+      const snapshot = await snapshots.get(id);
+      if (!snapshot) throw new NotFoundError('snapshots', id);
+      downloadBackup(snapshot.backup);
+    }),
+    // Re-verified like an uploaded file before it can be previewed or restored.
+    open: guarded('BACKUP_RESTORE', async (id: string): Promise<BackupFile> => {
+      const snapshot = await snapshots.get(id);
+      if (!snapshot) throw new NotFoundError('snapshots', id);
+      return db.system.readBackup(new Blob([JSON.stringify(snapshot.backup)]));
+    }),
+    getSchedule: () => snapshots.getSchedule(),
+    setSchedule: guarded('BACKUP_CREATE', (schedule: BackupSchedule) => snapshots.setSchedule(schedule))
+  },
+  migrations: {
+    status: async (): Promise<MigrationStatus> => lastMigration ?? describeMigrations((await loadSettings())?.schemaVersion ?? 0),
+    run: guarded('MIGRATIONS_RUN', () => migrate())
+  },
+  sync: {
+    getState: (): SyncState => syncQueue.getState(),
+    subscribe: (listener: (state: SyncState) => void) => syncQueue.subscribe(listener),
+    flush: () => syncQueue.flush(),
+    resolveConflict: (seq: number, resolution: ConflictResolution) => syncQueue.resolveConflict(seq, resolution)
+  },
+  // Swaps the storage backend, e.g. a MemoryAdapter for tests or offline demos.
+  configureNotifier: (next: Notifier) => {
+    notifier = next;
+  },
+  configure: (adapter: StorageAdapter | null) => {
+    remote = adapter;
+    syncQueue.setRemote(adapter);
+    engine.rebindFeeds();
   },
   init: async () => {
-    if (!supabase) {
-      console.warn("Supabase is not initialized. Database will be empty.");
-      return;
+    if (!remote) {
+      console.warn("No storage backend configured. Working from the local mirror only.");
     }
     try {
-      const users = await db.users.all();
-      if (users.length === 0) {
-        for (const u of DEFAULT_USERS) await db.users.save(u);
+      await syncQueue.refresh();
+      // Seeding while the cloud is unreachable would later collide with the real rows.
+      const canSeed = !remote || syncQueue.isOnline();
+      // Roles come first: existing users are pointed at them by the role migration below.
+      const roles = await engine.all<Role>(STORES.ROLES);
+      if (roles.length === 0 && canSeed) {
+        for (const role of DEFAULT_ROLES) await engine.save(STORES.ROLES, role);
+      }
+      const branches = await engine.all<Branch>(STORES.BRANCHES);
+      if (branches.length === 0 && canSeed) {
+        for (const branch of DEFAULT_BRANCHES) await engine.save(STORES.BRANCHES, branch);
+      }
+      // Trashed accounts count, otherwise emptying the user list would re-seed the default admin.
+      const users = await engine.all<User>(STORES.USERS, { includeDeleted: true });
+      if (users.length === 0 && canSeed) {
+        for (const u of DEFAULT_USERS) await saveUser(u);
+      }
+      const currentSettings = await loadSettings();
+      if (!currentSettings && canSeed) {
+        // A new database starts on the latest schema; there is nothing to upgrade.
+        await saveSettings({ ...DEFAULT_SETTINGS, schemaVersion: LATEST_SCHEMA_VERSION });
+      }
+      // Like seeding, upgrading needs the full tables rather than a partial mirror.
+      if (canSeed) {
+        const status = await migrate();
+        if (status.error) console.error(status.error);
       }
-      const currentSettings = await engine.getById(STORES.SETTINGS, 'current_config');
-      if (!currentSettings) {
-        await db.settings.save(DEFAULT_SETTINGS);
+      syncQueue.flush();
+      snapshots.start();
+      for (const type of ['INVOICE', 'CREDIT_NOTE'] as DocumentType[]) {
+        numbering.prepare(type, await db.numbering.series(type)).catch(err => console.warn(`Could not reserve ${type} numbers:`, err));
       }
     } catch (err) {
       console.error("Initialization failed:", err);
     }
   },
-  isCloudActive: () => !!supabase && !!SUPABASE_URL
+  isCloudActive: () => remote?.name === 'supabase'
 };
@@ -0,0 +1,156 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, dayRange, QueryOptions, errorMessage } from '../db';
+import { AuditEntry, User } from '../types';
+import AuditChangeList from '../components/AuditChangeList';
+import { ACTION_STYLES } from '../components/RecordHistory';
+import { History, Loader2, ChevronLeft, ChevronRight, AlertCircle, Filter } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+const ENTITY_LABELS: Record<string, string> = {
+  jobs: 'Jobs & Invoices',
+  customers: 'Customers',
+  services: 'Services',
+  inventory: 'Inventory',
+  users: 'Users',
+  settings: 'Settings'
+};
+
+const AuditLogPage: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [users, setUsers] = useState<Pick<User, 'id' | 'username'>[]>([]);
+  const [actorFilter, setActorFilter] = useState('');
+  const [entityFilter, setEntityFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    db.users.names().then(setUsers);
+  }, []);
+
+  const fetchLog = async () => {
+    setIsLoading(true);
+    setError('');
+    const options: QueryOptions = {
+      filters: [],
+      orderBy: { field: 'at', direction: 'DESC' },
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE
+    };
+    if (actorFilter) options.filters!.push({ field: 'actorId', op: 'eq', value: actorFilter });
+    if (entityFilter) options.filters!.push({ field: 'table', op: 'eq', value: entityFilter });
+    if (fromDate || toDate) {
+      options.dateRange = {
+        field: 'at',
+        from: fromDate ? dayRange(fromDate).from : undefined,
+        to: toDate ? dayRange(toDate).to : undefined
+      };
+    }
+    try {
+      const result = await db.audit.query(options);
+      setEntries(result.rows);
+      setTotal(result.total);
+    } catch (err) {
+      setError(errorMessage(err, "Audit log could not be loaded"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLog();
+  }, [page, actorFilter, entityFilter, fromDate, toDate]);
+
+  // Every filter change starts again from the newest entries.
+  const updateFilter = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setter(e.target.value);
+    setPage(0);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const inputClass = "px-4 py-3 rounded-[15px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white text-xs font-bold outline-none focus:border-blue-500 transition-all shadow-sm";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div className="flex items-center space-x-4">
+          <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><History size={20} /></div>
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">Audit Trail</h2>
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em] mt-1">Who changed what, and when</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Filter size={16} className="text-slate-400" />
+          <select value={actorFilter} onChange={updateFilter(setActorFilter)} className={inputClass}>
+            <option value="">All Users</option>
+            {users.map(u => <option key={u.id} value={u.id}>{u.username}</option>)}
+          </select>
+          <select value={entityFilter} onChange={updateFilter(setEntityFilter)} className={inputClass}>
+            <option value="">All Entities</option>
+            {Object.entries(ENTITY_LABELS).map(([table, label]) => <option key={table} value={table}>{label}</option>)}
+          </select>
+          <input type="date" value={fromDate} onChange={updateFilter(setFromDate)} className={inputClass} title="From" />
+          <input type="date" value={toDate} onChange={updateFilter(setToDate)} className={inputClass} title="To" />
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden overflow-x-auto">
+        {isLoading ? (
+          <div className="py-24 flex items-center justify-center"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+        ) : error ? (
+          <div className="py-24 flex flex-col items-center justify-center space-y-4 text-rose-500">
+            <AlertCircle size={40} />
+            <p className="text-xs font-black uppercase tracking-widest">{error}</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="py-24 flex flex-col items-center justify-center space-y-4 text-slate-300 dark:text-slate-700">
+            <History size={48} />
+            <p className="text-xs font-black uppercase tracking-widest">No audit entries match these filters</p>
+          </div>
+        ) : (
+          <table className="w-full text-left border-collapse min-w-[800px]">
+            <thead>
+              <tr className="bg-slate-50 dark:bg-slate-950/50 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+                <th className="px-8 py-6">When</th>
+                <th className="px-8 py-6">User</th>
+                <th className="px-8 py-6">Action</th>
+                <th className="px-8 py-6">Record</th>
+                <th className="px-8 py-6">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {entries.map(entry => (
+                <tr key={entry.id} className="align-top hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors">
+                  <td className="px-8 py-5 text-xs font-bold text-slate-500 whitespace-nowrap">{new Date(entry.at).toLocaleString('en-IN')}</td>
+                  <td className="px-8 py-5 text-xs font-black text-slate-900 dark:text-white">{entry.actorName || 'System'}</td>
+                  <td className="px-8 py-5"><span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${ACTION_STYLES[entry.action]}`}>{entry.action}</span></td>
+                  <td className="px-8 py-5 whitespace-nowrap">
+                    <div className="text-xs font-black text-slate-900 dark:text-white">{ENTITY_LABELS[entry.table] || entry.table}</div>
+                    <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">#{entry.recordId.slice(-6).toUpperCase()}</div>
+                  </td>
+                  <td className="px-8 py-5 max-w-md"><AuditChangeList changes={entry.changes} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="px-8 py-4 border-t border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{total === 0 ? 'No records' : `${page * PAGE_SIZE + 1}–${page * PAGE_SIZE + entries.length} of ${total}`}</span>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Previous page"><ChevronLeft size={16} /></button>
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Page {page + 1} / {pageCount}</span>
+            <button onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))} disabled={page + 1 >= pageCount} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Next page"><ChevronRight size={16} /></button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogPage;
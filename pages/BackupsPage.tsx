@@ -0,0 +1,186 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, errorMessage, BackupFile, BackupSchedule, LocalSnapshot } from '../db';
+import RestorePreviewDialog from '../components/RestorePreviewDialog';
+import { Archive, Camera, Download, RotateCcw, Trash2, Save, Loader2, CheckCircle2, AlertCircle, Clock } from 'lucide-react';
+
+const BackupsPage: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<LocalSnapshot[]>([]);
+  const [schedule, setSchedule] = useState<BackupSchedule>(db.snapshots.getSchedule());
+  const [pendingRestore, setPendingRestore] = useState<BackupFile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchSnapshots = async () => {
+    try {
+      setSnapshots(await db.snapshots.list());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, []);
+
+  const run = async (task: () => Promise<void>, success: string, failure: string) => {
+    setIsProcessing(true);
+    try {
+      await task();
+      if (success) showToast(success);
+    } catch (err) {
+      showToast(errorMessage(err, failure), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSaveSchedule = () => run(async () => {
+    await db.snapshots.setSchedule(schedule);
+    await fetchSnapshots();
+  }, "Backup schedule saved", "Schedule could not be saved");
+
+  const handleTakeSnapshot = () => run(async () => {
+    await db.snapshots.take();
+    await fetchSnapshots();
+  }, "Snapshot stored on this terminal", "Snapshot failed");
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm('Delete this snapshot from the terminal?')) return;
+    run(async () => {
+      await db.snapshots.remove(id);
+      await fetchSnapshots();
+    }, "Snapshot deleted", "Snapshot could not be deleted");
+  };
+
+  const handleRestore = (id: string) => run(async () => {
+    setPendingRestore(await db.snapshots.open(id));
+  }, '', "Snapshot failed verification");
+
+  const handleRestored = () => {
+    setPendingRestore(null);
+    showToast("Global database restoration complete");
+    setTimeout(() => window.location.reload(), 1000);
+  };
+
+  const rowCount = (snapshot: LocalSnapshot) => Object.values(snapshot.manifest.tables).reduce((sum, n) => sum + n, 0);
+  const inputClass = "w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white text-sm font-bold outline-none focus:border-blue-500 transition-all";
+  const labelClass = "block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-2";
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center pointer-events-none p-4">
+          <div className={`px-10 py-6 rounded-[25px] shadow-2xl animate-in zoom-in duration-300 flex flex-col items-center space-y-4 border-2 pointer-events-auto min-w-[320px] text-center ${
+            toast.type === 'success' ? 'bg-emerald-600 text-white border-emerald-500' : 'bg-rose-500 text-white border-rose-400'
+          }`}>
+            {toast.type === 'success' ? <CheckCircle2 size={48} /> : <AlertCircle size={48} />}
+            <span className="font-black text-xs uppercase tracking-[0.3em] leading-relaxed">{toast.message}</span>
+          </div>
+        </div>
+      )}
+
+      {isProcessing && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm">
+          <div className="bg-white dark:bg-slate-950 p-10 rounded-[15px] shadow-2xl flex flex-col items-center space-y-4 border border-slate-100 dark:border-slate-800">
+            <Loader2 className="animate-spin text-blue-600" size={48} />
+            <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-900 dark:text-white">Processing Backups...</p>
+          </div>
+        </div>
+      )}
+
+      {pendingRestore && (
+        <RestorePreviewDialog backup={pendingRestore} onCancel={() => setPendingRestore(null)} onRestored={handleRestored} />
+      )}
+
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex items-center space-x-4">
+          <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><Archive size={20} /></div>
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">Backup Snapshots</h2>
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em] mt-1">Stored on this terminal</p>
+          </div>
+        </div>
+        <button onClick={handleTakeSnapshot} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 hover:text-white transition-all shadow-xl active:scale-95">
+          <Camera size={18} />
+          <span>Snapshot Now</span>
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 p-8 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl grid grid-cols-2 lg:grid-cols-5 gap-6 items-end">
+        <label className="flex items-center space-x-3 cursor-pointer col-span-2 lg:col-span-1 pb-3">
+          <input type="checkbox" checked={schedule.enabled} onChange={(e) => setSchedule({ ...schedule, enabled: e.target.checked })} className="w-5 h-5 accent-blue-600" />
+          <span className="text-xs font-black text-slate-900 dark:text-white uppercase tracking-widest">Daily Backup</span>
+        </label>
+        <div>
+          <label className={labelClass}>Backup Time</label>
+          <input type="time" value={schedule.time} onChange={(e) => setSchedule({ ...schedule, time: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Keep Daily</label>
+          <input type="number" min="1" value={schedule.keepDaily} onChange={(e) => setSchedule({ ...schedule, keepDaily: Math.max(1, Number(e.target.value)) })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Keep Weekly</label>
+          <input type="number" min="0" value={schedule.keepWeekly} onChange={(e) => setSchedule({ ...schedule, keepWeekly: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </div>
+        <button onClick={handleSaveSchedule} className="px-6 py-3 rounded-[15px] bg-blue-600 text-white font-black text-xs uppercase tracking-widest flex items-center justify-center space-x-2 hover:bg-blue-700 transition-all shadow-lg">
+          <Save size={16} /><span>Save</span>
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden overflow-x-auto">
+        {isLoading ? (
+          <div className="py-24 flex items-center justify-center"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+        ) : snapshots.length === 0 ? (
+          <div className="py-24 flex flex-col items-center justify-center space-y-4 text-slate-300 dark:text-slate-700">
+            <Archive size={48} />
+            <p className="text-xs font-black uppercase tracking-widest">No snapshots on this terminal yet</p>
+          </div>
+        ) : (
+          <table className="w-full text-left border-collapse min-w-[700px]">
+            <thead>
+              <tr className="bg-slate-50 dark:bg-slate-950/50 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+                <th className="px-8 py-6">Taken</th>
+                <th className="px-8 py-6">Trigger</th>
+                <th className="px-8 py-6">Records</th>
+                <th className="px-8 py-6">Checksum</th>
+                <th className="px-8 py-6 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {snapshots.map(snapshot => (
+                <tr key={snapshot.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors">
+                  <td className="px-8 py-5">
+                    <div className="text-sm font-black text-slate-900 dark:text-white">{new Date(snapshot.takenAt).toLocaleString('en-IN')}</div>
+                    {snapshot.manifest.createdBy && <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">by {snapshot.manifest.createdBy}</div>}
+                  </td>
+                  <td className="px-8 py-5">
+                    <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest inline-flex items-center space-x-1 ${snapshot.trigger === 'SCHEDULED' ? 'bg-blue-50 text-blue-600 dark:bg-blue-900/20' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300'}`}>
+                      {snapshot.trigger === 'SCHEDULED' && <Clock size={10} />}<span>{snapshot.trigger}</span>
+                    </span>
+                  </td>
+                  <td className="px-8 py-5 text-sm font-bold text-slate-600 dark:text-slate-300">{rowCount(snapshot)}</td>
+                  <td className="px-8 py-5 text-[10px] font-mono text-slate-400">{snapshot.manifest.checksum.slice(0, 12)}…</td>
+                  <td className="px-8 py-5 text-right space-x-2 whitespace-nowrap">
+                    <button onClick={() => run(() => db.snapshots.download(snapshot.id), '', "Download failed")} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-blue-600 border border-slate-200 dark:border-slate-700 transition-all" title="Download"><Download size={16} /></button>
+                    {db.auth.can('BACKUP_RESTORE') && <button onClick={() => handleRestore(snapshot.id)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-emerald-600 border border-slate-200 dark:border-slate-700 transition-all" title="Restore"><RotateCcw size={16} /></button>}
+                    <button onClick={() => handleDelete(snapshot.id)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-rose-600 border border-slate-200 dark:border-slate-700 transition-all" title="Delete"><Trash2 size={16} /></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupsPage;
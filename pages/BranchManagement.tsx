@@ -0,0 +1,202 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, errorMessage, MAIN_BRANCH_ID } from '../db';
+import { Branch } from '../types';
+import { newId } from '../utils/ids';
+import { Plus, Edit, Trash2, X, Save, Building2, MapPin, Phone, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+
+const EMPTY_BRANCH: Omit<Branch, 'id'> = { name: '', code: '', address: '', phone: '' };
+
+const BranchManagement: React.FC = () => {
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [formData, setFormData] = useState<Omit<Branch, 'id'>>(EMPTY_BRANCH);
+  const activeBranchId = db.branches.active();
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchBranches = async () => {
+    try {
+      const data = await db.branches.all();
+      setBranches(data.sort((a, b) => (a.id === MAIN_BRANCH_ID ? -1 : b.id === MAIN_BRANCH_ID ? 1 : a.name.localeCompare(b.name))));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBranches();
+    const unsub = db.branches.subscribe(() => fetchBranches());
+    return () => unsub();
+  }, []);
+
+  const handleSave = async () => {
+    if (!formData.name || !formData.code) {
+      showToast("Branch name and code are mandatory", 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingBranch) {
+        await db.branches.save({ ...editingBranch, ...formData });
+        showToast("Branch details updated");
+      } else {
+        await db.branches.save({ ...formData, id: newId('branch') });
+        showToast("New branch opened");
+      }
+      fetchBranches();
+      closeModal();
+    } catch (err) {
+      showToast(errorMessage(err, "Failed to save branch"), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (branch: Branch) => {
+    if (!window.confirm(`Delete ${branch.name}? This cannot be undone.`)) return;
+
+    setIsProcessing(true);
+    try {
+      await db.branches.delete(branch.id);
+      showToast("Branch deleted");
+      fetchBranches();
+    } catch (err) {
+      showToast(errorMessage(err, "Removal failed"), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const openModal = (branch?: Branch) => {
+    setEditingBranch(branch ?? null);
+    setFormData(branch ? { name: branch.name, code: branch.code, address: branch.address, phone: branch.phone } : EMPTY_BRANCH);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingBranch(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full w-full flex items-center justify-center bg-slate-50 dark:bg-slate-950">
+        <Loader2 className="animate-spin text-indigo-500" size={40} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in slide-in-from-bottom-2 duration-500">
+      {toast && (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center pointer-events-none p-4">
+          <div className={`px-10 py-6 rounded-[25px] shadow-2xl animate-in zoom-in duration-300 flex flex-col items-center space-y-4 border-2 pointer-events-auto min-w-[320px] text-center ${
+            toast.type === 'success' ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-rose-500 text-white border-rose-400'
+          }`}>
+            {toast.type === 'success' ? <CheckCircle2 size={48} /> : <AlertCircle size={48} />}
+            <span className="font-black text-xs uppercase tracking-[0.3em] leading-relaxed">{toast.message}</span>
+          </div>
+        </div>
+      )}
+
+      {isProcessing && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+          <div className="bg-white dark:bg-slate-950 p-10 rounded-[15px] shadow-2xl flex flex-col items-center space-y-4 border border-slate-100 dark:border-slate-800">
+            <Loader2 className="animate-spin text-indigo-600" size={48} />
+            <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-900 dark:text-white">Updating Branches...</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <div>
+          <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight">Branches</h3>
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em] mt-1">Customers, jobs, inventory and settings are kept per branch</p>
+        </div>
+        <button onClick={() => openModal()} className="bg-slate-900 dark:bg-white text-white dark:text-black px-10 py-3.5 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-3 hover:bg-indigo-600 dark:hover:bg-indigo-500 hover:text-white transition-all shadow-xl active:scale-95"><Plus size={18} /><span>Add Branch</span></button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+        {branches.map(branch => (
+          <div key={branch.id} className="bg-white dark:bg-slate-900 p-8 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl hover:border-indigo-500/50 transition-all group flex flex-col justify-between">
+            <div>
+              <div className="flex justify-between items-start mb-6">
+                <div className="flex items-center space-x-2">
+                  <span className="bg-indigo-500/10 text-indigo-700 dark:text-indigo-400 text-[9px] font-black px-3 py-1.5 rounded-full uppercase tracking-widest border border-indigo-500/20">{branch.code}</span>
+                  {branch.id === activeBranchId && (
+                    <span className="bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 text-[9px] font-black px-3 py-1.5 rounded-full uppercase tracking-widest border border-emerald-500/20">Active</span>
+                  )}
+                </div>
+                <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => openModal(branch)} className="p-2.5 bg-slate-50 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Edit size={16} /></button>
+                  {branch.id !== MAIN_BRANCH_ID && (
+                    <button onClick={() => handleDelete(branch)} className="p-2.5 bg-slate-50 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16} /></button>
+                  )}
+                </div>
+              </div>
+              <h4 className="text-xl font-black text-slate-900 dark:text-slate-100 mb-3 leading-tight tracking-tight flex items-center"><Building2 size={18} className="mr-2 text-indigo-500" />{branch.name}</h4>
+              {branch.address && <p className="text-xs text-slate-500 font-bold leading-relaxed flex items-start"><MapPin size={14} className="mr-2 mt-0.5 shrink-0" />{branch.address}</p>}
+              {branch.phone && <p className="text-xs text-slate-500 font-bold mt-2 flex items-center"><Phone size={14} className="mr-2 shrink-0" />{branch.phone}</p>}
+            </div>
+            {branch.id === MAIN_BRANCH_ID && (
+              <p className="pt-6 mt-6 border-t border-slate-100 dark:border-slate-800/50 text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em]">Main branch · uses the company settings</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 dark:bg-black/80 backdrop-blur-md">
+          <div className="bg-white dark:bg-slate-950 w-full max-w-lg rounded-[15px] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in zoom-in duration-300">
+            <div className="px-12 py-10 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+              <div>
+                <h3 className="text-2xl font-black text-slate-900 dark:text-white">{editingBranch ? 'Edit Branch' : 'New Branch'}</h3>
+                <p className="text-[10px] font-bold text-slate-500 dark:text-slate-500 uppercase tracking-[0.2em] mt-1">Location Details</p>
+              </div>
+              <button onClick={closeModal} className="p-3.5 bg-white dark:bg-slate-800 text-slate-400 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white rounded-[15px] transition-all shadow-sm"><X size={20} /></button>
+            </div>
+            <div className="p-12 space-y-8">
+              <div className="grid grid-cols-3 gap-8">
+                <div className="col-span-2">
+                  <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-3">Branch Name *</label>
+                  <input type="text" value={formData.name} onChange={(e) => setFormData({...formData, name: e.target.value})} className="w-full px-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-indigo-500 transition-all" placeholder="e.g. Station Road" />
+                </div>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-3">Code *</label>
+                  <input type="text" value={formData.code} onChange={(e) => setFormData({...formData, code: e.target.value.toUpperCase()})} maxLength={12} className="w-full px-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black uppercase outline-none focus:border-indigo-500 transition-all" placeholder="STN" />
+                </div>
+              </div>
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-3">Phone</label>
+                <input type="text" value={formData.phone} onChange={(e) => setFormData({...formData, phone: e.target.value})} className="w-full px-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-bold outline-none focus:border-indigo-500 transition-all" />
+              </div>
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-3">Address</label>
+                <textarea value={formData.address} onChange={(e) => setFormData({...formData, address: e.target.value})} className="w-full px-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-700 dark:text-slate-100 font-medium outline-none focus:border-indigo-500 min-h-[100px] leading-relaxed resize-none" />
+              </div>
+            </div>
+            <div className="px-12 py-10 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end space-x-6">
+              <button onClick={closeModal} className="px-8 py-3.5 font-black text-slate-400 dark:text-slate-500 uppercase text-[10px] tracking-widest hover:text-slate-900 dark:hover:text-white transition-colors">Discard</button>
+              <button onClick={handleSave} disabled={isSaving} className="bg-slate-900 dark:bg-white text-white dark:text-black px-12 py-3.5 rounded-[15px] font-black text-xs uppercase tracking-widest hover:bg-indigo-600 dark:hover:bg-indigo-500 hover:text-white transition-all shadow-2xl active:scale-95 flex items-center space-x-3">
+                {isSaving ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />}
+                <span>Save Branch</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BranchManagement;
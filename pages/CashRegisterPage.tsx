@@ -0,0 +1,322 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, errorMessage, businessDay, CashBook } from '../db';
+import { CashDay, Job } from '../types';
+import { jobNumber } from '../utils/documents';
+import { roundMoney } from '../utils/money';
+import { Wallet, Loader2, AlertCircle, CheckCircle2, Lock, Unlock, Plus, Ban, Save, IndianRupee } from 'lucide-react';
+
+const HISTORY_DAYS = 7;
+
+const time = (at: string) => new Date(at).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+
+// One day of the active branch's cash drawer: what came in and went out, and the evening count.
+const CashRegisterPage: React.FC = () => {
+  const canWrite = db.auth.can('JOBS_CREATE') || db.auth.can('JOBS_EDIT');
+  const canVoid = db.auth.can('JOBS_DELETE');
+  const canReopen = db.auth.can('CASHBOOK_REOPEN');
+  const today = businessDay();
+  const [date, setDate] = useState(today);
+  const [book, setBook] = useState<CashBook | null>(null);
+  const [history, setHistory] = useState<CashDay[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [opening, setOpening] = useState(0);
+  const [expense, setExpense] = useState({ amount: 0, description: '' });
+  const [counted, setCounted] = useState(0);
+  const [closingNote, setClosingNote] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState('');
+  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchBook = async () => {
+    setError('');
+    try {
+      const [loaded, days] = await Promise.all([
+        db.cashBook.get(date),
+        db.cashBook.days({ orderBy: { field: 'date', direction: 'DESC' }, limit: HISTORY_DAYS })
+      ]);
+      // Only the invoices this day's payments and refunds were taken against.
+      const jobIds = Array.from(new Set([...loaded.payments, ...loaded.refunds].map(row => row.jobId)));
+      const jobRows = jobIds.length > 0
+        ? (await db.jobs.query({ filters: [{ field: 'id', op: 'in', value: jobIds }], includeDeleted: true })).rows
+        : [];
+      setBook(loaded);
+      setOpening(loaded.openingBalance);
+      setCounted(loaded.day?.countedClosing ?? loaded.expected);
+      setHistory(days.rows);
+      setJobs(jobRows);
+    } catch (err) {
+      setError(errorMessage(err, "The cash book could not be loaded"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchBook();
+    // Approved refunds paid in cash come out of the drawer too.
+    const unsubscribers = [
+      db.cashBook.subscribe(() => fetchBook()),
+      db.payments.subscribe(() => fetchBook()),
+      db.creditNotes.subscribe(() => fetchBook())
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [date]);
+
+  const run = async (action: () => Promise<unknown>, done: string, fallback: string) => {
+    setIsProcessing(true);
+    try {
+      await action();
+      showToast(done);
+      await fetchBook();
+    } catch (err) {
+      showToast(errorMessage(err, fallback), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleAddExpense = () => {
+    if (!expense.description.trim()) {
+      showToast("Describe what the cash was spent on", 'error');
+      return;
+    }
+    run(async () => {
+      await db.cashBook.addExpense(expense);
+      setExpense({ amount: 0, description: '' });
+    }, "Expense recorded", "Expense failure");
+  };
+
+  const handleClose = () => {
+    if (!book) return;
+    const variance = roundMoney(counted - book.expected);
+    const summary = variance === 0 ? 'The count matches.' : `The drawer is ₹${Math.abs(variance)} ${variance < 0 ? 'short' : 'over'}.`;
+    if (!window.confirm(`Close ${date} with ₹${counted} counted? ${summary} Cash on this day cannot change afterwards.`)) return;
+    run(() => db.cashBook.close(date, counted, closingNote), "Day closed", "Closing failure");
+  };
+
+  const handleReopen = () => {
+    if (!window.confirm(`Reopen ${date}? It will have to be counted and closed again.`)) return;
+    run(() => db.cashBook.reopen(date), "Day reopened", "Reopen failure");
+  };
+
+  const closed = !!book?.day?.closedAt;
+  const invoiceFor = (jobId: string) => {
+    const job = jobs.find(j => j.id === jobId);
+    return job ? jobNumber(job) : 'Unknown';
+  };
+  const varianceClass = (variance: number) => variance === 0 ? 'text-emerald-500' : variance < 0 ? 'text-rose-600' : 'text-amber-500';
+  const inputClass = "px-4 py-3 rounded-[15px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white text-xs font-bold outline-none focus:border-blue-500 transition-all shadow-sm no-spinner";
+  const cardClass = "bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl p-6 space-y-2";
+  const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]";
+
+  return (
+    <div className="space-y-6">
+      <style>{`.no-spinner::-webkit-outer-spin-button, .no-spinner::-webkit-inner-spin-button { -webkit-appearance: none; margin: 0; } .no-spinner { -moz-appearance: textfield; }`}</style>
+      {toast && (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center pointer-events-none p-4">
+          <div className={`px-10 py-6 rounded-[25px] shadow-2xl animate-in zoom-in duration-300 flex flex-col items-center space-y-4 border-2 pointer-events-auto min-w-[320px] text-center ${
+            toast.type === 'success' ? 'bg-slate-900 text-white border-slate-800' : 'bg-rose-500 text-white border-rose-400'
+          }`}>
+            {toast.type === 'success' ? <CheckCircle2 size={48} /> : <AlertCircle size={48} />}
+            <span className="font-black text-xs uppercase tracking-[0.3em] leading-relaxed">{toast.message}</span>
+          </div>
+        </div>
+      )}
+
+      {isProcessing && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm">
+          <div className="bg-white dark:bg-slate-950 p-10 rounded-[15px] shadow-2xl flex flex-col items-center space-y-4 border border-slate-100 dark:border-slate-800">
+            <Loader2 className="animate-spin text-blue-600" size={48} />
+            <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-900 dark:text-white">Updating Cash Book...</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div className="flex items-center space-x-4">
+          <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><Wallet size={20} /></div>
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">Cash Register</h2>
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em] mt-1">Cash in and out of the drawer, and the day-end count</p>
+          </div>
+        </div>
+        <input type="date" value={date} max={today} onChange={(e) => e.target.value && setDate(e.target.value)} className={inputClass} />
+      </div>
+
+      {isLoading ? (
+        <div className="py-24 flex items-center justify-center"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+      ) : error || !book ? (
+        <div className="py-24 flex flex-col items-center justify-center space-y-4 text-rose-500">
+          <AlertCircle size={40} />
+          <p className="text-xs font-black uppercase tracking-widest">{error}</p>
+        </div>
+      ) : (
+        <>
+          {closed && (
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-5 rounded-[15px] bg-slate-900 text-white">
+              <div className="flex items-center space-x-4">
+                <Lock size={20} className="text-blue-400" />
+                <div>
+                  <p className="text-xs font-black uppercase tracking-widest">Day closed</p>
+                  <p className="text-[10px] font-bold text-slate-400 mt-1">by {book.day!.closedByName} at {new Date(book.day!.closedAt!).toLocaleString('en-IN')}{book.day!.closingNote ? ` · ${book.day!.closingNote}` : ''}</p>
+                </div>
+              </div>
+              {canReopen && (
+                <button onClick={handleReopen} className="px-5 py-2.5 bg-white/10 rounded-[15px] text-[10px] font-black uppercase tracking-widest hover:bg-white/20 transition-all inline-flex items-center space-x-2">
+                  <Unlock size={14} /><span>Reopen Day</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            <div className={cardClass}>
+              <p className={labelClass}>Opening Balance</p>
+              {closed || !canWrite ? (
+                <p className="text-2xl font-black text-slate-900 dark:text-white tracking-tighter">₹{book.openingBalance}</p>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  <input type="number" min="0" value={opening} onChange={(e) => setOpening(Number(e.target.value))} className={`${inputClass} w-full text-lg`} />
+                  <button onClick={() => run(() => db.cashBook.open(date, opening), "Opening balance saved", "Save failure")} disabled={opening === book.day?.openingBalance} className="p-3 rounded-[15px] bg-slate-900 dark:bg-white text-white dark:text-black hover:bg-blue-600 transition-all disabled:opacity-30" title="Save opening balance"><Save size={16} /></button>
+                </div>
+              )}
+              {!book.day && <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Carried from the last count</p>}
+            </div>
+            <div className={cardClass}><p className={labelClass}>Cash Payments In</p><p className="text-2xl font-black text-emerald-600 tracking-tighter">+ ₹{book.cashIn}</p></div>
+            <div className={cardClass}><p className={labelClass}>Cash Refunds Out</p><p className="text-2xl font-black text-rose-600 tracking-tighter">- ₹{book.refundsOut}</p></div>
+            <div className={cardClass}><p className={labelClass}>Expenses Out</p><p className="text-2xl font-black text-rose-600 tracking-tighter">- ₹{book.expensesOut}</p></div>
+            <div className={`${cardClass} bg-slate-50 dark:bg-slate-950`}><p className={labelClass}>Expected in Drawer</p><p className="text-2xl font-black text-slate-900 dark:text-white tracking-tighter">₹{book.expected}</p></div>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden">
+              <h3 className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Cash Payments · {book.payments.length}</h3>
+              <div className="divide-y divide-slate-50 dark:divide-slate-800 max-h-[360px] overflow-y-auto">
+                {book.payments.length === 0 ? <p className="px-6 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No cash taken</p> : book.payments.map(payment => (
+                  <div key={payment.id} className="px-6 py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-xs font-black text-slate-800 dark:text-slate-200">{invoiceFor(payment.jobId)}</p>
+                      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{time(payment.receivedAt)} · {payment.receivedByName}</p>
+                    </div>
+                    <span className="text-sm font-black text-emerald-600">₹{payment.amount}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden">
+              <h3 className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Cash Refunds · {book.refunds.length}</h3>
+              <div className="divide-y divide-slate-50 dark:divide-slate-800 max-h-[360px] overflow-y-auto">
+                {book.refunds.length === 0 ? <p className="px-6 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No cash refunded</p> : book.refunds.map(note => (
+                  <div key={note.id} className="px-6 py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-xs font-black text-slate-800 dark:text-slate-200">{note.number} · {invoiceFor(note.jobId)}</p>
+                      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{time(note.decidedAt!)} · {note.reason}</p>
+                    </div>
+                    <span className="text-sm font-black text-rose-600">₹{note.refundAmount}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden">
+              <h3 className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Expenses · {book.expenses.length}</h3>
+              {canWrite && !closed && date === today && (
+                <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 flex items-center space-x-2">
+                  <input type="text" value={expense.description} onChange={(e) => setExpense({ ...expense, description: e.target.value })} className={`${inputClass} flex-1 min-w-0`} placeholder="e.g. Printer paper" />
+                  <input type="number" min="0" value={expense.amount} onChange={(e) => setExpense({ ...expense, amount: Number(e.target.value) })} className={`${inputClass} w-24`} />
+                  <button onClick={handleAddExpense} className="p-3 rounded-[15px] bg-blue-600 text-white hover:bg-blue-700 transition-all" title="Record expense"><Plus size={16} /></button>
+                </div>
+              )}
+              <div className="divide-y divide-slate-50 dark:divide-slate-800 max-h-[300px] overflow-y-auto">
+                {book.expenses.length === 0 ? <p className="px-6 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No expenses</p> : book.expenses.map(item => (
+                  <div key={item.id} className="px-6 py-3 flex items-center justify-between group">
+                    <div>
+                      <p className="text-xs font-black text-slate-800 dark:text-slate-200">{item.description}</p>
+                      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{time(item.paidAt)} · {item.paidByName}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-black text-rose-600">₹{item.amount}</span>
+                      {canVoid && !closed && <button onClick={() => window.confirm(`Void the ₹${item.amount} expense?`) && run(() => db.cashBook.voidExpense(item.id), "Expense voided", "Void failure")} className="p-1.5 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-all" title="Void expense"><Ban size={14} /></button>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl p-8 flex flex-col lg:flex-row lg:items-end justify-between gap-8">
+            <div className="flex flex-wrap items-end gap-10">
+              <div className="space-y-2">
+                <p className={labelClass}>Counted Closing</p>
+                {closed ? (
+                  <p className="text-3xl font-black text-slate-900 dark:text-white tracking-tighter">₹{book.day!.countedClosing}</p>
+                ) : (
+                  <div className="relative"><IndianRupee className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} /><input type="number" min="0" value={counted} disabled={!canWrite} onChange={(e) => setCounted(Number(e.target.value))} className={`${inputClass} pl-11 w-48 text-xl`} /></div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <p className={labelClass}>Expected</p>
+                <p className="text-3xl font-black text-slate-400 tracking-tighter">₹{closed ? book.day!.expectedClosing : book.expected}</p>
+              </div>
+              <div className="space-y-2">
+                <p className={labelClass}>Variance</p>
+                {(() => {
+                  const variance = closed ? book.day!.variance ?? 0 : roundMoney(counted - book.expected);
+                  return <p className={`text-3xl font-black tracking-tighter ${varianceClass(variance)}`}>{variance > 0 ? '+' : variance < 0 ? '-' : ''} ₹{Math.abs(variance)}</p>;
+                })()}
+              </div>
+            </div>
+            {!closed && canWrite && (
+              <div className="flex items-center space-x-4 w-full lg:w-auto">
+                <input type="text" value={closingNote} onChange={(e) => setClosingNote(e.target.value)} className={`${inputClass} flex-1 lg:w-64`} placeholder="Note on the count (optional)" />
+                <button onClick={handleClose} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl active:scale-95">
+                  <Lock size={16} /><span>Close Day</span>
+                </button>
+              </div>
+            )}
+          </div>
+
+          {history.length > 0 && (
+            <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden overflow-x-auto">
+              <table className="w-full text-left border-collapse min-w-[700px]">
+                <thead>
+                  <tr className="bg-slate-50 dark:bg-slate-950/50 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+                    <th className="px-8 py-4">Day</th>
+                    <th className="px-8 py-4 text-right">Opening</th>
+                    <th className="px-8 py-4 text-right">Expected</th>
+                    <th className="px-8 py-4 text-right">Counted</th>
+                    <th className="px-8 py-4 text-right">Variance</th>
+                    <th className="px-8 py-4">Closed By</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {history.map(day => (
+                    <tr key={day.id} onClick={() => setDate(day.date)} className={`cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors ${day.date === date ? 'bg-blue-50/50 dark:bg-blue-900/10' : ''}`}>
+                      <td className="px-8 py-4 text-xs font-black text-slate-900 dark:text-white">{new Date(`${day.date}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' })}</td>
+                      <td className="px-8 py-4 text-right text-xs font-bold text-slate-500">₹{day.openingBalance}</td>
+                      <td className="px-8 py-4 text-right text-xs font-bold text-slate-500">{day.closedAt ? `₹${day.expectedClosing}` : '—'}</td>
+                      <td className="px-8 py-4 text-right text-xs font-black text-slate-900 dark:text-white">{day.closedAt ? `₹${day.countedClosing}` : '—'}</td>
+                      <td className={`px-8 py-4 text-right text-xs font-black ${day.closedAt ? varianceClass(day.variance ?? 0) : 'text-slate-300'}`}>{day.closedAt ? `₹${day.variance}` : 'Open'}</td>
+                      <td className="px-8 py-4 text-xs font-bold text-slate-500">{day.closedByName || ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CashRegisterPage;
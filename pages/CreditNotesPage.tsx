@@ -0,0 +1,227 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, QueryOptions, errorMessage } from '../db';
+import { CreditNote, CreditNoteStatus, Job, Customer } from '../types';
+import { jobNumber } from '../utils/documents';
+import { ReceiptText, Loader2, ChevronLeft, ChevronRight, AlertCircle, Filter, CheckCircle2, Check, X } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+const STATUS_STYLES: Record<CreditNoteStatus, string> = {
+  PENDING: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20',
+  APPROVED: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20',
+  REJECTED: 'bg-rose-50 text-rose-600 dark:bg-rose-900/20'
+};
+
+const STATUS_LABELS: Record<CreditNoteStatus, string> = {
+  PENDING: 'Awaiting approval',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected'
+};
+
+// Credit notes raised against invoices, newest first; approvers clear the pending ones.
+const CreditNotesPage: React.FC = () => {
+  const canApprove = db.auth.can('REFUNDS_APPROVE');
+  const [notes, setNotes] = useState<CreditNote[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<CreditNoteStatus | ''>(canApprove ? 'PENDING' : '');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState('');
+  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchNotes = async () => {
+    setIsLoading(true);
+    setError('');
+    const options: QueryOptions = {
+      filters: statusFilter ? [{ field: 'status', op: 'eq', value: statusFilter }] : [],
+      orderBy: { field: 'requestedAt', direction: 'DESC' },
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE
+    };
+    try {
+      const result = await db.creditNotes.query(options);
+      // Only the invoices and customers named on this page are loaded.
+      const jobIds = Array.from(new Set(result.rows.map(note => note.jobId)));
+      const jobRows = jobIds.length > 0
+        ? (await db.jobs.query({ filters: [{ field: 'id', op: 'in', value: jobIds }], includeDeleted: true })).rows
+        : [];
+      const customerIds = Array.from(new Set(jobRows.map(job => job.customerId)));
+      const customerRows = customerIds.length > 0
+        ? (await db.customers.query({ filters: [{ field: 'id', op: 'in', value: customerIds }], includeDeleted: true })).rows
+        : [];
+      setNotes(result.rows);
+      setTotal(result.total);
+      setJobs(jobRows);
+      setCustomers(customerRows);
+    } catch (err) {
+      setError(errorMessage(err, "Credit notes could not be loaded"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchNotes();
+    const unsubscribe = db.creditNotes.subscribe(() => fetchNotes());
+    return () => unsubscribe();
+  }, [page, statusFilter]);
+
+  const jobFor = (note: CreditNote) => jobs.find(j => j.id === note.jobId);
+  const customerFor = (note: CreditNote) => customers.find(c => c.id === jobFor(note)?.customerId);
+
+  const decide = async (note: CreditNote, approve: boolean) => {
+    const invoice = jobFor(note) ? jobNumber(jobFor(note)!) : 'this invoice';
+    let decisionNote: string | null = '';
+    if (approve) {
+      const refund = note.refundAmount > 0 ? ` and pay back ₹${note.refundAmount} by ${note.refundMode}` : '';
+      if (!window.confirm(`${note.cancelInvoice ? 'Cancel' : 'Credit'} ${invoice}${refund}?`)) return;
+    } else {
+      decisionNote = window.prompt(`Why is the credit note on ${invoice} rejected?`);
+      if (decisionNote === null) return;
+    }
+    setIsProcessing(true);
+    try {
+      if (approve) {
+        const approved = await db.creditNotes.approve(note.id);
+        showToast(`Credit note ${approved.number} issued`);
+      } else {
+        await db.creditNotes.reject(note.id, decisionNote);
+        showToast("Credit note rejected");
+      }
+      fetchNotes();
+    } catch (err) {
+      showToast(errorMessage(err, approve ? "Approval failed" : "Rejection failed"), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const inputClass = "px-4 py-3 rounded-[15px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white text-xs font-bold outline-none focus:border-blue-500 transition-all shadow-sm";
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center pointer-events-none p-4">
+          <div className={`px-10 py-6 rounded-[25px] shadow-2xl animate-in zoom-in duration-300 flex flex-col items-center space-y-4 border-2 pointer-events-auto min-w-[320px] text-center ${
+            toast.type === 'success' ? 'bg-slate-900 text-white border-slate-800' : 'bg-rose-500 text-white border-rose-400'
+          }`}>
+            {toast.type === 'success' ? <CheckCircle2 size={48} /> : <AlertCircle size={48} />}
+            <span className="font-black text-xs uppercase tracking-[0.3em] leading-relaxed">{toast.message}</span>
+          </div>
+        </div>
+      )}
+
+      {isProcessing && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm">
+          <div className="bg-white dark:bg-slate-950 p-10 rounded-[15px] shadow-2xl flex flex-col items-center space-y-4 border border-slate-100 dark:border-slate-800">
+            <Loader2 className="animate-spin text-blue-600" size={48} />
+            <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-900 dark:text-white">Updating Invoice...</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div className="flex items-center space-x-4">
+          <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><ReceiptText size={20} /></div>
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">Credit Notes</h2>
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em] mt-1">Refunds and cancellations against issued invoices</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Filter size={16} className="text-slate-400" />
+          <select value={statusFilter} onChange={(e) => { setStatusFilter(e.target.value as CreditNoteStatus | ''); setPage(0); }} className={inputClass}>
+            <option value="">All Credit Notes</option>
+            {(Object.keys(STATUS_LABELS) as CreditNoteStatus[]).map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden overflow-x-auto">
+        {isLoading ? (
+          <div className="py-24 flex items-center justify-center"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+        ) : error ? (
+          <div className="py-24 flex flex-col items-center justify-center space-y-4 text-rose-500">
+            <AlertCircle size={40} />
+            <p className="text-xs font-black uppercase tracking-widest">{error}</p>
+          </div>
+        ) : notes.length === 0 ? (
+          <div className="py-24 flex flex-col items-center justify-center space-y-4 text-slate-300 dark:text-slate-700">
+            <ReceiptText size={48} />
+            <p className="text-xs font-black uppercase tracking-widest">No credit notes {statusFilter === 'PENDING' ? 'awaiting approval' : 'found'}</p>
+          </div>
+        ) : (
+          <table className="w-full text-left border-collapse min-w-[900px]">
+            <thead>
+              <tr className="bg-slate-50 dark:bg-slate-950/50 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+                <th className="px-8 py-6">Raised</th>
+                <th className="px-8 py-6">Invoice</th>
+                <th className="px-8 py-6">Reason</th>
+                <th className="px-8 py-6 text-right">Credit</th>
+                <th className="px-8 py-6 text-right">Refund</th>
+                <th className="px-8 py-6">Status</th>
+                <th className="px-8 py-6 text-right">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {notes.map(note => (
+                <tr key={note.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors">
+                  <td className="px-8 py-5 whitespace-nowrap">
+                    <div className="text-xs font-bold text-slate-500">{new Date(note.requestedAt).toLocaleString('en-IN')}</div>
+                    <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">by {note.requestedByName}</div>
+                  </td>
+                  <td className="px-8 py-5">
+                    <div className="text-xs font-black text-slate-900 dark:text-white">{jobFor(note) ? jobNumber(jobFor(note)!) : 'Unknown'}</div>
+                    <div className="text-[10px] font-bold text-slate-500">{customerFor(note)?.name || ''}</div>
+                  </td>
+                  <td className="px-8 py-5 text-xs font-medium text-slate-600 dark:text-slate-300 max-w-xs">
+                    {note.cancelInvoice && <span className="mr-2 text-[9px] font-black text-rose-600 uppercase tracking-widest">Cancels invoice</span>}
+                    {note.reason}
+                  </td>
+                  <td className="px-8 py-5 text-right text-xs font-black text-slate-900 dark:text-white">₹{note.amount}</td>
+                  <td className="px-8 py-5 text-right">
+                    <div className="text-xs font-black text-rose-600">₹{note.refundAmount}</div>
+                    {note.refundAmount > 0 && <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{note.refundMode}{note.refundReference ? ` · ${note.refundReference}` : ''}</div>}
+                  </td>
+                  <td className="px-8 py-5">
+                    <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[note.status]}`}>{STATUS_LABELS[note.status]}</span>
+                    {note.number && <div className="text-[10px] font-black text-slate-700 dark:text-slate-300 mt-2">{note.number}</div>}
+                    {note.decidedByName && <div className="text-[9px] font-bold text-slate-400 mt-1">{note.decidedByName}{note.decisionNote ? ` · ${note.decisionNote}` : ''}</div>}
+                  </td>
+                  <td className="px-8 py-5 text-right whitespace-nowrap space-x-2">
+                    {canApprove && note.status === 'PENDING' && (
+                      <>
+                        <button onClick={() => decide(note, true)} className="p-2 text-slate-400 hover:text-emerald-600 transition-colors" title="Approve"><Check size={16} /></button>
+                        <button onClick={() => decide(note, false)} className="p-2 text-slate-400 hover:text-rose-500 transition-colors" title="Reject"><X size={16} /></button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="px-8 py-4 border-t border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{total === 0 ? 'No records' : `${page * PAGE_SIZE + 1}–${page * PAGE_SIZE + notes.length} of ${total}`}</span>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Previous page"><ChevronLeft size={16} /></button>
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Page {page + 1} / {pageCount}</span>
+            <button onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))} disabled={page + 1 >= pageCount} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Next page"><ChevronRight size={16} /></button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreditNotesPage;
@@ -1,11 +1,19 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { db } from '../db';
+import { db, errorMessage, ValidationError } from '../db';
 import { Customer } from '../types';
+import RecordHistory from '../components/RecordHistory';
+import { newId } from '../utils/ids';
+import { INDIAN_STATES, stateOfGstin } from '../utils/gst';
 import { Search, Plus, Edit, Trash2, X, Save, UserPlus, Phone, CreditCard, MapPin, LayoutGrid, List, Fingerprint, Loader2, Upload, Download, CheckCircle2, AlertCircle } from 'lucide-react';
 import * as XLSX from 'xlsx';
 
 const CustomerManagement: React.FC = () => {
+  // Buttons for actions the user's role does not allow are left out.
+  const canCreate = db.auth.can('CUSTOMERS_CREATE');
+  const canEdit = db.auth.can('CUSTOMERS_EDIT');
+  const canDelete = db.auth.can('CUSTOMERS_DELETE');
+  const canExport = db.auth.can('CUSTOMERS_EXPORT');
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -15,6 +23,7 @@ const CustomerManagement: React.FC = () => {
   const [view, setView] = useState<'LIST' | 'GRID'>('LIST');
   const [showModal, setShowModal] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [modalTab, setModalTab] = useState<'DETAILS' | 'HISTORY'>('DETAILS');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const showToast = (message: string, type: 'success' | 'error' = 'success') => {
@@ -43,7 +52,9 @@ const CustomerManagement: React.FC = () => {
     name: '',
     phone: '',
     aadhaarNumber: '',
-    address: ''
+    address: '',
+    gstin: '',
+    stateCode: ''
   });
 
   const filteredCustomers = customers.filter(c => 
@@ -64,7 +75,7 @@ const CustomerManagement: React.FC = () => {
     }
 
     setIsSaving(true);
-    const tempId = editingCustomer ? editingCustomer.id : 'c' + Date.now();
+    const tempId = editingCustomer ? editingCustomer.id : newId('c');
     const customerData: Customer = {
       ...formData,
       id: tempId,
@@ -76,7 +87,7 @@ const CustomerManagement: React.FC = () => {
       showToast(editingCustomer ? "Profile updated successfully" : "New client registered successfully");
       closeModal();
     } catch (error) {
-      showToast("Failed to sync with cloud", 'error');
+      showToast(errorMessage(error, "Failed to sync with cloud"), 'error');
       fetchCustomers();
     } finally {
       setIsSaving(false);
@@ -84,15 +95,15 @@ const CustomerManagement: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (!window.confirm('Are you sure you want to delete this customer record?')) return;
+    if (!window.confirm('Move this customer record to the trash?')) return;
 
     setIsProcessing(true);
     try {
       await db.customers.delete(id);
-      showToast("Customer record permanently deleted");
+      showToast("Customer record moved to trash");
       fetchCustomers();
     } catch (error) {
-      showToast("Deletion failed. Try again.", 'error');
+      showToast(errorMessage(error, "Deletion failed. Try again."), 'error');
     } finally {
       setIsProcessing(false);
     }
@@ -113,23 +124,36 @@ const CustomerManagement: React.FC = () => {
         const jsonData = XLSX.utils.sheet_to_json(sheet);
 
         const importedItems: Customer[] = jsonData.map((row: any) => ({
-          id: row.id || ('c' + Date.now() + Math.random().toString(36).substr(2, 5)),
+          id: row.id || newId('c'),
           name: row.name || row.Name || row['Customer Name'] || 'Unknown',
           phone: String(row.phone || row.Phone || row['Phone Number'] || ''),
           aadhaarNumber: String(row.aadhaarNumber || row.Aadhaar || row['Aadhaar Number'] || '').replace(/\s/g, ''),
           address: row.address || row.Address || '',
+          gstin: String(row.gstin || row.GSTIN || '').toUpperCase(),
+          stateCode: String(row.stateCode || row['State Code'] || ''),
           createdAt: row.createdAt || new Date().toISOString()
         }));
 
-        for (const item of importedItems) {
-          if (item.name && item.name !== 'Unknown') {
+        let imported = 0;
+        const rejected: string[] = [];
+        for (const [index, item] of importedItems.entries()) {
+          if (!item.name || item.name === 'Unknown') continue;
+          try {
             await db.customers.save(item);
+            imported++;
+          } catch (err) {
+            if (!(err instanceof ValidationError)) throw err;
+            rejected.push(`Row ${index + 2}: ${err.issues[0]?.path} ${err.issues[0]?.message}`);
           }
         }
         await fetchCustomers();
-        showToast("Directory synchronized from Excel");
+        if (rejected.length > 0) {
+          showToast(`Imported ${imported}, skipped ${rejected.length}. ${rejected[0]}`, 'error');
+        } else {
+          showToast("Directory synchronized from Excel");
+        }
       } catch (err) {
-        showToast("Import failed. Check file format.", 'error');
+        showToast(errorMessage(err, "Import failed. Check file format."), 'error');
       } finally {
         setIsProcessing(false);
         if (e.target) e.target.value = '';
@@ -153,17 +177,20 @@ const CustomerManagement: React.FC = () => {
   };
 
   const openModal = (customer?: Customer) => {
+    setModalTab('DETAILS');
     if (customer) {
       setEditingCustomer(customer);
       setFormData({ 
         name: customer.name, 
         phone: customer.phone, 
         aadhaarNumber: customer.aadhaarNumber, 
-        address: customer.address 
+        address: customer.address,
+        gstin: customer.gstin || '',
+        stateCode: customer.stateCode || ''
       });
     } else {
       setEditingCustomer(null);
-      setFormData({ name: '', phone: '', aadhaarNumber: '', address: '' });
+      setFormData({ name: '', phone: '', aadhaarNumber: '', address: '', gstin: '', stateCode: '' });
     }
     setShowModal(true);
   };
@@ -230,9 +257,9 @@ const CustomerManagement: React.FC = () => {
         
         <div className="flex items-center space-x-3">
           <input type="file" ref={fileInputRef} onChange={handleImportExcel} className="hidden" accept=".xlsx, .xls, .csv" />
-          <button onClick={() => fileInputRef.current?.click()} className="bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white px-6 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-emerald-600 hover:text-white transition-all shadow-sm border border-slate-200 dark:border-slate-700"><Upload size={18} /><span className="hidden sm:inline">Import</span></button>
-          <button onClick={handleExportExcel} className="bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white px-6 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 hover:text-white transition-all shadow-sm border border-slate-200 dark:border-slate-700"><Download size={18} /><span className="hidden sm:inline">Export</span></button>
-          <button onClick={() => openModal()} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl"><Plus size={18} /><span>Add Client</span></button>
+          {canCreate && <button onClick={() => fileInputRef.current?.click()} className="bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white px-6 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-emerald-600 hover:text-white transition-all shadow-sm border border-slate-200 dark:border-slate-700"><Upload size={18} /><span className="hidden sm:inline">Import</span></button>}
+          {canExport && <button onClick={handleExportExcel} className="bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white px-6 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 hover:text-white transition-all shadow-sm border border-slate-200 dark:border-slate-700"><Download size={18} /><span className="hidden sm:inline">Export</span></button>}
+          {canCreate && <button onClick={() => openModal()} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl"><Plus size={18} /><span>Add Client</span></button>}
         </div>
       </div>
 
@@ -259,8 +286,8 @@ const CustomerManagement: React.FC = () => {
                   <td className="px-6 py-5 font-mono text-base tracking-widest text-blue-600 dark:text-blue-400">{customer.aadhaarNumber ? customer.aadhaarNumber.replace(/(\d{4})/g, '$1 ').trim() : 'NOT SET'}</td>
                   <td className="px-6 py-5 text-base font-bold text-slate-400 dark:text-slate-600">{new Date(customer.createdAt).toLocaleDateString('en-IN')}</td>
                   <td className="px-8 py-5 text-right space-x-2">
-                    <button onClick={() => openModal(customer)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-200 dark:border-slate-700 transition-all"><Edit size={16} /></button>
-                    <button onClick={() => handleDelete(customer.id)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16} /></button>
+                    {canEdit && <button onClick={() => openModal(customer)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-200 dark:border-slate-700 transition-all"><Edit size={16} /></button>}
+                    {canDelete && <button onClick={() => handleDelete(customer.id)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16} /></button>}
                   </td>
                 </tr>
               ))}
@@ -274,8 +301,8 @@ const CustomerManagement: React.FC = () => {
               <div className="flex justify-between items-start mb-6">
                 <div className="w-14 h-14 rounded-[15px] bg-slate-50 dark:bg-slate-800 text-blue-600 dark:text-blue-400 flex items-center justify-center font-black text-xl border border-slate-100 dark:border-slate-800 shadow-inner group-hover:scale-110 transition-transform">{customer.name[0]}</div>
                 <div className="flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <button onClick={() => openModal(customer)} className="p-2 bg-slate-50 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-100 dark:border-slate-800"><Edit size={16}/></button>
-                  <button onClick={() => handleDelete(customer.id)} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-100 dark:border-slate-800"><Trash2 size={16}/></button>
+                  {canEdit && <button onClick={() => openModal(customer)} className="p-2 bg-slate-50 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-100 dark:border-slate-800"><Edit size={16}/></button>}
+                  {canDelete && <button onClick={() => handleDelete(customer.id)} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-100 dark:border-slate-800"><Trash2 size={16}/></button>}
                 </div>
               </div>
               <h3 className="font-black text-lg text-slate-900 dark:text-slate-100 mb-4">{customer.name}</h3>
@@ -297,8 +324,20 @@ const CustomerManagement: React.FC = () => {
                 <h3 className="text-2xl font-black text-slate-900 dark:text-white">{editingCustomer ? 'Update Profile' : 'New Client'}</h3>
                 <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em] mt-1">Personal & Security Data</p>
               </div>
+              {editingCustomer && (
+                <div className="flex bg-white dark:bg-slate-900 p-1 rounded-[15px] border border-slate-200 dark:border-slate-800 shadow-sm">
+                  {(['DETAILS', 'HISTORY'] as const).map(tab => (
+                    <button key={tab} onClick={() => setModalTab(tab)} className={`px-4 py-2 rounded-[15px] text-[9px] font-black uppercase tracking-widest transition-all ${modalTab === tab ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}>{tab === 'DETAILS' ? 'Details' : 'History'}</button>
+                  ))}
+                </div>
+              )}
               <button onClick={closeModal} className="p-3 bg-white dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-slate-900 dark:hover:text-white transition-all shadow-sm"><X size={20} /></button>
             </div>
+            {editingCustomer && modalTab === 'HISTORY' ? (
+            <div className="p-10 max-h-[60vh] overflow-y-auto custom-scrollbar">
+              <RecordHistory recordId={editingCustomer.id} load={db.customers.history} />
+            </div>
+            ) : (
             <div className="p-10 space-y-6">
               <div>
                 <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-2.5">Legal Full Name *</label>
@@ -314,11 +353,25 @@ const CustomerManagement: React.FC = () => {
                   <input type="text" value={formData.aadhaarNumber.replace(/(\d{4})/g, '$1 ').trim()} onChange={handleAadhaarChange} className="w-full px-5 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-800 text-blue-700 dark:text-blue-400 font-mono tracking-widest outline-none focus:border-blue-500 transition-all" placeholder="0000 0000 0000" />
                 </div>
               </div>
+              <div className="grid grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-2.5">GSTIN (Businesses)</label>
+                  <input type="text" value={formData.gstin} onChange={(e) => { const gstin = e.target.value.toUpperCase().replace(/\s/g, ''); setFormData({...formData, gstin, stateCode: stateOfGstin(gstin) || formData.stateCode}); }} maxLength={15} className="w-full px-5 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-mono tracking-widest outline-none focus:border-blue-500 transition-all" placeholder="22AAAAA0000A1Z5" />
+                </div>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-2.5">State</label>
+                  <select value={formData.stateCode} onChange={(e) => setFormData({...formData, stateCode: e.target.value})} className="w-full px-5 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-bold outline-none focus:border-blue-500 transition-all cursor-pointer">
+                    <option value="">Same as branch</option>
+                    {Object.entries(INDIAN_STATES).map(([code, name]) => <option key={code} value={code}>{code} · {name}</option>)}
+                  </select>
+                </div>
+              </div>
               <div>
                 <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-2.5">Residential Address</label>
                 <textarea value={formData.address} onChange={(e) => setFormData({...formData, address: e.target.value})} className="w-full px-5 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-800 text-slate-700 dark:text-slate-300 font-medium outline-none focus:border-blue-500 min-h-[120px] resize-none" placeholder="Enter complete postal address..." />
               </div>
             </div>
+            )}
             <div className="px-10 py-8 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end space-x-4">
               <button onClick={closeModal} className="px-6 py-3 font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest text-[10px] hover:text-slate-900 dark:hover:text-white transition-colors">Cancel</button>
               <button onClick={handleSave} disabled={isSaving} className="bg-slate-900 dark:bg-white text-white dark:text-black px-10 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest hover:bg-blue-600 dark:hover:bg-blue-500 transition-all shadow-xl flex items-center space-x-2">
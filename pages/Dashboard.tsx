@@ -8,6 +8,7 @@ import {
 } from 'lucide-react';
 import { db } from '../db';
 import { Job, Customer, InventoryItem, Service } from '../types';
+import { earnings, isOpenStatus } from '../utils/jobTotals';
 import { 
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, 
   ResponsiveContainer, PieChart, Pie, Cell, Legend 
@@ -21,28 +22,21 @@ const Dashboard: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [revenueMetric, setRevenueMetric] = useState<'paid' | 'credit'>('paid');
   const navigate = useNavigate();
+  // Collections, open credit and the revenue charts need REPORTS_REVENUE.
+  const canSeeRevenue = db.auth.can('REPORTS_REVENUE');
 
-  const fetchData = async () => {
-    const [jobsData, customersData, inventoryData, servicesData] = await Promise.all([
-      db.jobs.all(),
-      db.customers.all(),
-      db.inventory.all(),
-      db.services.all()
-    ]);
-    setJobs(jobsData);
-    setCustomers(customersData);
-    setInventory(inventoryData);
-    setServices(servicesData);
-    setIsLoading(false);
-  };
-
+  // Each table is kept current by the shared cache; saves elsewhere arrive as deltas.
   useEffect(() => {
-    fetchData();
+    const loaded = new Set<string>();
+    const markLoaded = (table: string) => {
+      loaded.add(table);
+      if (loaded.size === 4) setIsLoading(false);
+    };
 
-    const unsubJobs = db.jobs.subscribe(fetchData);
-    const unsubCustomers = db.customers.subscribe(fetchData);
-    const unsubInventory = db.inventory.subscribe(fetchData);
-    const unsubServices = db.services.subscribe(fetchData);
+    const unsubJobs = db.jobs.watch(rows => { setJobs(rows); markLoaded('jobs'); });
+    const unsubCustomers = db.customers.watch(rows => { setCustomers(rows); markLoaded('customers'); });
+    const unsubInventory = db.inventory.watch(rows => { setInventory(rows); markLoaded('inventory'); });
+    const unsubServices = db.services.watch(rows => { setServices(rows); markLoaded('services'); });
 
     return () => {
       unsubJobs();
@@ -60,12 +54,14 @@ const Dashboard: React.FC = () => {
   }, []);
 
   const stats = useMemo(() => {
-    const pendingJobs = jobs.filter(j => j.status !== 'COMPLETED').length;
+    const pendingJobs = jobs.filter(j => isOpenStatus(j.status)).length;
     const totalRevenue = jobs.reduce((sum, j) => sum + (j.paidAmount || 0), 0);
     const totalBalance = jobs.reduce((sum, j) => sum + (j.balance || 0), 0);
     const lowStockCount = inventory.filter(item => item.quantity <= item.minStock).length;
+    // Collections include government fees and GST that are not ours to keep.
+    const { margin, fees } = earnings(jobs);
 
-    return { pendingJobs, totalRevenue, totalBalance, lowStockCount };
+    return { pendingJobs, totalRevenue, totalBalance, lowStockCount, margin, fees };
   }, [jobs, inventory]);
 
   const COLORS = ['#2563eb', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#64748b', '#0ea5e9', '#f43f5e', '#a855f7'];
@@ -177,14 +173,26 @@ const Dashboard: React.FC = () => {
           </div>
           
           <div className="grid grid-cols-2 gap-4">
-            <div className="bg-white/10 backdrop-blur-md p-6 rounded-[15px] border border-white/10">
-              <p className="text-[10px] font-black uppercase tracking-widest text-blue-200 mb-2">Total Paid</p>
-              <h4 className="text-3xl font-black">₹{stats.totalRevenue.toLocaleString()}</h4>
-            </div>
-            <div className="bg-white/10 backdrop-blur-md p-6 rounded-[15px] border border-white/10">
-              <p className="text-[10px] font-black uppercase tracking-widest text-blue-200 mb-2">Open Credit</p>
-              <h4 className="text-3xl font-black text-red-300">₹{stats.totalBalance.toLocaleString()}</h4>
-            </div>
+            {canSeeRevenue && (
+              <>
+                <div className="bg-white/10 backdrop-blur-md p-6 rounded-[15px] border border-white/10">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-blue-200 mb-2">Total Paid</p>
+                  <h4 className="text-3xl font-black">₹{stats.totalRevenue.toLocaleString()}</h4>
+                </div>
+                <div className="bg-white/10 backdrop-blur-md p-6 rounded-[15px] border border-white/10">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-blue-200 mb-2">Open Credit</p>
+                  <h4 className="text-3xl font-black text-red-300">₹{stats.totalBalance.toLocaleString()}</h4>
+                </div>
+                <div className="bg-white/10 backdrop-blur-md p-6 rounded-[15px] border border-white/10">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-blue-200 mb-2">Service Margin</p>
+                  <h4 className="text-3xl font-black text-emerald-300">₹{stats.margin.toLocaleString()}</h4>
+                </div>
+                <div className="bg-white/10 backdrop-blur-md p-6 rounded-[15px] border border-white/10">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-blue-200 mb-2">Govt. Fees Passed Through</p>
+                  <h4 className="text-3xl font-black">₹{stats.fees.toLocaleString()}</h4>
+                </div>
+              </>
+            )}
             <div className="col-span-2 bg-white/5 p-6 rounded-[15px] border border-white/5 flex items-center justify-between group cursor-pointer hover:bg-white/10 transition-all" onClick={() => navigate('/reports')}>
               <div className="flex items-center gap-4">
                 <div className="w-12 h-12 bg-white/10 rounded-[15px] flex items-center justify-center">
@@ -205,7 +213,7 @@ const Dashboard: React.FC = () => {
         <StatCard icon={<Users size={24} />} label="Customers" value={customers.length.toString()} trend="Directory" positive={true} color="blue" />
         <StatCard icon={<Briefcase size={24} />} label="Active Invoices" value={stats.pendingJobs.toString()} trend="In Progress" positive={true} color="amber" />
         <StatCard icon={<Package size={24} />} label="Low Stock" value={stats.lowStockCount.toString()} trend={stats.lowStockCount > 0 ? "Urgent" : "Optimal"} positive={stats.lowStockCount === 0} color={stats.lowStockCount > 0 ? "red" : "green"} />
-        <StatCard icon={<IndianRupee size={24} />} label="Collection" value={`₹${stats.totalRevenue.toLocaleString()}`} trend="Net Total" positive={true} color="emerald" />
+        {canSeeRevenue && <StatCard icon={<IndianRupee size={24} />} label="Collection" value={`₹${stats.totalRevenue.toLocaleString()}`} trend="Gross" positive={true} color="emerald" />}
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -215,105 +223,107 @@ const Dashboard: React.FC = () => {
         <ShortcutButton onClick={() => navigate('/reports')} icon={<FileText size={20} />} label="Audit Log" color="bg-slate-700" />
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 pb-12">
-        <div className="lg:col-span-2 bg-white dark:bg-slate-900 p-8 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-sm">
-          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-10 gap-4">
-            <div>
-              <h3 className="font-black text-slate-800 dark:text-white flex items-center text-lg uppercase tracking-tight">
-                <TrendingUp size={20} className="mr-3 text-blue-600" /> Revenue Stream
-              </h3>
-              <p className="text-xs font-bold text-slate-400 mt-1">Weekly Daily Breakdown</p>
-            </div>
-            
-            <div className="flex bg-slate-50 dark:bg-slate-950 p-1 rounded-[12px] border border-slate-100 dark:border-slate-800 shadow-inner">
-              <button 
-                onClick={() => setRevenueMetric('paid')}
-                className={`px-4 py-1.5 rounded-[10px] text-[10px] font-black uppercase tracking-widest transition-all ${revenueMetric === 'paid' ? 'bg-white dark:bg-slate-800 text-blue-600 shadow-sm' : 'text-slate-400'}`}
-              >
-                Total Paid
-              </button>
-              <button 
-                onClick={() => setRevenueMetric('credit')}
-                className={`px-4 py-1.5 rounded-[10px] text-[10px] font-black uppercase tracking-widest transition-all ${revenueMetric === 'credit' ? 'bg-white dark:bg-slate-800 text-rose-500 shadow-sm' : 'text-slate-400'}`}
-              >
-                Open Credit
-              </button>
-            </div>
-          </div>
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={weeklyChartData}>
-                <defs>
-                  <linearGradient id="colorMetric" x1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor={revenueMetric === 'paid' ? '#3b82f6' : '#f43f5e'} stopOpacity={0.2}/>
-                    <stop offset="95%" stopColor={revenueMetric === 'paid' ? '#3b82f6' : '#f43f5e'} stopOpacity={0}/>
-                  </linearGradient>
-                </defs>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 11, fontWeight: 700}} dy={10} />
-                <YAxis axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 11, fontWeight: 700}} dx={-10} />
-                <Tooltip 
-                  contentStyle={{borderRadius: '15px', border: 'none', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', padding: '16px', backgroundColor: '#fff', color: '#000'}}
-                  formatter={(value) => [`₹${value}`, revenueMetric === 'paid' ? 'Paid Amount' : 'Outstanding Credit']}
-                />
-                <Area 
-                  type="monotone" 
-                  dataKey={revenueMetric === 'paid' ? 'paid' : 'credit'} 
-                  stroke={revenueMetric === 'paid' ? '#3b82f6' : '#f43f5e'} 
-                  strokeWidth={4} 
-                  fillOpacity={1} 
-                  fill="url(#colorMetric)" 
-                  animationDuration={1500} 
-                />
-              </AreaChart>
-            </ResponsiveContainer>
-          </div>
-        </div>
-
-        <div className="bg-white dark:bg-slate-900 p-8 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-sm flex flex-col">
-          <div className="mb-6">
-            <h3 className="font-black text-slate-800 dark:text-white flex items-center text-lg uppercase tracking-tight">
-              <PieChartIcon size={20} className="mr-3 text-indigo-600" /> Revenue Split
-            </h3>
-            <p className="text-xs font-bold text-slate-400 mt-1">Weekly by Category ({revenueMetric === 'paid' ? 'Cash' : 'Credit'})</p>
-          </div>
-          <div className="flex-1 min-h-[300px]">
-            {categoryData.length === 0 ? (
-              <div className="h-full flex flex-col items-center justify-center text-slate-400 text-center">
-                <PieChartIcon size={48} className="opacity-10 mb-2" />
-                <p className="text-xs font-black uppercase">No {revenueMetric} data this week</p>
+      {canSeeRevenue && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 pb-12">
+          <div className="lg:col-span-2 bg-white dark:bg-slate-900 p-8 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-sm">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-10 gap-4">
+              <div>
+                <h3 className="font-black text-slate-800 dark:text-white flex items-center text-lg uppercase tracking-tight">
+                  <TrendingUp size={20} className="mr-3 text-blue-600" /> Revenue Stream
+                </h3>
+                <p className="text-xs font-bold text-slate-400 mt-1">Weekly Daily Breakdown</p>
+              </div>
+              
+              <div className="flex bg-slate-50 dark:bg-slate-950 p-1 rounded-[12px] border border-slate-100 dark:border-slate-800 shadow-inner">
+                <button 
+                  onClick={() => setRevenueMetric('paid')}
+                  className={`px-4 py-1.5 rounded-[10px] text-[10px] font-black uppercase tracking-widest transition-all ${revenueMetric === 'paid' ? 'bg-white dark:bg-slate-800 text-blue-600 shadow-sm' : 'text-slate-400'}`}
+                >
+                  Total Paid
+                </button>
+                <button 
+                  onClick={() => setRevenueMetric('credit')}
+                  className={`px-4 py-1.5 rounded-[10px] text-[10px] font-black uppercase tracking-widest transition-all ${revenueMetric === 'credit' ? 'bg-white dark:bg-slate-800 text-rose-500 shadow-sm' : 'text-slate-400'}`}
+                >
+                  Open Credit
+                </button>
               </div>
-            ) : (
+            </div>
+            <div className="h-80">
               <ResponsiveContainer width="100%" height="100%">
-                <PieChart>
-                  <Pie 
-                    data={categoryData} 
-                    innerRadius={60} 
-                    outerRadius={90} 
-                    paddingAngle={8} 
-                    cornerRadius={4} 
-                    dataKey="value"
-                    animationDuration={1500}
-                  >
-                    {categoryData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                    ))}
-                  </Pie>
+                <AreaChart data={weeklyChartData}>
+                  <defs>
+                    <linearGradient id="colorMetric" x1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor={revenueMetric === 'paid' ? '#3b82f6' : '#f43f5e'} stopOpacity={0.2}/>
+                      <stop offset="95%" stopColor={revenueMetric === 'paid' ? '#3b82f6' : '#f43f5e'} stopOpacity={0}/>
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 11, fontWeight: 700}} dy={10} />
+                  <YAxis axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 11, fontWeight: 700}} dx={-10} />
                   <Tooltip 
-                    contentStyle={{borderRadius: '15px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)', fontSize: '12px'}}
-                    formatter={(value) => [`₹${value}`, revenueMetric === 'paid' ? 'Paid' : 'Open Credit']}
+                    contentStyle={{borderRadius: '15px', border: 'none', boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)', padding: '16px', backgroundColor: '#fff', color: '#000'}}
+                    formatter={(value) => [`₹${value}`, revenueMetric === 'paid' ? 'Paid Amount' : 'Outstanding Credit']}
                   />
-                  <Legend 
-                    verticalAlign="bottom" 
-                    iconType="circle" 
-                    formatter={(value) => <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{value}</span>} 
+                  <Area 
+                    type="monotone" 
+                    dataKey={revenueMetric === 'paid' ? 'paid' : 'credit'} 
+                    stroke={revenueMetric === 'paid' ? '#3b82f6' : '#f43f5e'} 
+                    strokeWidth={4} 
+                    fillOpacity={1} 
+                    fill="url(#colorMetric)" 
+                    animationDuration={1500} 
                   />
-                </PieChart>
+                </AreaChart>
               </ResponsiveContainer>
-            )}
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-slate-900 p-8 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-sm flex flex-col">
+            <div className="mb-6">
+              <h3 className="font-black text-slate-800 dark:text-white flex items-center text-lg uppercase tracking-tight">
+                <PieChartIcon size={20} className="mr-3 text-indigo-600" /> Revenue Split
+              </h3>
+              <p className="text-xs font-bold text-slate-400 mt-1">Weekly by Category ({revenueMetric === 'paid' ? 'Cash' : 'Credit'})</p>
+            </div>
+            <div className="flex-1 min-h-[300px]">
+              {categoryData.length === 0 ? (
+                <div className="h-full flex flex-col items-center justify-center text-slate-400 text-center">
+                  <PieChartIcon size={48} className="opacity-10 mb-2" />
+                  <p className="text-xs font-black uppercase">No {revenueMetric} data this week</p>
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie 
+                      data={categoryData} 
+                      innerRadius={60} 
+                      outerRadius={90} 
+                      paddingAngle={8} 
+                      cornerRadius={4} 
+                      dataKey="value"
+                      animationDuration={1500}
+                    >
+                      {categoryData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip 
+                      contentStyle={{borderRadius: '15px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)', fontSize: '12px'}}
+                      formatter={(value) => [`₹${value}`, revenueMetric === 'paid' ? 'Paid' : 'Open Credit']}
+                    />
+                    <Legend 
+                      verticalAlign="bottom" 
+                      iconType="circle" 
+                      formatter={(value) => <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{value}</span>} 
+                    />
+                  </PieChart>
+                </ResponsiveContainer>
+              )}
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
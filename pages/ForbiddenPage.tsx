@@ -0,0 +1,31 @@
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ShieldOff, ArrowLeft } from 'lucide-react';
+import { Privilege } from '../types';
+import { privilegeLabel } from '../db';
+
+interface ForbiddenPageProps {
+  privileges: Privilege[];
+}
+
+const ForbiddenPage: React.FC<ForbiddenPageProps> = ({ privileges }) => (
+  <div className="py-24 flex flex-col items-center justify-center text-center space-y-6 animate-in fade-in duration-500">
+    <div className="bg-rose-50 dark:bg-rose-900/20 text-rose-600 p-6 rounded-[15px]">
+      <ShieldOff size={48} />
+    </div>
+    <div>
+      <p className="text-[10px] font-black text-rose-600 uppercase tracking-[0.3em]">Error 403</p>
+      <h2 className="text-3xl font-black text-slate-900 dark:text-white uppercase tracking-tight mt-2">Access Denied</h2>
+      <p className="text-sm font-medium text-slate-500 dark:text-slate-400 mt-3 max-w-md">
+        This section needs the <span className="font-black text-slate-900 dark:text-white">{privileges.map(privilegeLabel).join(' or ')}</span> permission. Ask an administrator if you need access.
+      </p>
+    </div>
+    <Link to="/dashboard" className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 hover:text-white transition-all shadow-xl active:scale-95">
+      <ArrowLeft size={16} />
+      <span>Back to Dashboard</span>
+    </Link>
+  </div>
+);
+
+export default ForbiddenPage;
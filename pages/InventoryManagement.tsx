@@ -1,10 +1,15 @@
 
 import React, { useState, useEffect } from 'react';
-import { db } from '../db';
+import { db, errorMessage } from '../db';
 import { InventoryItem } from '../types';
+import { newId } from '../utils/ids';
 import { Plus, Search, Package, Edit, Trash2, AlertCircle, Save, X, List, LayoutGrid, Loader2, CheckCircle2 } from 'lucide-react';
 
 const InventoryManagement: React.FC = () => {
+  // Buttons for actions the user's role does not allow are left out.
+  const canCreate = db.auth.can('INVENTORY_CREATE');
+  const canEdit = db.auth.can('INVENTORY_EDIT');
+  const canDelete = db.auth.can('INVENTORY_DELETE');
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -59,29 +64,29 @@ const InventoryManagement: React.FC = () => {
         await db.inventory.save(updatedItem);
         showToast("Asset ledger updated");
       } else {
-        const newItem: InventoryItem = { ...data, id: 'inv' + Date.now() } as InventoryItem;
+        const newItem: InventoryItem = { ...data, id: newId('inv') } as InventoryItem;
         await db.inventory.save(newItem);
         showToast("New asset stock accounted");
       }
       fetchInventory();
       closeModal();
     } catch (err) {
-      showToast("Sync failure", 'error');
+      showToast(errorMessage(err, "Sync failure"), 'error');
     } finally {
       setIsSaving(false);
     }
   };
 
   const handleDelete = async (id: string) => {
-    if (!window.confirm('Delete stock item from inventory?')) return;
+    if (!window.confirm('Move this stock item to the trash?')) return;
     
     setIsProcessing(true);
     try {
       await db.inventory.delete(id);
-      showToast("Asset removed from stockpile");
+      showToast("Asset moved to trash");
       fetchInventory();
     } catch (err) {
-      showToast("Erase failed", 'error');
+      showToast(errorMessage(err, "Erase failed"), 'error');
     } finally {
       setIsProcessing(false);
     }
@@ -147,10 +152,12 @@ const InventoryManagement: React.FC = () => {
             <button onClick={() => setView('GRID')} className={`p-2.5 rounded-[15px] transition-all ${view === 'GRID' ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}><LayoutGrid size={20}/></button>
           </div>
         </div>
-        <button onClick={() => openModal()} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-emerald-600 hover:text-white transition-all shadow-xl active:scale-95">
-          <Plus size={18} />
-          <span>Restock Assets</span>
-        </button>
+        {canCreate && (
+          <button onClick={() => openModal()} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-emerald-600 hover:text-white transition-all shadow-xl active:scale-95">
+            <Plus size={18} />
+            <span>Restock Assets</span>
+          </button>
+        )}
       </div>
 
       {view === 'TABLE' ? (
@@ -179,8 +186,8 @@ const InventoryManagement: React.FC = () => {
                   </td>
                   <td className="px-8 py-6 text-[10px] font-black text-slate-500 uppercase tracking-widest">{item.category || 'GENERAL'}</td>
                   <td className="px-10 py-6 text-right space-x-2">
-                    <button onClick={() => openModal(item)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-200 dark:border-slate-700 transition-all"><Edit size={18} /></button>
-                    <button onClick={() => handleDelete(item.id)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={18} /></button>
+                    {canEdit && <button onClick={() => openModal(item)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-200 dark:border-slate-700 transition-all"><Edit size={18} /></button>}
+                    {canDelete && <button onClick={() => handleDelete(item.id)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={18} /></button>}
                   </td>
                 </tr>
               ))}
@@ -196,8 +203,8 @@ const InventoryManagement: React.FC = () => {
                   <Package size={24}/>
                 </div>
                 <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <button onClick={() => openModal(item)} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-200 dark:border-slate-700 transition-all"><Edit size={16}/></button>
-                  <button onClick={() => handleDelete(item.id)} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16}/></button>
+                  {canEdit && <button onClick={() => openModal(item)} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-200 dark:border-slate-700 transition-all"><Edit size={16}/></button>}
+                  {canDelete && <button onClick={() => handleDelete(item.id)} className="p-2 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16}/></button>}
                 </div>
               </div>
               <h4 className="font-black text-lg text-slate-900 dark:text-slate-100 mb-1">{item.name}</h4>
@@ -1,22 +1,41 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { db } from '../db';
-import { Customer, Service, Job, JobItem, JobStatus, PaymentStatus } from '../types';
-import { User, Fingerprint, Smartphone, IndianRupee, Plus, Trash2, Save, Loader2, CheckCircle2, FileText, Search, UserCheck, X, ArrowLeft, Printer, Download, Edit, Filter, Calendar, AlertCircle } from 'lucide-react';
+import { db, dayRange, QueryFilter, QueryOptions, errorMessage, ConflictError, PAYMENT_MODES } from '../db';
+import { Customer, Service, Job, JobItem, JobStatus, PaymentStatus, CompanySettings, Payment, PaymentMode } from '../types';
+import { User, Fingerprint, Smartphone, IndianRupee, Plus, Trash2, Save, Loader2, CheckCircle2, FileText, Search, UserCheck, X, ArrowLeft, Printer, Download, Edit, Filter, Calendar, AlertCircle, ChevronLeft, ChevronRight, Ban, ReceiptText } from 'lucide-react';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
+import { recalculateJob, jobAmounts, ledgerPaid } from '../utils/jobTotals';
+import { applyTax, lineTax, passThroughFee, serviceCharge, placeOfSupply, stateName, taxSummary, amountInWords } from '../utils/gst';
+import { newId } from '../utils/ids';
+import { jobNumber } from '../utils/documents';
+import { roundMoney } from '../utils/money';
+import ConflictDialog, { ConflictField } from '../components/ConflictDialog';
+import CreditNoteDialog from '../components/CreditNoteDialog';
+
+const PAGE_SIZE = 25;
 
 const InvoicePage: React.FC = () => {
+  // Buttons for actions the user's role does not allow are left out.
+  const canCreate = db.auth.can('JOBS_CREATE');
+  const canEdit = db.auth.can('JOBS_EDIT');
+  const canDelete = db.auth.can('JOBS_DELETE');
   const [view, setView] = useState<'LIST' | 'CREATE'>('LIST');
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [totalJobs, setTotalJobs] = useState(0);
+  const [page, setPage] = useState(0);
+  // Only the customers referenced by the current page or picked in the form.
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerMatches, setCustomerMatches] = useState<Customer[]>([]);
   const [services, setServices] = useState<Service[]>([]);
+  const [company, setCompany] = useState<CompanySettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
   const [receiptJob, setReceiptJob] = useState<Job | null>(null);
+  const [conflict, setConflict] = useState<{ mine: Job; theirs: Job } | null>(null);
 
   const showToast = (message: string, type: 'success' | 'error' = 'success') => {
     setToast({ message, type });
@@ -24,6 +43,7 @@ const InvoicePage: React.FC = () => {
   };
 
   const [registrySearch, setRegistrySearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [registryStatusFilter, setRegistryStatusFilter] = useState<'ALL' | PaymentStatus>('ALL');
   const [registryDateFilter, setRegistryDateFilter] = useState('');
 
@@ -33,113 +53,243 @@ const InvoicePage: React.FC = () => {
   const [isCustomerSelected, setIsCustomerSelected] = useState(false);
   const [items, setItems] = useState<JobItem[]>([]);
   const [status, setStatus] = useState<JobStatus>('PENDING');
+  // Already on the ledger; money taken now is recorded as a new payment on commit.
   const [paidAmount, setPaidAmount] = useState(0);
+  const [ledger, setLedger] = useState<Payment[]>([]);
+  const [newPayment, setNewPayment] = useState<{ amount: number; mode: PaymentMode; reference: string }>({ amount: 0, mode: 'CASH', reference: '' });
+  const [receiptPayments, setReceiptPayments] = useState<Payment[]>([]);
+  const [creditJob, setCreditJob] = useState<Job | null>(null);
   const [notes, setNotes] = useState('');
+  // Kept from when the invoice was first issued, so later edits are taxed the same way.
+  const [sellerGstin, setSellerGstin] = useState<string | undefined>(undefined);
 
   const [currentServiceId, setCurrentServiceId] = useState('');
   const [quantity, setQuantity] = useState(1);
   const [rate, setRate] = useState(0);
   const [discount, setDiscount] = useState(0);
+  const [governmentFee, setGovernmentFee] = useState(0);
+
+  const rememberCustomers = (list: Customer[]) => {
+    setCustomers(prev => {
+      const byId = new Map(prev.map(c => [c.id, c]));
+      list.forEach(c => byId.set(c.id, c));
+      return Array.from(byId.values());
+    });
+  };
 
   const fetchRegistry = async () => {
     try {
-      const [cData, sData, jData] = await Promise.all([
-        db.customers.all(), 
-        db.services.all(),
-        db.jobs.all()
-      ]);
-      setCustomers(cData);
+      const filters: QueryFilter[] = [];
+      if (registryStatusFilter !== 'ALL') filters.push({ field: 'paymentStatus', op: 'eq', value: registryStatusFilter });
+
+      const options: QueryOptions = {
+        filters,
+        orderBy: { field: 'createdAt', direction: 'DESC' },
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE
+      };
+      if (registryDateFilter) options.dateRange = { field: 'createdAt', ...dayRange(registryDateFilter) };
+
+      const term = debouncedSearch.trim();
+      if (term) {
+        const { rows: matchedCustomers } = await db.customers.query({ anyOf: [{ field: 'name', op: 'ilike', value: term }], limit: 100 });
+        options.anyOf = [{ field: 'id', op: 'ilike', value: term }, { field: 'number', op: 'ilike', value: term }];
+        if (matchedCustomers.length > 0) options.anyOf.push({ field: 'customerId', op: 'in', value: matchedCustomers.map(c => c.id) });
+      }
+
+      const [sData, result, settings] = await Promise.all([db.services.all({ includeDeleted: true }), db.jobs.query(options), db.settings.get()]);
+      const customerIds = Array.from(new Set(result.rows.map(j => j.customerId)));
+      if (customerIds.length > 0) {
+        const { rows } = await db.customers.query({ filters: [{ field: 'id', op: 'in', value: customerIds }], includeDeleted: true });
+        rememberCustomers(rows);
+      }
       setServices(sData);
-      setJobs(jData.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+      setCompany(settings);
+      setJobs(result.rows);
+      setTotalJobs(result.total);
     } finally {
       setIsLoading(false);
     }
   };
 
+  useEffect(() => {
+    const timer = setTimeout(() => { setDebouncedSearch(registrySearch); setPage(0); }, 300);
+    return () => clearTimeout(timer);
+  }, [registrySearch]);
+
   useEffect(() => {
     fetchRegistry();
-  }, []);
+  }, [page, debouncedSearch, registryStatusFilter, registryDateFilter]);
+
+  useEffect(() => {
+    if (!customerSearch.trim() || isCustomerSelected) {
+      setCustomerMatches([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      const { rows } = await db.customers.query({
+        anyOf: [{ field: 'name', op: 'ilike', value: customerSearch.trim() }],
+        orderBy: { field: 'name', direction: 'ASC' },
+        limit: 5
+      });
+      setCustomerMatches(rows);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [customerSearch, isCustomerSelected]);
 
   const selectedCustomer = useMemo(() => customers.find(c => c.id === customerId), [customerId, customers]);
+  const editingJob = useMemo(() => jobs.find(j => j.id === editingId), [editingId, jobs]);
 
-  const filteredCustomers = useMemo(() => {
-    if (!customerSearch.trim() || isCustomerSelected) return [];
-    return customers.filter(c => c.name.toLowerCase().includes(customerSearch.toLowerCase())).slice(0, 5);
-  }, [customerSearch, customers, isCustomerSelected]);
-
-  const filteredJobs = useMemo(() => {
-    return jobs.filter(job => {
-      const customer = customers.find(c => c.id === job.customerId);
-      const customerName = customer?.name.toLowerCase() || '';
-      const invoiceId = job.id.toLowerCase();
-      const matchesSearch = customerName.includes(registrySearch.toLowerCase()) || invoiceId.includes(registrySearch.toLowerCase());
-      const matchesStatus = registryStatusFilter === 'ALL' || job.paymentStatus === registryStatusFilter;
-      const matchesDate = !registryDateFilter || job.createdAt.startsWith(registryDateFilter);
-      return matchesSearch && matchesStatus && matchesDate;
-    });
-  }, [jobs, customers, registrySearch, registryStatusFilter, registryDateFilter]);
+  const filteredCustomers = isCustomerSelected ? [] : customerMatches;
+  const pageCount = Math.max(1, Math.ceil(totalJobs / PAGE_SIZE));
 
-  const handleSelectCustomer = (id: string) => { setCustomerId(id); setIsCustomerSelected(true); setCustomerSearch(''); };
+  const handleSelectCustomer = (id: string) => {
+    const match = customerMatches.find(c => c.id === id);
+    if (match) rememberCustomers([match]);
+    setCustomerId(id); setIsCustomerSelected(true); setCustomerSearch('');
+  };
   const handleResetCustomer = () => { setCustomerId(''); setIsCustomerSelected(false); setCustomerSearch(''); };
-  const handleServiceSelect = (id: string) => { const s = services.find(service => service.id === id); setCurrentServiceId(id); if (s) setRate(s.basePrice); };
+  const handleServiceSelect = (id: string) => { const s = services.find(service => service.id === id); setCurrentServiceId(id); if (s) { setRate(s.basePrice); setGovernmentFee(s.governmentFee || 0); } };
 
   const currentSubtotal = useMemo(() => (quantity * rate) - discount, [quantity, rate, discount]);
 
   const addServiceToList = () => {
     if (!currentServiceId) return;
-    const newItem: JobItem = { serviceId: currentServiceId, quantity, unitPrice: rate, discount, subtotal: currentSubtotal, status: status };
+    const service = services.find(s => s.id === currentServiceId);
+    const newItem: JobItem = { serviceId: currentServiceId, quantity, unitPrice: rate, discount, subtotal: currentSubtotal, status: status, governmentFee, hsnSac: service?.hsnSac, taxRate: service?.taxRate || 0 };
     setItems([...items, newItem]);
-    setCurrentServiceId(''); setQuantity(1); setRate(0); setDiscount(0);
+    setCurrentServiceId(''); setQuantity(1); setRate(0); setDiscount(0); setGovernmentFee(0);
   };
 
   const removeItem = (idx: number) => { setItems(items.filter((_, i) => i !== idx)); };
 
+  const supplyState = sellerGstin ? placeOfSupply(selectedCustomer, sellerGstin) : undefined;
+  const taxedItems = useMemo(() => applyTax(items, sellerGstin, supplyState), [items, sellerGstin, supplyState]);
+
   const totals = useMemo(() => {
-    const gross = items.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
-    const totalDiscount = items.reduce((sum, item) => sum + item.discount, 0);
-    const netTotal = gross - totalDiscount;
-    const pending = Math.max(0, netTotal - paidAmount);
-    return { gross, totalDiscount, netTotal, pending };
-  }, [items, paidAmount]);
+    const { gross, discount: totalDiscount, tax, total: netTotal } = jobAmounts(taxedItems);
+    const due = Math.max(0, roundMoney(netTotal - paidAmount));
+    const pending = Math.max(0, roundMoney(due - newPayment.amount));
+    return { gross, totalDiscount, tax, netTotal, due, pending };
+  }, [taxedItems, paidAmount, newPayment.amount]);
 
   const handleCommitInvoice = async () => {
     if (!customerId || items.length === 0) {
       showToast("Select customer and items", 'error');
       return;
     }
+    if (newPayment.amount > totals.due) {
+      showToast(`Only ₹${totals.due} is due on this invoice`, 'error');
+      return;
+    }
 
     setIsSaving(true);
     try {
-      const balance = totals.pending;
+      const balance = totals.due;
       const paymentStatus = balance === 0 ? 'PAID' : paidAmount > 0 ? 'PARTIAL' : 'UNPAID';
       const existingJob = editingId ? jobs.find(j => j.id === editingId) : null;
 
       const jobData: Job = {
-        id: editingId || ('job' + Date.now()),
-        customerId, items, status, paymentStatus, discount: totals.totalDiscount, totalAmount: totals.netTotal, paidAmount, balance, notes,
+        id: editingId || newId('job'),
+        number: editingId ? existingJob?.number : await db.numbering.next('INVOICE'),
+        customerId, items: taxedItems, status, paymentStatus, discount: totals.totalDiscount, taxAmount: totals.tax, totalAmount: totals.netTotal, paidAmount, balance, notes,
+        placeOfSupply: supplyState, sellerGstin, buyerGstin: selectedCustomer?.gstin || undefined,
         createdAt: existingJob ? existingJob.createdAt : new Date().toISOString(),
-        updatedAt: new Date().toISOString()
+        updatedAt: new Date().toISOString(),
+        version: existingJob?.version
       };
 
-      await db.jobs.save(jobData);
-      showToast(editingId ? "Ledger updated" : "Ledger sequence committed");
+      try {
+        await db.jobs.save(jobData);
+      } catch (err) {
+        if (err instanceof ConflictError && err.current) {
+          setConflict({ mine: jobData, theirs: err.current });
+          return;
+        }
+        throw err;
+      }
+      await takePayment(jobData.id, editingId ? "Ledger updated" : "Ledger sequence committed");
+      fetchRegistry();
+      resetForm();
+      setView('LIST');
+    } catch (err) {
+      showToast(errorMessage(err, "Commit failure"), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // --- Edit Conflicts ---
+  // The invoice stands even if the payment is refused; it can be taken again from Edit.
+  const takePayment = async (jobId: string, saved: string) => {
+    try {
+      if (newPayment.amount > 0) await db.payments.record({ jobId, ...newPayment });
+      showToast(saved);
+    } catch (err) {
+      showToast(errorMessage(err, "Invoice saved, but the payment was not recorded"), 'error');
+    }
+  };
+
+  const handleResolveConflict = async (merged: Job) => {
+    setIsSaving(true);
+    try {
+      await db.jobs.save(recalculateJob({ ...merged, updatedAt: new Date().toISOString() }));
+      setConflict(null);
+      await takePayment(merged.id, "Merged ledger saved");
       fetchRegistry();
       resetForm();
       setView('LIST');
     } catch (err) {
-      showToast("Commit failure", 'error');
+      setConflict(null);
+      if (err instanceof ConflictError && err.current) setConflict({ mine: merged, theirs: err.current });
+      else showToast(errorMessage(err, "Commit failure"), 'error');
     } finally {
       setIsSaving(false);
     }
   };
 
-  const resetForm = () => { setEditingId(null); setCustomerId(''); setIsCustomerSelected(false); setItems([]); setPaidAmount(0); setNotes(''); setStatus('PENDING'); };
-  const handleEdit = (job: Job) => { setEditingId(job.id); setCustomerId(job.customerId); setIsCustomerSelected(true); setItems(job.items); setStatus(job.status); setPaidAmount(job.paidAmount); setNotes(job.notes || ''); setView('CREATE'); };
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    resetForm();
+    setView('LIST');
+    fetchRegistry();
+  };
+
+  const conflictFields: ConflictField<Job>[] = [
+    { key: 'customerId', label: 'Customer', format: (id: string) => customers.find(c => c.id === id)?.name || 'Unknown' },
+    { key: 'items', label: 'Billed Services', format: (list: JobItem[]) => list.map(i => `${services.find(s => s.id === i.serviceId)?.name || 'Custom'} × ${i.quantity} · ₹${i.subtotal}`).join('\n') },
+    { key: 'notes', label: 'Notes' }
+  ];
 
-  const handlePrint = (job: Job) => { setReceiptJob(job); setIsGeneratingPDF(false); setTimeout(() => { window.print(); setReceiptJob(null); }, 150); };
+  const resetForm = () => { setEditingId(null); setCustomerId(''); setIsCustomerSelected(false); setItems([]); setPaidAmount(0); setLedger([]); setNewPayment({ amount: 0, mode: 'CASH', reference: '' }); setNotes(''); setStatus('PENDING'); setSellerGstin(company?.gstin || undefined); };
+  const handleEdit = (job: Job) => { setEditingId(job.id); setCustomerId(job.customerId); setIsCustomerSelected(true); setItems(job.items); setStatus(job.status); setPaidAmount(job.paidAmount); setLedger([]); setNewPayment({ amount: 0, mode: 'CASH', reference: '' }); setNotes(job.notes || ''); setSellerGstin(job.sellerGstin); setView('CREATE'); db.payments.forJob(job.id).then(setLedger); };
+
+  const handleVoidPayment = async (payment: Payment) => {
+    if (!window.confirm(`Void the ₹${payment.amount} ${payment.mode} payment? It stays on record but no longer counts.`)) return;
+    setIsProcessing(true);
+    try {
+      await db.payments.void(payment.id);
+      const rows = await db.payments.forJob(payment.jobId);
+      setLedger(rows);
+      setPaidAmount(ledgerPaid(jobs.find(j => j.id === payment.jobId) || {}, rows));
+      showToast("Payment voided");
+      fetchRegistry();
+    } catch (err) {
+      showToast(errorMessage(err, "Void failure"), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const receiptAmounts = receiptJob ? jobAmounts(receiptJob.items) : null;
+
+  // Receipts list every installment, so the ledger is loaded before the receipt renders.
+  const loadReceipt = async (job: Job) => { setReceiptPayments(await db.payments.forJob(job.id).catch(() => [])); setReceiptJob(job); };
+
+  const handlePrint = async (job: Job) => { await loadReceipt(job); setIsGeneratingPDF(false); setTimeout(() => { window.print(); setReceiptJob(null); }, 150); };
 
   const handleDownloadPDF = async (job: Job) => {
-    setIsGeneratingPDF(true); setReceiptJob(job);
+    setIsGeneratingPDF(true); await loadReceipt(job);
     setTimeout(async () => {
       const element = document.getElementById('receipt-container-invoice');
       if (element) {
@@ -148,7 +298,7 @@ const InvoicePage: React.FC = () => {
           const imgData = canvas.toDataURL('image/png');
           const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: [80, 200] });
           pdf.addImage(imgData, 'PNG', 0, 0, pdf.internal.pageSize.getWidth(), (canvas.height * pdf.internal.pageSize.getWidth()) / canvas.width);
-          pdf.save(`Receipt-${job.id.slice(-6)}.pdf`);
+          pdf.save(`Receipt-${jobNumber(job).replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`);
           showToast("Digital receipt generated");
         } catch (error) { console.error(error); }
       }
@@ -157,14 +307,14 @@ const InvoicePage: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (!window.confirm("Permanently delete this invoice record?")) return;
+    if (!window.confirm("Move this invoice record to the trash?")) return;
     setIsProcessing(true);
     try {
       await db.jobs.delete(id);
-      showToast("Ledger entry permanently erased");
+      showToast("Ledger entry moved to trash");
       fetchRegistry();
     } catch (err) {
-      showToast("Erase failure", 'error');
+      showToast(errorMessage(err, "Erase failure"), 'error');
     } finally {
       setIsProcessing(false);
     }
@@ -187,24 +337,50 @@ const InvoicePage: React.FC = () => {
           </div>
         </div>
       )}
+      {conflict && (
+        <ConflictDialog
+          title="Invoice Edited Elsewhere"
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          fields={conflictFields}
+          isSaving={isSaving}
+          onResolve={handleResolveConflict}
+          onCancel={handleDiscardConflict}
+        />
+      )}
+      {creditJob && (
+        <CreditNoteDialog
+          job={creditJob}
+          onClose={() => setCreditJob(null)}
+          onRaised={() => { setCreditJob(null); showToast("Credit note sent for approval"); }}
+        />
+      )}
       {isProcessing && <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm"><div className="bg-white dark:bg-slate-950 p-10 rounded-[15px] shadow-2xl flex flex-col items-center space-y-4 border border-slate-100 dark:border-slate-800"><Loader2 className="animate-spin text-blue-600" size={48} /><p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-900 dark:text-white">Processing Data...</p></div></div>}
 
       {view === 'LIST' ? (
         <div className="space-y-6">
           <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
             <div><h1 className="text-2xl font-black text-slate-800 dark:text-white uppercase tracking-tight">Ledger Registry</h1><p className="text-sm text-slate-500 dark:text-slate-400 font-bold uppercase tracking-widest mt-1">Transaction History</p></div>
-            <button onClick={() => { resetForm(); setView('CREATE'); }} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-[0.1em] hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl active:scale-95 flex items-center space-x-3"><Plus size={18} /><span>Create Invoice</span></button>
+            {canCreate && <button onClick={() => { resetForm(); setView('CREATE'); }} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-[0.1em] hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl active:scale-95 flex items-center space-x-3"><Plus size={18} /><span>Create Invoice</span></button>}
           </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 bg-white dark:bg-slate-900 p-6 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-sm">
             <div className="relative"><Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} /><input type="text" placeholder="Search Customer or ID..." value={registrySearch} onChange={(e) => setRegistrySearch(e.target.value)} className="w-full pl-12 pr-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs font-bold outline-none focus:border-blue-500" /></div>
-            <div className="relative"><Filter className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} /><select value={registryStatusFilter} onChange={(e) => setRegistryStatusFilter(e.target.value as any)} className="w-full pl-12 pr-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs font-bold outline-none focus:border-blue-500 no-arrow"><option value="ALL">All Payment Status</option><option value="PAID">Paid</option><option value="PARTIAL">Partial</option><option value="UNPAID">Unpaid</option></select></div>
-            <div className="relative"><Calendar className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} /><input type="date" value={registryDateFilter} onChange={(e) => setRegistryDateFilter(e.target.value)} className="w-full pl-12 pr-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs font-bold outline-none focus:border-blue-500" />{registryDateFilter && <button onClick={() => setRegistryDateFilter('')} className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"><X size={14}/></button>}</div>
+            <div className="relative"><Filter className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} /><select value={registryStatusFilter} onChange={(e) => { setRegistryStatusFilter(e.target.value as any); setPage(0); }} className="w-full pl-12 pr-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs font-bold outline-none focus:border-blue-500 no-arrow"><option value="ALL">All Payment Status</option><option value="PAID">Paid</option><option value="PARTIAL">Partial</option><option value="UNPAID">Unpaid</option></select></div>
+            <div className="relative"><Calendar className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} /><input type="date" value={registryDateFilter} onChange={(e) => { setRegistryDateFilter(e.target.value); setPage(0); }} className="w-full pl-12 pr-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-xs font-bold outline-none focus:border-blue-500" />{registryDateFilter && <button onClick={() => { setRegistryDateFilter(''); setPage(0); }} className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"><X size={14}/></button>}</div>
           </div>
           <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden">
             <table className="w-full text-left">
               <thead className="bg-slate-50 dark:bg-slate-800/50 text-xs font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest border-b border-slate-100 dark:border-slate-800"><tr><th className="px-8 py-5">Invoice ID</th><th className="px-6 py-5">Customer</th><th className="px-6 py-5">Date</th><th className="px-6 py-5">Amount</th><th className="px-6 py-5">Status</th><th className="px-8 py-5 text-right">Action</th></tr></thead>
-              <tbody className="divide-y divide-slate-50 dark:divide-slate-800">{filteredJobs.length === 0 ? (<tr><td colSpan={6} className="px-8 py-20 text-center text-sm font-bold text-slate-300 uppercase tracking-widest italic">{jobs.length === 0 ? "No invoices found." : "No records match criteria."}</td></tr>) : (filteredJobs.map((job) => (<tr key={job.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors group"><td className="px-8 py-5"><span className="text-sm font-black text-slate-900 dark:text-slate-100">#{job.id.slice(-6).toUpperCase()}</span></td><td className="px-6 py-5"><div className="text-sm font-bold text-slate-700 dark:text-slate-300">{customers.find(c => c.id === job.customerId)?.name || 'Unknown'}</div></td><td className="px-6 py-5 text-sm font-bold text-slate-500">{new Date(job.createdAt).toLocaleDateString('en-IN')}</td><td className="px-6 py-5"><span className="text-sm font-black text-slate-900 dark:text-white">₹{job.totalAmount}</span></td><td className="px-6 py-5"><span className={`text-[9px] font-black px-3 py-1 rounded-full uppercase tracking-tighter border ${job.paymentStatus === 'PAID' ? 'text-emerald-500 bg-emerald-500/10 border-emerald-500/20' : job.paymentStatus === 'PARTIAL' ? 'text-amber-500 bg-amber-500/10 border-amber-500/20' : 'text-rose-500 bg-rose-500/10 border-rose-500/20'}`}>{job.paymentStatus}</span></td><td className="px-8 py-5 text-right space-x-2"><button onClick={() => handleEdit(job)} className="p-2 text-slate-400 hover:text-amber-500 transition-colors" title="Edit"><Edit size={16}/></button><button onClick={() => handlePrint(job)} className="p-2 text-slate-400 hover:text-blue-500 transition-colors" title="Print"><Printer size={16}/></button><button onClick={() => handleDownloadPDF(job)} className="p-2 text-slate-400 hover:text-emerald-500 transition-colors" title="Download PDF"><Download size={16}/></button><button onClick={() => handleDelete(job.id)} className="p-2 text-slate-400 hover:text-rose-500 transition-colors" title="Delete"><Trash2 size={16}/></button></td></tr>)))}</tbody>
+              <tbody className="divide-y divide-slate-50 dark:divide-slate-800">{jobs.length === 0 ? (<tr><td colSpan={6} className="px-8 py-20 text-center text-sm font-bold text-slate-300 uppercase tracking-widest italic">{debouncedSearch || registryStatusFilter !== 'ALL' || registryDateFilter ? "No records match criteria." : "No invoices found."}</td></tr>) : (jobs.map((job) => (<tr key={job.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors group"><td className="px-8 py-5"><span className="text-sm font-black text-slate-900 dark:text-slate-100">{jobNumber(job)}</span></td><td className="px-6 py-5"><div className="text-sm font-bold text-slate-700 dark:text-slate-300">{customers.find(c => c.id === job.customerId)?.name || 'Unknown'}</div></td><td className="px-6 py-5 text-sm font-bold text-slate-500">{new Date(job.createdAt).toLocaleDateString('en-IN')}</td><td className="px-6 py-5"><span className="text-sm font-black text-slate-900 dark:text-white">₹{job.totalAmount}</span></td><td className="px-6 py-5">{job.cancelledAt ? (<span className="text-[9px] font-black px-3 py-1 rounded-full uppercase tracking-tighter border text-slate-500 bg-slate-500/10 border-slate-500/20">Cancelled</span>) : (<span className={`text-[9px] font-black px-3 py-1 rounded-full uppercase tracking-tighter border ${job.paymentStatus === 'PAID' ? 'text-emerald-500 bg-emerald-500/10 border-emerald-500/20' : job.paymentStatus === 'PARTIAL' ? 'text-amber-500 bg-amber-500/10 border-amber-500/20' : 'text-rose-500 bg-rose-500/10 border-rose-500/20'}`}>{job.paymentStatus}</span>)}</td><td className="px-8 py-5 text-right space-x-2">{canEdit && !job.cancelledAt && <button onClick={() => handleEdit(job)} className="p-2 text-slate-400 hover:text-amber-500 transition-colors" title="Edit"><Edit size={16}/></button>}{canEdit && !job.cancelledAt && <button onClick={() => setCreditJob(job)} className="p-2 text-slate-400 hover:text-violet-500 transition-colors" title="Credit note / refund"><ReceiptText size={16}/></button>}<button onClick={() => handlePrint(job)} className="p-2 text-slate-400 hover:text-blue-500 transition-colors" title="Print"><Printer size={16}/></button><button onClick={() => handleDownloadPDF(job)} className="p-2 text-slate-400 hover:text-emerald-500 transition-colors" title="Download PDF"><Download size={16}/></button>{canDelete && <button onClick={() => handleDelete(job.id)} className="p-2 text-slate-400 hover:text-rose-500 transition-colors" title="Delete"><Trash2 size={16}/></button>}</td></tr>)))}</tbody>
             </table>
+            <div className="px-8 py-4 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between bg-slate-50/50 dark:bg-slate-800/30">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{totalJobs === 0 ? 'No records' : `${page * PAGE_SIZE + 1}–${page * PAGE_SIZE + jobs.length} of ${totalJobs}`}</span>
+              <div className="flex items-center space-x-2">
+                <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Previous page"><ChevronLeft size={16} /></button>
+                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Page {page + 1} / {pageCount}</span>
+                <button onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))} disabled={page + 1 >= pageCount} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Next page"><ChevronRight size={16} /></button>
+              </div>
+            </div>
           </div>
         </div>
       ) : (
@@ -218,8 +394,11 @@ const InvoicePage: React.FC = () => {
             )}
             {isCustomerSelected && (
               <div className="space-y-10 animate-in fade-in duration-500">
-                <div className="space-y-4"><h3 className="text-sm font-black text-slate-400 uppercase tracking-widest ml-1">Item Staging Area</h3><div className="grid grid-cols-12 gap-4 items-end bg-white dark:bg-slate-950 p-6 rounded-[15px] border border-blue-500/20 shadow-xl"><div className="col-span-12 lg:col-span-3 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Service Particulars</label><select value={currentServiceId} onChange={(e) => handleServiceSelect(e.target.value)} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-blue-500 no-arrow"><option value="">Choose Domain...</option>{services.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}</select></div><div className="col-span-6 lg:col-span-1 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Qty</label><input type="number" min="1" value={quantity} onChange={(e) => setQuantity(Number(e.target.value))} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-blue-500 no-spinner" /></div><div className="col-span-6 lg:col-span-2 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Unit Rate (₹)</label><input type="number" value={rate} onChange={(e) => setRate(Number(e.target.value))} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-blue-500 no-spinner" /></div><div className="col-span-6 lg:col-span-1 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Disc. (₹)</label><input type="number" value={discount} onChange={(e) => setDiscount(Number(e.target.value))} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold text-rose-500 outline-none focus:border-rose-500 no-spinner" /></div><div className="col-span-6 lg:col-span-2 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Line Total</label><div className="w-full px-4 py-3 rounded-[15px] bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm font-black text-slate-900 dark:text-white min-h-[46px] flex items-center">₹{currentSubtotal}</div></div><div className="col-span-12 lg:col-span-2 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Workflow</label><select value={status} onChange={(e) => setStatus(e.target.value as JobStatus)} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-blue-500 no-arrow"><option value="PENDING">Pending</option><option value="IN_PROGRESS">Processing</option><option value="COMPLETED">Completed</option></select></div><div className="col-span-12 lg:col-span-1"><button onClick={addServiceToList} className="w-full p-3 bg-blue-600 text-white rounded-[15px] hover:bg-blue-700 transition-all shadow-lg flex items-center justify-center group active:scale-95" title="Add to Bill"><Plus size={24} className="group-hover:rotate-90 transition-transform" /></button></div></div></div>
-                <div className="space-y-6"><div className="bg-white dark:bg-slate-950 rounded-[15px] border border-slate-100 dark:border-slate-800 overflow-hidden shadow-sm min-h-[200px]"><table className="w-full text-left"><thead className="bg-slate-50 dark:bg-slate-800/50 text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 dark:border-slate-800"><tr><th className="px-8 py-5">Particulars</th><th className="px-6 py-5 text-center">Unit Price</th><th className="px-6 py-5 text-center">Qty</th><th className="px-6 py-5 text-center">Discount</th><th className="px-6 py-5 text-right">Net Value</th><th className="px-8 py-5 text-right">Action</th></tr></thead><tbody className="divide-y divide-slate-50 dark:divide-slate-800">{items.length === 0 ? (<tr><td colSpan={6} className="px-8 py-20 text-center text-sm font-bold text-slate-300 uppercase tracking-widest italic">Bill is empty. Staging items above will populate this ledger.</td></tr>) : (items.map((item, idx) => (<tr key={idx} className="group hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors"><td className="px-8 py-4"><div className="text-sm font-bold text-slate-800 dark:text-slate-200 uppercase">{services.find(s => s.id === item.serviceId)?.name || 'Unknown'}</div></td><td className="px-6 py-4 text-center text-sm font-bold text-slate-500">₹{item.unitPrice}</td><td className="px-6 py-4 text-center text-sm font-black text-slate-800 dark:text-white">{item.quantity}</td><td className="px-6 py-4 text-center text-sm font-black text-rose-500">₹{item.discount}</td><td className="px-6 py-4 text-right text-sm font-black text-slate-900 dark:text-white tracking-tighter">₹{item.subtotal}</td><td className="px-8 py-4 text-right"><button onClick={() => removeItem(idx)} className="p-2 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-all"><Trash2 size={16}/></button></td></tr>)))}</tbody></table></div><div className="flex justify-end pr-8"><div className="w-full max-w-xs space-y-2"><label className="text-sm font-bold text-emerald-600 uppercase tracking-widest block ml-1">Amount Paid (₹)</label><div className="relative"><IndianRupee className="absolute left-4 top-1/2 -translate-y-1/2 text-emerald-600/50" size={20} /><input type="number" value={paidAmount} onChange={(e) => setPaidAmount(Number(e.target.value))} className="w-full pl-12 pr-6 py-4 rounded-[15px] bg-white dark:bg-slate-950 border border-slate-200 dark:border-slate-700 text-xl font-black text-emerald-600 outline-none focus:border-emerald-500 shadow-sm no-spinner" placeholder="0" /></div></div></div></div>
+                <div className="space-y-4"><h3 className="text-sm font-black text-slate-400 uppercase tracking-widest ml-1">Item Staging Area</h3><div className="grid grid-cols-12 gap-4 items-end bg-white dark:bg-slate-950 p-6 rounded-[15px] border border-blue-500/20 shadow-xl"><div className="col-span-12 lg:col-span-2 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Service Particulars</label><select value={currentServiceId} onChange={(e) => handleServiceSelect(e.target.value)} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-blue-500 no-arrow"><option value="">Choose Domain...</option>{services.filter(s => !s.deletedAt).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}</select></div><div className="col-span-6 lg:col-span-1 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Qty</label><input type="number" min="1" value={quantity} onChange={(e) => setQuantity(Number(e.target.value))} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-blue-500 no-spinner" /></div><div className="col-span-6 lg:col-span-2 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Unit Rate (₹)</label><input type="number" value={rate} onChange={(e) => setRate(Number(e.target.value))} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-blue-500 no-spinner" /></div><div className="col-span-6 lg:col-span-1 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1" title="Government fee included in the unit rate">Govt Fee</label><input type="number" min="0" value={governmentFee} onChange={(e) => setGovernmentFee(Number(e.target.value))} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-blue-500 no-spinner" /></div><div className="col-span-6 lg:col-span-1 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Disc. (₹)</label><input type="number" value={discount} onChange={(e) => setDiscount(Number(e.target.value))} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold text-rose-500 outline-none focus:border-rose-500 no-spinner" /></div><div className="col-span-6 lg:col-span-2 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Line Total</label><div className="w-full px-4 py-3 rounded-[15px] bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-sm font-black text-slate-900 dark:text-white min-h-[46px] flex items-center">₹{currentSubtotal}</div></div><div className="col-span-12 lg:col-span-2 space-y-2"><label className="text-xs font-bold text-slate-400 uppercase tracking-widest block ml-1">Workflow</label><select value={status} onChange={(e) => setStatus(e.target.value as JobStatus)} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-blue-500 no-arrow"><option value="PENDING">Pending</option><option value="IN_PROGRESS">Processing</option><option value="COMPLETED">Completed</option></select></div><div className="col-span-12 lg:col-span-1"><button onClick={addServiceToList} className="w-full p-3 bg-blue-600 text-white rounded-[15px] hover:bg-blue-700 transition-all shadow-lg flex items-center justify-center group active:scale-95" title="Add to Bill"><Plus size={24} className="group-hover:rotate-90 transition-transform" /></button></div></div></div>
+                <div className="space-y-6"><div className="bg-white dark:bg-slate-950 rounded-[15px] border border-slate-100 dark:border-slate-800 overflow-hidden shadow-sm min-h-[200px]"><table className="w-full text-left"><thead className="bg-slate-50 dark:bg-slate-800/50 text-xs font-black text-slate-400 uppercase tracking-widest border-b border-slate-100 dark:border-slate-800"><tr><th className="px-8 py-5">Particulars</th><th className="px-6 py-5 text-center">Unit Price</th><th className="px-6 py-5 text-center">Qty</th><th className="px-6 py-5 text-center">Discount</th><th className="px-6 py-5 text-right">Taxable Value</th><th className="px-6 py-5 text-center">GST</th><th className="px-8 py-5 text-right">Action</th></tr></thead><tbody className="divide-y divide-slate-50 dark:divide-slate-800">{taxedItems.length === 0 ? (<tr><td colSpan={7} className="px-8 py-20 text-center text-sm font-bold text-slate-300 uppercase tracking-widest italic">Bill is empty. Staging items above will populate this ledger.</td></tr>) : (taxedItems.map((item, idx) => (<tr key={idx} className="group hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors"><td className="px-8 py-4"><div className="text-sm font-bold text-slate-800 dark:text-slate-200 uppercase">{services.find(s => s.id === item.serviceId)?.name || 'Unknown'}</div>{item.hsnSac && <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">HSN/SAC {item.hsnSac}</div>}{!!item.governmentFee && <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Govt. fee ₹{passThroughFee(item)} · Charge ₹{serviceCharge(item)}</div>}</td><td className="px-6 py-4 text-center text-sm font-bold text-slate-500">₹{item.unitPrice}</td><td className="px-6 py-4 text-center text-sm font-black text-slate-800 dark:text-white">{item.quantity}</td><td className="px-6 py-4 text-center text-sm font-black text-rose-500">₹{item.discount}</td><td className="px-6 py-4 text-right text-sm font-black text-slate-900 dark:text-white tracking-tighter">₹{item.subtotal}</td><td className="px-6 py-4 text-center text-sm font-bold text-slate-500">{lineTax(item) > 0 ? `₹${lineTax(item)} (${item.taxRate}%)` : 'Nil'}</td><td className="px-8 py-4 text-right"><button onClick={() => removeItem(idx)} className="p-2 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-all"><Trash2 size={16}/></button></td></tr>)))}</tbody></table></div><div className="flex flex-col lg:flex-row justify-between items-start gap-8 px-2">
+                  <div className="w-full lg:max-w-xl space-y-3"><h3 className="text-sm font-black text-slate-400 uppercase tracking-widest ml-1">Payments Received</h3>{ledger.length === 0 && !editingJob?.paidBeforeLedger ? (<p className="text-xs font-bold text-slate-300 uppercase tracking-widest italic ml-1">No payments recorded yet.</p>) : (<div className="bg-white dark:bg-slate-950 rounded-[15px] border border-slate-100 dark:border-slate-800 divide-y divide-slate-50 dark:divide-slate-800">{!!editingJob?.paidBeforeLedger && <div className="flex items-center justify-between px-5 py-3"><span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Paid before payment ledger</span><span className="text-sm font-black text-slate-900 dark:text-white">₹{editingJob.paidBeforeLedger}</span></div>}{ledger.map(payment => (<div key={payment.id} className={`flex items-center justify-between px-5 py-3 ${payment.voidedAt ? 'opacity-40' : ''}`}><div><div className="text-xs font-black text-slate-700 dark:text-slate-200 uppercase tracking-widest">{payment.mode}{payment.reference ? ` · ${payment.reference}` : ''}{payment.voidedAt ? ' · Voided' : ''}</div><div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{new Date(payment.receivedAt).toLocaleString('en-IN')} · {payment.receivedByName}</div></div><div className="flex items-center space-x-2"><span className={`text-sm font-black text-slate-900 dark:text-white ${payment.voidedAt ? 'line-through' : ''}`}>₹{payment.amount}</span>{canDelete && !payment.voidedAt && <button onClick={() => handleVoidPayment(payment)} className="p-2 text-slate-300 hover:text-rose-500 transition-colors" title="Void payment"><Ban size={14}/></button>}</div></div>))}</div>)}</div>
+                  <div className="w-full lg:max-w-sm space-y-3"><label className="text-sm font-bold text-emerald-600 uppercase tracking-widest block ml-1">Receive Payment (₹)</label><div className="relative"><IndianRupee className="absolute left-4 top-1/2 -translate-y-1/2 text-emerald-600/50" size={20} /><input type="number" min="0" value={newPayment.amount} onChange={(e) => setNewPayment({ ...newPayment, amount: Number(e.target.value) })} className="w-full pl-12 pr-6 py-4 rounded-[15px] bg-white dark:bg-slate-950 border border-slate-200 dark:border-slate-700 text-xl font-black text-emerald-600 outline-none focus:border-emerald-500 shadow-sm no-spinner" placeholder="0" /></div><div className="grid grid-cols-2 gap-3"><select value={newPayment.mode} onChange={(e) => setNewPayment({ ...newPayment, mode: e.target.value as PaymentMode })} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-emerald-500 no-arrow">{PAYMENT_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}</select><input type="text" value={newPayment.reference} onChange={(e) => setNewPayment({ ...newPayment, reference: e.target.value })} className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-sm font-bold outline-none focus:border-emerald-500" placeholder={newPayment.mode === 'CASH' ? 'Reference (optional)' : 'Txn / Ref No.'} /></div>{paidAmount > 0 && <p className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Paid so far ₹{paidAmount} · Due ₹{totals.due}</p>}</div>
+                </div></div>
               </div>
             )}
           </div>
@@ -227,6 +406,7 @@ const InvoicePage: React.FC = () => {
             <div className="flex flex-wrap items-center gap-10">
               <div className="space-y-1"><span className="text-xs font-black text-slate-400 uppercase tracking-widest block ml-1">Gross Total Bill</span><div className="flex items-center text-2xl font-bold text-slate-400 tracking-tighter opacity-60">₹ {totals.gross}</div></div>
               <div className="space-y-1"><span className="text-xs font-black text-rose-500 uppercase tracking-widest block ml-1">Total Discount</span><div className="flex items-center text-2xl font-black text-rose-600 tracking-tighter">- ₹ {totals.totalDiscount}</div></div>
+              {sellerGstin && <div className="space-y-1"><span className="text-xs font-black text-blue-500 uppercase tracking-widest block ml-1">GST{supplyState ? ` · ${stateName(supplyState)}` : ''}</span><div className="flex items-center text-2xl font-black text-blue-600 tracking-tighter">+ ₹ {totals.tax}</div></div>}
               <div className="space-y-1"><span className="text-xs font-black text-slate-900 dark:text-white uppercase tracking-widest block ml-1">Net To Be Paid</span><div className="flex items-center text-4xl font-black text-slate-900 dark:text-white tracking-tighter"><IndianRupee size={28} className="mr-1 opacity-20" /> {totals.netTotal}</div></div>
               <div className="flex items-center space-x-8 bg-white dark:bg-slate-950 px-8 py-4 rounded-[15px] border border-slate-200 dark:border-slate-700 shadow-inner"><div className="space-y-1"><span className="text-xs font-black text-rose-600 uppercase tracking-widest block ml-1">Pending Amount</span><div className={`text-2xl font-black tracking-tighter ${totals.pending > 0 ? 'text-rose-600' : 'text-emerald-500'}`}>₹ {totals.pending}</div></div></div>
             </div>
@@ -238,10 +418,14 @@ const InvoicePage: React.FC = () => {
       {(receiptJob || isGeneratingPDF) && (
         <div className={`fixed inset-0 z-[100] bg-white pointer-events-none flex justify-center ${isGeneratingPDF ? 'opacity-100 overflow-visible' : 'opacity-0 print:opacity-100 print:relative print:z-auto print:block print:w-full'}`}>
           <div id="receipt-container-invoice" className="w-[80mm] p-6 bg-white text-black font-sans border border-gray-100 shadow-sm">
-            <div className="text-center mb-6 space-y-1"><div className="inline-block bg-black text-white px-2 py-1 rounded font-black text-sm mb-1">RE</div><h2 className="text-lg font-black uppercase">Regal Jan Seva Kendra</h2><p className="text-[9px] font-bold uppercase tracking-widest text-gray-500">Innovation is our Motto</p></div>
-            <div className="border-t border-b border-black border-dashed py-3 my-4 space-y-1"><div className="flex justify-between text-[8px] font-black uppercase"><span>ID: #{receiptJob?.id.slice(-6).toUpperCase()}</span><span>Date: {new Date(receiptJob?.createdAt || '').toLocaleDateString('en-IN')}</span></div></div>
-            <div className="mb-4 space-y-0.5"><p className="text-[7px] font-black uppercase text-gray-400">Account Holder:</p><h3 className="text-xs font-black uppercase">{customers.find(c => c.id === receiptJob?.customerId)?.name || 'Walk-in'}</h3><p className="text-[8px] font-mono">{customers.find(c => c.id === receiptJob?.customerId)?.phone}</p></div>
-            <table className="w-full text-left mb-4"><thead className="border-b border-black text-[7px] font-black uppercase"><tr><th className="py-1">Item</th><th className="py-1 text-center">Qty</th><th className="py-1 text-right">Amt</th></tr></thead><tbody>{receiptJob?.items.map((item, idx) => (<tr key={idx} className="text-[8px] border-b border-gray-50"><td className="py-1.5"><div className="font-bold uppercase">{services.find(s => s.id === item.serviceId)?.name || 'Custom'}</div></td><td className="py-1.5 text-center">{item.quantity}</td><td className="py-1.5 text-right font-bold">₹{item.subtotal}</td></tr>))}</tbody><tfoot><tr className="border-t border-black"><td colSpan={2} className="py-2 font-black text-[10px] uppercase">Net Total</td><td className="py-2 text-right font-black text-[10px]">₹{receiptJob?.totalAmount}</td></tr><tr className="text-[8px] font-bold text-gray-600"><td colSpan={2} className="uppercase">Cash Paid</td><td className="text-right">₹{receiptJob?.paidAmount}</td></tr><tr className="text-[8px] font-black text-red-600"><td colSpan={2} className="uppercase">Due Balance</td><td className="text-right">₹{receiptJob?.balance}</td></tr></tfoot></table>
+            <div className="text-center mb-6 space-y-1"><div className="inline-block bg-black text-white px-2 py-1 rounded font-black text-sm mb-1">RE</div><h2 className="text-lg font-black uppercase">{company?.companyName || 'Regal Jan Seva Kendra'}</h2>{receiptJob?.sellerGstin ? (<><p className="text-[7px] font-bold uppercase text-gray-600">{company?.address}</p><p className="text-[8px] font-black uppercase">GSTIN: {receiptJob.sellerGstin}</p><p className="text-[9px] font-black uppercase tracking-widest border border-black inline-block px-2 mt-1">Tax Invoice</p></>) : (<p className="text-[9px] font-bold uppercase tracking-widest text-gray-500">Innovation is our Motto</p>)}</div>{receiptJob?.cancelledAt && <p className="text-center text-[10px] font-black uppercase tracking-[0.3em] text-red-600 mb-2">Cancelled</p>}
+            <div className="border-t border-b border-black border-dashed py-3 my-4 space-y-1"><div className="flex justify-between text-[8px] font-black uppercase"><span>Invoice: {receiptJob ? jobNumber(receiptJob) : ''}</span><span>Date: {new Date(receiptJob?.createdAt || '').toLocaleDateString('en-IN')}</span></div>{receiptJob?.placeOfSupply && <div className="text-[7px] font-bold uppercase">Place of Supply: {stateName(receiptJob.placeOfSupply)}</div>}</div>
+            <div className="mb-4 space-y-0.5"><p className="text-[7px] font-black uppercase text-gray-400">Account Holder:</p><h3 className="text-xs font-black uppercase">{customers.find(c => c.id === receiptJob?.customerId)?.name || 'Walk-in'}</h3><p className="text-[8px] font-mono">{customers.find(c => c.id === receiptJob?.customerId)?.phone}</p>{receiptJob?.buyerGstin && <p className="text-[8px] font-black uppercase">GSTIN: {receiptJob.buyerGstin}</p>}</div>
+            <table className="w-full text-left mb-4"><thead className="border-b border-black text-[7px] font-black uppercase"><tr><th className="py-1">Item</th><th className="py-1 text-center">Qty</th><th className="py-1 text-right">Amt</th></tr></thead><tbody>{receiptJob?.items.map((item, idx) => (<tr key={idx} className="text-[8px] border-b border-gray-50"><td className="py-1.5"><div className="font-bold uppercase">{services.find(s => s.id === item.serviceId)?.name || 'Custom'}</div>{receiptJob.sellerGstin && item.hsnSac && <div className="text-[6px] text-gray-500">HSN/SAC {item.hsnSac}</div>}</td><td className="py-1.5 text-center">{item.quantity}</td><td className="py-1.5 text-right font-bold">₹{item.subtotal}</td></tr>))}</tbody><tfoot>{receiptAmounts && receiptAmounts.fees > 0 && (<><tr className="border-t border-black text-[8px] font-bold"><td colSpan={2} className="pt-2 uppercase">Govt. Fees (Pass-through)</td><td className="pt-2 text-right">₹{receiptAmounts.fees}</td></tr><tr className="text-[8px] font-bold"><td colSpan={2} className="uppercase">Service Charges</td><td className="text-right">₹{receiptAmounts.commission}</td></tr></>)}{receiptJob?.sellerGstin && (<tr className="text-[8px] font-bold"><td colSpan={2} className="uppercase">GST</td><td className="text-right">₹{receiptJob.taxAmount || 0}</td></tr>)}<tr className="border-t border-black"><td colSpan={2} className="py-2 font-black text-[10px] uppercase">Net Total</td><td className="py-2 text-right font-black text-[10px]">₹{receiptJob?.totalAmount}</td></tr>{!!receiptJob?.paidBeforeLedger && (<tr className="text-[8px] font-bold text-gray-600"><td colSpan={2} className="uppercase">Paid Earlier</td><td className="text-right">₹{receiptJob.paidBeforeLedger}</td></tr>)}{receiptPayments.filter(p => !p.voidedAt).map(p => (<tr key={p.id} className="text-[8px] font-bold text-gray-600"><td colSpan={2} className="uppercase">{new Date(p.receivedAt).toLocaleDateString('en-IN')} · {p.mode}{p.reference ? ` · ${p.reference}` : ''}</td><td className="text-right">₹{p.amount}</td></tr>))}<tr className="text-[8px] font-black text-gray-600"><td colSpan={2} className="uppercase">Total Paid</td><td className="text-right">₹{receiptJob?.paidAmount}</td></tr>{!!receiptJob?.creditedAmount && (<tr className="text-[8px] font-bold text-gray-600"><td colSpan={2} className="uppercase">Credit Notes</td><td className="text-right">- ₹{receiptJob.creditedAmount}</td></tr>)}{!!receiptJob?.refundedAmount && (<tr className="text-[8px] font-bold text-gray-600"><td colSpan={2} className="uppercase">Refunded</td><td className="text-right">- ₹{receiptJob.refundedAmount}</td></tr>)}<tr className="text-[8px] font-black text-red-600"><td colSpan={2} className="uppercase">Due Balance</td><td className="text-right">₹{receiptJob?.balance}</td></tr></tfoot></table>
+            {receiptJob?.sellerGstin && (
+              <table className="w-full text-left mb-4 border-t border-black border-dashed"><thead className="text-[6px] font-black uppercase"><tr><th className="py-1">HSN/SAC</th><th className="py-1 text-right">Taxable</th>{receiptJob.items.some(i => i.igst) ? <th className="py-1 text-right">IGST</th> : <><th className="py-1 text-right">CGST</th><th className="py-1 text-right">SGST</th></>}</tr></thead><tbody>{taxSummary(receiptJob.items).map(row => (<tr key={`${row.hsnSac}-${row.rate}`} className="text-[7px]"><td className="py-0.5">{row.hsnSac || '-'} @{row.rate}%</td><td className="py-0.5 text-right">₹{row.taxable}</td>{receiptJob.items.some(i => i.igst) ? <td className="py-0.5 text-right">₹{row.igst}</td> : <><td className="py-0.5 text-right">₹{row.cgst}</td><td className="py-0.5 text-right">₹{row.sgst}</td></>}</tr>))}</tbody></table>
+            )}
+            <p className="text-[7px] font-bold italic mb-2">{amountInWords(receiptJob?.totalAmount || 0)}</p>
             <div className="text-center mt-6 pt-4 border-t border-gray-100 border-dashed"><p className="text-[7px] text-gray-400 italic">Authorized CSC ERP Transaction.</p></div>
           </div>
         </div>
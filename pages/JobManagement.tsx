@@ -1,8 +1,14 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { db } from '../db';
-import { Job, Customer, Service, JobStatus, JobItem } from '../types';
-import { Plus, X, Save, User, IndianRupee, Loader2, Printer, Download, Trash2, Edit, ArrowUpDown, PlusCircle, Smartphone, Fingerprint, ChevronDown, ArrowUp, ArrowDown, AlertCircle, Search, Filter, CheckCircle2 } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { db, ChangeEvent, matchesQuery, QueryFilter, QueryOptions, errorMessage, ConflictError, PAYMENT_MODES } from '../db';
+import { Job, Customer, Service, JobStatus, JobItem, PaymentMode } from '../types';
+import { recalculateJob, jobAmounts, isOpenStatus } from '../utils/jobTotals';
+import { applyTax, placeOfSupply, stateName } from '../utils/gst';
+import ConflictDialog, { ConflictField } from '../components/ConflictDialog';
+import RecordHistory from '../components/RecordHistory';
+import { newId } from '../utils/ids';
+import { roundMoney } from '../utils/money';
+import { Plus, X, Save, User, IndianRupee, Loader2, Printer, Download, Trash2, Edit, ArrowUpDown, PlusCircle, Smartphone, Fingerprint, ChevronDown, ArrowUp, ArrowDown, AlertCircle, Search, Filter, CheckCircle2, ChevronLeft, ChevronRight } from 'lucide-react';
 
 type SortField = 'customerName' | 'customerAadhaar' | 'serviceName' | 'date' | 'status';
 type SortDirection = 'ASC' | 'DESC' | null;
@@ -12,20 +18,39 @@ interface SortConfig {
   direction: SortDirection;
 }
 
+const PAGE_SIZE = 20;
+
+// Columns the server can order by; the rest are derived and sorted within the page.
+const SERVER_SORT: Partial<Record<SortField, string>> = { date: 'createdAt', status: 'status' };
+
+const overdueThreshold = () => {
+  const threeDaysAgo = new Date();
+  threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
+  return threeDaysAgo.toISOString();
+};
+
 const JobManagement: React.FC = () => {
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [totalJobs, setTotalJobs] = useState(0);
+  const [page, setPage] = useState(0);
+  const [overdueCount, setOverdueCount] = useState(0);
+  // Customers referenced by the current page, plus the full list once the modal needs it.
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [services, setServices] = useState<Service[]>([]);
+  const [companyGstin, setCompanyGstin] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
   
   const [view, setView] = useState<'LIST' | 'BOARD' | 'OVERDUE'>('LIST');
   const [showModal, setShowModal] = useState(false);
+  const [modalTab, setModalTab] = useState<'DETAILS' | 'HISTORY'>('DETAILS');
   const [editingJob, setEditingJob] = useState<Job | null>(null);
+  const [conflict, setConflict] = useState<{ mine: Job; theirs: Job } | null>(null);
   const [sortConfig, setSortConfig] = useState<SortConfig>({ field: 'date', direction: 'DESC' });
 
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<JobStatus | 'ALL'>('ALL');
 
   const showToast = (message: string, type: 'success' | 'error' = 'success') => {
@@ -42,16 +67,74 @@ const JobManagement: React.FC = () => {
     status: 'PENDING'
   });
 
+  const rememberCustomers = (list: Customer[]) => {
+    setCustomers(prev => {
+      const byId = new Map(prev.map(c => [c.id, c]));
+      list.forEach(c => byId.set(c.id, c));
+      return Array.from(byId.values());
+    });
+  };
+
+  const buildQuery = async (servicesData: Service[]): Promise<QueryOptions> => {
+    const filters: QueryFilter[] = [];
+    if (statusFilter !== 'ALL') filters.push({ field: 'items', op: 'contains', value: [{ status: statusFilter }] });
+    if (view === 'OVERDUE') {
+      filters.push({ field: 'status', op: 'neq', value: 'COMPLETED' });
+      filters.push({ field: 'status', op: 'neq', value: 'CANCELLED' });
+      filters.push({ field: 'createdAt', op: 'lt', value: overdueThreshold() });
+    }
+
+    const options: QueryOptions = {
+      filters,
+      orderBy: {
+        field: (sortConfig.direction && SERVER_SORT[sortConfig.field]) || 'createdAt',
+        direction: (sortConfig.direction && SERVER_SORT[sortConfig.field] && sortConfig.direction) || 'DESC'
+      },
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE
+    };
+
+    const term = debouncedSearch.trim();
+    if (term) {
+      const { rows: matchedCustomers } = await db.customers.query({
+        anyOf: [
+          { field: 'name', op: 'ilike', value: term },
+          { field: 'phone', op: 'ilike', value: term },
+          { field: 'aadhaarNumber', op: 'ilike', value: term }
+        ],
+        limit: 100
+      });
+      const matchedServices = servicesData.filter(s => s.name.toLowerCase().includes(term.toLowerCase()));
+      options.anyOf = [
+        { field: 'id', op: 'ilike', value: term },
+        { field: 'number', op: 'ilike', value: term },
+        ...matchedServices.map(s => ({ field: 'items', op: 'contains' as const, value: [{ serviceId: s.id }] }))
+      ];
+      if (matchedCustomers.length > 0) options.anyOf.push({ field: 'customerId', op: 'in', value: matchedCustomers.map(c => c.id) });
+    }
+    return options;
+  };
+
+  // The query behind the rows on screen, used to place incoming changes.
+  const activeQuery = useRef<QueryOptions>({});
+
   const fetchData = async () => {
     try {
-      const [jobsData, customersData, servicesData] = await Promise.all([
-        db.jobs.all(),
-        db.customers.all(),
-        db.services.all()
-      ]);
-      setJobs(jobsData);
-      setCustomers(customersData);
+      // Trashed services still name the items already billed against them.
+      const servicesData = await db.services.all({ includeDeleted: true });
+      const settings = await db.settings.get();
+      const options = await buildQuery(servicesData);
+      const result = await db.jobs.query(options);
+      activeQuery.current = options;
+      const customerIds = Array.from(new Set(result.rows.map(j => j.customerId)));
+      if (customerIds.length > 0) {
+        const { rows } = await db.customers.query({ filters: [{ field: 'id', op: 'in', value: customerIds }], includeDeleted: true });
+        rememberCustomers(rows);
+      }
+      setJobs(result.rows);
+      setTotalJobs(result.total);
       setServices(servicesData);
+      setCompanyGstin(settings.gstin || undefined);
     } catch (error) {
       console.error("Fetch error:", error);
     } finally {
@@ -59,20 +142,68 @@ const JobManagement: React.FC = () => {
     }
   };
 
+  // --- Live Updates ---
+  // Changes are patched into the current page; nothing is fetched again.
+  const applyJobChange = (change: ChangeEvent<Job>) => {
+    const onPage = jobs.some(j => j.id === change.id);
+    const belongs = !!change.record && matchesQuery(change.record, activeQuery.current);
+
+    if (onPage && !belongs) {
+      setJobs(prev => prev.filter(j => j.id !== change.id));
+      setTotalJobs(t => Math.max(0, t - 1));
+    } else if (onPage) {
+      setJobs(prev => prev.map(j => (j.id === change.id ? change.record! : j)));
+    } else if (belongs && change.type === 'INSERT') {
+      setTotalJobs(t => t + 1);
+      // Newest-first is the default order, so a new job only lands on the first page.
+      const newestFirst = activeQuery.current.orderBy?.field === 'createdAt' && activeQuery.current.orderBy.direction === 'DESC';
+      if (page === 0 && newestFirst) setJobs(prev => [change.record!, ...prev].slice(0, PAGE_SIZE));
+    }
+  };
+
+  const applyCustomerChange = (change: ChangeEvent<Customer>) => {
+    if (change.record) rememberCustomers([change.record]);
+    else setCustomers(prev => prev.filter(c => c.id !== change.id));
+  };
+
+  const applyServiceChange = (change: ChangeEvent<Service>) => {
+    setServices(prev => change.record
+      ? [...prev.filter(s => s.id !== change.id), change.record]
+      : prev.filter(s => s.id !== change.id));
+  };
+
+  // Subscriptions outlive renders, so they call the handler from the latest one.
+  const changeHandlers = useRef({ applyJobChange, applyCustomerChange, applyServiceChange });
+  changeHandlers.current = { applyJobChange, applyCustomerChange, applyServiceChange };
+
+  useEffect(() => {
+    const timer = setTimeout(() => { setDebouncedSearch(searchTerm); setPage(0); }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
   useEffect(() => {
     fetchData();
-    const unsubJobs = db.jobs.subscribe(fetchData);
-    const unsubCustomers = db.customers.subscribe(fetchData);
-    const unsubServices = db.services.subscribe(fetchData);
+  }, [page, debouncedSearch, statusFilter, view, sortConfig]);
+
+  useEffect(() => {
+    const unsubJobs = db.jobs.subscribe(change => changeHandlers.current.applyJobChange(change));
+    const unsubCustomers = db.customers.subscribe(change => changeHandlers.current.applyCustomerChange(change));
+    const unsubServices = db.services.subscribe(change => changeHandlers.current.applyServiceChange(change));
+    // The overdue badge counts across all jobs, straight from the shared cache.
+    const unsubOverdue = db.jobs.watch(rows => {
+      const threshold = overdueThreshold();
+      setOverdueCount(rows.filter(j => isOpenStatus(j.status) && j.createdAt < threshold).length);
+    });
     return () => {
       unsubJobs();
       unsubCustomers();
       unsubServices();
+      unsubOverdue();
     };
   }, []);
 
-  const isOverdue = (status: string, date: string) => {
-    if (status === 'COMPLETED') return false;
+  const isOverdue = (status: JobStatus, date: string) => {
+    if (!isOpenStatus(status)) return false;
     const threeDaysAgo = new Date();
     threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
     return new Date(date) < threeDaysAgo;
@@ -92,9 +223,9 @@ const JobManagement: React.FC = () => {
           customerAadhaar: customer?.aadhaarNumber || '',
           serviceName: service?.name || 'Unknown Service',
           date: job.createdAt,
-          status: item.status || 'PENDING',
+          status: item.status,
           originalJob: job,
-          isOverdue: isOverdue(item.status || 'PENDING', job.createdAt)
+          isOverdue: isOverdue(item.status, job.createdAt)
         };
       })
     );
@@ -104,21 +235,22 @@ const JobManagement: React.FC = () => {
     let filtered = flattenedTasks;
     if (view === 'OVERDUE') filtered = filtered.filter(t => t.isOverdue);
     if (statusFilter !== 'ALL') filtered = filtered.filter(t => t.status === statusFilter);
-    if (searchTerm.trim()) {
-      const lowerSearch = searchTerm.toLowerCase();
+    if (debouncedSearch.trim()) {
+      const lowerSearch = debouncedSearch.toLowerCase();
       filtered = filtered.filter(t => 
         t.customerName.toLowerCase().includes(lowerSearch) ||
-        t.customerPhone.includes(searchTerm) ||
-        t.customerAadhaar.includes(searchTerm) ||
+        t.customerPhone.includes(debouncedSearch) ||
+        t.customerAadhaar.includes(debouncedSearch) ||
         t.serviceName.toLowerCase().includes(lowerSearch) ||
-        t.jobId.toLowerCase().includes(lowerSearch)
+        t.jobId.toLowerCase().includes(lowerSearch) ||
+        (t.originalJob.number || '').toLowerCase().includes(lowerSearch)
       );
     }
     return filtered;
-  }, [flattenedTasks, view, statusFilter, searchTerm]);
+  }, [flattenedTasks, view, statusFilter, debouncedSearch]);
 
   const sortedTasks = useMemo(() => {
-    if (!sortConfig.direction) return tasksToDisplay;
+    if (!sortConfig.direction || SERVER_SORT[sortConfig.field]) return tasksToDisplay;
     return [...tasksToDisplay].sort((a, b) => {
       const aValue = String(a[sortConfig.field]).toLowerCase();
       const bValue = String(b[sortConfig.field]).toLowerCase();
@@ -128,9 +260,7 @@ const JobManagement: React.FC = () => {
     });
   }, [tasksToDisplay, sortConfig]);
 
-  const overdueCount = useMemo(() => {
-    return flattenedTasks.filter(t => t.isOverdue).length;
-  }, [flattenedTasks]);
+  const pageCount = Math.max(1, Math.ceil(totalJobs / PAGE_SIZE));
 
   const [formData, setFormData] = useState<Partial<Job>>({
     customerId: '',
@@ -142,14 +272,20 @@ const JobManagement: React.FC = () => {
     paidAmount: 0,
     notes: ''
   });
+  // formData.paidAmount is what the ledger already holds; this is taken on save.
+  const [newPayment, setNewPayment] = useState<{ amount: number; mode: PaymentMode; reference: string }>({ amount: 0, mode: 'CASH', reference: '' });
+
+  // An invoice keeps the GSTIN it was issued under; new ones use the branch's current one.
+  const sellerGstin = editingJob ? editingJob.sellerGstin : companyGstin;
+  const supplyState = sellerGstin ? placeOfSupply(customers.find(c => c.id === formData.customerId), sellerGstin) : undefined;
+  const taxedItems = useMemo(() => applyTax(formData.items || [], sellerGstin, supplyState), [formData.items, sellerGstin, supplyState]);
 
   const totals = useMemo(() => {
-    const grossTotal = (formData.items || []).reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
-    const totalDiscount = (formData.items || []).reduce((sum, item) => sum + item.discount, 0);
-    const netTotal = grossTotal - totalDiscount;
-    const pendingAmount = Math.max(0, netTotal - (formData.paidAmount || 0));
-    return { grossTotal, totalDiscount, netTotal, pendingAmount };
-  }, [formData.items, formData.paidAmount]);
+    const { gross: grossTotal, discount: totalDiscount, tax: taxAmount, total: netTotal } = jobAmounts(taxedItems);
+    const dueAmount = Math.max(0, roundMoney(netTotal - (formData.paidAmount || 0)));
+    const pendingAmount = Math.max(0, roundMoney(dueAmount - newPayment.amount));
+    return { grossTotal, totalDiscount, taxAmount, netTotal, dueAmount, pendingAmount };
+  }, [taxedItems, formData.paidAmount, newPayment.amount]);
 
   useEffect(() => {
     setFormData(prev => ({ ...prev, totalAmount: totals.netTotal }));
@@ -180,15 +316,22 @@ const JobManagement: React.FC = () => {
     setCurrentItem({
       ...currentItem,
       serviceId,
-      unitPrice: service?.basePrice || 0
+      unitPrice: service?.basePrice || 0,
+      governmentFee: service?.governmentFee || 0,
+      hsnSac: service?.hsnSac,
+      taxRate: service?.taxRate || 0
     });
   };
 
   const handleSave = async () => {
     if (!formData.customerId || !formData.items || formData.items.length === 0) return;
+    if (newPayment.amount > totals.dueAmount) {
+      showToast(`Only ₹${totals.dueAmount} is due on this invoice`, 'error');
+      return;
+    }
 
     setIsSaving(true);
-    const balance = totals.pendingAmount;
+    const balance = totals.dueAmount;
     const paymentStatus = balance === 0 ? 'PAID' : (formData.paidAmount || 0) > 0 ? 'PARTIAL' : 'UNPAID';
 
     let overallStatus: JobStatus = 'PENDING';
@@ -198,27 +341,31 @@ const JobManagement: React.FC = () => {
 
     const jobData = {
       ...formData,
+      items: taxedItems,
+      taxAmount: totals.taxAmount,
+      placeOfSupply: supplyState,
+      sellerGstin,
+      buyerGstin: customers.find(c => c.id === formData.customerId)?.gstin || undefined,
       status: overallStatus,
       paymentStatus,
       balance,
       updatedAt: new Date().toISOString()
     } as Job;
 
+    const jobToSave: Job = editingJob
+      ? { ...editingJob, ...jobData }
+      : { ...jobData, id: newId('job'), createdAt: new Date().toISOString() };
+
     try {
-      if (editingJob) {
-        await db.jobs.save({ ...editingJob, ...jobData });
-        showToast("Workflow entry updated");
-      } else {
-        const newJob: Job = { ...jobData, id: 'job' + Date.now(), createdAt: new Date().toISOString() };
-        await db.jobs.save(newJob);
-        showToast("New workflow sequence initiated");
-      }
-      closeModal();
+      await db.jobs.save(editingJob ? jobToSave : { ...jobToSave, number: await db.numbering.next('INVOICE') });
     } catch (err) {
-      showToast("Sync failure", 'error');
-    } finally {
+      handleSaveError(err, jobToSave, "Sync failure");
       setIsSaving(false);
+      return;
     }
+    await takePayment(jobToSave.id, editingJob ? "Workflow entry updated" : "New workflow sequence initiated");
+    closeModal();
+    setIsSaving(false);
   };
 
   const handleItemStatusUpdate = async (job: Job, itemIndex: number, newStatus: JobStatus) => {
@@ -241,16 +388,58 @@ const JobManagement: React.FC = () => {
     try {
       await db.jobs.save(updatedJob);
       showToast(`Status updated to ${newStatus}`);
-      fetchData();
     } catch (err) {
-      showToast("Status sync failed", 'error');
+      handleSaveError(err, updatedJob, "Status sync failed");
       fetchData();
     } finally {
       setIsSaving(false);
     }
   };
 
+  // --- Edit Conflicts ---
+  const handleSaveError = (err: unknown, attempted: Job, fallback: string) => {
+    if (err instanceof ConflictError && err.current) {
+      setConflict({ mine: attempted, theirs: err.current });
+    } else {
+      showToast(errorMessage(err, fallback), 'error');
+    }
+  };
+
+  // The entry stands even if the payment is refused; it can be taken again on edit.
+  const takePayment = async (jobId: string, saved: string) => {
+    try {
+      if (newPayment.amount > 0) await db.payments.record({ jobId, ...newPayment });
+      showToast(saved);
+    } catch (err) {
+      showToast(errorMessage(err, "Entry saved, but the payment was not recorded"), 'error');
+    }
+  };
+
+  const handleResolveConflict = async (merged: Job) => {
+    setIsSaving(true);
+    try {
+      await db.jobs.save(recalculateJob({ ...merged, updatedAt: new Date().toISOString() }));
+      setConflict(null);
+      await takePayment(merged.id, "Merged changes saved");
+      closeModal();
+    } catch (err) {
+      setConflict(null);
+      handleSaveError(err, merged, "Sync failure");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const conflictFields: ConflictField<Job>[] = [
+    { key: 'customerId', label: 'Customer', format: (id: string) => getCustomer(id)?.name || 'Unknown' },
+    { key: 'items', label: 'Services', format: (items: JobItem[]) => items.map(i => `${getService(i.serviceId)?.name || 'Custom'} × ${i.quantity} · ${i.status.replace('_', ' ')}`).join('\n') },
+    { key: 'notes', label: 'Notes' }
+  ];
+
   const openModal = (job?: Job) => {
+    setModalTab('DETAILS');
+    setNewPayment({ amount: 0, mode: 'CASH', reference: '' });
+    db.customers.all().then(rememberCustomers);
     if (job) {
       setEditingJob(job);
       setFormData(job);
@@ -277,6 +466,7 @@ const JobManagement: React.FC = () => {
   };
 
   const toggleSort = (field: SortField) => {
+    setPage(0);
     setSortConfig(current => {
       if (current.field === field) {
         if (current.direction === 'ASC') return { field, direction: 'DESC' };
@@ -329,7 +519,7 @@ const JobManagement: React.FC = () => {
 
           <div className="relative w-full md:w-48">
             <Filter className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
-            <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as any)} className="w-full pl-11 pr-4 py-3 rounded-[15px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-bold outline-none appearance-none cursor-pointer focus:border-blue-500 transition-all shadow-sm">
+            <select value={statusFilter} onChange={(e) => { setStatusFilter(e.target.value as any); setPage(0); }} className="w-full pl-11 pr-4 py-3 rounded-[15px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-bold outline-none appearance-none cursor-pointer focus:border-blue-500 transition-all shadow-sm">
               <option value="ALL">All Status</option>
               <option value="PENDING">Pending</option>
               <option value="IN_PROGRESS">In Progress</option>
@@ -339,9 +529,9 @@ const JobManagement: React.FC = () => {
           </div>
 
           <div className="flex bg-white dark:bg-slate-900 p-1 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-sm shrink-0">
-            <button onClick={() => setView('LIST')} className={`px-6 py-2 rounded-[15px] text-xs font-black uppercase tracking-widest transition-all ${view === 'LIST' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>Workflow List</button>
-            <button onClick={() => setView('BOARD')} className={`px-6 py-2 rounded-[15px] text-xs font-black uppercase tracking-widest transition-all ${view === 'BOARD' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>Board View</button>
-            <button onClick={() => setView('OVERDUE')} className={`px-6 py-2 rounded-[15px] text-xs font-black uppercase tracking-widest transition-all flex items-center ${view === 'OVERDUE' ? 'bg-rose-600 text-white shadow-lg' : 'text-slate-400 hover:text-rose-600 dark:hover:text-rose-400'}`}>Overdue {overdueCount > 0 && <span className={`ml-2 px-1.5 py-0.5 rounded-full text-[8px] font-black ${view === 'OVERDUE' ? 'bg-white text-rose-600' : 'bg-rose-600 text-white'}`}>{overdueCount}</span>}</button>
+            <button onClick={() => { setView('LIST'); setPage(0); }} className={`px-6 py-2 rounded-[15px] text-xs font-black uppercase tracking-widest transition-all ${view === 'LIST' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>Workflow List</button>
+            <button onClick={() => { setView('BOARD'); setPage(0); }} className={`px-6 py-2 rounded-[15px] text-xs font-black uppercase tracking-widest transition-all ${view === 'BOARD' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>Board View</button>
+            <button onClick={() => { setView('OVERDUE'); setPage(0); }} className={`px-6 py-2 rounded-[15px] text-xs font-black uppercase tracking-widest transition-all flex items-center ${view === 'OVERDUE' ? 'bg-rose-600 text-white shadow-lg' : 'text-slate-400 hover:text-rose-600 dark:hover:text-rose-400'}`}>Overdue {overdueCount > 0 && <span className={`ml-2 px-1.5 py-0.5 rounded-full text-[8px] font-black ${view === 'OVERDUE' ? 'bg-white text-rose-600' : 'bg-rose-600 text-white'}`}>{overdueCount}</span>}</button>
           </div>
         </div>
       </div>
@@ -369,7 +559,7 @@ const JobManagement: React.FC = () => {
                     <td className="px-6 py-5 font-black text-slate-900 dark:text-white text-sm">{task.serviceName}</td>
                     <td className="px-6 py-5 text-sm font-bold text-slate-500">{new Date(task.date).toLocaleDateString('en-IN')}</td>
                     <td className="px-6 py-5">
-                      <select value={task.status} disabled={isSaving} onChange={(e) => handleItemStatusUpdate(task.originalJob, task.itemIndex, e.target.value as JobStatus)} className={`text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-[15px] border outline-none bg-transparent cursor-pointer ${isSaving ? 'opacity-50' : ''} ${task.status === 'COMPLETED' ? 'text-emerald-600 border-emerald-500/20 bg-emerald-500/5' : task.status === 'IN_PROGRESS' ? 'text-blue-600 border-blue-500/20 bg-blue-500/5' : 'text-amber-600 border-amber-500/20 bg-amber-500/5'}`}>
+                      <select value={task.status} disabled={isSaving || !!task.originalJob.cancelledAt} onChange={(e) => handleItemStatusUpdate(task.originalJob, task.itemIndex, e.target.value as JobStatus)} className={`text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-[15px] border outline-none bg-transparent cursor-pointer ${isSaving ? 'opacity-50' : ''} ${task.status === 'COMPLETED' ? 'text-emerald-600 border-emerald-500/20 bg-emerald-500/5' : task.status === 'IN_PROGRESS' ? 'text-blue-600 border-blue-500/20 bg-blue-500/5' : 'text-amber-600 border-amber-500/20 bg-amber-500/5'}`}>
                         <option value="PENDING">Pending</option>
                         <option value="IN_PROGRESS">In Progress</option>
                         <option value="COMPLETED">Completed</option>
@@ -381,6 +571,14 @@ const JobManagement: React.FC = () => {
               )}
             </tbody>
           </table>
+          <div className="px-8 py-4 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between bg-slate-50/50 dark:bg-slate-950/50">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{totalJobs === 0 ? 'No jobs' : `Jobs ${page * PAGE_SIZE + 1}–${page * PAGE_SIZE + jobs.length} of ${totalJobs}`}</span>
+            <div className="flex items-center space-x-2">
+              <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Previous page"><ChevronLeft size={16} /></button>
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Page {page + 1} / {pageCount}</span>
+              <button onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))} disabled={page + 1 >= pageCount} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Next page"><ChevronRight size={16} /></button>
+            </div>
+          </div>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 print:hidden">
@@ -395,7 +593,7 @@ const JobManagement: React.FC = () => {
                       <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{task.customerName}</p>
                     </div>
                     <div className="flex justify-between items-center pt-3 border-t border-slate-200 dark:border-slate-800">
-                       <select disabled={isSaving} value={task.status} onChange={(e) => handleItemStatusUpdate(task.originalJob, task.itemIndex, e.target.value as JobStatus)} className="text-[8px] font-black uppercase bg-transparent outline-none text-slate-400 hover:text-blue-500 transition-colors cursor-pointer">
+                       <select disabled={isSaving || !!task.originalJob.cancelledAt} value={task.status} onChange={(e) => handleItemStatusUpdate(task.originalJob, task.itemIndex, e.target.value as JobStatus)} className="text-[8px] font-black uppercase bg-transparent outline-none text-slate-400 hover:text-blue-500 transition-colors cursor-pointer">
                          <option value="PENDING">Pending</option>
                          <option value="IN_PROGRESS">Process</option>
                          <option value="COMPLETED">Done</option>
@@ -410,6 +608,18 @@ const JobManagement: React.FC = () => {
         </div>
       )}
 
+      {conflict && (
+        <ConflictDialog
+          title="Job Edited Elsewhere"
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          fields={conflictFields}
+          isSaving={isSaving}
+          onResolve={handleResolveConflict}
+          onCancel={() => { setConflict(null); closeModal(); }}
+        />
+      )}
+
       {showModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md print:hidden">
           <div className="bg-white dark:bg-slate-950 w-full max-w-[98vw] rounded-[15px] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in zoom-in duration-300">
@@ -418,8 +628,20 @@ const JobManagement: React.FC = () => {
                 <h3 className="text-xl font-black text-slate-900 dark:text-white uppercase tracking-tight">Billing Center Terminal</h3>
                 <p className="text-[9px] font-bold text-slate-500 dark:text-slate-500 uppercase tracking-[0.2em]">High-Efficiency Multi-Service Entry</p>
               </div>
+              {editingJob && (
+                <div className="flex bg-white dark:bg-slate-900 p-1 rounded-[15px] border border-slate-200 dark:border-slate-800 shadow-sm">
+                  {(['DETAILS', 'HISTORY'] as const).map(tab => (
+                    <button key={tab} onClick={() => setModalTab(tab)} className={`px-4 py-2 rounded-[15px] text-[9px] font-black uppercase tracking-widest transition-all ${modalTab === tab ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}>{tab === 'DETAILS' ? 'Details' : 'History'}</button>
+                  ))}
+                </div>
+              )}
               <button onClick={closeModal} className="p-2.5 bg-white dark:bg-slate-800 rounded-[15px] text-slate-400 hover:text-slate-900 dark:hover:text-white transition-all shadow-sm"><X size={20} /></button>
             </div>
+            {editingJob && modalTab === 'HISTORY' ? (
+            <div className="p-8 max-h-[75vh] overflow-y-auto custom-scrollbar">
+              <RecordHistory recordId={editingJob.id} load={db.jobs.history} />
+            </div>
+            ) : (
             <div className="p-8 flex flex-col space-y-8 max-h-[75vh] overflow-y-auto custom-scrollbar">
               <div className="bg-slate-50 dark:bg-slate-900/50 p-6 rounded-[15px] border border-slate-100 dark:border-slate-800 grid grid-cols-12 gap-8 items-center">
                 <div className="col-span-4 space-y-2">
@@ -428,7 +650,7 @@ const JobManagement: React.FC = () => {
                     <User size={18} className="text-blue-500" />
                     <select value={formData.customerId} onChange={(e) => setFormData({...formData, customerId: e.target.value})} className={selectClass}>
                       <option value="">Choose Account Holder</option>
-                      {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                      {customers.filter(c => !c.deletedAt || c.id === formData.customerId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
                     </select>
                   </div>
                 </div>
@@ -451,9 +673,10 @@ const JobManagement: React.FC = () => {
               <div className="space-y-4">
                 <div className="flex items-center space-x-3 ml-2 text-blue-600"><PlusCircle size={14} /><h4 className="text-[9px] font-black uppercase tracking-widest">Service Staging Area</h4></div>
                 <div className="bg-white dark:bg-slate-950 p-6 rounded-[15px] border border-blue-500/20 shadow-xl grid grid-cols-12 gap-4 items-end">
-                  <div className="col-span-3"><label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Particulars</label><select value={currentItem.serviceId} onChange={(e) => handleServiceSelect(e.target.value)} className={selectClass}><option value="">Select Service Catalog</option>{services.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}</select></div>
+                  <div className="col-span-2"><label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Particulars</label><select value={currentItem.serviceId} onChange={(e) => handleServiceSelect(e.target.value)} className={selectClass}><option value="">Select Service Catalog</option>{services.filter(s => !s.deletedAt).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}</select></div>
                   <div className="col-span-1"><label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Quantity</label><input type="number" min="1" value={currentItem.quantity} onChange={(e) => setCurrentItem({...currentItem, quantity: Number(e.target.value)})} className={inputClass} /></div>
                   <div className="col-span-2"><label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Unit Rate (₹)</label><input type="number" value={currentItem.unitPrice} onChange={(e) => setCurrentItem({...currentItem, unitPrice: Number(e.target.value)})} className={inputClass} /></div>
+                  <div className="col-span-1"><label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1" title="Government fee included in the unit rate">Govt Fee</label><input type="number" min="0" value={currentItem.governmentFee || 0} onChange={(e) => setCurrentItem({...currentItem, governmentFee: Number(e.target.value)})} className={inputClass} /></div>
                   <div className="col-span-1"><label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Disc. (₹)</label><input type="number" value={currentItem.discount} onChange={(e) => setCurrentItem({...currentItem, discount: Number(e.target.value)})} className={`${inputClass} text-rose-500`} /></div>
                   <div className="col-span-2"><label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Net Line Total</label><div className="w-full px-4 py-3 rounded-[15px] bg-slate-50 dark:bg-slate-900 text-xs font-black text-slate-900 dark:text-white border border-slate-100 dark:border-slate-800">₹{currentItem.subtotal}</div></div>
                   <div className="col-span-2"><label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">Workflow Stage</label><select value={currentItem.status} onChange={(e) => setCurrentItem({...currentItem, status: e.target.value as JobStatus})} className={selectClass}><option value="PENDING">Pending</option><option value="IN_PROGRESS">In Progress</option><option value="COMPLETED">Completed</option><option value="CANCELLED">Cancelled</option></select></div>
@@ -467,14 +690,17 @@ const JobManagement: React.FC = () => {
                 </table>
               </div>
             </div>
+            )}
 
             <div className="px-10 py-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex flex-col md:flex-row justify-between items-center gap-8">
               <div className="flex items-center space-x-12">
                 <div className="flex flex-col"><span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-0.5">Gross Total Bill</span><div className="flex items-center text-3xl font-black text-slate-900 dark:text-white tracking-tighter opacity-40"><IndianRupee size={20} className="mr-1" /> {totals.grossTotal}</div></div>
                 <div className="flex flex-col"><span className="text-[10px] font-black text-rose-500 uppercase tracking-[0.2em] mb-0.5">Total Discount</span><div className="flex items-center text-3xl font-black text-rose-600 tracking-tighter">- ₹{totals.totalDiscount}</div></div>
+                {sellerGstin && <div className="flex flex-col"><span className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em] mb-0.5">GST{supplyState ? ` · ${stateName(supplyState)}` : ''}</span><div className="flex items-center text-3xl font-black text-blue-600 tracking-tighter">+ ₹{totals.taxAmount}</div></div>}
                 <div className="flex flex-col"><span className="text-[10px] font-black text-slate-800 uppercase tracking-[0.2em] mb-0.5">Net Amount to be Paid</span><div className="flex items-center text-4xl font-black text-slate-900 dark:text-white tracking-tighter"><IndianRupee size={24} className="mr-1 opacity-20" /> {totals.netTotal}</div></div>
                 <div className="flex items-center space-x-8 bg-white dark:bg-slate-950 px-8 py-3 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-inner">
-                   <div className="flex flex-col"><label className="text-[10px] font-black text-emerald-600 uppercase tracking-[0.2em] mb-1">Cash Received (₹)</label><input type="number" value={formData.paidAmount} onChange={(e) => setFormData({...formData, paidAmount: Number(e.target.value)})} className="w-28 bg-transparent text-xl font-black text-emerald-600 outline-none appearance-none" placeholder="0" /></div>
+                   {(formData.paidAmount || 0) > 0 && <><div className="flex flex-col"><span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1">Paid So Far</span><span className="text-xl font-black text-slate-500 tracking-tighter">₹{formData.paidAmount}</span></div><div className="w-px h-8 bg-slate-100 dark:bg-slate-800"></div></>}
+                   <div className="flex flex-col"><label className="text-[10px] font-black text-emerald-600 uppercase tracking-[0.2em] mb-1">Receive Now (₹)</label><div className="flex items-center space-x-2"><input type="number" min="0" value={newPayment.amount} onChange={(e) => setNewPayment({ ...newPayment, amount: Number(e.target.value) })} className="w-24 bg-transparent text-xl font-black text-emerald-600 outline-none appearance-none" placeholder="0" /><select value={newPayment.mode} onChange={(e) => setNewPayment({ ...newPayment, mode: e.target.value as PaymentMode })} className="bg-transparent text-[10px] font-black text-slate-500 uppercase outline-none">{PAYMENT_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}</select>{newPayment.mode !== 'CASH' && <input type="text" value={newPayment.reference} onChange={(e) => setNewPayment({ ...newPayment, reference: e.target.value })} className="w-24 bg-transparent border-b border-slate-200 dark:border-slate-700 text-[10px] font-bold outline-none" placeholder="Ref No." />}</div></div>
                    <div className="w-px h-8 bg-slate-100 dark:bg-slate-800"></div>
                    <div className="flex flex-col"><span className="text-[10px] font-black text-rose-600 uppercase tracking-widest mb-1">Pending Balance</span><span className={`text-xl font-black tracking-tighter ${ totals.pendingAmount > 0 ? 'text-rose-600' : 'text-emerald-500' }`}>₹{totals.pendingAmount}</span></div>
                 </div>
@@ -0,0 +1,220 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, dayRange, QueryOptions, errorMessage, Lockout } from '../db';
+import { LoginAttempt, LoginOutcome } from '../types';
+import { LogIn, Loader2, ChevronLeft, ChevronRight, AlertCircle, Filter, Lock, Unlock, CheckCircle2 } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+const OUTCOME_STYLES: Record<LoginOutcome, string> = {
+  SUCCESS: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20',
+  FAILED: 'bg-rose-50 text-rose-600 dark:bg-rose-900/20',
+  LOCKED: 'bg-slate-900 text-white dark:bg-white dark:text-black',
+  UNLOCKED: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20'
+};
+
+const OUTCOME_LABELS: Record<LoginOutcome, string> = {
+  SUCCESS: 'Signed in',
+  FAILED: 'Failed',
+  LOCKED: 'Refused (locked)',
+  UNLOCKED: 'Unlocked'
+};
+
+// Every sign-in attempt, newest first, with the usernames and terminals locked out right now.
+const LoginHistoryPage: React.FC = () => {
+  const canUnlock = db.auth.can('USERS_MANAGE');
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [lockouts, setLockouts] = useState<Lockout[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [usernameFilter, setUsernameFilter] = useState('');
+  const [outcomeFilter, setOutcomeFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState('');
+  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const fetchHistory = async () => {
+    setIsLoading(true);
+    setError('');
+    const options: QueryOptions = {
+      filters: [],
+      orderBy: { field: 'at', direction: 'DESC' },
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE
+    };
+    if (usernameFilter.trim()) options.filters!.push({ field: 'username', op: 'eq', value: usernameFilter.trim().toLowerCase() });
+    if (outcomeFilter) options.filters!.push({ field: 'outcome', op: 'eq', value: outcomeFilter });
+    if (fromDate || toDate) {
+      options.dateRange = {
+        field: 'at',
+        from: fromDate ? dayRange(fromDate).from : undefined,
+        to: toDate ? dayRange(toDate).to : undefined
+      };
+    }
+    try {
+      const [result, locked] = await Promise.all([db.logins.history(options), db.logins.lockouts()]);
+      setAttempts(result.rows);
+      setTotal(result.total);
+      setLockouts(locked);
+    } catch (err) {
+      setError(errorMessage(err, "Sign-in history could not be loaded"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [page, usernameFilter, outcomeFilter, fromDate, toDate]);
+
+  // Every filter change starts again from the newest attempts.
+  const updateFilter = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setter(e.target.value);
+    setPage(0);
+  };
+
+  const handleUnlock = async (lockout: Lockout) => {
+    const name = lockout.username ?? lockout.device;
+    if (!window.confirm(`Unlock ${name} now?`)) return;
+    setIsProcessing(true);
+    try {
+      await db.logins.unlock(lockout);
+      showToast(`${name} unlocked`);
+      fetchHistory();
+    } catch (err) {
+      showToast(errorMessage(err, "Unlock failed"), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const inputClass = "px-4 py-3 rounded-[15px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white text-xs font-bold outline-none focus:border-blue-500 transition-all shadow-sm";
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center pointer-events-none p-4">
+          <div className={`px-10 py-6 rounded-[25px] shadow-2xl animate-in zoom-in duration-300 flex flex-col items-center space-y-4 border-2 pointer-events-auto min-w-[320px] text-center ${
+            toast.type === 'success' ? 'bg-slate-900 text-white border-slate-800' : 'bg-rose-500 text-white border-rose-400'
+          }`}>
+            {toast.type === 'success' ? <CheckCircle2 size={48} /> : <AlertCircle size={48} />}
+            <span className="font-black text-xs uppercase tracking-[0.3em] leading-relaxed">{toast.message}</span>
+          </div>
+        </div>
+      )}
+
+      {isProcessing && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm">
+          <div className="bg-white dark:bg-slate-950 p-10 rounded-[15px] shadow-2xl flex flex-col items-center space-y-4 border border-slate-100 dark:border-slate-800">
+            <Loader2 className="animate-spin text-blue-600" size={48} />
+            <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-900 dark:text-white">Unlocking...</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div className="flex items-center space-x-4">
+          <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><LogIn size={20} /></div>
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">Sign-In History</h2>
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em] mt-1">Successful and failed attempts, and current lockouts</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Filter size={16} className="text-slate-400" />
+          <input type="text" value={usernameFilter} onChange={updateFilter(setUsernameFilter)} className={inputClass} placeholder="Username" />
+          <select value={outcomeFilter} onChange={updateFilter(setOutcomeFilter)} className={inputClass}>
+            <option value="">All Outcomes</option>
+            {(Object.keys(OUTCOME_LABELS) as LoginOutcome[]).map(outcome => <option key={outcome} value={outcome}>{OUTCOME_LABELS[outcome]}</option>)}
+          </select>
+          <input type="date" value={fromDate} onChange={updateFilter(setFromDate)} className={inputClass} title="From" />
+          <input type="date" value={toDate} onChange={updateFilter(setToDate)} className={inputClass} title="To" />
+        </div>
+      </div>
+
+      {lockouts.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {lockouts.map(lockout => (
+            <div key={`${lockout.username}:${lockout.terminalId}`} className="flex items-center justify-between p-5 rounded-[15px] bg-rose-50 dark:bg-rose-900/10 border border-rose-100 dark:border-rose-900/30">
+              <div className="flex items-center space-x-4">
+                <div className="bg-white dark:bg-slate-900 text-rose-600 p-3 rounded-[15px]"><Lock size={18} /></div>
+                <div>
+                  <p className="text-sm font-black text-slate-900 dark:text-white">{lockout.username ?? lockout.device}</p>
+                  <p className="text-[10px] font-bold text-rose-600 mt-1">
+                    {lockout.username ? 'Username' : 'Terminal'} · {lockout.failures} failures · until {new Date(lockout.lockedUntil).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                </div>
+              </div>
+              {canUnlock && (
+                <button onClick={() => handleUnlock(lockout)} className="px-4 py-2.5 bg-white dark:bg-slate-900 rounded-[15px] text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-emerald-600 border border-slate-200 dark:border-slate-700 transition-all inline-flex items-center space-x-2">
+                  <Unlock size={14} /><span>Unlock</span>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden overflow-x-auto">
+        {isLoading ? (
+          <div className="py-24 flex items-center justify-center"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+        ) : error ? (
+          <div className="py-24 flex flex-col items-center justify-center space-y-4 text-rose-500">
+            <AlertCircle size={40} />
+            <p className="text-xs font-black uppercase tracking-widest">{error}</p>
+          </div>
+        ) : attempts.length === 0 ? (
+          <div className="py-24 flex flex-col items-center justify-center space-y-4 text-slate-300 dark:text-slate-700">
+            <LogIn size={48} />
+            <p className="text-xs font-black uppercase tracking-widest">No sign-in attempts match these filters</p>
+          </div>
+        ) : (
+          <table className="w-full text-left border-collapse min-w-[800px]">
+            <thead>
+              <tr className="bg-slate-50 dark:bg-slate-950/50 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+                <th className="px-8 py-6">When</th>
+                <th className="px-8 py-6">Username</th>
+                <th className="px-8 py-6">Outcome</th>
+                <th className="px-8 py-6">Device</th>
+                <th className="px-8 py-6">Detail</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {attempts.map(attempt => (
+                <tr key={attempt.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors">
+                  <td className="px-8 py-5 text-xs font-bold text-slate-500 whitespace-nowrap">{new Date(attempt.at).toLocaleString('en-IN')}</td>
+                  <td className="px-8 py-5 text-xs font-black text-slate-900 dark:text-white">{attempt.username || '—'}</td>
+                  <td className="px-8 py-5"><span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${OUTCOME_STYLES[attempt.outcome]}`}>{OUTCOME_LABELS[attempt.outcome]}</span></td>
+                  <td className="px-8 py-5">
+                    <div className="text-xs font-bold text-slate-700 dark:text-slate-300">{attempt.device || 'Unknown device'}</div>
+                    {attempt.terminalId && <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">#{attempt.terminalId.slice(-6).toUpperCase()}</div>}
+                  </td>
+                  <td className="px-8 py-5 text-xs font-medium text-slate-500">{attempt.reason || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="px-8 py-4 border-t border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{total === 0 ? 'No records' : `${page * PAGE_SIZE + 1}–${page * PAGE_SIZE + attempts.length} of ${total}`}</span>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Previous page"><ChevronLeft size={16} /></button>
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Page {page + 1} / {pageCount}</span>
+            <button onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))} disabled={page + 1 >= pageCount} className="p-2 rounded-[15px] text-slate-400 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-800 transition-all disabled:opacity-30" title="Next page"><ChevronRight size={16} /></button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoginHistoryPage;
@@ -6,11 +6,12 @@ import {
   Loader2, Sparkles, ArrowRight, Fingerprint, FileText, CreditCard, 
   Smartphone, Zap, ChevronRight, Activity, Cpu, Mail, ArrowLeft, Key, Cloud, CloudOff
 } from 'lucide-react';
-import { db } from '../db';
-import { User } from '../types';
+import { db, errorMessage, passwordProblem, MIN_PASSWORD_LENGTH, SESSION_END_MESSAGES, RateLimitError } from '../db';
+import TwoFactorSetup from '../components/TwoFactorSetup';
+import { User, SessionUser } from '../types';
 
 interface LoginPageProps {
-  setCurrentUser: (user: User) => void;
+  setCurrentUser: (user: SessionUser) => void;
 }
 
 const STORAGE_REMEMBER_KEY = 'regal_remembered_user';
@@ -25,18 +26,29 @@ const LoginPage: React.FC<LoginPageProps> = ({ setCurrentUser }) => {
 
   // Recovery States
   const [showRecovery, setShowRecovery] = useState(false);
-  const [recoveryStep, setRecoveryStep] = useState<'EMAIL' | 'PASSWORD'>('EMAIL');
+  const [recoveryStep, setRecoveryStep] = useState<'EMAIL' | 'CODE'>('EMAIL');
   const [recoveryEmail, setRecoveryEmail] = useState('');
+  const [resetCode, setResetCode] = useState('');
   const [newPassword, setNewPassword] = useState('');
-  const [targetUser, setTargetUser] = useState<User | null>(null);
   const [successMsg, setSuccessMsg] = useState('');
 
+  // Forced password change (seeded default password)
+  const [pendingUser, setPendingUser] = useState<User | null>(null);
+  const [chosenPassword, setChosenPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  // Authenticator step: a code for enrolled users, setup for those whose role requires it
+  const [secondFactor, setSecondFactor] = useState<{ user: User; step: 'CODE' | 'ENROLL' } | null>(null);
+  const [otpCode, setOtpCode] = useState('');
+
   useEffect(() => {
     const savedUser = localStorage.getItem(STORAGE_REMEMBER_KEY);
     if (savedUser) {
       setUsername(savedUser);
       setRememberMe(true);
     }
+    const end = db.auth.takeSessionEnd();
+    if (end) setError(SESSION_END_MESSAGES[end]);
   }, []);
 
   const handleLogin = async (e: React.FormEvent) => {
@@ -46,65 +58,131 @@ const LoginPage: React.FC<LoginPageProps> = ({ setCurrentUser }) => {
     
     try {
       const user = await db.auth.login(username, password);
-      if (user) {
-        if (rememberMe) {
-          localStorage.setItem(STORAGE_REMEMBER_KEY, username);
-        } else {
-          localStorage.removeItem(STORAGE_REMEMBER_KEY);
-        }
-        db.auth.setSession(user);
-        setCurrentUser(user);
-        navigate('/dashboard');
+      if (user?.mustChangePassword) {
+        setPendingUser(user);
+      } else if (user) {
+        await continueLogin(user);
       } else {
         setError('Invalid credentials, Try Again');
       }
     } catch (err) {
-      setError('System connection failed. Retrying...');
+      setError(errorMessage(err, 'System connection failed. Retrying...'));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // The password is right; an authenticator code may still be owed.
+  const continueLogin = async (user: User) => {
+    const status = await db.twoFactor.status(user.id);
+    if (status.enabled) {
+      setSecondFactor({ user, step: 'CODE' });
+    } else if (status.required) {
+      setSecondFactor({ user, step: 'ENROLL' });
+    } else {
+      await completeLogin(user);
+    }
+  };
+
+  const completeLogin = async (user: User) => {
+    if (rememberMe) {
+      localStorage.setItem(STORAGE_REMEMBER_KEY, username);
+    } else {
+      localStorage.removeItem(STORAGE_REMEMBER_KEY);
+    }
+    const sessionUser = await db.auth.setSession(user);
+    if (sessionUser) setCurrentUser(sessionUser);
+    navigate('/dashboard');
+  };
+
+  const handleForcedChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingUser) return;
+    if (chosenPassword !== confirmPassword) {
+      setError('The two passwords do not match');
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+    try {
+      const user = await db.auth.changePassword(pendingUser.id, password, chosenPassword);
+      setPendingUser(null);
+      await continueLogin(user);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update credentials.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelForcedChange = () => {
+    setPendingUser(null);
+    setPassword('');
+    setChosenPassword('');
+    setConfirmPassword('');
+    setError('');
+  };
+
+  const handleSecondFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secondFactor) return;
+    setError('');
+    setIsLoading(true);
+    try {
+      await db.twoFactor.verify(secondFactor.user.id, otpCode);
+      await completeLogin(secondFactor.user);
+    } catch (err) {
+      if (err instanceof RateLimitError) cancelSecondFactor();
+      setError(errorMessage(err, 'Could not verify the code.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelSecondFactor = () => {
+    setSecondFactor(null);
+    setOtpCode('');
+    setPassword('');
+    setError('');
+  };
+
   const handleRecoveryRequest = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError('');
 
     try {
-      const allUsers = await db.users.all();
-      const user = allUsers.find(u => u.email.toLowerCase() === recoveryEmail.toLowerCase());
-      
-      if (user) {
-        setTargetUser(user);
-        setTimeout(() => {
-          setRecoveryStep('PASSWORD');
-          setIsLoading(false);
-        }, 1500);
-      } else {
-        setError('Email address not found in our records.');
-        setIsLoading(false);
-      }
+      await db.auth.requestReset(recoveryEmail);
+      setSuccessMsg('If this email is registered, a reset code has been sent to it.');
+      setRecoveryStep('CODE');
     } catch (err) {
-      setError('Recovery system offline.');
+      setError(errorMessage(err, 'Recovery system offline.'));
+    } finally {
       setIsLoading(false);
     }
   };
 
   const handlePasswordReset = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!targetUser || !newPassword) return;
+    if (!resetCode || !newPassword) return;
+    const problem = passwordProblem(newPassword);
+    if (problem) {
+      setError(problem);
+      return;
+    }
     
+    setError('');
+    setSuccessMsg('');
     setIsLoading(true);
     try {
-      const updatedUser = { ...targetUser, password: newPassword };
-      await db.users.save(updatedUser);
+      await db.auth.resetPassword(recoveryEmail, resetCode, newPassword);
       setSuccessMsg('Security credentials updated successfully.');
       setTimeout(() => {
         resetRecoveryState();
         setShowRecovery(false);
       }, 2000);
     } catch (err) {
-      setError('Failed to update credentials.');
+      setError(errorMessage(err, 'Failed to update credentials.'));
     } finally {
       setIsLoading(false);
     }
@@ -113,8 +191,8 @@ const LoginPage: React.FC<LoginPageProps> = ({ setCurrentUser }) => {
   const resetRecoveryState = () => {
     setRecoveryStep('EMAIL');
     setRecoveryEmail('');
+    setResetCode('');
     setNewPassword('');
-    setTargetUser(null);
     setError('');
     setSuccessMsg('');
   };
@@ -224,7 +302,19 @@ const LoginPage: React.FC<LoginPageProps> = ({ setCurrentUser }) => {
               </div>
             </div>
             
-            {!showRecovery ? (
+            {secondFactor ? (
+              <>
+                <h2 className="text-4xl font-black text-slate-900 dark:text-white tracking-tighter mb-3">{secondFactor.step === 'CODE' ? 'Confirm It\'s You.' : 'Add Two-Factor.'}</h2>
+                <p className="text-slate-500 dark:text-slate-400 font-medium">
+                  {secondFactor.step === 'CODE' ? 'Enter the code from your authenticator app, or one of your recovery codes.' : 'Your role requires an authenticator app. Set one up to continue.'}
+                </p>
+              </>
+            ) : pendingUser ? (
+              <>
+                <h2 className="text-4xl font-black text-slate-900 dark:text-white tracking-tighter mb-3">Secure Your Account.</h2>
+                <p className="text-slate-500 dark:text-slate-400 font-medium">This account still uses its initial password. Choose a new one to continue.</p>
+              </>
+            ) : !showRecovery ? (
               <>
                 <h2 className="text-4xl font-black text-slate-900 dark:text-white tracking-tighter mb-3">Welcome Back.</h2>
                 <p className="text-slate-500 dark:text-slate-400 font-medium">Verify your administrative identity to proceed.</p>
@@ -233,7 +323,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ setCurrentUser }) => {
               <>
                 <h2 className="text-4xl font-black text-slate-900 dark:text-white tracking-tighter mb-3">Recover Access.</h2>
                 <p className="text-slate-500 dark:text-slate-400 font-medium">
-                  {recoveryStep === 'EMAIL' ? 'Identify your account via registered email.' : 'Set a new secure access code.'}
+                  {recoveryStep === 'EMAIL' ? 'Identify your account via registered email.' : 'Enter the code we sent and set a new access code.'}
                 </p>
               </>
             )}
@@ -250,7 +340,100 @@ const LoginPage: React.FC<LoginPageProps> = ({ setCurrentUser }) => {
               </div>
             )}
 
-            {!showRecovery ? (
+            {secondFactor?.step === 'ENROLL' ? (
+              <div>
+                <TwoFactorSetup userId={secondFactor.user.id} onDone={() => completeLogin(secondFactor.user).catch(err => setError(errorMessage(err, 'Could not sign in.')))} />
+                <button 
+                  type="button"
+                  onClick={cancelSecondFactor}
+                  className="w-full mt-6 flex items-center justify-center space-x-2 text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest hover:text-slate-900 dark:hover:text-white transition-colors"
+                >
+                  <ArrowLeft size={14} />
+                  <span>Return to Login</span>
+                </button>
+              </div>
+            ) : secondFactor ? (
+              <form onSubmit={handleSecondFactor} className="space-y-8 animate-in fade-in duration-500">
+                <div className="space-y-3">
+                  <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] ml-2">Authentication Code</label>
+                  <div className="relative group">
+                    <Shield className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-blue-500 transition-colors" size={20} />
+                    <input 
+                      type="text" 
+                      autoComplete="one-time-code"
+                      autoFocus
+                      value={otpCode}
+                      onChange={(e) => setOtpCode(e.target.value.slice(0, 12))}
+                      className="w-full pl-14 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black tracking-[0.3em] outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all"
+                      placeholder="000000"
+                      required
+                    />
+                  </div>
+                </div>
+                <button 
+                  type="submit" 
+                  disabled={isLoading}
+                  className="w-full bg-slate-900 dark:bg-white text-white dark:text-black py-5 rounded-[15px] font-black text-xs uppercase tracking-[0.2em] hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl shadow-slate-200 dark:shadow-none active:scale-[0.98] flex items-center justify-center group"
+                >
+                  {isLoading ? <Loader2 className="animate-spin" size={20} /> : <span>Verify & Continue</span>}
+                </button>
+                <button 
+                  type="button"
+                  onClick={cancelSecondFactor}
+                  className="w-full flex items-center justify-center space-x-2 text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest hover:text-slate-900 dark:hover:text-white transition-colors"
+                >
+                  <ArrowLeft size={14} />
+                  <span>Return to Login</span>
+                </button>
+              </form>
+            ) : pendingUser ? (
+              <form onSubmit={handleForcedChange} className="space-y-8 animate-in fade-in duration-500">
+                <div className="space-y-3">
+                  <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] ml-2">New Access Code</label>
+                  <div className="relative group">
+                    <Key className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-blue-500 transition-colors" size={20} />
+                    <input 
+                      type="password" 
+                      value={chosenPassword}
+                      onChange={(e) => setChosenPassword(e.target.value)}
+                      className="w-full pl-14 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all"
+                      placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                      minLength={MIN_PASSWORD_LENGTH}
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] ml-2">Confirm Access Code</label>
+                  <div className="relative group">
+                    <Lock className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-blue-500 transition-colors" size={20} />
+                    <input 
+                      type="password" 
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className="w-full pl-14 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all"
+                      placeholder="••••••••"
+                      required
+                    />
+                  </div>
+                </div>
+                <button 
+                  type="submit" 
+                  disabled={isLoading}
+                  className="w-full bg-emerald-600 text-white py-5 rounded-[15px] font-black text-xs uppercase tracking-[0.2em] hover:bg-emerald-700 transition-all shadow-xl shadow-emerald-500/20 flex items-center justify-center group"
+                >
+                  {isLoading ? <Loader2 className="animate-spin" size={20} /> : <span>Save & Continue</span>}
+                </button>
+                <button 
+                  type="button"
+                  onClick={cancelForcedChange}
+                  className="w-full flex items-center justify-center space-x-2 text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest hover:text-slate-900 dark:hover:text-white transition-colors"
+                >
+                  <ArrowLeft size={14} />
+                  <span>Return to Login</span>
+                </button>
+              </form>
+            ) : !showRecovery ? (
               <form onSubmit={handleLogin} className="space-y-8 animate-in fade-in duration-500">
                 <div className="space-y-3">
                   <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] ml-2">Username</label>
@@ -347,6 +530,22 @@ const LoginPage: React.FC<LoginPageProps> = ({ setCurrentUser }) => {
                   </form>
                 ) : (
                   <form onSubmit={handlePasswordReset} className="space-y-8">
+                    <div className="space-y-3">
+                      <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] ml-2">Reset Code</label>
+                      <div className="relative group">
+                        <Shield className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-blue-500 transition-colors" size={20} />
+                        <input 
+                          type="text" 
+                          inputMode="numeric"
+                          autoComplete="one-time-code"
+                          value={resetCode}
+                          onChange={(e) => setResetCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                          className="w-full pl-14 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black tracking-[0.5em] outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all"
+                          placeholder="000000"
+                          required
+                        />
+                      </div>
+                    </div>
                     <div className="space-y-3">
                       <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] ml-2">New Access Code</label>
                       <div className="relative group">
@@ -356,7 +555,8 @@ const LoginPage: React.FC<LoginPageProps> = ({ setCurrentUser }) => {
                           value={newPassword}
                           onChange={(e) => setNewPassword(e.target.value)}
                           className="w-full pl-14 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all"
-                          placeholder="••••••••"
+                          placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                          minLength={MIN_PASSWORD_LENGTH}
                           required
                         />
                       </div>
@@ -368,6 +568,13 @@ const LoginPage: React.FC<LoginPageProps> = ({ setCurrentUser }) => {
                     >
                       {isLoading ? <Loader2 className="animate-spin" size={20} /> : <span>Save Security Policy</span>}
                     </button>
+                    <button 
+                      type="button"
+                      onClick={() => { setRecoveryStep('EMAIL'); setResetCode(''); setError(''); setSuccessMsg(''); }}
+                      className="w-full text-[10px] font-black text-blue-600 hover:text-blue-700 uppercase tracking-widest transition-colors"
+                    >
+                      Send a New Code
+                    </button>
                   </form>
                 )}
                 
@@ -0,0 +1,98 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, MigrationStatus, errorMessage } from '../db';
+import { Database, Loader2, CheckCircle2, Clock, AlertTriangle, Play, AlertCircle } from 'lucide-react';
+
+const STATE_STYLES = {
+  APPLIED: { className: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20', icon: <CheckCircle2 size={12} /> },
+  PENDING: { className: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20', icon: <Clock size={12} /> },
+  FAILED: { className: 'bg-rose-50 text-rose-600 dark:bg-rose-900/20', icon: <AlertTriangle size={12} /> }
+};
+
+const MigrationsPage: React.FC = () => {
+  const [status, setStatus] = useState<MigrationStatus | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    db.migrations.status().then(setStatus);
+  }, []);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError('');
+    try {
+      setStatus(await db.migrations.run());
+    } catch (err) {
+      setError(errorMessage(err, "Migrations could not be run"));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="h-full w-full flex items-center justify-center bg-slate-50 dark:bg-slate-950">
+        <Loader2 className="animate-spin text-blue-500" size={40} />
+      </div>
+    );
+  }
+
+  const upToDate = status.currentVersion >= status.latestVersion;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex items-center space-x-4">
+          <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-600 p-3 rounded-[15px]"><Database size={20} /></div>
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">Schema Migrations</h2>
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em] mt-1">
+              Database at v{status.currentVersion} of v{status.latestVersion}
+              {status.lastRunAt ? ` · last run ${new Date(status.lastRunAt).toLocaleString('en-IN')}` : ''}
+            </p>
+          </div>
+        </div>
+        <button onClick={handleRun} disabled={upToDate || isRunning} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 hover:text-white transition-all shadow-xl active:scale-95 disabled:opacity-50">
+          {isRunning ? <Loader2 className="animate-spin" size={18} /> : <Play size={18} />}
+          <span>{upToDate ? 'Up to Date' : 'Run Pending'}</span>
+        </button>
+      </div>
+
+      {(status.error || error) && (
+        <div className="flex items-center space-x-3 p-5 rounded-[15px] bg-rose-50 dark:bg-rose-900/20 text-rose-600 text-xs font-bold border border-rose-100 dark:border-rose-900/40">
+          <AlertCircle size={18} className="shrink-0" /><span>{error || status.error}</span>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden overflow-x-auto">
+        <table className="w-full text-left border-collapse min-w-[600px]">
+          <thead>
+            <tr className="bg-slate-50 dark:bg-slate-950/50 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+              <th className="px-8 py-6">Version</th>
+              <th className="px-8 py-6">Change</th>
+              <th className="px-8 py-6">State</th>
+              <th className="px-8 py-6 text-right">Rows Upgraded</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+            {status.steps.map(step => (
+              <tr key={step.version} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors">
+                <td className="px-8 py-5 text-sm font-black text-slate-900 dark:text-white">v{step.version}</td>
+                <td className="px-8 py-5 text-sm font-bold text-slate-600 dark:text-slate-300">{step.description}</td>
+                <td className="px-8 py-5">
+                  <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest inline-flex items-center space-x-1 ${STATE_STYLES[step.state].className}`}>
+                    {STATE_STYLES[step.state].icon}<span>{step.state}</span>
+                  </span>
+                </td>
+                <td className="px-8 py-5 text-right text-sm font-bold text-slate-500">{step.rowsChanged ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MigrationsPage;
@@ -1,68 +1,141 @@
 
 import React, { useState, useEffect } from 'react';
-import { db } from '../db';
+import { db, dayRange, QueryFilter, branchOf } from '../db';
 import { 
   FileText, Download, Filter, IndianRupee, Clock, AlertCircle, 
-  Calendar, CheckCircle2, Package, Search, Loader2, ChevronRight, Users
+  Calendar, CheckCircle2, Package, Search, Loader2, ChevronRight, Users, Building2
 } from 'lucide-react';
-import { Job, Customer, Service } from '../types';
+import { Job, Customer, Service, Privilege, Branch } from '../types';
+import { jobNumber } from '../utils/documents';
+import { Earnings, NO_EARNINGS } from '../utils/jobTotals';
+
+type ReportType = 'PENDING_JOBS' | 'PENDING_PAYMENTS' | 'CUSTOMERS' | 'SERVICES';
+
+// Job reports show the most recent rows; the tab counts always cover every match.
+const REPORT_ROW_LIMIT = 200;
+
+const JOB_REPORT_FILTERS: Partial<Record<ReportType, QueryFilter[]>> = {
+  PENDING_JOBS: [{ field: 'status', op: 'neq', value: 'COMPLETED' }, { field: 'status', op: 'neq', value: 'CANCELLED' }],
+  PENDING_PAYMENTS: [{ field: 'balance', op: 'gt', value: 0 }]
+};
+
+// Exporting a report is allowed by the export permission of the records it lists.
+const EXPORT_PRIVILEGES: Record<ReportType, Privilege> = {
+  PENDING_JOBS: 'JOBS_EXPORT',
+  PENDING_PAYMENTS: 'JOBS_EXPORT',
+  CUSTOMERS: 'CUSTOMERS_EXPORT',
+  SERVICES: 'SERVICES_EXPORT'
+};
+
+// One branch's line in the consolidated view.
+interface BranchTotals {
+  branch: Branch;
+  pendingJobs: number;
+  pendingPayments: number;
+  outstanding: number;
+  margin: number;
+  customers: number;
+}
+
+// Counted per branch by the server; the money columns are totalled a page at a time.
+const branchTotals = async (branch: Branch, withRevenue: boolean): Promise<BranchTotals> => {
+  const inBranch = (filters: QueryFilter[] = []): QueryFilter[] => [...filters, { field: 'branchId', op: 'eq', value: branch.id }];
+  const [pendingJobs, pendingPayments, customers, totals] = await Promise.all([
+    db.jobs.query({ filters: inBranch(JOB_REPORT_FILTERS.PENDING_JOBS), limit: 0, allBranches: true }),
+    db.jobs.query({ filters: inBranch(JOB_REPORT_FILTERS.PENDING_PAYMENTS), limit: 0, allBranches: true }),
+    db.customers.query({ filters: inBranch(), limit: 0, allBranches: true }),
+    withRevenue ? db.jobs.earnings({ filters: inBranch(), allBranches: true }) : Promise.resolve(NO_EARNINGS)
+  ]);
+  return {
+    branch,
+    pendingJobs: pendingJobs.total,
+    pendingPayments: pendingPayments.total,
+    outstanding: totals.owed,
+    margin: totals.margin,
+    customers: customers.total
+  };
+};
 
 const Reports: React.FC = () => {
-  const [reportType, setReportType] = useState<'PENDING_JOBS' | 'PENDING_PAYMENTS' | 'CUSTOMERS' | 'SERVICES'>('PENDING_JOBS');
+  // Amounts billed, collected and owed are revenue figures.
+  const canSeeRevenue = db.auth.can('REPORTS_REVENUE');
+  const canSeeAllBranches = db.auth.can('REPORTS_ALL_BRANCHES');
+  const [allBranches, setAllBranches] = useState(false);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [breakdown, setBreakdown] = useState<BranchTotals[]>([]);
+  const [summary, setSummary] = useState<Earnings | null>(null);
+  const [reportType, setReportType] = useState<ReportType>('PENDING_JOBS');
   const [dateFilter, setDateFilter] = useState('');
   
-  const [jobs, setJobs] = useState<Job[]>([]);
+  const [rows, setRows] = useState<Job[]>([]);
+  const [recordCount, setRecordCount] = useState(0);
+  const [counts, setCounts] = useState({ pendingJobs: 0, pendingPayments: 0, customers: 0 });
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [services, setServices] = useState<Service[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const fetchData = async () => {
+    const fetchCounts = async () => {
+      const [pendingJobs, pendingPayments, customerTotal, servicesData, branchList] = await Promise.all([
+        db.jobs.query({ filters: JOB_REPORT_FILTERS.PENDING_JOBS, limit: 0, allBranches }),
+        db.jobs.query({ filters: JOB_REPORT_FILTERS.PENDING_PAYMENTS, limit: 0, allBranches }),
+        db.customers.query({ limit: 0, allBranches }),
+        db.services.all(),
+        db.branches.all()
+      ]);
+      setCounts({ pendingJobs: pendingJobs.total, pendingPayments: pendingPayments.total, customers: customerTotal.total });
+      setServices(servicesData);
+      setBranches(branchList);
+      setBreakdown(allBranches ? await Promise.all(branchList.map(branch => branchTotals(branch, canSeeRevenue))) : []);
+    };
+    fetchCounts();
+  }, [allBranches]);
+
+  useEffect(() => {
+    const fetchReport = async () => {
       try {
-        const [jobsData, customersData, servicesData] = await Promise.all([
-          db.jobs.all(),
-          db.customers.all(),
-          db.services.all()
-        ]);
-        setJobs(jobsData);
-        setCustomers(customersData);
-        setServices(servicesData);
+        const dateRange = dateFilter ? { field: 'createdAt', ...dayRange(dateFilter) } : undefined;
+        const jobFilter = JOB_REPORT_FILTERS[reportType];
+
+        if (jobFilter) {
+          const result = await db.jobs.query({
+            filters: jobFilter,
+            dateRange,
+            orderBy: { field: 'createdAt', direction: 'DESC' },
+            limit: REPORT_ROW_LIMIT,
+            allBranches
+          });
+          const customerIds = Array.from(new Set(result.rows.map(j => j.customerId)));
+          if (customerIds.length > 0) {
+            const { rows: customerRows } = await db.customers.query({ filters: [{ field: 'id', op: 'in', value: customerIds }], includeDeleted: true, allBranches });
+            setCustomers(customerRows);
+          }
+          setRows(result.rows);
+          setRecordCount(result.total);
+        } else if (reportType === 'CUSTOMERS') {
+          const result = await db.customers.query({ dateRange, limit: 0, allBranches });
+          setRows([]);
+          setRecordCount(result.total);
+        } else {
+          // Services carry no dates and are a short list, so the date filter does not apply.
+          setRows([]);
+          setRecordCount((await db.services.all()).length);
+        }
       } finally {
         setIsLoading(false);
       }
     };
-    fetchData();
-  }, []);
+    fetchReport();
+  }, [reportType, dateFilter, allBranches]);
 
-  const getFilteredData = () => {
-    let filtered = [];
-    switch(reportType) {
-      case 'PENDING_JOBS':
-        filtered = jobs.filter(j => j.status !== 'COMPLETED');
-        break;
-      case 'PENDING_PAYMENTS':
-        filtered = jobs.filter(j => j.balance > 0);
-        break;
-      case 'CUSTOMERS':
-        filtered = customers;
-        break;
-      case 'SERVICES':
-        filtered = services;
-        break;
-      default:
-        filtered = [];
-    }
-
-    if (dateFilter) {
-      filtered = (filtered as any[]).filter(item => {
-        const date = item.createdAt || item.updatedAt || item.lastUpdated;
-        return date && date.startsWith(dateFilter);
-      });
-    }
-    return filtered;
-  };
+  // Gross collections against what the centre actually earned, for the chosen day or all time.
+  useEffect(() => {
+    if (!canSeeRevenue) return;
+    const dateRange = dateFilter ? { field: 'createdAt', ...dayRange(dateFilter) } : undefined;
+    db.jobs.earnings({ dateRange, allBranches }).then(setSummary);
+  }, [dateFilter, allBranches]);
 
-  const data = getFilteredData();
+  const branchCode = (job: Job) => branches.find(b => b.id === branchOf(job))?.code || '';
 
   if (isLoading) {
     return (
@@ -82,23 +155,25 @@ const Reports: React.FC = () => {
           label="Pending Jobs" 
           icon={<Clock size={24}/>} 
           color="blue"
-          count={jobs.filter(j => j.status !== 'COMPLETED').length}
-        />
-        <ReportTab 
-          active={reportType === 'PENDING_PAYMENTS'} 
-          onClick={() => setReportType('PENDING_PAYMENTS')} 
-          label="Credit Registry" 
-          icon={<IndianRupee size={24}/>} 
-          color="rose"
-          count={jobs.filter(j => j.balance > 0).length}
+          count={counts.pendingJobs}
         />
+        {canSeeRevenue && (
+          <ReportTab 
+            active={reportType === 'PENDING_PAYMENTS'} 
+            onClick={() => setReportType('PENDING_PAYMENTS')} 
+            label="Credit Registry" 
+            icon={<IndianRupee size={24}/>} 
+            color="rose"
+            count={counts.pendingPayments}
+          />
+        )}
         <ReportTab 
           active={reportType === 'CUSTOMERS'} 
           onClick={() => setReportType('CUSTOMERS')} 
           label="Client Directory" 
           icon={<Users size={24}/>} 
           color="emerald"
-          count={customers.length}
+          count={counts.customers}
         />
         <ReportTab 
           active={reportType === 'SERVICES'} 
@@ -110,6 +185,53 @@ const Reports: React.FC = () => {
         />
       </div>
 
+      {canSeeRevenue && summary && (
+        <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl p-8">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-6">
+            Earnings · {dateFilter ? new Date(dateFilter).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : 'All Time'}{allBranches ? ' · All Branches' : ''}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+            <EarningsFigure label="Gross Collections" value={summary.collected} />
+            <EarningsFigure label="Billed" value={summary.billed} />
+            <EarningsFigure label="Govt. Fees" value={summary.fees} hint="Passed through" />
+            <EarningsFigure label="GST" value={summary.tax} hint="Payable" />
+            <EarningsFigure label="Service Margin" value={summary.margin} hint="Billed, excl. fees & GST" highlight />
+          </div>
+        </div>
+      )}
+
+      {allBranches && breakdown.length > 0 && (
+        <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-slate-50 dark:bg-slate-950/50 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+              <tr className="border-b border-slate-100 dark:border-slate-800">
+                <th className="px-10 py-5">Branch</th>
+                <th className="px-8 py-5">Pending Jobs</th>
+                {canSeeRevenue && <th className="px-8 py-5">Credit Registry</th>}
+                {canSeeRevenue && <th className="px-8 py-5">Outstanding</th>}
+                {canSeeRevenue && <th className="px-8 py-5">Margin</th>}
+                <th className="px-10 py-5 text-right">Clients</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {breakdown.map(line => (
+                <tr key={line.branch.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
+                  <td className="px-10 py-5">
+                    <div className="font-black text-sm text-slate-900 dark:text-slate-100 flex items-center"><Building2 size={14} className="mr-2 text-blue-500" />{line.branch.name}</div>
+                    <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{line.branch.code}</div>
+                  </td>
+                  <td className="px-8 py-5 font-black text-slate-600 dark:text-slate-400">{line.pendingJobs}</td>
+                  {canSeeRevenue && <td className="px-8 py-5 font-black text-slate-600 dark:text-slate-400">{line.pendingPayments}</td>}
+                  {canSeeRevenue && <td className="px-8 py-5 font-black text-rose-600">₹{line.outstanding.toLocaleString()}</td>}
+                  {canSeeRevenue && <td className="px-8 py-5 font-black text-emerald-600">₹{line.margin.toLocaleString()}</td>}
+                  <td className="px-10 py-5 text-right font-black text-slate-600 dark:text-slate-400">{line.customers}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Report Content Container */}
       <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-2xl overflow-hidden flex flex-col">
         {/* Filter Header */}
@@ -119,10 +241,18 @@ const Reports: React.FC = () => {
               <FileText size={20} className="mr-3 text-blue-500" /> 
               {reportType.replace('_', ' ')}
             </h3>
-            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mt-1">Audit Log & Performance Data</p>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mt-1">
+              {recordCount > rows.length && rows.length > 0 ? `Showing latest ${rows.length} of ${recordCount} records` : 'Audit Log & Performance Data'}
+            </p>
           </div>
           
           <div className="flex flex-wrap items-center gap-4 w-full md:w-auto">
+            {canSeeAllBranches && (
+              <div className="flex bg-white dark:bg-slate-800 p-1 rounded-[15px] border border-slate-100 dark:border-slate-800 shrink-0">
+                <button onClick={() => setAllBranches(false)} className={`px-4 py-2 rounded-[15px] text-[10px] font-black uppercase tracking-widest transition-all ${!allBranches ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>This Branch</button>
+                <button onClick={() => setAllBranches(true)} className={`px-4 py-2 rounded-[15px] text-[10px] font-black uppercase tracking-widest transition-all ${allBranches ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}>All Branches</button>
+              </div>
+            )}
             <div className="relative flex-1 md:flex-none">
               <Calendar className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" size={16} />
               <input 
@@ -132,16 +262,18 @@ const Reports: React.FC = () => {
                 className="w-full pl-12 pr-4 py-3 rounded-[15px] bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-800 text-slate-900 dark:text-white font-bold outline-none focus:border-blue-500 transition-all text-xs"
               />
             </div>
-            <button className="bg-slate-900 dark:bg-white text-white dark:text-black px-6 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl whitespace-nowrap">
-              <Download size={16} />
-              <span>Export CSV</span>
-            </button>
+            {db.auth.can(EXPORT_PRIVILEGES[reportType]) && (
+              <button className="bg-slate-900 dark:bg-white text-white dark:text-black px-6 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl whitespace-nowrap">
+                <Download size={16} />
+                <span>Export CSV</span>
+              </button>
+            )}
           </div>
         </div>
 
         {/* Data Table */}
         <div className="overflow-x-auto overflow-y-auto max-h-[600px] custom-scrollbar">
-          {data.length === 0 ? (
+          {recordCount === 0 ? (
             <div className="p-24 text-center">
               <div className="w-20 h-20 bg-slate-50 dark:bg-slate-800 rounded-[15px] flex items-center justify-center mx-auto mb-6 text-slate-300 dark:text-slate-700">
                 <Search size={32} />
@@ -162,7 +294,7 @@ const Reports: React.FC = () => {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
-                    {(data as Job[]).map((j) => (
+                    {rows.map((j) => (
                       <tr key={j.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors group">
                         <td className="px-10 py-6">
                           <div className="font-black text-slate-900 dark:text-slate-100 text-sm">
@@ -170,7 +302,7 @@ const Reports: React.FC = () => {
                               ? (services.find(s => s.id === j.items[0].serviceId)?.name || 'Custom')
                               : `${j.items.length} Services Bundle`}
                           </div>
-                          <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Workflow: #{j.id.slice(-6).toUpperCase()}</div>
+                          <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Workflow: {jobNumber(j)}{allBranches && ` · ${branchCode(j)}`}</div>
                         </td>
                         <td className="px-8 py-6">
                           <div className="font-bold text-sm text-slate-600 dark:text-slate-400">{customers.find(c => c.id === j.customerId)?.name || 'Walk-in'}</div>
@@ -202,11 +334,11 @@ const Reports: React.FC = () => {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
-                    {(data as Job[]).map((j) => (
+                    {rows.map((j) => (
                       <tr key={j.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
                         <td className="px-10 py-6">
                           <div className="font-black text-sm text-slate-900 dark:text-slate-100">{customers.find(c => c.id === j.customerId)?.name || 'Unknown'}</div>
-                          <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Job ID: #{j.id.slice(-4)}</div>
+                          <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Job ID: #{j.id.slice(-4)}{allBranches && ` · ${branchCode(j)}`}</div>
                         </td>
                         <td className="px-8 py-6 font-black text-slate-600 dark:text-slate-400">₹{j.totalAmount.toLocaleString()}</td>
                         <td className="px-8 py-6 font-black text-emerald-600">₹{j.paidAmount.toLocaleString()}</td>
@@ -224,7 +356,7 @@ const Reports: React.FC = () => {
                   </div>
                   <h4 className="text-xs font-black text-slate-900 dark:text-white uppercase tracking-[0.2em]">{reportType === 'CUSTOMERS' ? 'Client Master Data Ready' : 'Service Schema Verified'}</h4>
                   <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-2 max-w-sm mx-auto leading-relaxed">
-                    A total of {data.length} records are queued. For data integrity, please use the Export feature for full offline analysis.
+                    A total of {recordCount} records are queued. For data integrity, please use the Export feature for full offline analysis.
                   </p>
                 </div>
               )}
@@ -236,6 +368,14 @@ const Reports: React.FC = () => {
   );
 };
 
+const EarningsFigure: React.FC<{ label: string; value: number; hint?: string; highlight?: boolean }> = ({ label, value, hint, highlight }) => (
+  <div>
+    <span className={`text-[10px] font-black uppercase tracking-[0.2em] block mb-1 ${highlight ? 'text-emerald-600' : 'text-slate-400'}`}>{label}</span>
+    <span className={`text-2xl font-black tracking-tighter ${highlight ? 'text-emerald-600' : 'text-slate-900 dark:text-white'}`}>₹{value.toLocaleString()}</span>
+    {hint && <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest block mt-1">{hint}</span>}
+  </div>
+);
+
 interface ReportTabProps {
   active: boolean;
   onClick: () => void;
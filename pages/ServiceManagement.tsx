@@ -1,7 +1,9 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { db } from '../db';
+import { db, errorMessage, ValidationError } from '../db';
 import { Service } from '../types';
+import { newId } from '../utils/ids';
+import { GST_RATES } from '../utils/gst';
 import { Search, Plus, Edit, Trash2, X, Save, Settings, IndianRupee, LayoutGrid, List, Loader2, Filter, Download, Upload, CheckCircle2, AlertCircle } from 'lucide-react';
 import * as XLSX from 'xlsx';
 
@@ -12,6 +14,11 @@ const SERVICE_CATEGORIES = [
 ];
 
 const ServiceManagement: React.FC = () => {
+  // Buttons for actions the user's role does not allow are left out.
+  const canCreate = db.auth.can('SERVICES_CREATE');
+  const canEdit = db.auth.can('SERVICES_EDIT');
+  const canDelete = db.auth.can('SERVICES_DELETE');
+  const canExport = db.auth.can('SERVICES_EXPORT');
   const [services, setServices] = useState<Service[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -46,7 +53,10 @@ const ServiceManagement: React.FC = () => {
     name: '',
     description: '',
     basePrice: 0,
-    category: SERVICE_CATEGORIES[0]
+    governmentFee: 0,
+    category: SERVICE_CATEGORIES[0],
+    hsnSac: '',
+    taxRate: 0
   });
 
   const filteredServices = services.filter(s => {
@@ -69,14 +79,14 @@ const ServiceManagement: React.FC = () => {
         await db.services.save(updatedService);
         showToast("Service specifications updated");
       } else {
-        const newService: Service = { ...formData, id: 's' + Date.now() };
+        const newService: Service = { ...formData, id: newId('s') };
         await db.services.save(newService);
         showToast("New service mapped to catalog");
       }
       fetchServices();
       closeModal();
     } catch (err) {
-      showToast("Failed to commit changes", 'error');
+      showToast(errorMessage(err, "Failed to commit changes"), 'error');
     } finally {
       setIsSaving(false);
     }
@@ -113,20 +123,36 @@ const ServiceManagement: React.FC = () => {
         const jsonData = XLSX.utils.sheet_to_json(sheet);
 
         const importedItems: Service[] = jsonData.map((row: any) => ({
-          id: row.id || ('s' + Date.now() + Math.random().toString(36).substr(2, 5)),
+          id: row.id || newId('s'),
           name: row.name || row.Name || row['Service Name'] || 'New Service',
           description: row.description || row.Description || row.details || '',
           basePrice: Number(row.basePrice || row.Price || row['Base Price'] || 0),
-          category: row.category || row.Category || SERVICE_CATEGORIES[0]
+          governmentFee: Number(row.governmentFee || row['Govt Fee'] || row['Government Fee'] || 0),
+          category: row.category || row.Category || SERVICE_CATEGORIES[0],
+          hsnSac: String(row.hsnSac || row['HSN/SAC'] || row.SAC || ''),
+          taxRate: Number(row.taxRate || row['GST %'] || row.GST || 0)
         }));
 
-        for (const item of importedItems) {
-          if (item.name) await db.services.save(item);
+        let imported = 0;
+        const rejected: string[] = [];
+        for (const [index, item] of importedItems.entries()) {
+          if (!item.name) continue;
+          try {
+            await db.services.save(item);
+            imported++;
+          } catch (err) {
+            if (!(err instanceof ValidationError)) throw err;
+            rejected.push(`Row ${index + 2}: ${err.issues[0]?.path} ${err.issues[0]?.message}`);
+          }
         }
         await fetchServices();
-        showToast("Service catalog synchronized from Excel");
+        if (rejected.length > 0) {
+          showToast(`Imported ${imported}, skipped ${rejected.length}. ${rejected[0]}`, 'error');
+        } else {
+          showToast("Service catalog synchronized from Excel");
+        }
       } catch (err) {
-        showToast("Import error. Verify structure.", 'error');
+        showToast(errorMessage(err, "Import error. Verify structure."), 'error');
       } finally {
         setIsProcessing(false);
         if (e.target) e.target.value = '';
@@ -136,15 +162,15 @@ const ServiceManagement: React.FC = () => {
   };
 
   const handleDelete = async (id: string) => {
-    if (!window.confirm('Erase this service from the catalog?')) return;
+    if (!window.confirm('Move this service to the trash?')) return;
     
     setIsProcessing(true);
     try {
       await db.services.delete(id);
-      showToast("Service removed from terminal");
+      showToast("Service moved to trash");
       fetchServices();
     } catch (err) {
-      showToast("Removal failed", 'error');
+      showToast(errorMessage(err, "Removal failed"), 'error');
     } finally {
       setIsProcessing(false);
     }
@@ -157,11 +183,14 @@ const ServiceManagement: React.FC = () => {
         name: service.name, 
         description: service.description, 
         basePrice: service.basePrice, 
-        category: service.category || SERVICE_CATEGORIES[0]
+        governmentFee: service.governmentFee || 0,
+        category: service.category || SERVICE_CATEGORIES[0],
+        hsnSac: service.hsnSac || '',
+        taxRate: service.taxRate || 0
       });
     } else {
       setEditingService(null);
-      setFormData({ name: '', description: '', basePrice: 0, category: SERVICE_CATEGORIES[0] });
+      setFormData({ name: '', description: '', basePrice: 0, governmentFee: 0, category: SERVICE_CATEGORIES[0], hsnSac: '', taxRate: 0 });
     }
     setShowModal(true);
   };
@@ -236,9 +265,9 @@ const ServiceManagement: React.FC = () => {
         
         <div className="flex items-center space-x-3">
           <input type="file" ref={fileInputRef} onChange={handleImportExcel} className="hidden" accept=".xlsx, .xls, .csv" />
-          <button onClick={() => fileInputRef.current?.click()} className="bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white px-6 py-3.5 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-emerald-600 hover:text-white transition-all shadow-sm border border-slate-200 dark:border-slate-700"><Upload size={18} /><span className="hidden sm:inline">Import</span></button>
-          <button onClick={handleExportExcel} className="bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white px-6 py-3.5 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-indigo-600 hover:text-white transition-all shadow-sm border border-slate-200 dark:border-slate-700"><Download size={18} /><span className="hidden sm:inline">Export</span></button>
-          <button onClick={() => openModal()} className="bg-slate-900 dark:bg-white text-white dark:text-black px-10 py-3.5 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-3 hover:bg-indigo-600 dark:hover:bg-indigo-500 hover:text-white transition-all shadow-xl active:scale-95"><Plus size={18} /><span>Add Service</span></button>
+          {canCreate && <button onClick={() => fileInputRef.current?.click()} className="bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white px-6 py-3.5 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-emerald-600 hover:text-white transition-all shadow-sm border border-slate-200 dark:border-slate-700"><Upload size={18} /><span className="hidden sm:inline">Import</span></button>}
+          {canExport && <button onClick={handleExportExcel} className="bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white px-6 py-3.5 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-2 hover:bg-indigo-600 hover:text-white transition-all shadow-sm border border-slate-200 dark:border-slate-700"><Download size={18} /><span className="hidden sm:inline">Export</span></button>}
+          {canCreate && <button onClick={() => openModal()} className="bg-slate-900 dark:bg-white text-white dark:text-black px-10 py-3.5 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-3 hover:bg-indigo-600 dark:hover:bg-indigo-500 hover:text-white transition-all shadow-xl active:scale-95"><Plus size={18} /><span>Add Service</span></button>}
         </div>
       </div>
 
@@ -256,19 +285,23 @@ const ServiceManagement: React.FC = () => {
                   <div className="flex justify-between items-start mb-6">
                     <span className="bg-indigo-500/10 text-indigo-700 dark:text-indigo-400 text-[9px] font-black px-3 py-1.5 rounded-full uppercase tracking-widest border border-indigo-500/20">{service.category}</span>
                     <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <button onClick={() => openModal(service)} className="p-2.5 bg-slate-50 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Edit size={16} /></button>
-                      <button onClick={() => handleDelete(service.id)} className="p-2.5 bg-slate-50 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16} /></button>
+                      {canEdit && <button onClick={() => openModal(service)} className="p-2.5 bg-slate-50 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Edit size={16} /></button>}
+                      {canDelete && <button onClick={() => handleDelete(service.id)} className="p-2.5 bg-slate-50 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16} /></button>}
                     </div>
                   </div>
                   <h4 className="text-xl font-black text-slate-900 dark:text-slate-100 mb-3 leading-tight tracking-tight">{service.name}</h4>
                   <p className="text-xs text-slate-500 dark:text-slate-500 font-bold leading-relaxed mb-8 line-clamp-3 uppercase tracking-widest">{service.description}</p>
                 </div>
                 <div className="pt-6 border-t border-slate-100 dark:border-slate-800/50 flex items-center justify-between">
-                  <span className="text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em]">Pricing</span>
+                  <span className="text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em]">{service.taxRate ? `Pricing · ${service.taxRate}% GST` : 'Pricing · No GST'}</span>
                   <div className="flex items-center text-xl font-black text-indigo-600 dark:text-indigo-400 tracking-tighter">
                     <IndianRupee size={16} className="mr-0.5 opacity-50" /> {service.basePrice.toLocaleString()}
                   </div>
                 </div>
+                <div className="pt-3 flex items-center justify-between text-[9px] font-black uppercase tracking-widest text-slate-400 dark:text-slate-500">
+                  <span>Govt. Fee ₹{(service.governmentFee || 0).toLocaleString()}</span>
+                  <span className="text-emerald-600 dark:text-emerald-400">Our Charge ₹{(service.basePrice - (service.governmentFee || 0)).toLocaleString()}</span>
+                </div>
               </div>
             ))}
           </div>
@@ -280,6 +313,7 @@ const ServiceManagement: React.FC = () => {
                   <th className="px-10 py-6">Domain Overview</th>
                   <th className="px-8 py-6">Sector</th>
                   <th className="px-8 py-6">Market Price</th>
+                  <th className="px-8 py-6">GST</th>
                   <th className="px-10 py-6 text-right">Controls</th>
                 </tr>
               </thead>
@@ -293,10 +327,17 @@ const ServiceManagement: React.FC = () => {
                     <td className="px-8 py-6">
                       <span className="bg-indigo-500/10 text-indigo-700 dark:text-indigo-400 text-[9px] font-black px-3 py-1 rounded-full uppercase tracking-widest border border-indigo-500/20">{service.category}</span>
                     </td>
-                    <td className="px-8 py-6 font-black text-slate-900 dark:text-slate-100 text-lg tracking-tighter">₹{service.basePrice.toLocaleString()}</td>
+                    <td className="px-8 py-6">
+                      <div className="font-black text-slate-900 dark:text-slate-100 text-lg tracking-tighter">₹{service.basePrice.toLocaleString()}</div>
+                      {!!service.governmentFee && <div className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest">Govt. Fee ₹{service.governmentFee.toLocaleString()}</div>}
+                    </td>
+                    <td className="px-8 py-6">
+                      <div className="font-black text-slate-900 dark:text-slate-100">{service.taxRate ? `${service.taxRate}%` : 'Nil'}</div>
+                      {service.hsnSac && <div className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest">HSN/SAC {service.hsnSac}</div>}
+                    </td>
                     <td className="px-10 py-6 text-right space-x-2">
-                      <button onClick={() => openModal(service)} className="p-3 bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Edit size={18} /></button>
-                      <button onClick={() => handleDelete(service.id)} className="p-3 bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={18} /></button>
+                      {canEdit && <button onClick={() => openModal(service)} className="p-3 bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Edit size={18} /></button>}
+                      {canDelete && <button onClick={() => handleDelete(service.id)} className="p-3 bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 rounded-[15px] border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={18} /></button>}
                     </td>
                   </tr>
                 ))}
@@ -340,6 +381,35 @@ const ServiceManagement: React.FC = () => {
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-8">
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-3">Govt. Fee Included (₹)</label>
+                  <div className="relative">
+                    <IndianRupee size={16} className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 dark:text-slate-500" />
+                    <input type="number" min="0" value={formData.governmentFee || 0} onChange={(e) => setFormData({...formData, governmentFee: Number(e.target.value)})} className="w-full pl-12 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-indigo-500 transition-all" />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-3">Our Service Charge</label>
+                  <div className={`w-full px-6 py-4 rounded-[15px] bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-800 font-black ${formData.basePrice - (formData.governmentFee || 0) < 0 ? 'text-rose-600' : 'text-emerald-600 dark:text-emerald-400'}`}>₹{formData.basePrice - (formData.governmentFee || 0)}</div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-8">
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-3">HSN / SAC Code</label>
+                  <input type="text" value={formData.hsnSac} onChange={(e) => setFormData({...formData, hsnSac: e.target.value.replace(/\D/g, '')})} maxLength={8} className="w-full px-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-indigo-500 transition-all" placeholder="e.g. 998599" />
+                </div>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-3">GST Rate</label>
+                  <select value={formData.taxRate || 0} onChange={(e) => setFormData({...formData, taxRate: Number(e.target.value)})} className="w-full px-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-indigo-500 transition-all cursor-pointer">
+                    {GST_RATES.map(rate => (
+                      <option key={rate} value={rate} className="bg-white dark:bg-slate-950">{rate === 0 ? 'Nil (government fee)' : `${rate}%`}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
               <div>
                 <label className="block text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-3">Functional Description</label>
                 <textarea value={formData.description} onChange={(e) => setFormData({...formData, description: e.target.value})} className="w-full px-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-700 dark:text-slate-100 font-medium outline-none focus:border-indigo-500 min-h-[140px] leading-relaxed resize-none" placeholder="Detailed workflow description..." />
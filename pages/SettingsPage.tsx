@@ -1,10 +1,11 @@
 
 import React, { useState, useEffect } from 'react';
-import { db } from '../db';
-import { CompanySettings } from '../types'; 
+import { db, errorMessage, DEFAULT_SERIES, financialYear, formatNumber, MAIN_BRANCH_ID } from '../db';
+import { CompanySettings, NumberSeries } from '../types'; 
+import { stateName, stateOfGstin } from '../utils/gst';
 import { 
   Building2, Phone, MapPin, User, Mail, Globe, Save, 
-  Loader2, CheckCircle2, ShieldCheck, Briefcase
+  Loader2, CheckCircle2, ShieldCheck, Briefcase, Hash, Receipt
 } from 'lucide-react';
 
 const SettingsPage: React.FC = () => {
@@ -19,12 +20,15 @@ const SettingsPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [branchName, setBranchName] = useState('');
 
   useEffect(() => {
     const fetchSettings = async () => {
       try {
-        const data = await db.settings.get();
+        const [data, branches] = await Promise.all([db.settings.get(), db.branches.all()]);
         setSettings(data);
+        const active = db.branches.active();
+        setBranchName(active && active !== MAIN_BRANCH_ID ? branches.find(b => b.id === active)?.name ?? '' : '');
       } catch (err) {
         console.error("Failed to load settings", err);
       } finally {
@@ -42,7 +46,7 @@ const SettingsPage: React.FC = () => {
       setSuccess(true);
       setTimeout(() => setSuccess(false), 3000);
     } catch (err) {
-      alert("Failed to save company settings.");
+      alert(errorMessage(err, "Failed to save company settings."));
     } finally {
       setIsSaving(false);
     }
@@ -56,6 +60,11 @@ const SettingsPage: React.FC = () => {
     );
   }
 
+  const invoiceSeries: NumberSeries = { ...DEFAULT_SERIES.INVOICE, ...settings.numberSeries?.INVOICE };
+  const setInvoiceSeries = (patch: Partial<NumberSeries>) =>
+    setSettings({ ...settings, numberSeries: { ...settings.numberSeries, INVOICE: { ...invoiceSeries, ...patch } } });
+  const creditNoteSeries: NumberSeries = { ...DEFAULT_SERIES.CREDIT_NOTE, ...settings.numberSeries?.CREDIT_NOTE };
+
   const inputClass = "w-full pl-12 pr-6 py-4 rounded-[15px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-bold outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 transition-all";
   const labelClass = "block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.2em] mb-2.5 ml-2";
 
@@ -83,7 +92,9 @@ const SettingsPage: React.FC = () => {
           </div>
           <div>
             <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight">Organization Profile</h3>
-            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">These details will appear on invoices and reports</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {branchName ? `Used by the ${branchName} branch only; the other branches keep their own` : 'These details will appear on invoices and reports'}
+            </p>
           </div>
         </div>
 
@@ -163,6 +174,21 @@ const SettingsPage: React.FC = () => {
               </div>
             </div>
 
+            <div className="md:col-span-2 space-y-2">
+              <label className={labelClass}>GSTIN {stateOfGstin(settings.gstin) && `· ${stateName(stateOfGstin(settings.gstin))}`}</label>
+              <div className="relative group">
+                <Receipt className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-blue-500 transition-colors" size={20} />
+                <input 
+                  type="text" 
+                  value={settings.gstin || ''}
+                  onChange={(e) => setSettings({...settings, gstin: e.target.value.toUpperCase().replace(/\s/g, '')})}
+                  className={`${inputClass} font-mono tracking-widest`}
+                  placeholder="Leave blank if not registered for GST"
+                  maxLength={15}
+                />
+              </div>
+            </div>
+
             <div className="md:col-span-2 space-y-2">
               <label className={labelClass}>Registered Business Address</label>
               <div className="relative group">
@@ -178,6 +204,76 @@ const SettingsPage: React.FC = () => {
             </div>
           </div>
 
+          <div className="pt-8 border-t border-slate-100 dark:border-slate-800 space-y-6">
+            <div className="flex items-center space-x-3 text-slate-600 dark:text-slate-400">
+              <Hash size={18} />
+              <h4 className="font-black uppercase text-xs tracking-widest">Invoice Numbering</h4>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+              <div className="space-y-2">
+                <label className={labelClass}>Prefix</label>
+                <div className="relative group">
+                  <Hash className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-blue-500 transition-colors" size={20} />
+                  <input 
+                    type="text" 
+                    value={invoiceSeries.prefix}
+                    onChange={(e) => setInvoiceSeries({ prefix: e.target.value.toUpperCase() })}
+                    className={inputClass}
+                    pattern="[A-Za-z0-9-]{1,12}"
+                    maxLength={12}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Digits</label>
+                <input 
+                  type="number" 
+                  min={1}
+                  max={10}
+                  value={invoiceSeries.padding}
+                  onChange={(e) => setInvoiceSeries({ padding: Number(e.target.value) })}
+                  className={`${inputClass} pl-6`}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>Offline Block Size</label>
+                <input 
+                  type="number" 
+                  min={1}
+                  value={invoiceSeries.blockSize}
+                  onChange={(e) => setInvoiceSeries({ blockSize: Number(e.target.value) })}
+                  className={`${inputClass} pl-6`}
+                  required
+                />
+              </div>
+            </div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-2">
+              Next invoices look like {formatNumber(invoiceSeries, financialYear(), 1)} · the count restarts every April
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8 items-end">
+              <div className="space-y-2">
+                <label className={labelClass}>Credit Note Prefix</label>
+                <div className="relative group">
+                  <Hash className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-blue-500 transition-colors" size={20} />
+                  <input 
+                    type="text" 
+                    value={creditNoteSeries.prefix}
+                    onChange={(e) => setSettings({ ...settings, numberSeries: { ...settings.numberSeries, CREDIT_NOTE: { ...creditNoteSeries, prefix: e.target.value.toUpperCase() } } })}
+                    className={inputClass}
+                    pattern="[A-Za-z0-9-]{1,12}"
+                    maxLength={12}
+                    required
+                  />
+                </div>
+              </div>
+              <p className="md:col-span-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-2 pb-5">
+                Approved credit notes look like {formatNumber(creditNoteSeries, financialYear(), 1)}
+              </p>
+            </div>
+          </div>
+
           <div className="pt-6 flex justify-end">
             <button 
               type="submit"
@@ -208,7 +304,7 @@ const SettingsPage: React.FC = () => {
             <h4 className="font-black uppercase text-xs tracking-widest">Data Integrity</h4>
           </div>
           <p className="text-sm font-medium text-slate-500 dark:text-slate-500 leading-relaxed">
-            All configuration data is stored locally within this terminal. For security, please use the system backup feature in User Management to maintain offline copies of your settings.
+            All configuration data is stored locally within this terminal. Daily snapshots are kept automatically under Backups; download one regularly to maintain offline copies of your settings.
           </p>
         </div>
       </div>
@@ -0,0 +1,212 @@
+
+import React, { useState, useEffect } from 'react';
+import { db, errorMessage } from '../db';
+import { SessionUser, Privilege, SoftDeletable } from '../types';
+import { jobNumber } from '../utils/documents';
+import { Trash2, RotateCcw, Users, Settings as SettingsIcon, Briefcase, Package, Shield, Loader2, CheckCircle2, AlertCircle, Inbox } from 'lucide-react';
+
+type TrashTab = 'customers' | 'services' | 'jobs' | 'inventory' | 'users';
+
+type TrashedRow = { id: string } & SoftDeletable;
+
+interface TrashSource {
+  label: string;
+  icon: React.ReactNode;
+  privilege: Privilege;
+  list: () => Promise<TrashedRow[]>;
+  restore: (id: string) => Promise<unknown>;
+  purge: (id: string) => Promise<void>;
+  describe: (row: any, roleNames: Record<string, string>) => string;
+}
+
+const SOURCES: Record<TrashTab, TrashSource> = {
+  customers: {
+    label: 'Customers', icon: <Users size={16} />, privilege: 'CUSTOMERS_DELETE',
+    list: db.customers.trash, restore: db.customers.restore, purge: db.customers.purge,
+    describe: row => `${row.name}${row.phone ? ` · ${row.phone}` : ''}`
+  },
+  services: {
+    label: 'Services', icon: <SettingsIcon size={16} />, privilege: 'SERVICES_DELETE',
+    list: db.services.trash, restore: db.services.restore, purge: db.services.purge,
+    describe: row => `${row.name} · ₹${row.basePrice}`
+  },
+  jobs: {
+    label: 'Invoices & Jobs', icon: <Briefcase size={16} />, privilege: 'JOBS_DELETE',
+    list: db.jobs.trash, restore: db.jobs.restore, purge: db.jobs.purge,
+    describe: row => `${jobNumber(row)} · ₹${row.totalAmount} · ${row.items?.length || 0} item(s)`
+  },
+  inventory: {
+    label: 'Inventory', icon: <Package size={16} />, privilege: 'INVENTORY_DELETE',
+    list: db.inventory.trash, restore: db.inventory.restore, purge: db.inventory.purge,
+    describe: row => `${row.name} · ${row.quantity} ${row.unit}`
+  },
+  users: {
+    label: 'Users', icon: <Shield size={16} />, privilege: 'USERS_MANAGE',
+    list: db.users.trash, restore: db.users.restore, purge: db.users.purge,
+    describe: (row, roleNames) => `${row.username} · ${roleNames[row.roleId] || 'No role'}`
+  }
+};
+
+const TrashPage: React.FC = () => {
+  const [currentUser, setCurrentUser] = useState<SessionUser | null>(null);
+  const [tab, setTab] = useState<TrashTab | null>(null);
+  const [rows, setRows] = useState<TrashedRow[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [roleNames, setRoleNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const tabs = (Object.keys(SOURCES) as TrashTab[]).filter(key => currentUser?.role.privileges.includes(SOURCES[key].privilege));
+  // Purging cannot be undone, so it has a permission of its own.
+  const canPurge = !!currentUser?.role.privileges.includes('TRASH_PURGE');
+
+  useEffect(() => {
+    const init = async () => {
+      const [user, users, roles] = await Promise.all([db.auth.getSession(), db.users.names(), db.roles.all()]);
+      setCurrentUser(user);
+      setUserNames(users.reduce((acc, u) => ({ ...acc, [u.id]: u.username }), {} as Record<string, string>));
+      setRoleNames(roles.reduce((acc, r) => ({ ...acc, [r.id]: r.name }), {} as Record<string, string>));
+      const first = (Object.keys(SOURCES) as TrashTab[]).find(key => user?.role.privileges.includes(SOURCES[key].privilege));
+      setTab(first || null);
+      if (!first) setIsLoading(false);
+    };
+    init();
+  }, []);
+
+  const fetchTrash = async (active: TrashTab) => {
+    setIsLoading(true);
+    try {
+      setRows(await SOURCES[active].list());
+    } catch (err) {
+      showToast(errorMessage(err, "Could not open the trash"), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (tab) fetchTrash(tab);
+  }, [tab]);
+
+  const handleRestore = async (id: string) => {
+    if (!tab) return;
+    setIsProcessing(true);
+    try {
+      await SOURCES[tab].restore(id);
+      showToast("Record restored");
+      fetchTrash(tab);
+    } catch (err) {
+      showToast(errorMessage(err, "Restore failed"), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    if (!tab || !window.confirm('Permanently erase this record? This cannot be undone.')) return;
+    setIsProcessing(true);
+    try {
+      await SOURCES[tab].purge(id);
+      showToast("Record permanently erased");
+      fetchTrash(tab);
+    } catch (err) {
+      showToast(errorMessage(err, "Purge failed"), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center pointer-events-none p-4">
+          <div className={`px-10 py-6 rounded-[25px] shadow-2xl animate-in zoom-in duration-300 flex flex-col items-center space-y-4 border-2 pointer-events-auto min-w-[320px] text-center ${
+            toast.type === 'success' ? 'bg-emerald-600 text-white border-emerald-500' : 'bg-rose-500 text-white border-rose-400'
+          }`}>
+            {toast.type === 'success' ? <CheckCircle2 size={48} /> : <AlertCircle size={48} />}
+            <span className="font-black text-xs uppercase tracking-[0.3em] leading-relaxed">{toast.message}</span>
+          </div>
+        </div>
+      )}
+
+      {isProcessing && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm">
+          <div className="bg-white dark:bg-slate-950 p-10 rounded-[15px] shadow-2xl flex flex-col items-center space-y-4 border border-slate-100 dark:border-slate-800">
+            <Loader2 className="animate-spin text-blue-600" size={48} />
+            <p className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-900 dark:text-white">Processing Trash...</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tight">Trash Bin</h2>
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-[0.2em] mt-1">Deleted records stay here until restored or purged</p>
+        </div>
+        <div className="flex flex-wrap gap-2 bg-white dark:bg-slate-900 p-1 rounded-[15px] border border-slate-200 dark:border-slate-800 shadow-sm">
+          {tabs.map(key => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-4 py-2.5 rounded-[15px] flex items-center space-x-2 text-[10px] font-black uppercase tracking-widest transition-all ${
+                tab === key ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'
+              }`}
+            >
+              {SOURCES[key].icon}
+              <span>{SOURCES[key].label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl overflow-hidden overflow-x-auto">
+        {isLoading ? (
+          <div className="py-24 flex items-center justify-center"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+        ) : !tab || rows.length === 0 ? (
+          <div className="py-24 flex flex-col items-center justify-center space-y-4 text-slate-300 dark:text-slate-700">
+            <Inbox size={48} />
+            <p className="text-xs font-black uppercase tracking-widest">{tab ? 'Trash is empty' : 'No trash sections available for your access level'}</p>
+          </div>
+        ) : (
+          <table className="w-full text-left border-collapse min-w-[600px]">
+            <thead>
+              <tr className="bg-slate-50 dark:bg-slate-950/50 border-b border-slate-100 dark:border-slate-800 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">
+                <th className="px-10 py-6">Record</th>
+                <th className="px-8 py-6">Deleted</th>
+                <th className="px-8 py-6">Deleted By</th>
+                <th className="px-10 py-6 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {rows.map(row => (
+                <tr key={row.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/30 transition-colors">
+                  <td className="px-10 py-6 font-black text-slate-900 dark:text-slate-100 text-sm">{SOURCES[tab].describe(row, roleNames)}</td>
+                  <td className="px-8 py-6 text-xs font-bold text-slate-500">{row.deletedAt ? new Date(row.deletedAt).toLocaleString('en-IN') : '—'}</td>
+                  <td className="px-8 py-6 text-[10px] font-black text-slate-500 uppercase tracking-widest">{row.deletedBy ? userNames[row.deletedBy] || row.deletedBy : '—'}</td>
+                  <td className="px-10 py-6 text-right space-x-2 whitespace-nowrap">
+                    <button onClick={() => handleRestore(row.id)} className="px-4 py-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-emerald-600 border border-slate-200 dark:border-slate-700 transition-all inline-flex items-center space-x-2">
+                      <RotateCcw size={14} /><span>Restore</span>
+                    </button>
+                    {canPurge && (
+                      <button onClick={() => handlePurge(row.id)} className="px-4 py-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-600 border border-slate-200 dark:border-slate-700 transition-all inline-flex items-center space-x-2">
+                        <Trash2 size={14} /><span>Purge</span>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashPage;
@@ -1,15 +1,22 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { db } from '../db';
-import { User, UserRole, Privilege } from '../types';
-import { Shield, Plus, Edit, Trash2, X, Save, Lock, UserCheck, LayoutGrid, List, Loader2, Mail, Key, Fingerprint, Download, Upload, CheckCircle2, AlertCircle } from 'lucide-react';
-
-const AVAILABLE_PRIVILEGES: Privilege[] = [
-  'MANAGE_USERS', 'VIEW_REPORTS', 'MANAGE_CUSTOMERS', 'MANAGE_SERVICES', 'MANAGE_JOBS', 'MANAGE_INVENTORY'
-];
+import { db, errorMessage, passwordProblem, privilegeLabel, BackupFile, ADMIN_ROLE_ID, DEFAULT_ROLE_ID } from '../db';
+import { User, Role, Branch } from '../types';
+import RestorePreviewDialog from '../components/RestorePreviewDialog';
+import UserSessionsDialog from '../components/UserSessionsDialog';
+import RoleEditorDialog from '../components/RoleEditorDialog';
+import { newId } from '../utils/ids';
+import { Shield, Plus, Edit, Trash2, X, Save, Lock, UserCheck, LayoutGrid, List, Loader2, Mail, Key, Fingerprint, Download, Upload, CheckCircle2, AlertCircle, MonitorSmartphone, KeyRound, Percent, ShieldOff, Building2 } from 'lucide-react';
 
 const UserManagement: React.FC = () => {
+  const canManageUsers = db.auth.can('USERS_MANAGE');
+  const canManageRoles = db.auth.can('ROLES_MANAGE');
+  const [section, setSection] = useState<'USERS' | 'ROLES'>(canManageUsers ? 'USERS' : 'ROLES');
   const [users, setUsers] = useState<User[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  // undefined: closed; null: creating a new role
+  const [editingRole, setEditingRole] = useState<Role | null | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -17,6 +24,8 @@ const UserManagement: React.FC = () => {
   const [view, setView] = useState<'GRID' | 'TABLE'>('TABLE');
   const [showModal, setShowModal] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<BackupFile | null>(null);
+  const [sessionsFor, setSessionsFor] = useState<User | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const showToast = (message: string, type: 'success' | 'error' = 'success') => {
@@ -26,13 +35,18 @@ const UserManagement: React.FC = () => {
 
   const fetchUsers = async () => {
     try {
-      const data = await db.users.all();
+      const [data, roleList, branchList] = await Promise.all([db.users.all(), db.roles.all(), db.branches.all()]);
       setUsers(data);
+      setBranches(branchList.sort((a, b) => a.name.localeCompare(b.name)));
+      // Built-in roles first, then the shop's own, each by name.
+      setRoles(roleList.sort((a, b) => Number(!!b.builtIn) - Number(!!a.builtIn) || a.name.localeCompare(b.name)));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const roleOf = (user: User) => roles.find(r => r.id === user.roleId);
+
   useEffect(() => {
     fetchUsers();
   }, []);
@@ -41,52 +55,60 @@ const UserManagement: React.FC = () => {
     username: '',
     email: '',
     password: '',
-    role: 'STAFF',
-    privileges: ['MANAGE_CUSTOMERS', 'MANAGE_JOBS']
+    roleId: DEFAULT_ROLE_ID,
+    branchIds: []
   });
 
+  const toggleBranch = (branchId: string) => {
+    const current = formData.branchIds || [];
+    setFormData({ ...formData, branchIds: current.includes(branchId) ? current.filter(id => id !== branchId) : [...current, branchId] });
+  };
+
   const handleSave = async () => {
-    if (!formData.username || !formData.password) {
+    // Leaving the password blank while editing keeps the current one.
+    if (!formData.username || (!editingUser && !formData.password)) {
       showToast("Identity credentials required", 'error');
       return;
     }
+    const problem = formData.password ? passwordProblem(formData.password) : null;
+    if (problem) {
+      showToast(problem, 'error');
+      return;
+    }
+    if (formData.roleId !== ADMIN_ROLE_ID && !formData.branchIds?.length) {
+      showToast("Assign at least one branch", 'error');
+      return;
+    }
 
     setIsSaving(true);
     try {
       if (editingUser) {
-        const updatedUser = { ...editingUser, ...formData } as User;
+        const updatedUser = { ...editingUser, ...formData, password: formData.password || editingUser.password } as User;
         await db.users.save(updatedUser);
         showToast("Security policy updated");
       } else {
-        const newUser: User = { ...formData, id: 'u' + Date.now() } as User;
+        const newUser: User = { ...formData, id: newId('u') } as User;
         await db.users.save(newUser);
         showToast("Access provisioned successfully");
       }
       fetchUsers();
       closeModal();
     } catch (err) {
-      showToast("Policy sync error", 'error');
+      showToast(errorMessage(err, "Policy sync error"), 'error');
     } finally {
       setIsSaving(false);
     }
   };
 
-  const togglePrivilege = (p: Privilege) => {
-    const current = formData.privileges || [];
-    if (current.includes(p)) {
-      setFormData({...formData, privileges: current.filter(x => x !== p)});
-    } else {
-      setFormData({...formData, privileges: [...current, p]});
-    }
-  };
-
   const openModal = (user?: User) => {
     if (user) {
       setEditingUser(user);
-      setFormData(user);
+      setFormData({ ...user, password: '', branchIds: user.branchIds || [] });
     } else {
       setEditingUser(null);
-      setFormData({ username: '', email: '', password: '', role: 'STAFF', privileges: ['MANAGE_CUSTOMERS', 'MANAGE_JOBS'] });
+      // New accounts start in the branch they are created from.
+      const active = db.branches.active();
+      setFormData({ username: '', email: '', password: '', roleId: DEFAULT_ROLE_ID, branchIds: active ? [active] : [] });
     }
     setShowModal(true);
   };
@@ -94,15 +116,49 @@ const UserManagement: React.FC = () => {
   const closeModal = () => { setShowModal(false); setEditingUser(null); };
 
   const handleDelete = async (id: string) => {
-    if (!window.confirm('Revoke access and delete user profile?')) return;
+    if (!window.confirm('Revoke access and move this user profile to the trash?')) return;
     
     setIsProcessing(true);
     try {
       await db.users.delete(id);
-      showToast("Identity revoked and erased");
+      showToast("Identity revoked and moved to trash");
+      fetchUsers();
+    } catch (err) {
+      showToast(errorMessage(err, "Access revocation failed"), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // For a lost phone: the user signs in with their password alone, or sets up again if their role requires it.
+  const handleResetTwoFactor = async (user: User) => {
+    if (!window.confirm(`Reset two-factor sign-in for ${user.username}?`)) return;
+    setIsProcessing(true);
+    try {
+      const wasOn = await db.twoFactor.reset(user.id);
+      showToast(wasOn ? `Two-factor reset for ${user.username}` : `${user.username} has not set up two-factor`);
+    } catch (err) {
+      showToast(errorMessage(err, "Two-factor reset failed"), 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRoleSaved = (role: Role) => {
+    setEditingRole(undefined);
+    showToast(`${role.name} role saved`);
+    fetchUsers();
+  };
+
+  const handleRoleDelete = async (role: Role) => {
+    if (!window.confirm(`Delete the ${role.name} role? This cannot be undone.`)) return;
+    setIsProcessing(true);
+    try {
+      await db.roles.delete(role.id);
+      showToast("Role deleted");
       fetchUsers();
     } catch (err) {
-      showToast("Access revocation failed", 'error');
+      showToast(errorMessage(err, "Role could not be deleted"), 'error');
     } finally {
       setIsProcessing(false);
     }
@@ -112,7 +168,9 @@ const UserManagement: React.FC = () => {
     setIsProcessing(true);
     try {
       await db.system.backup();
-      showToast("Full encrypted backup generated");
+      showToast("Verified backup generated");
+    } catch (err) {
+      showToast(errorMessage(err, "Backup failed"), 'error');
     } finally {
       setTimeout(() => setIsProcessing(false), 500);
     }
@@ -120,21 +178,24 @@ const UserManagement: React.FC = () => {
 
   const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (window.confirm('Restoring from Excel will overwrite current database. System will reload. Continue?')) {
-        setIsProcessing(true);
-        try {
-          await db.system.restore(file);
-          showToast("Global database restoration complete");
-          setTimeout(() => window.location.reload(), 1000);
-        } catch (err) {
-          setIsProcessing(false);
-          showToast("Data integrity violation", 'error');
-        }
-      }
+    e.target.value = '';
+    if (!file) return;
+    setIsProcessing(true);
+    try {
+      setPendingRestore(await db.system.readBackup(file));
+    } catch (err) {
+      showToast(errorMessage(err, "Data integrity violation"), 'error');
+    } finally {
+      setIsProcessing(false);
     }
   };
 
+  const handleRestored = () => {
+    setPendingRestore(null);
+    showToast("Global database restoration complete");
+    setTimeout(() => window.location.reload(), 1000);
+  };
+
   if (isLoading) {
     return (
       <div className="h-full w-full flex items-center justify-center bg-slate-50 dark:bg-slate-950">
@@ -156,6 +217,18 @@ const UserManagement: React.FC = () => {
         </div>
       )}
 
+      {pendingRestore && (
+        <RestorePreviewDialog backup={pendingRestore} onCancel={() => setPendingRestore(null)} onRestored={handleRestored} />
+      )}
+
+      {editingRole !== undefined && (
+        <RoleEditorDialog role={editingRole} onClose={() => setEditingRole(undefined)} onSaved={handleRoleSaved} />
+      )}
+
+      {sessionsFor && (
+        <UserSessionsDialog user={sessionsFor} onClose={() => setSessionsFor(null)} onSignedOutHere={() => window.location.reload()} />
+      )}
+
       {isProcessing && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
           <div className="bg-white dark:bg-slate-950 p-10 rounded-[15px] shadow-2xl flex flex-col items-center space-y-4 border border-slate-100 dark:border-slate-800">
@@ -168,47 +241,85 @@ const UserManagement: React.FC = () => {
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
         <div className="flex items-center space-x-4 w-full md:w-auto">
           <div className="flex bg-white dark:bg-slate-900 p-1 rounded-[15px] border border-slate-200 dark:border-slate-800 shrink-0 shadow-sm">
+            {canManageUsers && <button onClick={() => setSection('USERS')} className={`px-4 py-2.5 rounded-[15px] text-[10px] font-black uppercase tracking-widest transition-all ${section === 'USERS' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}>Users</button>}
+            {canManageRoles && <button onClick={() => setSection('ROLES')} className={`px-4 py-2.5 rounded-[15px] text-[10px] font-black uppercase tracking-widest transition-all ${section === 'ROLES' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}>Roles</button>}
+          </div>
+          {section === 'USERS' && <div className="flex bg-white dark:bg-slate-900 p-1 rounded-[15px] border border-slate-200 dark:border-slate-800 shrink-0 shadow-sm">
             <button onClick={() => setView('GRID')} className={`p-2.5 rounded-[15px] transition-all ${view === 'GRID' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}><LayoutGrid size={20}/></button>
             <button onClick={() => setView('TABLE')} className={`p-2.5 rounded-[15px] transition-all ${view === 'TABLE' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500 hover:text-white'}`}><List size={20}/></button>
-          </div>
+          </div>}
           
           <div className="flex items-center space-x-2">
-            <button onClick={handleBackup} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-[15px] text-slate-400 hover:text-blue-600 hover:border-blue-500/50 transition-all flex items-center space-x-2 text-xs font-black uppercase tracking-widest shadow-sm" title="Backup Database (Excel)">
+            {db.auth.can('BACKUP_CREATE') && <button onClick={handleBackup} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-[15px] text-slate-400 hover:text-blue-600 hover:border-blue-500/50 transition-all flex items-center space-x-2 text-xs font-black uppercase tracking-widest shadow-sm" title="Backup Database (JSON)">
               <Download size={18} /> <span className="hidden sm:inline">Backup</span>
-            </button>
-            <button onClick={() => fileInputRef.current?.click()} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-[15px] text-slate-400 hover:text-emerald-600 hover:border-emerald-500/50 transition-all flex items-center space-x-2 text-xs font-black uppercase tracking-widest shadow-sm" title="Restore Database (Excel)">
+            </button>}
+            {db.auth.can('BACKUP_RESTORE') && <button onClick={() => fileInputRef.current?.click()} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-[15px] text-slate-400 hover:text-emerald-600 hover:border-emerald-500/50 transition-all flex items-center space-x-2 text-xs font-black uppercase tracking-widest shadow-sm" title="Restore Database (JSON)">
               <Upload size={18} /> <span className="hidden sm:inline">Restore</span>
-            </button>
-            <input type="file" ref={fileInputRef} onChange={handleRestore} className="hidden" accept=".xlsx" />
+            </button>}
+            <input type="file" ref={fileInputRef} onChange={handleRestore} className="hidden" accept=".json,application/json" />
           </div>
         </div>
         
-        <button onClick={() => openModal()} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-3 hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl active:scale-95">
-          <Shield size={18} /> <span>Provision User</span>
-        </button>
+        {section === 'USERS' ? (
+          <button onClick={() => openModal()} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-3 hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl active:scale-95">
+            <Shield size={18} /> <span>Provision User</span>
+          </button>
+        ) : (
+          <button onClick={() => setEditingRole(null)} className="bg-slate-900 dark:bg-white text-white dark:text-black px-8 py-3 rounded-[15px] font-black text-xs uppercase tracking-widest flex items-center space-x-3 hover:bg-blue-600 dark:hover:bg-blue-500 hover:text-white transition-all shadow-xl active:scale-95">
+            <Plus size={18} /> <span>New Role</span>
+          </button>
+        )}
       </div>
 
-      {view === 'GRID' ? (
+      {section === 'ROLES' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {roles.map(role => {
+            const holders = users.filter(u => u.roleId === role.id).length;
+            return (
+              <div key={role.id} className="bg-white dark:bg-slate-900 p-8 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl relative overflow-hidden group hover:border-blue-500/50 transition-all">
+                <div className="absolute top-0 right-0 p-6 opacity-0 group-hover:opacity-100 transition-opacity flex space-x-2">
+                  <button onClick={() => setEditingRole(role)} title="Edit role" className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-200 dark:border-slate-700 transition-all"><Edit size={16} /></button>
+                  {!role.builtIn && <button onClick={() => handleRoleDelete(role)} title="Delete role" className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16} /></button>}
+                </div>
+                <div className="flex items-center space-x-5 mb-6">
+                  <div className="w-14 h-14 rounded-[15px] bg-slate-50 dark:bg-slate-800 text-blue-600 dark:text-blue-400 flex items-center justify-center border border-slate-100 dark:border-slate-800 shadow-inner"><KeyRound size={24} /></div>
+                  <div>
+                    <h4 className="font-black text-lg text-slate-900 dark:text-slate-100 leading-none">{role.name}</h4>
+                    <p className="text-[10px] text-slate-500 font-bold mt-1">{holders} user{holders === 1 ? '' : 's'}{role.builtIn ? ' · built in' : ''}{role.requireTwoFactor ? ' · 2FA required' : ''}</p>
+                  </div>
+                </div>
+                <p className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-6 min-h-[2rem]">{role.description || 'No description'}</p>
+                <div className="flex items-center justify-between text-[9px] font-black uppercase tracking-[0.2em] text-slate-500">
+                  <span>{role.id === ADMIN_ROLE_ID ? 'Every permission' : `${role.privileges.length} permissions`}</span>
+                  <span className="flex items-center space-x-1 text-rose-500"><Percent size={12} /><span>Up to {role.id === ADMIN_ROLE_ID ? 100 : role.maxDiscountPercent}% off</span></span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : view === 'GRID' ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
           {users.map(user => (
             <div key={user.id} className="bg-white dark:bg-slate-900 p-8 rounded-[15px] border border-slate-100 dark:border-slate-800 shadow-xl relative overflow-hidden group hover:border-blue-500/50 transition-all">
               <div className="absolute top-0 right-0 p-6 opacity-0 group-hover:opacity-100 transition-opacity flex space-x-2">
+                <button onClick={() => setSessionsFor(user)} title="Active sessions" className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 border border-slate-200 dark:border-slate-700 transition-all"><MonitorSmartphone size={16} /></button>
+                <button onClick={() => handleResetTwoFactor(user)} title="Reset two-factor" className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-amber-600 dark:hover:text-amber-400 border border-slate-200 dark:border-slate-700 transition-all"><ShieldOff size={16} /></button>
                 <button onClick={() => openModal(user)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-200 dark:border-slate-700 transition-all"><Edit size={16} /></button>
-                {user.role !== 'ADMIN' && <button onClick={() => handleDelete(user.id)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16} /></button>}
+                {user.roleId !== ADMIN_ROLE_ID && <button onClick={() => handleDelete(user.id)} className="p-2.5 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={16} /></button>}
               </div>
               <div className="flex items-center space-x-5 mb-8">
                 <div className="w-16 h-16 rounded-[15px] bg-slate-50 dark:bg-slate-800 text-blue-600 dark:text-blue-400 flex items-center justify-center font-black text-2xl border border-slate-100 dark:border-slate-800 shadow-inner group-hover:scale-110 transition-transform uppercase">{user.username[0]}</div>
                 <div>
                   <h4 className="font-black text-lg text-slate-900 dark:text-slate-100 leading-none">{user.username}</h4>
                   <p className="text-[10px] text-slate-500 font-bold mt-1 lowercase truncate max-w-[150px]">{user.email || 'no email'}</p>
-                  <span className={`text-[9px] font-black px-2.5 py-1 rounded-full uppercase tracking-widest mt-2 block border ${user.role === 'ADMIN' ? 'bg-rose-500/10 text-rose-400 border-rose-500/20' : 'bg-blue-500/10 text-blue-600 border-blue-500/20'}`}>{user.role}</span>
+                  <span className={`text-[9px] font-black px-2.5 py-1 rounded-full uppercase tracking-widest mt-2 block border ${user.roleId === ADMIN_ROLE_ID ? 'bg-rose-500/10 text-rose-400 border-rose-500/20' : 'bg-blue-500/10 text-blue-600 border-blue-500/20'}`}>{roleOf(user)?.name || 'No role'}</span>
                 </div>
               </div>
               <div className="space-y-4">
                 <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Access Privileges</p>
                 <div className="flex flex-wrap gap-2">
-                  {user.privileges.map(p => (
-                    <span key={p} className="text-[9px] bg-slate-50 dark:bg-slate-950 text-slate-500 dark:text-slate-400 px-2.5 py-1 rounded-lg font-black uppercase tracking-widest border border-slate-100 dark:border-slate-800">{p.replace('MANAGE_', '').replace('VIEW_', '').replace('_', ' ')}</span>
+                  {(roleOf(user)?.privileges || []).map(p => (
+                    <span key={p} className="text-[9px] bg-slate-50 dark:bg-slate-950 text-slate-500 dark:text-slate-400 px-2.5 py-1 rounded-lg font-black uppercase tracking-widest border border-slate-100 dark:border-slate-800">{privilegeLabel(p)}</span>
                   ))}
                 </div>
               </div>
@@ -232,18 +343,20 @@ const UserManagement: React.FC = () => {
                 <tr key={user.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
                   <td className="px-10 py-6 font-black text-slate-900 dark:text-slate-100 uppercase tracking-widest text-sm">{user.username}</td>
                   <td className="px-8 py-6 text-xs text-slate-400 lowercase">{user.email || '---'}</td>
-                  <td className="px-8 py-6"><span className={`text-[9px] font-black px-3 py-1 rounded-full uppercase tracking-widest border ${user.role === 'ADMIN' ? 'bg-rose-500/10 text-rose-400 border-rose-500/20' : 'bg-blue-500/10 text-blue-600 border-blue-500/20'}`}>{user.role}</span></td>
+                  <td className="px-8 py-6"><span className={`text-[9px] font-black px-3 py-1 rounded-full uppercase tracking-widest border ${user.roleId === ADMIN_ROLE_ID ? 'bg-rose-500/10 text-rose-400 border-rose-500/20' : 'bg-blue-500/10 text-blue-600 border-blue-500/20'}`}>{roleOf(user)?.name || 'No role'}</span></td>
                   <td className="px-8 py-6">
                     <div className="flex flex-wrap gap-1.5 max-w-xs">
-                      {user.privileges.slice(0, 3).map(p => (
-                        <span key={p} className="text-[8px] bg-slate-50 dark:bg-slate-950 text-slate-500 px-2 py-0.5 rounded border border-slate-100 dark:border-slate-800 uppercase font-black">{p.split('_')[1]}</span>
+                      {(roleOf(user)?.privileges || []).slice(0, 3).map(p => (
+                        <span key={p} className="text-[8px] bg-slate-50 dark:bg-slate-950 text-slate-500 px-2 py-0.5 rounded border border-slate-100 dark:border-slate-800 uppercase font-black">{privilegeLabel(p)}</span>
                       ))}
-                      {user.privileges.length > 3 && <span className="text-[8px] text-slate-600 font-black">+ {user.privileges.length - 3}</span>}
+                      {(roleOf(user)?.privileges.length || 0) > 3 && <span className="text-[8px] text-slate-600 font-black">+ {roleOf(user)!.privileges.length - 3}</span>}
                     </div>
                   </td>
                   <td className="px-10 py-6 text-right space-x-2">
+                    <button onClick={() => setSessionsFor(user)} title="Active sessions" className="p-3 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 border border-slate-200 dark:border-slate-700 transition-all"><MonitorSmartphone size={18} /></button>
+                    <button onClick={() => handleResetTwoFactor(user)} title="Reset two-factor" className="p-3 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-amber-600 dark:hover:text-amber-400 border border-slate-200 dark:border-slate-700 transition-all"><ShieldOff size={18} /></button>
                     <button onClick={() => openModal(user)} className="p-3 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-slate-900 dark:hover:text-white border border-slate-200 dark:border-slate-700 transition-all"><Edit size={18} /></button>
-                    {user.role !== 'ADMIN' && <button onClick={() => handleDelete(user.id)} className="p-3 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={18} /></button>}
+                    {user.roleId !== ADMIN_ROLE_ID && <button onClick={() => handleDelete(user.id)} className="p-3 bg-slate-100 dark:bg-slate-800 rounded-[15px] text-slate-400 dark:text-slate-500 hover:text-rose-600 dark:hover:text-rose-400 border border-slate-200 dark:border-slate-700 transition-all"><Trash2 size={18} /></button>}
                   </td>
                 </tr>
               ))}
@@ -263,12 +376,28 @@ const UserManagement: React.FC = () => {
               <div className="flex-1 p-12 space-y-8">
                 <div><label className="block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-3">System Username</label><div className="relative"><UserCheck className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" size={18} /><input type="text" value={formData.username} onChange={(e) => setFormData({...formData, username: e.target.value})} className="w-full pl-12 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-blue-500 transition-all shadow-sm" placeholder="Username" /></div></div>
                 <div><label className="block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-3">Recovery Email</label><div className="relative"><Mail className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" size={18} /><input type="email" value={formData.email} onChange={(e) => setFormData({...formData, email: e.target.value})} className="w-full pl-12 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-blue-500 transition-all shadow-sm" placeholder="email@regal.com" /></div></div>
-                <div><label className="block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-3">Secure Password</label><div className="relative"><Key className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" size={18} /><input type="password" value={formData.password} onChange={(e) => setFormData({...formData, password: e.target.value})} className="w-full pl-12 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-blue-500 transition-all shadow-sm" placeholder="••••••••" /></div></div>
+                <div><label className="block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-3">Secure Password</label><div className="relative"><Key className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" size={18} /><input type="password" value={formData.password} onChange={(e) => setFormData({...formData, password: e.target.value})} className="w-full pl-12 pr-6 py-4 rounded-[15px] bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white font-black outline-none focus:border-blue-500 transition-all shadow-sm" placeholder={editingUser ? 'Leave blank to keep current' : '••••••••'} /></div></div>
+                <div>
+                  <label className="block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-3">Branches</label>
+                  {formData.roleId === ADMIN_ROLE_ID ? (
+                    <p className="text-[10px] font-bold text-slate-500">Administrators work in every branch.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {branches.map(branch => {
+                        const selected = (formData.branchIds || []).includes(branch.id);
+                        return (
+                          <button key={branch.id} type="button" onClick={() => toggleBranch(branch.id)} className={`flex items-center space-x-2 px-4 py-2.5 rounded-[15px] border-2 text-[10px] font-black uppercase tracking-widest transition-all ${selected ? 'border-blue-600 bg-blue-600/10 text-blue-600 dark:text-blue-400' : 'border-slate-200 dark:border-slate-800 text-slate-400 dark:text-slate-500 hover:border-slate-300 dark:hover:border-slate-700'}`}>
+                            <Building2 size={14} /><span>{branch.name}</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
               </div>
               <div className="hidden lg:block w-px bg-slate-100 dark:bg-slate-800 my-8"></div>
               <div className="lg:w-[380px] p-12 bg-slate-50 dark:bg-slate-900/20 space-y-8">
-                <div><label className="block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Functional Role</label><div className="flex flex-col gap-3">{(['ADMIN', 'MANAGER', 'STAFF'] as UserRole[]).map(role => (<button key={role} onClick={() => setFormData({...formData, role})} className={`py-3.5 px-6 rounded-[15px] text-[10px] font-black uppercase tracking-widest border-2 transition-all flex items-center justify-between group ${formData.role === role ? 'border-blue-600 bg-blue-600/10 text-blue-600 dark:text-blue-400' : 'border-slate-200 dark:border-slate-800 text-slate-400 dark:text-slate-500 hover:border-slate-300 dark:hover:border-slate-700'}`}><span>{role}</span>{formData.role === role && <Shield size={14} />}</button>))}</div></div>
-                <div><label className="block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Security Scopes</label><div className="space-y-3 max-h-[250px] overflow-y-auto custom-scrollbar pr-2">{AVAILABLE_PRIVILEGES.map(p => (<label key={p} className="flex items-center space-x-4 p-4 bg-white dark:bg-slate-900/50 rounded-[15px] border border-slate-200 dark:border-slate-800 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors group"><input type="checkbox" checked={formData.privileges?.includes(p)} onChange={() => togglePrivilege(p)} className="w-5 h-5 rounded bg-slate-50 dark:bg-slate-950 border-slate-300 dark:border-slate-700 text-blue-600 focus:ring-blue-500" /><span className="text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest group-hover:text-slate-900 dark:group-hover:text-slate-200 transition-colors">{p.replace('MANAGE_', '').replace('VIEW_', '').replace('_', ' ')}</span></label>))}</div></div>
+                <div><label className="block text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Functional Role</label><div className="flex flex-col gap-3 max-h-[420px] overflow-y-auto custom-scrollbar pr-2">{roles.map(role => (<button key={role.id} onClick={() => setFormData({...formData, roleId: role.id})} className={`py-3.5 px-6 rounded-[15px] text-left border-2 transition-all group ${formData.roleId === role.id ? 'border-blue-600 bg-blue-600/10 text-blue-600 dark:text-blue-400' : 'border-slate-200 dark:border-slate-800 text-slate-400 dark:text-slate-500 hover:border-slate-300 dark:hover:border-slate-700'}`}><span className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest"><span>{role.name}</span>{formData.roleId === role.id && <Shield size={14} />}</span>{role.description && <span className="block text-[10px] font-medium normal-case tracking-normal mt-1 opacity-80">{role.description}</span>}</button>))}</div></div>
               </div>
             </div>
             <div className="px-12 py-10 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end space-x-6">
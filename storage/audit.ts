@@ -0,0 +1,33 @@
+
+import { AuditAction, FieldChange } from '../types';
+import { sameRecord } from './syncQueue';
+
+// --- Audit Diffs ---
+// Bookkeeping fields change on every save and would drown out the real edits.
+const IGNORED_FIELDS = new Set(['version', 'updatedAt', 'lastUpdated', 'deletedAt', 'deletedBy']);
+const MASKED_FIELDS = new Set(['password']);
+
+const mask = (field: string, value: any) =>
+  MASKED_FIELDS.has(field) && value !== undefined && value !== null ? '••••••' : value;
+
+// Field-by-field before/after of a write; either side is null for creates and purges.
+export const diffRecords = (before: any | null, after: any | null): FieldChange[] => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (sameRecord({ v: from }, { v: to })) return;
+    changes.push({ field, before: mask(field, from), after: mask(field, to) });
+  });
+  return changes;
+};
+
+export const auditAction = (before: any | null, after: any | null): AuditAction => {
+  if (!after) return 'PURGE';
+  if (!before) return 'CREATE';
+  if (!before.deletedAt && after.deletedAt) return 'DELETE';
+  if (before.deletedAt && !after.deletedAt) return 'RESTORE';
+  return 'UPDATE';
+};
@@ -0,0 +1,107 @@
+
+import { FieldIssue, ValidationError } from './errors';
+import { sameRecord } from './syncQueue';
+
+// --- Backup File Format ---
+// A backup is one JSON document: a manifest describing what it holds, and the
+// rows of every table with nested structures (job items, privileges) intact.
+// The checksum covers the data section, so a truncated or hand-edited file is
+// refused before anything is restored from it.
+
+export const BACKUP_FORMAT = 'regal-erp-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  createdBy: string | null;
+  schemaVersion?: number;         // absent in backups taken before migrations existed
+  tables: Record<string, number>; // row count per table
+  checksum: string;               // SHA-256 of the serialised data section
+}
+
+export interface BackupFile {
+  manifest: BackupManifest;
+  data: Record<string, { id: string }[]>;
+}
+
+export type RestoreMode = 'REPLACE' | 'MERGE';
+
+export interface TableDiff {
+  table: string;
+  adds: { id: string }[];
+  updates: { id: string }[];
+  deletes: string[];   // ids only removed in REPLACE mode
+  unchanged: number;
+}
+
+export interface RestorePlan {
+  manifest: BackupManifest;
+  mode: RestoreMode;
+  tables: TableDiff[];
+}
+
+export const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createBackup = async (data: BackupFile['data'], createdBy: string | null, schemaVersion: number): Promise<BackupFile> => ({
+  manifest: {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy,
+    schemaVersion,
+    tables: Object.fromEntries(Object.entries(data).map(([table, rows]) => [table, rows.length])),
+    checksum: await sha256(JSON.stringify(data))
+  },
+  data
+});
+
+// Checks the envelope only; rows are validated against the table schemas by the caller.
+export const parseBackup = async (text: string): Promise<BackupFile> => {
+  const fail = (path: string, message: string): never => {
+    throw new ValidationError('backup', [{ path, message }]);
+  };
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return fail('file', 'is not a backup file (expected JSON)');
+  }
+  const manifest = parsed?.manifest;
+  if (!manifest || manifest.format !== BACKUP_FORMAT) fail('manifest', 'is missing; this is not a Regal ERP backup');
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    fail('manifest.version', `${manifest.version} is newer than this terminal supports (${BACKUP_VERSION})`);
+  }
+  if (!parsed.data || typeof parsed.data !== 'object') fail('data', 'is missing');
+
+  const issues: FieldIssue[] = [];
+  for (const [table, count] of Object.entries(manifest.tables || {})) {
+    const rows = parsed.data[table];
+    if (!Array.isArray(rows)) issues.push({ path: `data.${table}`, message: 'is missing' });
+    else if (rows.length !== count) issues.push({ path: `data.${table}`, message: `has ${rows.length} rows, manifest says ${count}` });
+  }
+  if (await sha256(JSON.stringify(parsed.data)) !== manifest.checksum) {
+    issues.push({ path: 'manifest.checksum', message: 'does not match the data; the file is damaged or was edited' });
+  }
+  if (issues.length > 0) throw new ValidationError('backup', issues);
+  return parsed as BackupFile;
+};
+
+export const diffTable = (table: string, current: { id: string }[], incoming: { id: string }[], mode: RestoreMode): TableDiff => {
+  const existing = new Map(current.map(row => [row.id, row]));
+  const incomingIds = new Set(incoming.map(row => row.id));
+  const diff: TableDiff = { table, adds: [], updates: [], deletes: [], unchanged: 0 };
+  incoming.forEach(row => {
+    const before = existing.get(row.id);
+    if (!before) diff.adds.push(row);
+    else if (!sameRecord(before, row)) diff.updates.push(row);
+    else diff.unchanged++;
+  });
+  if (mode === 'REPLACE') diff.deletes = current.filter(row => !incomingIds.has(row.id)).map(row => row.id);
+  return diff;
+};
@@ -0,0 +1,29 @@
+
+import { Branch, User } from '../types';
+import { ADMIN_ROLE_ID } from './roles';
+
+// --- Branches ---
+// Customers, jobs and inventory belong to the branch they were recorded at,
+// and each branch may keep its own settings. A signed-in user works in one
+// branch at a time, picked from the ones they are assigned to; administrators
+// may use every branch. Services, users and roles are shared by all of them.
+
+export const MAIN_BRANCH_ID = 'branch_main';
+
+export const DEFAULT_BRANCHES: Branch[] = [
+  { id: MAIN_BRANCH_ID, name: 'Main Branch', code: 'MAIN', address: '', phone: '' }
+];
+
+export interface BranchScoped {
+  branchId?: string;
+}
+
+// Rows written before branches existed belong to the main branch.
+export const branchOf = (row: BranchScoped): string => row.branchId || MAIN_BRANCH_ID;
+
+export const mayUseBranch = (user: User, branchId: string): boolean =>
+  user.roleId === ADMIN_ROLE_ID || (user.branchIds ?? [MAIN_BRANCH_ID]).includes(branchId);
+
+// The branches a user can switch to, in the order given.
+export const branchesFor = (user: User, branches: Branch[]): Branch[] =>
+  branches.filter(branch => mayUseBranch(user, branch.id));
@@ -0,0 +1,64 @@
+
+import { CashDay, CashExpense, CreditNote, Payment } from '../types';
+import { roundMoney } from '../utils/money';
+
+// --- Cash Book ---
+// Each branch counts its drawer once a day. What should be there is worked out
+// from the records: the day's opening balance, plus cash payments taken, less
+// cash refunds paid on approved credit notes and cash expenses. Closing the day
+// stores that expected figure next to the counted one, and from then on nothing
+// that moves cash on that day is accepted until a manager reopens it.
+
+// The local calendar day a moment falls on, as YYYY-MM-DD.
+export const businessDay = (at: string | Date = new Date()): string => {
+  const date = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const cashDayId = (branchId: string, day: string): string => `${branchId}:${day}`;
+
+export interface CashBook {
+  date: string;
+  day: CashDay | null; // Null until the day is opened or closed
+  openingBalance: number; // Until opened, what the last closed day was counted at
+  payments: Payment[]; // Cash received, voided ones left out
+  refunds: CreditNote[]; // Approved with a cash refund
+  expenses: CashExpense[]; // Voided ones left out
+  cashIn: number;
+  refundsOut: number;
+  expensesOut: number;
+  expected: number;
+}
+
+// Where the previous day left off: what was counted, or failing that what was expected.
+export const closingBalance = (day: CashDay | null | undefined): number =>
+  day?.countedClosing ?? day?.expectedClosing ?? 0;
+
+export const cashBook = (
+  date: string,
+  day: CashDay | null,
+  previous: CashDay | null,
+  payments: Payment[],
+  refunds: CreditNote[],
+  expenses: CashExpense[]
+): CashBook => {
+  const kept = payments.filter(p => !p.voidedAt);
+  const spent = expenses.filter(e => !e.voidedAt);
+  const openingBalance = day ? day.openingBalance : closingBalance(previous);
+  const cashIn = roundMoney(kept.reduce((sum, p) => sum + p.amount, 0));
+  const refundsOut = roundMoney(refunds.reduce((sum, note) => sum + note.refundAmount, 0));
+  const expensesOut = roundMoney(spent.reduce((sum, e) => sum + e.amount, 0));
+  return {
+    date,
+    day,
+    openingBalance,
+    payments: kept,
+    refunds,
+    expenses: spent,
+    cashIn,
+    refundsOut,
+    expensesOut,
+    expected: roundMoney(openingBalance + cashIn - refundsOut - expensesOut)
+  };
+};
@@ -0,0 +1,90 @@
+
+// --- Database Errors ---
+// Everything the data layer throws is a DbError. The message is written for
+// the person at the counter, so pages can show it in a toast as-is.
+
+export type DbErrorCode = 'VALIDATION' | 'NOT_FOUND' | 'CONFLICT' | 'OFFLINE' | 'PERMISSION' | 'RATE_LIMIT' | 'UNKNOWN';
+
+export class DbError extends Error {
+  constructor(message: string, readonly code: DbErrorCode = 'UNKNOWN', readonly cause?: unknown) {
+    super(message);
+    this.name = 'DbError';
+  }
+}
+
+export interface FieldIssue {
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends DbError {
+  constructor(readonly table: string, readonly issues: FieldIssue[]) {
+    super(
+      issues.length > 0
+        ? `Invalid ${table} record: ${issues[0].path} ${issues[0].message}${issues.length > 1 ? ` (+${issues.length - 1} more)` : ''}`
+        : `Invalid ${table} record`,
+      'VALIDATION'
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends DbError {
+  constructor(readonly table: string, readonly id: string) {
+    super(`Record #${id.slice(-6).toUpperCase()} no longer exists in ${table}`, 'NOT_FOUND');
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends DbError {
+  // `current` is the newer copy that won, when the backend could supply it.
+  constructor(readonly table: string, readonly id: string, message = 'This record was changed on another terminal', readonly current: any = null, cause?: unknown) {
+    super(message, 'CONFLICT', cause);
+    this.name = 'ConflictError';
+  }
+}
+
+export class OfflineError extends DbError {
+  constructor(message = 'Cloud database unreachable. Check the internet connection', cause?: unknown) {
+    super(message, 'OFFLINE', cause);
+    this.name = 'OfflineError';
+  }
+}
+
+export class PermissionError extends DbError {
+  constructor(message = 'You do not have permission for this action', cause?: unknown) {
+    super(message, 'PERMISSION', cause);
+    this.name = 'PermissionError';
+  }
+}
+
+export class RateLimitError extends DbError {
+  constructor(message = 'Too many attempts. Try again later', cause?: unknown) {
+    super(message, 'RATE_LIMIT', cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+// Maps whatever a backend threw (Supabase/PostgREST errors, fetch failures,
+// IndexedDB errors) onto the hierarchy above.
+export const toDbError = (err: unknown, table = 'record', id = ''): DbError => {
+  if (err instanceof DbError) return err;
+  const raw = err as any;
+  const code = String(raw?.code ?? '');
+  const status = Number(raw?.status ?? 0);
+  const message = String(raw?.message ?? err ?? 'Unknown database error');
+
+  if (code === '42501' || status === 401 || status === 403 || /permission|row-level security|jwt/i.test(message)) {
+    return new PermissionError(undefined, err);
+  }
+  if (code === 'PGRST116') return new NotFoundError(table, id);
+  if (code === '23505' || status === 409) return new ConflictError(table, id, 'A record with the same key already exists', null, err);
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false) || /failed to fetch|network|load failed/i.test(message)) {
+    return new OfflineError(undefined, err);
+  }
+  return new DbError(message, 'UNKNOWN', err);
+};
+
+// Text for a toast: the error's own message when it came from the data layer.
+export const errorMessage = (err: unknown, fallback: string): string =>
+  err instanceof DbError ? err.message : fallback;
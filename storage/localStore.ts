@@ -0,0 +1,188 @@
+
+// --- Local Mirror (IndexedDB) ---
+// Every table in STORES gets an object store of the same name, plus one store
+// holding the queue of writes that still have to reach the cloud.
+
+const DB_NAME = 'regal_erp_local';
+export const QUEUE_STORE = '_sync_queue';
+
+export type QueuedAction = 'UPSERT' | 'DELETE';
+
+export interface QueuedOperation {
+  seq?: number;
+  table: string;
+  action: QueuedAction;
+  recordId: string;
+  payload: any | null;
+  // Last server copy this terminal knew about when the change was made.
+  base: any | null;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+  conflict?: {
+    remote: any | null;
+    detectedAt: string;
+  };
+}
+
+const hasIndexedDB = () => typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export class LocalStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Used when the browser has no IndexedDB (private mode, non-browser runtimes).
+  private memory = new Map<string, Map<string, any>>();
+  private memoryQueue: QueuedOperation[] = [];
+  private memorySeq = 0;
+
+  constructor(private tables: string[]) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openWithStores().catch(err => {
+        this.dbPromise = null;
+        throw err;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Opens the database and bumps its version whenever a table is missing, so
+  // new STORES entries never need a hand-maintained version number.
+  private async openWithStores(version?: number): Promise<IDBDatabase> {
+    const required = [...this.tables, QUEUE_STORE];
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      for (const name of required) {
+        if (database.objectStoreNames.contains(name)) continue;
+        if (name === QUEUE_STORE) {
+          database.createObjectStore(name, { keyPath: 'seq', autoIncrement: true });
+        } else {
+          database.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+    };
+    const database = await requestToPromise(request);
+    const missing = required.some(name => !database.objectStoreNames.contains(name));
+    if (!missing) return database;
+    const nextVersion = database.version + 1;
+    database.close();
+    return this.openWithStores(nextVersion);
+  }
+
+  private memoryTable(table: string): Map<string, any> {
+    let rows = this.memory.get(table);
+    if (!rows) {
+      rows = new Map();
+      this.memory.set(table, rows);
+    }
+    return rows;
+  }
+
+  async all<T>(table: string): Promise<T[]> {
+    if (!hasIndexedDB()) return Array.from(this.memoryTable(table).values());
+    const database = await this.open();
+    const tx = database.transaction(table, 'readonly');
+    return requestToPromise(tx.objectStore(table).getAll()) as Promise<T[]>;
+  }
+
+  async get<T>(table: string, id: string): Promise<T | null> {
+    if (!hasIndexedDB()) return this.memoryTable(table).get(id) ?? null;
+    const database = await this.open();
+    const tx = database.transaction(table, 'readonly');
+    const result = await requestToPromise(tx.objectStore(table).get(id));
+    return (result as T) ?? null;
+  }
+
+  async put<T extends { id: string }>(table: string, item: T): Promise<void> {
+    if (!hasIndexedDB()) {
+      this.memoryTable(table).set(item.id, item);
+      return;
+    }
+    const database = await this.open();
+    const tx = database.transaction(table, 'readwrite');
+    tx.objectStore(table).put(item);
+    await transactionDone(tx);
+  }
+
+  async remove(table: string, id: string): Promise<void> {
+    if (!hasIndexedDB()) {
+      this.memoryTable(table).delete(id);
+      return;
+    }
+    const database = await this.open();
+    const tx = database.transaction(table, 'readwrite');
+    tx.objectStore(table).delete(id);
+    await transactionDone(tx);
+  }
+
+  // Replaces the mirror of a table with a fresh server snapshot.
+  async replaceAll<T extends { id: string }>(table: string, items: T[]): Promise<void> {
+    if (!hasIndexedDB()) {
+      this.memory.set(table, new Map(items.map(item => [item.id, item])));
+      return;
+    }
+    const database = await this.open();
+    const tx = database.transaction(table, 'readwrite');
+    const store = tx.objectStore(table);
+    store.clear();
+    for (const item of items) store.put(item);
+    await transactionDone(tx);
+  }
+
+  // --- Sync Queue ---
+
+  async queued(): Promise<QueuedOperation[]> {
+    if (!hasIndexedDB()) return [...this.memoryQueue];
+    const database = await this.open();
+    const tx = database.transaction(QUEUE_STORE, 'readonly');
+    const ops = await requestToPromise(tx.objectStore(QUEUE_STORE).getAll()) as QueuedOperation[];
+    return ops.sort((a, b) => (a.seq || 0) - (b.seq || 0));
+  }
+
+  async getQueued(seq: number): Promise<QueuedOperation | null> {
+    if (!hasIndexedDB()) return this.memoryQueue.find(o => o.seq === seq) ?? null;
+    const database = await this.open();
+    const tx = database.transaction(QUEUE_STORE, 'readonly');
+    const result = await requestToPromise(tx.objectStore(QUEUE_STORE).get(seq));
+    return (result as QueuedOperation) ?? null;
+  }
+
+  async putQueued(op: QueuedOperation): Promise<QueuedOperation> {
+    if (!hasIndexedDB()) {
+      const saved = { ...op, seq: op.seq ?? ++this.memorySeq };
+      this.memoryQueue = [...this.memoryQueue.filter(o => o.seq !== saved.seq), saved]
+        .sort((a, b) => (a.seq || 0) - (b.seq || 0));
+      return saved;
+    }
+    const database = await this.open();
+    const tx = database.transaction(QUEUE_STORE, 'readwrite');
+    const seq = await requestToPromise(tx.objectStore(QUEUE_STORE).put(op));
+    await transactionDone(tx);
+    return { ...op, seq: seq as number };
+  }
+
+  async removeQueued(seq: number): Promise<void> {
+    if (!hasIndexedDB()) {
+      this.memoryQueue = this.memoryQueue.filter(o => o.seq !== seq);
+      return;
+    }
+    const database = await this.open();
+    const tx = database.transaction(QUEUE_STORE, 'readwrite');
+    tx.objectStore(QUEUE_STORE).delete(seq);
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,94 @@
+
+import { LoginAttempt } from '../types';
+import { newId } from '../utils/ids';
+
+// --- Sign-In Throttling ---
+// Every sign-in attempt is recorded against the username typed and the
+// terminal it came from. After a couple of failures each further try has to
+// wait a little longer, and enough failures lock the username (or the whole
+// terminal) for a while. A successful sign-in or an administrator's unlock
+// starts the count again.
+
+export const FREE_FAILURES = 2;
+export const MAX_USER_FAILURES = 5;
+export const MAX_TERMINAL_FAILURES = 10;
+export const LOCKOUT_DURATION = 15 * 60 * 1000;
+// Failures older than this no longer count.
+export const FAILURE_WINDOW = 60 * 60 * 1000;
+const BASE_DELAY = 5 * 1000;
+
+const TERMINAL_KEY = 'regal_erp_terminal';
+
+// A random id for this browser, kept across sign-ins, so failures can be traced to one counter.
+export const terminalId = (): string => {
+  let id = localStorage.getItem(TERMINAL_KEY);
+  if (!id) {
+    id = newId('term');
+    localStorage.setItem(TERMINAL_KEY, id);
+  }
+  return id;
+};
+
+export const normalizeUsername = (username: string): string => username.trim().toLowerCase();
+
+export const createAttempt = (fields: Omit<LoginAttempt, 'id' | 'at'>, now = new Date()): LoginAttempt => ({
+  ...fields,
+  id: newId('login'),
+  at: now.toISOString()
+});
+
+// A username or terminal that cannot sign in right now.
+export interface Lockout {
+  username: string | null;
+  terminalId: string | null;
+  device: string;
+  failures: number;
+  lockedUntil: number;
+}
+
+export interface LockState {
+  failures: number; // Counted failures since the last success or unlock
+  lockedUntil: number | null;
+  retryAt: number | null; // Earliest time the next attempt is accepted while not locked
+}
+
+// How locked a username or terminal is, from its attempts (any order).
+export const lockState = (attempts: LoginAttempt[], maxFailures: number, now = new Date()): LockState => {
+  const sorted = [...attempts].sort((a, b) => a.at.localeCompare(b.at));
+  const resetAt = sorted.map(a => a.outcome).lastIndexOf('SUCCESS');
+  const unlockedAt = sorted.map(a => a.outcome).lastIndexOf('UNLOCKED');
+  const failures = sorted
+    .slice(Math.max(resetAt, unlockedAt) + 1)
+    .filter(a => a.outcome === 'FAILED' && now.getTime() - Date.parse(a.at) < FAILURE_WINDOW);
+  const last = failures.length ? Date.parse(failures[failures.length - 1].at) : 0;
+  if (failures.length >= maxFailures) {
+    const until = last + LOCKOUT_DURATION;
+    return { failures: failures.length, lockedUntil: until > now.getTime() ? until : null, retryAt: null };
+  }
+  const delay = failures.length > FREE_FAILURES ? BASE_DELAY * 2 ** (failures.length - FREE_FAILURES - 1) : 0;
+  const retryAt = delay && last + delay > now.getTime() ? last + delay : null;
+  return { failures: failures.length, lockedUntil: null, retryAt };
+};
+
+// Every username and terminal currently locked, from the attempts of the last FAILURE_WINDOW.
+export const findLockouts = (attempts: LoginAttempt[], now = new Date()): Lockout[] => {
+  const group = (key: (a: LoginAttempt) => string | null | undefined) => {
+    const groups = new Map<string, LoginAttempt[]>();
+    attempts.forEach(a => {
+      const value = key(a);
+      if (value) groups.set(value, [...(groups.get(value) || []), a]);
+    });
+    return groups;
+  };
+  const lockouts: Lockout[] = [];
+  group(a => a.username).forEach((rows, username) => {
+    const state = lockState(rows, MAX_USER_FAILURES, now);
+    if (state.lockedUntil) lockouts.push({ username, terminalId: null, device: '', failures: state.failures, lockedUntil: state.lockedUntil });
+  });
+  group(a => a.terminalId).forEach((rows, terminal) => {
+    const state = lockState(rows, MAX_TERMINAL_FAILURES, now);
+    const device = rows.find(a => a.device)?.device || 'Unknown device';
+    if (state.lockedUntil) lockouts.push({ username: null, terminalId: terminal, device, failures: state.failures, lockedUntil: state.lockedUntil });
+  });
+  return lockouts;
+};
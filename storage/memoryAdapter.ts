@@ -0,0 +1,70 @@
+
+import { StorageAdapter, ChangeEvent } from './storageAdapter';
+import { QueryOptions, QueryResult, runQuery } from './query';
+
+// Keeps every table in plain Maps. Lets the ERP run, and be exercised in
+// tests, with no network and no cloud project.
+export class MemoryAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private tables = new Map<string, Map<string, any>>();
+  private listeners = new Map<string, Set<(change: ChangeEvent) => void>>();
+
+  constructor(seed: Record<string, { id: string }[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) {
+      this.tables.set(table, new Map(rows.map(row => [row.id, clone(row)])));
+    }
+  }
+
+  private table(name: string): Map<string, any> {
+    let rows = this.tables.get(name);
+    if (!rows) {
+      rows = new Map();
+      this.tables.set(name, rows);
+    }
+    return rows;
+  }
+
+  private notify(change: ChangeEvent) {
+    this.listeners.get(change.table)?.forEach(listener => listener(clone(change)));
+  }
+
+  async all<T extends { id: string }>(table: string): Promise<T[]> {
+    return Array.from(this.table(table).values()).map(row => clone(row));
+  }
+
+  async query<T extends { id: string }>(table: string, options: QueryOptions): Promise<QueryResult<T>> {
+    return runQuery(await this.all<T>(table), options);
+  }
+
+  async getById<T extends { id: string }>(table: string, id: string): Promise<T | null> {
+    const row = this.table(table).get(id);
+    return row ? clone(row) : null;
+  }
+
+  async save<T extends { id: string }>(table: string, item: T): Promise<T> {
+    const type = this.table(table).has(item.id) ? 'UPDATE' : 'INSERT';
+    this.table(table).set(item.id, clone(item));
+    this.notify({ table, type, id: item.id, record: item });
+    return item;
+  }
+
+  async saveIfVersion<T extends { id: string; version: number }>(table: string, item: T, expected: number): Promise<boolean> {
+    const current = this.table(table).get(item.id);
+    if ((current?.version ?? 0) !== expected || (expected === 0 && current)) return false;
+    await this.save(table, item);
+    return true;
+  }
+
+  async delete(table: string, id: string): Promise<void> {
+    if (!this.table(table).delete(id)) return;
+    this.notify({ table, type: 'DELETE', id, record: null });
+  }
+
+  subscribe<T extends { id: string }>(table: string, callback: (change: ChangeEvent<T>) => void): () => void {
+    if (!this.listeners.has(table)) this.listeners.set(table, new Set());
+    this.listeners.get(table)!.add(callback as (change: ChangeEvent) => void);
+    return () => { this.listeners.get(table)?.delete(callback as (change: ChangeEvent) => void); };
+  }
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
@@ -0,0 +1,167 @@
+
+import { sameRecord } from './syncQueue';
+
+// --- Schema Migrations ---
+// Each migration upgrades stored rows from the previous schema version to its
+// own. They are plain row transforms, so the same list upgrades the live tables
+// during db.init() and the rows of a backup taken under an older version.
+// Append new migrations at the end; never renumber or edit a shipped one.
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Per table: returns the upgraded row (the input row is never mutated).
+  tables: Record<string, (row: any) => any>;
+}
+
+// Rows from before branches existed were all recorded at the one shop.
+const inMainBranch = (row: any) => ({ ...row, branchId: row.branchId || 'branch_main' });
+
+// Built-in Manager roles saved before a privilege existed get it added.
+const grantManager = (privilege: string) => (role: any) =>
+  role.id === 'role_manager' && Array.isArray(role.privileges) && !role.privileges.includes(privilege)
+    ? { ...role, privileges: [...role.privileges, privilege] }
+    : role;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Give every job line item a workflow status',
+    tables: {
+      jobs: job => ({
+        ...job,
+        items: (Array.isArray(job.items) ? job.items : []).map((item: any) => ({ ...item, status: item.status || 'PENDING' }))
+      })
+    }
+  },
+  {
+    version: 2,
+    description: 'Start optimistic-locking versions for existing jobs',
+    tables: {
+      jobs: job => ({ ...job, version: typeof job.version === 'number' ? job.version : 0 })
+    }
+  },
+  {
+    version: 3,
+    description: 'Assign every user the built-in role matching their old role',
+    tables: {
+      // Hand-ticked privileges are dropped; the role's own permissions replace them.
+      users: ({ role, privileges, ...user }) => ({ ...user, roleId: user.roleId || `role_${String(role || 'STAFF').toLowerCase()}` })
+    }
+  },
+  {
+    version: 4,
+    description: 'Place existing customers, jobs, inventory and users in the main branch',
+    tables: {
+      customers: inMainBranch,
+      jobs: inMainBranch,
+      inventory: inMainBranch,
+      users: user => ({ ...user, branchIds: Array.isArray(user.branchIds) ? user.branchIds : ['branch_main'] })
+    }
+  },
+  {
+    version: 5,
+    description: 'Carry amounts paid before the payment ledger as an opening payment',
+    tables: {
+      // Their dates and modes were never recorded, so no ledger rows can be made for them.
+      jobs: job => ({ ...job, paidBeforeLedger: typeof job.paidBeforeLedger === 'number' ? job.paidBeforeLedger : Number(job.paidAmount) || 0 })
+    }
+  },
+  {
+    version: 6,
+    description: 'Let the built-in Manager role approve credit notes and refunds',
+    tables: {
+      roles: grantManager('REFUNDS_APPROVE')
+    }
+  },
+  {
+    version: 7,
+    description: 'Let the built-in Manager role reopen closed cash days',
+    tables: {
+      roles: grantManager('CASHBOOK_REOPEN')
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce((latest, m) => Math.max(latest, m.version), 0);
+
+export const pendingMigrations = (fromVersion: number): Migration[] =>
+  MIGRATIONS.filter(m => m.version > fromVersion).sort((a, b) => a.version - b.version);
+
+// Upgrades rows of one table from `fromVersion` to the latest schema.
+export const upgradeRows = (table: string, rows: any[], fromVersion: number): any[] =>
+  pendingMigrations(fromVersion).reduce(
+    (current, migration) => migration.tables[table] ? current.map(migration.tables[table]) : current,
+    rows
+  );
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  state: 'APPLIED' | 'PENDING' | 'FAILED';
+  rowsChanged?: number;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  steps: MigrationStep[];
+  lastRunAt: string | null;
+  error: string | null;
+}
+
+interface MigrationStore {
+  rows: (table: string) => Promise<any[]>;
+  write: (table: string, row: any) => Promise<void>;
+  setVersion: (version: number) => Promise<void>;
+}
+
+export const describeMigrations = (currentVersion: number): MigrationStatus => ({
+  currentVersion,
+  latestVersion: LATEST_SCHEMA_VERSION,
+  steps: MIGRATIONS.map(m => ({ version: m.version, description: m.description, state: m.version <= currentVersion ? 'APPLIED' : 'PENDING' })),
+  lastRunAt: null,
+  error: null
+});
+
+// Applies pending migrations in order, recording the version after each one so
+// an interrupted run resumes where it stopped.
+export const runMigrations = async (fromVersion: number, store: MigrationStore): Promise<MigrationStatus> => {
+  const changed = new Map<number, number>();
+  let currentVersion = fromVersion;
+  let error: string | null = null;
+  let failedVersion: number | null = null;
+
+  for (const migration of pendingMigrations(fromVersion)) {
+    try {
+      let count = 0;
+      for (const [table, up] of Object.entries(migration.tables)) {
+        for (const row of await store.rows(table)) {
+          const upgraded = up(row);
+          if (sameRecord(row, upgraded)) continue;
+          await store.write(table, upgraded);
+          count++;
+        }
+      }
+      await store.setVersion(migration.version);
+      changed.set(migration.version, count);
+      currentVersion = migration.version;
+    } catch (err) {
+      failedVersion = migration.version;
+      error = `Migration ${migration.version} (${migration.description}) failed: ${err instanceof Error ? err.message : String(err)}`;
+      break;
+    }
+  }
+
+  const status = describeMigrations(currentVersion);
+  return {
+    ...status,
+    steps: status.steps.map(step => ({
+      ...step,
+      state: step.version === failedVersion ? 'FAILED' : step.state,
+      rowsChanged: changed.get(step.version)
+    })),
+    lastRunAt: new Date().toISOString(),
+    error
+  };
+};
@@ -0,0 +1,44 @@
+
+// --- Outgoing Notifications ---
+// Messages to people (password reset codes and the like) go through a
+// Notifier so the delivery channel can be swapped without touching callers.
+// A webhook can hand them to any email or SMS gateway; without one the
+// console stand-in prints them, which is enough on a single shop terminal.
+
+export type NotificationChannel = 'EMAIL' | 'SMS';
+
+export interface Notification {
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface Notifier {
+  readonly name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+export class ConsoleNotifier implements Notifier {
+  readonly name = 'console';
+
+  async send(notification: Notification) {
+    console.info(`[${notification.channel} to ${notification.to}] ${notification.subject}\n${notification.body}`);
+  }
+}
+
+// POSTs the notification as JSON; the receiving service does the actual delivery.
+export class WebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+
+  constructor(private url: string, private headers: Record<string, string> = {}) {}
+
+  async send(notification: Notification) {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(notification)
+    });
+    if (!response.ok) throw new Error(`Notification webhook answered ${response.status}`);
+  }
+}
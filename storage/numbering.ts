@@ -0,0 +1,134 @@
+
+import { DocumentType, NumberSeries } from '../types';
+import { LocalStore } from './localStore';
+import { StorageAdapter } from './storageAdapter';
+import { ConflictError, OfflineError } from './errors';
+
+// --- Document Numbering ---
+// Sequential numbers per document type and financial year, e.g.
+// RJS/2026-27/000123. The shared counter lives in the cloud and only moves
+// through compare-and-swap, so two terminals can never take the same number.
+// Each terminal reserves a block at a time and hands numbers out of it
+// locally, which keeps billing working offline; numbers left unused in a
+// block when the year ends are simply gaps in the series.
+
+export const COUNTER_STORE = 'counters';
+export const BLOCK_STORE = '_number_blocks';
+
+export const DEFAULT_SERIES: Record<DocumentType, NumberSeries> = {
+  INVOICE: { prefix: 'RJS', padding: 6, blockSize: 20 },
+  CREDIT_NOTE: { prefix: 'RJS-CN', padding: 4, blockSize: 5 }
+};
+
+const MAX_ATTEMPTS = 5;
+
+export interface Counter {
+  id: string; // `${type}:${financialYear}`
+  type: DocumentType;
+  financialYear: string;
+  next: number;
+  version: number;
+}
+
+interface NumberRange {
+  next: number;
+  end: number; // inclusive
+}
+
+interface NumberBlock {
+  id: string;
+  ranges: NumberRange[];
+}
+
+// Indian financial year, April to March: 2026-27.
+export const financialYear = (date = new Date()): string => {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+export const formatNumber = (series: NumberSeries, year: string, value: number): string =>
+  `${series.prefix}/${year}/${String(value).padStart(series.padding, '0')}`;
+
+const remaining = (block: NumberBlock) => block.ranges.reduce((sum, r) => sum + (r.end - r.next + 1), 0);
+
+export class NumberingService {
+  // Allocations and reservations run one at a time so a block is never read
+  // and written back by two of them at once.
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private local: LocalStore,
+    private remote: () => StorageAdapter | null,
+    private isOnline: () => boolean
+  ) {}
+
+  next(type: DocumentType, series: NumberSeries, date = new Date()): Promise<string> {
+    return this.serial(async () => {
+      const year = financialYear(date);
+      let block = await this.block(`${type}:${year}`);
+      if (remaining(block) === 0) block = await this.reserve(block, type, year, series.blockSize);
+
+      const range = block.ranges[0];
+      const value = range.next;
+      range.next++;
+      block.ranges = block.ranges.filter(r => r.next <= r.end);
+      await this.local.put(BLOCK_STORE, block);
+
+      // Top up early while the cloud is reachable so the terminal can keep billing offline.
+      if (remaining(block) < Math.ceil(series.blockSize / 4) && this.canReserve()) {
+        this.prepare(type, series, date, Math.ceil(series.blockSize / 4))
+          .catch(err => console.warn('Could not reserve more document numbers:', err));
+      }
+      return formatNumber(series, year, value);
+    });
+  }
+
+  // Makes sure at least `minimum` numbers of the current year are in hand, e.g. at startup.
+  prepare(type: DocumentType, series: NumberSeries, date = new Date(), minimum = 1): Promise<void> {
+    return this.serial(async () => {
+      const year = financialYear(date);
+      const block = await this.block(`${type}:${year}`);
+      if (remaining(block) < minimum && this.canReserve()) await this.reserve(block, type, year, series.blockSize);
+    });
+  }
+
+  private serial<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.chain.then(task, task);
+    this.chain = run.catch(() => undefined);
+    return run;
+  }
+
+  private canReserve() {
+    return !this.remote() || this.isOnline();
+  }
+
+  private async block(key: string): Promise<NumberBlock> {
+    return (await this.local.get<NumberBlock>(BLOCK_STORE, key)) ?? { id: key, ranges: [] };
+  }
+
+  private async reserve(block: NumberBlock, type: DocumentType, year: string, size: number): Promise<NumberBlock> {
+    const remote = this.remote();
+    if (remote && !this.isOnline()) {
+      throw new OfflineError('No reserved document numbers left on this terminal. Reconnect to reserve more');
+    }
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const current = remote
+        ? await remote.getById<Counter>(COUNTER_STORE, block.id)
+        : await this.local.get<Counter>(COUNTER_STORE, block.id);
+      const start = current?.next ?? 1;
+      const version = current?.version ?? 0;
+      const updated: Counter = { id: block.id, type, financialYear: year, next: start + size, version: version + 1 };
+
+      // Without a cloud backend this terminal is the only one numbering.
+      const won = remote ? await remote.saveIfVersion(COUNTER_STORE, updated, version) : true;
+      if (!won) continue;
+
+      await this.local.put(COUNTER_STORE, updated);
+      const reserved: NumberBlock = { id: block.id, ranges: [...block.ranges, { next: start, end: start + size - 1 }] };
+      await this.local.put(BLOCK_STORE, reserved);
+      return reserved;
+    }
+    throw new ConflictError(COUNTER_STORE, block.id, 'Document numbers are busy on other terminals. Try again');
+  }
+}
@@ -0,0 +1,59 @@
+
+import { PasswordReset } from '../types';
+import { sha256 } from './backup';
+import { newId } from '../utils/ids';
+
+// --- Password Reset Codes ---
+// A reset request stores a six-digit code as a hash, valid for a short time and
+// for a handful of guesses; it is spent by the first successful reset. Requests
+// are rate limited per account and per terminal so codes cannot be farmed.
+
+export const RESET_CODE_TTL = 15 * 60 * 1000;
+export const MAX_CODE_ATTEMPTS = 5;
+export const MAX_REQUESTS_PER_ACCOUNT = 3;
+export const MAX_REQUESTS_PER_TERMINAL = 5;
+export const REQUEST_WINDOW = 60 * 60 * 1000;
+
+const TERMINAL_KEY = 'regal_erp_reset_requests';
+
+const randomCode = () => String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0');
+
+const hashCode = (resetId: string, code: string) => sha256(`${resetId}:${code.trim()}`);
+
+export const createReset = async (userId: string, now = new Date()): Promise<{ reset: PasswordReset; code: string }> => {
+  const code = randomCode();
+  const id = newId('reset');
+  const reset: PasswordReset = {
+    id,
+    userId,
+    codeHash: await hashCode(id, code),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + RESET_CODE_TTL).toISOString(),
+    attempts: 0,
+    usedAt: null
+  };
+  return { reset, code };
+};
+
+export const isUsableReset = (reset: PasswordReset, now = new Date()): boolean =>
+  !reset.usedAt && reset.attempts < MAX_CODE_ATTEMPTS && Date.parse(reset.expiresAt) > now.getTime();
+
+export const codeMatches = async (reset: PasswordReset, code: string): Promise<boolean> =>
+  reset.codeHash === await hashCode(reset.id, code);
+
+export const recentRequests = (resets: PasswordReset[], now = new Date()): number =>
+  resets.filter(reset => now.getTime() - Date.parse(reset.createdAt) < REQUEST_WINDOW).length;
+
+// Requests from this browser, whether or not the email belonged to anyone.
+export const takeTerminalRequest = (now = new Date()): boolean => {
+  let stamps: number[] = [];
+  try {
+    stamps = JSON.parse(localStorage.getItem(TERMINAL_KEY) || '[]');
+  } catch {
+    // Unreadable history counts as none.
+  }
+  stamps = stamps.filter(stamp => now.getTime() - stamp < REQUEST_WINDOW);
+  if (stamps.length >= MAX_REQUESTS_PER_TERMINAL) return false;
+  localStorage.setItem(TERMINAL_KEY, JSON.stringify([...stamps, now.getTime()]));
+  return true;
+};
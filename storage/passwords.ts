@@ -0,0 +1,59 @@
+
+// --- Password Hashing ---
+// Passwords are stored as salted PBKDF2-SHA256 hashes computed with WebCrypto:
+//   pbkdf2$<iterations>$<salt base64>$<hash base64>
+// Rows written before hashing was introduced still hold the plain password;
+// verifyPassword accepts those once and reports that they need rehashing.
+
+const SCHEME = 'pbkdf2';
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const derive = async (password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+// Compares every byte so the time taken does not reveal where a mismatch is.
+const sameBytes = (a: Uint8Array, b: Uint8Array) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  return diff === 0;
+};
+
+export const isPasswordHash = (stored: string | undefined): boolean => !!stored && stored.startsWith(`${SCHEME}$`);
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return `${SCHEME}$${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+export interface PasswordCheck {
+  valid: boolean;
+  needsRehash: boolean; // plaintext or weaker-than-current hash that should be replaced
+}
+
+export const verifyPassword = async (password: string, stored: string | undefined): Promise<PasswordCheck> => {
+  if (!stored) return { valid: false, needsRehash: false };
+  if (!isPasswordHash(stored)) {
+    const encoder = new TextEncoder();
+    const valid = sameBytes(encoder.encode(password), encoder.encode(stored));
+    return { valid, needsRehash: valid };
+  }
+  const [, iterations, salt, hash] = stored.split('$');
+  const rounds = Number(iterations);
+  if (!rounds || !salt || !hash) return { valid: false, needsRehash: false };
+  const valid = sameBytes(await derive(password, fromBase64(salt), rounds), fromBase64(hash));
+  return { valid, needsRehash: valid && rounds < ITERATIONS };
+};
+
+export const passwordProblem = (password: string): string | null =>
+  password.length < MIN_PASSWORD_LENGTH ? `Password must be at least ${MIN_PASSWORD_LENGTH} characters` : null;
@@ -0,0 +1,136 @@
+
+// --- Query Model ---
+// Shared by every StorageAdapter. Remote adapters translate it into their own
+// query language; runQuery evaluates it in memory for the local mirror and the
+// in-memory backend, so both paths return identical pages.
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'ilike' | 'contains' | 'isNull' | 'notNull';
+
+export interface QueryFilter {
+  field: string;
+  op: FilterOperator;
+  value: any;
+}
+
+export interface QueryOptions {
+  filters?: QueryFilter[];        // all must match
+  anyOf?: QueryFilter[];          // at least one must match
+  dateRange?: { field: string; from?: string; to?: string };
+  orderBy?: { field: string; direction: 'ASC' | 'DESC' };
+  limit?: number;
+  offset?: number;
+  cursor?: string | null;         // continues after the last row of a previous page
+  includeDeleted?: boolean;       // soft-deleted rows are hidden unless asked for
+}
+
+export interface QueryResult<T> {
+  rows: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+interface CursorPosition {
+  value: any;
+  id: string;
+}
+
+export const encodeCursor = (position: CursorPosition): string => btoa(encodeURIComponent(JSON.stringify(position)));
+
+export const decodeCursor = (cursor: string): CursorPosition | null => {
+  try {
+    return JSON.parse(decodeURIComponent(atob(cursor)));
+  } catch {
+    return null;
+  }
+};
+
+// Day boundaries for a YYYY-MM-DD value, as used by the date filters in the UI.
+export const dayRange = (day: string): { from: string; to: string } => {
+  const start = new Date(`${day}T00:00:00`);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { from: start.toISOString(), to: end.toISOString() };
+};
+
+const compare = (a: any, b: any): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+const containsMatch = (haystack: any, needle: any): boolean => {
+  if (Array.isArray(needle)) {
+    return Array.isArray(haystack) && needle.every(n => haystack.some(h => containsMatch(h, n)));
+  }
+  if (needle && typeof needle === 'object') {
+    return !!haystack && typeof haystack === 'object' &&
+      Object.keys(needle).every(key => containsMatch(haystack[key], needle[key]));
+  }
+  return haystack === needle;
+};
+
+export const matchesFilter = (row: any, filter: QueryFilter): boolean => {
+  const value = row?.[filter.field];
+  switch (filter.op) {
+    case 'eq': return value === filter.value;
+    case 'neq': return value !== filter.value;
+    case 'gt': return compare(value, filter.value) > 0;
+    case 'gte': return compare(value, filter.value) >= 0;
+    case 'lt': return compare(value, filter.value) < 0;
+    case 'lte': return compare(value, filter.value) <= 0;
+    case 'in': return (filter.value as any[]).includes(value);
+    case 'ilike': return String(value ?? '').toLowerCase().includes(String(filter.value).toLowerCase());
+    case 'contains': return containsMatch(value, filter.value);
+    case 'isNull': return value === null || value === undefined;
+    case 'notNull': return value !== null && value !== undefined;
+    default: return false;
+  }
+};
+
+// Whether a single row belongs to the result set, ignoring order and paging.
+export const matchesQuery = (row: any, options: QueryOptions = {}): boolean => {
+  const { filters = [], anyOf = [], dateRange, includeDeleted } = options;
+  if (!includeDeleted && row?.deletedAt) return false;
+  if (!filters.every(f => matchesFilter(row, f))) return false;
+  if (anyOf.length > 0 && !anyOf.some(f => matchesFilter(row, f))) return false;
+  if (dateRange) {
+    const value = row?.[dateRange.field];
+    if (!value) return false;
+    if (dateRange.from && value < dateRange.from) return false;
+    if (dateRange.to && value >= dateRange.to) return false;
+  }
+  return true;
+};
+
+export const runQuery = <T extends { id: string }>(rows: T[], options: QueryOptions = {}): QueryResult<T> => {
+  const { orderBy, limit, offset = 0, cursor } = options;
+
+  let matched = rows.filter(row => matchesQuery(row, options));
+
+  const field = orderBy?.field || 'id';
+  const direction = orderBy?.direction === 'ASC' ? 1 : -1;
+  matched = [...matched].sort((a, b) =>
+    (compare((a as any)[field], (b as any)[field]) || compare(a.id, b.id)) * direction
+  );
+
+  const total = matched.length;
+  let start = offset;
+  const position = cursor ? decodeCursor(cursor) : null;
+  if (position) {
+    const index = matched.findIndex(row =>
+      (compare((row as any)[field], position.value) || compare(row.id, position.id)) * direction > 0
+    );
+    start = index === -1 ? total : index;
+  }
+
+  const page = limit === undefined ? matched.slice(start) : matched.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start + page.length < total;
+  return {
+    rows: page,
+    total,
+    nextCursor: hasMore && last ? encodeCursor({ value: (last as any)[field], id: last.id }) : null
+  };
+};
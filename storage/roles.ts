@@ -0,0 +1,103 @@
+
+import { Role, Privilege, PermissionEntity, PermissionAction } from '../types';
+import { PRIVILEGES } from './schema';
+
+// --- Roles ---
+// A role is a named set of privileges plus limits such as the largest discount
+// its holders may give. Users point at one role, so editing a role changes what
+// everyone holding it may do. The administrator role always has every
+// privilege, so there is always someone who can repair the others.
+
+export const ADMIN_ROLE_ID = 'role_admin';
+// Offered first when a new account is created.
+export const DEFAULT_ROLE_ID = 'role_staff';
+
+// Whoever's role has gone missing keeps their account but can do nothing with it.
+export const NO_ROLE: Role = { id: '', name: 'No Role', description: '', privileges: [], maxDiscountPercent: 0 };
+
+const entity = (name: PermissionEntity, actions: PermissionAction[]): Privilege[] =>
+  actions.map(action => `${name}_${action}` as Privilege);
+
+export const DEFAULT_ROLES: Role[] = [
+  {
+    id: ADMIN_ROLE_ID,
+    name: 'Administrator',
+    description: 'Full access, including users, roles, backups and settings',
+    privileges: PRIVILEGES,
+    maxDiscountPercent: 100,
+    builtIn: true
+  },
+  {
+    id: 'role_manager',
+    name: 'Manager',
+    description: 'Runs the counter: every record, revenue figures and backups',
+    privileges: [
+      ...entity('CUSTOMERS', ['VIEW', 'CREATE', 'EDIT', 'DELETE', 'EXPORT']),
+      ...entity('SERVICES', ['VIEW', 'CREATE', 'EDIT', 'DELETE', 'EXPORT']),
+      ...entity('JOBS', ['VIEW', 'CREATE', 'EDIT', 'DELETE', 'EXPORT']),
+      ...entity('INVENTORY', ['VIEW', 'CREATE', 'EDIT', 'DELETE', 'EXPORT']),
+      'JOBS_EDIT_COMPLETED', 'REPORTS_VIEW', 'REPORTS_REVENUE', 'AUDIT_VIEW', 'BACKUP_CREATE', 'REFUNDS_APPROVE',
+      'CASHBOOK_REOPEN'
+    ],
+    maxDiscountPercent: 25,
+    builtIn: true
+  },
+  {
+    id: DEFAULT_ROLE_ID,
+    name: 'Staff',
+    description: 'Serves customers and records jobs',
+    privileges: [
+      ...entity('CUSTOMERS', ['VIEW', 'CREATE', 'EDIT']),
+      ...entity('SERVICES', ['VIEW']),
+      ...entity('JOBS', ['VIEW', 'CREATE', 'EDIT']),
+      ...entity('INVENTORY', ['VIEW', 'EDIT'])
+    ],
+    maxDiscountPercent: 5,
+    builtIn: true
+  }
+];
+
+// What a role actually grants; the administrator's stored list cannot narrow it.
+export const effectiveRole = (role: Role): Role =>
+  role.id === ADMIN_ROLE_ID ? { ...role, privileges: PRIVILEGES, maxDiscountPercent: 100 } : role;
+
+// --- Labels for the role editor ---
+export const ENTITY_LABELS: Record<PermissionEntity, string> = {
+  CUSTOMERS: 'Customers',
+  SERVICES: 'Services',
+  JOBS: 'Jobs & Invoices',
+  INVENTORY: 'Inventory'
+};
+
+export const ACTION_LABELS: Record<PermissionAction, string> = {
+  VIEW: 'View',
+  CREATE: 'Create',
+  EDIT: 'Edit',
+  DELETE: 'Delete',
+  EXPORT: 'Export'
+};
+
+export const OTHER_PRIVILEGES: { privilege: Privilege; label: string }[] = [
+  { privilege: 'JOBS_EDIT_COMPLETED', label: 'Edit completed invoices' },
+  { privilege: 'REPORTS_VIEW', label: 'View reports' },
+  { privilege: 'REPORTS_REVENUE', label: 'View revenue' },
+  { privilege: 'USERS_MANAGE', label: 'Manage users' },
+  { privilege: 'ROLES_MANAGE', label: 'Manage roles' },
+  { privilege: 'BACKUP_CREATE', label: 'Create backups' },
+  { privilege: 'BACKUP_RESTORE', label: 'Restore backups' },
+  { privilege: 'AUDIT_VIEW', label: 'View audit trail' },
+  { privilege: 'SETTINGS_MANAGE', label: 'Change settings' },
+  { privilege: 'TRASH_PURGE', label: 'Purge from trash' },
+  { privilege: 'MIGRATIONS_RUN', label: 'Run migrations' },
+  { privilege: 'BRANCHES_MANAGE', label: 'Manage branches' },
+  { privilege: 'REPORTS_ALL_BRANCHES', label: 'View reports across branches' },
+  { privilege: 'REFUNDS_APPROVE', label: 'Approve credit notes and refunds' },
+  { privilege: 'CASHBOOK_REOPEN', label: 'Reopen closed cash days' }
+];
+
+export const privilegeLabel = (privilege: Privilege): string => {
+  const other = OTHER_PRIVILEGES.find(p => p.privilege === privilege);
+  if (other) return other.label;
+  const [name, action] = privilege.split('_') as [PermissionEntity, PermissionAction];
+  return `${ACTION_LABELS[action]} ${ENTITY_LABELS[name].toLowerCase()}`;
+};
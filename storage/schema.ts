@@ -0,0 +1,392 @@
+
+import { User, Role, Branch, Privilege, PermissionEntity, PermissionAction, Customer, Service, Job, JobItem, JobStatus, PaymentStatus, Payment, PaymentMode, CreditNote, CreditNoteStatus, CashDay, CashExpense, InventoryItem, CompanySettings, AuditEntry, AuditAction, FieldChange, NumberSeries, DocumentType, Session, PasswordReset, TwoFactor, LoginAttempt, LoginOutcome } from '../types';
+import { FieldIssue, ValidationError } from './errors';
+
+// --- Runtime Schemas ---
+// Small hand-written validators mirroring types.ts. Each rule checks a value,
+// records problems against its path and returns the value in canonical form,
+// so spreadsheet quirks (numbers as text, phone numbers as numbers, arrays as
+// JSON strings) are normalised before anything is stored.
+
+export type Rule<T = any> = (value: any, path: string, issues: FieldIssue[]) => T;
+
+const isBlank = (value: any) => value === null || value === undefined || value === '';
+
+interface TextOptions {
+  required?: boolean;
+  pattern?: RegExp;
+  message?: string;
+}
+
+const text = ({ required = true, pattern, message = 'has an invalid format' }: TextOptions = {}): Rule<string> =>
+  (value, path, issues) => {
+    if (isBlank(value)) {
+      if (required) issues.push({ path, message: 'is required' });
+      return '';
+    }
+    const str = typeof value === 'number' ? String(value) : value;
+    if (typeof str !== 'string') {
+      issues.push({ path, message: 'must be text' });
+      return value;
+    }
+    const trimmed = str.trim();
+    if (required && trimmed === '') issues.push({ path, message: 'is required' });
+    else if (pattern && trimmed !== '' && !pattern.test(trimmed)) issues.push({ path, message });
+    return trimmed;
+  };
+
+const number = ({ min }: { min?: number } = {}): Rule<number> =>
+  (value, path, issues) => {
+    const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof num !== 'number' || Number.isNaN(num)) {
+      issues.push({ path, message: 'must be a number' });
+      return value;
+    }
+    if (min !== undefined && num < min) issues.push({ path, message: `must be at least ${min}` });
+    return num;
+  };
+
+const oneOf = <T extends string>(values: readonly T[]): Rule<T> =>
+  (value, path, issues) => {
+    if (!values.includes(value)) issues.push({ path, message: `must be one of ${values.join(', ')}` });
+    return value;
+  };
+
+const timestamp = (): Rule<string> =>
+  (value, path, issues) => {
+    if (isBlank(value) || Number.isNaN(Date.parse(value))) {
+      issues.push({ path, message: 'must be a valid date' });
+      return value;
+    }
+    return value;
+  };
+
+const optional = <T>(rule: Rule<T>): Rule<T | undefined> =>
+  (value, path, issues) => (isBlank(value) ? undefined : rule(value, path, issues));
+
+// Null is kept (not dropped) so clearing a column reaches the cloud on upsert.
+const nullable = <T>(rule: Rule<T>): Rule<T | null> =>
+  (value, path, issues) => (isBlank(value) ? null : rule(value, path, issues));
+
+// Spreadsheets hand booleans back as text.
+const flag = (): Rule<boolean> =>
+  (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'TRUE') return true;
+    if (value === 'false' || value === 'FALSE') return false;
+    issues.push({ path, message: 'must be true or false' });
+    return value;
+  };
+
+const anything = (): Rule => value => value;
+
+const list = <T>(item: Rule<T>, { min = 0 }: { min?: number } = {}): Rule<T[]> =>
+  (value, path, issues) => {
+    let arr = value;
+    if (typeof arr === 'string') {
+      try {
+        arr = JSON.parse(arr);
+      } catch {
+        // Reported below as not-a-list.
+      }
+    }
+    if (!Array.isArray(arr)) {
+      issues.push({ path, message: 'must be a list' });
+      return value;
+    }
+    if (arr.length < min) issues.push({ path, message: `needs at least ${min} entr${min === 1 ? 'y' : 'ies'}` });
+    return arr.map((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+
+// Unknown keys are kept so columns added later are not stripped on save.
+const record = <T>(shape: { [K in keyof T]-?: Rule<T[K]> }): Rule<T> =>
+  (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path: path || 'record', message: 'must be an object' });
+      return value;
+    }
+    const result: any = { ...value };
+    for (const key of Object.keys(shape) as (keyof T)[]) {
+      const checked = shape[key](value[key], path ? `${path}.${String(key)}` : String(key), issues);
+      if (checked === undefined) delete result[key];
+      else result[key] = checked;
+    }
+    return result;
+  };
+
+// --- Enumerations ---
+export const PERMISSION_ENTITIES: PermissionEntity[] = ['CUSTOMERS', 'SERVICES', 'JOBS', 'INVENTORY'];
+export const PERMISSION_ACTIONS: PermissionAction[] = ['VIEW', 'CREATE', 'EDIT', 'DELETE', 'EXPORT'];
+export const PRIVILEGES: Privilege[] = [
+  ...PERMISSION_ENTITIES.flatMap(entity => PERMISSION_ACTIONS.map(action => `${entity}_${action}` as Privilege)),
+  'JOBS_EDIT_COMPLETED', 'REPORTS_VIEW', 'REPORTS_REVENUE', 'USERS_MANAGE', 'ROLES_MANAGE',
+  'BACKUP_CREATE', 'BACKUP_RESTORE', 'AUDIT_VIEW', 'SETTINGS_MANAGE', 'TRASH_PURGE', 'MIGRATIONS_RUN',
+  'BRANCHES_MANAGE', 'REPORTS_ALL_BRANCHES', 'REFUNDS_APPROVE', 'CASHBOOK_REOPEN'
+];
+export const JOB_STATUSES: JobStatus[] = ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+export const PAYMENT_STATUSES: PaymentStatus[] = ['UNPAID', 'PARTIAL', 'PAID'];
+export const PAYMENT_MODES: PaymentMode[] = ['CASH', 'UPI', 'CARD', 'AEPS', 'WALLET'];
+export const CREDIT_NOTE_STATUSES: CreditNoteStatus[] = ['PENDING', 'APPROVED', 'REJECTED'];
+export const AUDIT_ACTIONS: AuditAction[] = ['CREATE', 'UPDATE', 'DELETE', 'RESTORE', 'PURGE', 'RESET_REQUESTED', 'RESET_FAILED', 'RESET_COMPLETED', 'TWO_FACTOR_ENABLED', 'TWO_FACTOR_DISABLED', 'TWO_FACTOR_FAILED', 'TWO_FACTOR_RECOVERY'];
+
+// --- Entity Schemas ---
+const id = () => text();
+
+// GSTINs are upper case; 2-digit state, PAN, entity number, 'Z', check character.
+const gstin = () => text({ pattern: /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, message: 'is not a valid GSTIN' });
+const stateCode = () => text({ pattern: /^\d{2}$/, message: 'must be a 2-digit state code' });
+
+const trashFields = {
+  deletedAt: nullable(timestamp()),
+  deletedBy: nullable(text())
+};
+
+export const UserSchema = record<User>({
+  id: id(),
+  username: text(),
+  email: text({ required: false, pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, message: 'is not a valid email address' }),
+  password: optional(text()),
+  mustChangePassword: optional(flag()),
+  roleId: text(),
+  branchIds: optional(list(text())),
+  ...trashFields
+});
+
+export const RoleSchema = record<Role>({
+  id: id(),
+  name: text(),
+  description: text({ required: false }),
+  privileges: list(oneOf(PRIVILEGES)),
+  maxDiscountPercent: number({ min: 0 }),
+  builtIn: optional(flag()),
+  requireTwoFactor: optional(flag())
+});
+
+export const BranchSchema = record<Branch>({
+  id: id(),
+  name: text(),
+  code: text({ pattern: /^[A-Za-z0-9-]{1,12}$/, message: 'must be 1-12 letters, digits or dashes' }),
+  address: text({ required: false }),
+  phone: text({ required: false, pattern: /^\+?[\d\s-]{6,15}$/, message: 'is not a valid phone number' })
+});
+
+export const CustomerSchema = record<Customer>({
+  id: id(),
+  name: text(),
+  phone: text({ required: false, pattern: /^\+?[\d\s-]{6,15}$/, message: 'is not a valid phone number' }),
+  aadhaarNumber: text({ required: false, pattern: /^\d{12}$/, message: 'must be 12 digits' }),
+  address: text({ required: false }),
+  createdAt: timestamp(),
+  branchId: optional(text()),
+  gstin: optional(gstin()),
+  stateCode: optional(stateCode()),
+  ...trashFields
+});
+
+export const ServiceSchema = record<Service>({
+  id: id(),
+  name: text(),
+  description: text({ required: false }),
+  basePrice: number({ min: 0 }),
+  governmentFee: optional(number({ min: 0 })),
+  category: text(),
+  hsnSac: optional(text({ pattern: /^\d{4,8}$/, message: 'must be 4-8 digits' })),
+  taxRate: optional(number({ min: 0 })),
+  ...trashFields
+});
+
+export const JobItemSchema = record<JobItem>({
+  serviceId: text(),
+  quantity: number({ min: 1 }),
+  unitPrice: number({ min: 0 }),
+  discount: number({ min: 0 }),
+  subtotal: number(),
+  status: oneOf(JOB_STATUSES),
+  governmentFee: optional(number({ min: 0 })),
+  hsnSac: optional(text()),
+  taxRate: optional(number({ min: 0 })),
+  cgst: optional(number({ min: 0 })),
+  sgst: optional(number({ min: 0 })),
+  igst: optional(number({ min: 0 }))
+});
+
+export const JobSchema = record<Job>({
+  id: id(),
+  customerId: text(),
+  items: list(JobItemSchema, { min: 1 }),
+  status: oneOf(JOB_STATUSES),
+  paymentStatus: oneOf(PAYMENT_STATUSES),
+  discount: number({ min: 0 }),
+  taxAmount: optional(number({ min: 0 })),
+  totalAmount: number(),
+  paidAmount: number({ min: 0 }),
+  balance: number(),
+  notes: text({ required: false }),
+  number: optional(text()),
+  createdAt: timestamp(),
+  updatedAt: timestamp(),
+  version: optional(number({ min: 0 })),
+  branchId: optional(text()),
+  placeOfSupply: optional(stateCode()),
+  sellerGstin: optional(text()),
+  buyerGstin: optional(text()),
+  paidBeforeLedger: optional(number({ min: 0 })),
+  creditedAmount: optional(number({ min: 0 })),
+  refundedAmount: optional(number({ min: 0 })),
+  cancelledAt: optional(nullable(timestamp())),
+  ...trashFields
+});
+
+export const PaymentSchema = record<Payment>({
+  id: id(),
+  jobId: text(),
+  amount: number({ min: 0 }),
+  mode: oneOf(PAYMENT_MODES),
+  reference: text({ required: false }),
+  receivedAt: timestamp(),
+  receivedBy: text(),
+  receivedByName: text({ required: false }),
+  branchId: optional(text()),
+  voidedAt: nullable(timestamp()),
+  voidedBy: nullable(text())
+});
+
+export const CreditNoteSchema = record<CreditNote>({
+  id: id(),
+  number: optional(text()),
+  jobId: text(),
+  reason: text(),
+  amount: number({ min: 0 }),
+  refundAmount: number({ min: 0 }),
+  refundMode: oneOf(PAYMENT_MODES),
+  refundReference: text({ required: false }),
+  cancelInvoice: flag(),
+  status: oneOf(CREDIT_NOTE_STATUSES),
+  requestedAt: timestamp(),
+  requestedBy: text(),
+  requestedByName: text({ required: false }),
+  decidedAt: nullable(timestamp()),
+  decidedBy: nullable(text()),
+  decidedByName: nullable(text()),
+  decisionNote: optional(text({ required: false })),
+  branchId: optional(text()),
+  version: optional(number({ min: 0 }))
+});
+
+export const CashDaySchema = record<CashDay>({
+  id: id(),
+  branchId: text(),
+  date: text({ pattern: /^\d{4}-\d{2}-\d{2}$/, message: 'must be a YYYY-MM-DD date' }),
+  openingBalance: number({ min: 0 }),
+  expectedClosing: nullable(number()),
+  countedClosing: nullable(number({ min: 0 })),
+  variance: nullable(number()),
+  closingNote: nullable(text({ required: false })),
+  closedAt: nullable(timestamp()),
+  closedBy: nullable(text()),
+  closedByName: nullable(text())
+});
+
+export const CashExpenseSchema = record<CashExpense>({
+  id: id(),
+  amount: number({ min: 0 }),
+  description: text(),
+  paidAt: timestamp(),
+  paidBy: text(),
+  paidByName: text({ required: false }),
+  branchId: optional(text()),
+  voidedAt: nullable(timestamp()),
+  voidedBy: nullable(text())
+});
+
+export const InventoryItemSchema = record<InventoryItem>({
+  id: id(),
+  name: text(),
+  quantity: number({ min: 0 }),
+  unit: text(),
+  minStock: number({ min: 0 }),
+  category: text({ required: false }),
+  lastUpdated: timestamp(),
+  branchId: optional(text()),
+  ...trashFields
+});
+
+const NumberSeriesSchema = record<NumberSeries>({
+  prefix: text({ pattern: /^[A-Za-z0-9-]{1,12}$/, message: 'must be 1-12 letters, digits or dashes' }),
+  padding: number({ min: 1 }),
+  blockSize: number({ min: 1 })
+});
+
+export const CompanySettingsSchema = record<CompanySettings & { id: string }>({
+  id: id(),
+  companyName: text(),
+  mobileNumber: text({ required: false }),
+  address: text({ required: false }),
+  ownerName: text({ required: false }),
+  email: text({ required: false, pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, message: 'is not a valid email address' }),
+  website: text({ required: false }),
+  gstin: optional(gstin()),
+  schemaVersion: optional(number({ min: 0 })),
+  numberSeries: optional(record<Partial<Record<DocumentType, NumberSeries>>>({ INVOICE: optional(NumberSeriesSchema), CREDIT_NOTE: optional(NumberSeriesSchema) }))
+});
+
+export const AuditEntrySchema = record<AuditEntry>({
+  id: id(),
+  table: text(),
+  recordId: text(),
+  action: oneOf(AUDIT_ACTIONS),
+  actorId: nullable(text()),
+  actorName: nullable(text()),
+  at: timestamp(),
+  changes: list(record<FieldChange>({ field: text(), before: anything(), after: anything() }))
+});
+
+export const SessionSchema = record<Session>({
+  id: id(),
+  userId: text(),
+  tokenHash: text(),
+  device: text({ required: false }),
+  createdAt: timestamp(),
+  lastSeenAt: timestamp(),
+  expiresAt: timestamp(),
+  revokedAt: nullable(timestamp())
+});
+
+export const PasswordResetSchema = record<PasswordReset>({
+  id: id(),
+  userId: text(),
+  codeHash: text(),
+  createdAt: timestamp(),
+  expiresAt: timestamp(),
+  attempts: number({ min: 0 }),
+  usedAt: nullable(timestamp())
+});
+
+export const LOGIN_OUTCOMES: LoginOutcome[] = ['SUCCESS', 'FAILED', 'LOCKED', 'UNLOCKED'];
+
+export const LoginAttemptSchema = record<LoginAttempt>({
+  id: id(),
+  username: text({ required: false }),
+  userId: nullable(text()),
+  terminalId: nullable(text()),
+  device: text({ required: false }),
+  at: timestamp(),
+  outcome: oneOf(LOGIN_OUTCOMES),
+  reason: optional(text({ required: false }))
+});
+
+export const TwoFactorSchema = record<TwoFactor>({
+  id: id(),
+  secret: text({ pattern: /^[A-Z2-7]+$/, message: 'is not a Base32 key' }),
+  enabledAt: timestamp(),
+  lastUsedStep: number({ min: 0 }),
+  recoveryCodes: list(text())
+});
+
+// Returns the normalised record or throws a ValidationError listing every problem.
+export const validate = <T>(schema: Rule<T>, table: string, value: unknown): T => {
+  const issues: FieldIssue[] = [];
+  const result = schema(value, '', issues);
+  if (issues.length > 0) throw new ValidationError(table, issues);
+  return result;
+};
@@ -0,0 +1,69 @@
+
+import { Session } from '../types';
+import { sha256 } from './backup';
+import { newId } from '../utils/ids';
+
+// --- Login Sessions ---
+// A login creates a session row holding only the SHA-256 of a random secret.
+// The browser keeps `<session id>.<secret>`, so knowing a user id (or an old
+// session id) is not enough to sign in as someone. Sessions end at a fixed
+// expiry, after a stretch of inactivity, or when revoked from another device.
+
+export const SESSION_TTL = 12 * 60 * 60 * 1000;
+export const IDLE_TIMEOUT = 30 * 60 * 1000;
+// lastSeenAt is only written this often, not on every click.
+export const TOUCH_INTERVAL = 60 * 1000;
+
+export type SessionEnd = 'EXPIRED' | 'IDLE' | 'REVOKED' | 'INVALID';
+
+const randomSecret = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const describeDevice = (): string => {
+  if (typeof navigator === 'undefined') return 'Unknown device';
+  const agent = navigator.userAgent;
+  const browser = /Edg\//.test(agent) ? 'Edge' : /Chrome\//.test(agent) ? 'Chrome' : /Firefox\//.test(agent) ? 'Firefox' : /Safari\//.test(agent) ? 'Safari' : 'Browser';
+  const system = /Android/.test(agent) ? 'Android' : /iPhone|iPad/.test(agent) ? 'iOS' : /Windows/.test(agent) ? 'Windows' : /Mac OS/.test(agent) ? 'macOS' : /Linux/.test(agent) ? 'Linux' : 'Unknown OS';
+  return `${browser} on ${system}`;
+};
+
+export const openSession = async (userId: string, now = new Date()): Promise<{ session: Session; token: string }> => {
+  const secret = randomSecret();
+  const session: Session = {
+    id: newId('sess'),
+    userId,
+    tokenHash: await sha256(secret),
+    device: describeDevice(),
+    createdAt: now.toISOString(),
+    lastSeenAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_TTL).toISOString(),
+    revokedAt: null
+  };
+  return { session, token: `${session.id}.${secret}` };
+};
+
+export const sessionIdOf = (token: string | null): string | null => token?.split('.')[0] || null;
+
+// Why the token no longer opens the session, or null while it is still valid.
+export const checkSession = async (session: Session | null, token: string, now = new Date()): Promise<SessionEnd | null> => {
+  const [id, secret] = token.split('.');
+  if (!session || session.id !== id || !secret || session.tokenHash !== await sha256(secret)) return 'INVALID';
+  if (session.revokedAt) return 'REVOKED';
+  if (Date.parse(session.expiresAt) <= now.getTime()) return 'EXPIRED';
+  if (now.getTime() - Date.parse(session.lastSeenAt) > IDLE_TIMEOUT) return 'IDLE';
+  return null;
+};
+
+export const isActiveSession = (session: Session, now = new Date()): boolean =>
+  !session.revokedAt &&
+  Date.parse(session.expiresAt) > now.getTime() &&
+  now.getTime() - Date.parse(session.lastSeenAt) <= IDLE_TIMEOUT;
+
+export const SESSION_END_MESSAGES: Record<SessionEnd, string> = {
+  EXPIRED: 'Your session expired. Please sign in again',
+  IDLE: 'You were signed out after a period of inactivity',
+  REVOKED: 'This session was signed out from another device',
+  INVALID: 'Please sign in again'
+};
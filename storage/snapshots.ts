@@ -0,0 +1,151 @@
+
+import { LocalStore } from './localStore';
+import { BackupFile, BackupManifest } from './backup';
+import { newId } from '../utils/ids';
+
+// --- Local Snapshots ---
+// Automatic backups kept in this terminal's IndexedDB. A timer checks once a
+// minute whether the daily backup time has passed since the last snapshot, so a
+// terminal that was closed at that time catches up when it is next opened.
+
+export const SNAPSHOT_STORE = '_snapshots';
+const SCHEDULE_KEY = 'regal_erp_backup_schedule';
+const CHECK_INTERVAL = 60000;
+
+export interface BackupSchedule {
+  enabled: boolean;
+  time: string;       // HH:MM, local time
+  keepDaily: number;  // newest snapshot of each of the last N days
+  keepWeekly: number; // newest snapshot of each of the last M weeks
+}
+
+export type SnapshotTrigger = 'SCHEDULED' | 'MANUAL';
+
+export interface LocalSnapshot {
+  id: string;
+  takenAt: string;
+  trigger: SnapshotTrigger;
+  manifest: BackupManifest;
+  backup: BackupFile;
+}
+
+export const DEFAULT_SCHEDULE: BackupSchedule = { enabled: true, time: '20:00', keepDaily: 7, keepWeekly: 4 };
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// Monday of the snapshot's week.
+const weekKey = (date: Date) => {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return dayKey(monday);
+};
+
+// The latest moment the schedule should have fired at, relative to now.
+export const lastScheduledRun = (schedule: BackupSchedule, now = new Date()): Date => {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  const run = new Date(now);
+  run.setHours(hours || 0, minutes || 0, 0, 0);
+  if (run > now) run.setDate(run.getDate() - 1);
+  return run;
+};
+
+// Ids of snapshots outside the retention policy. Manual snapshots count like
+// any other; the newest snapshot is always kept.
+export const expiredSnapshots = (snapshots: Pick<LocalSnapshot, 'id' | 'takenAt'>[], schedule: BackupSchedule): string[] => {
+  const newestFirst = [...snapshots].sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  const keep = new Set<string>(newestFirst.slice(0, 1).map(s => s.id));
+  const days = new Set<string>();
+  const weeks = new Set<string>();
+  newestFirst.forEach(snapshot => {
+    const taken = new Date(snapshot.takenAt);
+    const day = dayKey(taken);
+    const week = weekKey(taken);
+    if (!days.has(day) && days.size < schedule.keepDaily) {
+      days.add(day);
+      keep.add(snapshot.id);
+    }
+    if (!weeks.has(week) && weeks.size < schedule.keepWeekly) {
+      weeks.add(week);
+      keep.add(snapshot.id);
+    }
+  });
+  return newestFirst.filter(s => !keep.has(s.id)).map(s => s.id);
+};
+
+export class SnapshotScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(private local: LocalStore, private takeBackup: () => Promise<BackupFile>) {}
+
+  getSchedule(): BackupSchedule {
+    try {
+      return { ...DEFAULT_SCHEDULE, ...JSON.parse(localStorage.getItem(SCHEDULE_KEY) || '{}') };
+    } catch {
+      return DEFAULT_SCHEDULE;
+    }
+  }
+
+  async setSchedule(schedule: BackupSchedule) {
+    localStorage.setItem(SCHEDULE_KEY, JSON.stringify(schedule));
+    await this.prune();
+  }
+
+  async list(): Promise<LocalSnapshot[]> {
+    const snapshots = await this.local.all<LocalSnapshot>(SNAPSHOT_STORE);
+    return snapshots.sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  }
+
+  get(id: string): Promise<LocalSnapshot | null> {
+    return this.local.get<LocalSnapshot>(SNAPSHOT_STORE, id);
+  }
+
+  remove(id: string): Promise<void> {
+    return this.local.remove(SNAPSHOT_STORE, id);
+  }
+
+  async take(trigger: SnapshotTrigger): Promise<LocalSnapshot> {
+    const backup = await this.takeBackup();
+    const snapshot: LocalSnapshot = {
+      id: newId('snap'),
+      takenAt: backup.manifest.createdAt,
+      trigger,
+      manifest: backup.manifest,
+      backup
+    };
+    await this.local.put(SNAPSHOT_STORE, snapshot);
+    await this.prune();
+    return snapshot;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.check();
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private check() {
+    if (this.running) return;
+    this.running = this.runIfDue()
+      .catch(err => console.error('Scheduled backup failed:', err))
+      .finally(() => { this.running = null; });
+  }
+
+  private async runIfDue() {
+    const schedule = this.getSchedule();
+    if (!schedule.enabled) return;
+    const due = lastScheduledRun(schedule).toISOString();
+    const latest = (await this.list()).find(s => s.trigger === 'SCHEDULED');
+    if (!latest || latest.takenAt < due) await this.take('SCHEDULED');
+  }
+
+  private async prune() {
+    const expired = expiredSnapshots(await this.list(), this.getSchedule());
+    for (const id of expired) await this.remove(id);
+  }
+}
@@ -0,0 +1,29 @@
+
+import { QueryOptions, QueryResult } from './query';
+
+export type ChangeType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// A single row change. `record` is the new row, or null when it was deleted.
+export interface ChangeEvent<T = any> {
+  table: string;
+  type: ChangeType;
+  id: string;
+  record: T | null;
+}
+
+// --- Storage Adapter Contract ---
+// Anything that can hold the ERP tables. The engine in db.ts keeps a local
+// mirror and replays writes against whichever adapter is configured.
+
+export interface StorageAdapter {
+  readonly name: string;
+  all<T extends { id: string }>(table: string): Promise<T[]>;
+  query<T extends { id: string }>(table: string, options: QueryOptions): Promise<QueryResult<T>>;
+  getById<T extends { id: string }>(table: string, id: string): Promise<T | null>;
+  save<T extends { id: string }>(table: string, item: T): Promise<T>;
+  // Atomic compare-and-swap: writes only if the stored row is still at
+  // `expected` (0 meaning "does not exist yet"). Resolves false when it lost.
+  saveIfVersion<T extends { id: string; version: number }>(table: string, item: T, expected: number): Promise<boolean>;
+  delete(table: string, id: string): Promise<void>;
+  subscribe<T extends { id: string }>(table: string, callback: (change: ChangeEvent<T>) => void): () => void;
+}
@@ -0,0 +1,154 @@
+
+import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import { StorageAdapter, ChangeEvent } from './storageAdapter';
+import { toDbError } from './errors';
+import { QueryFilter, QueryOptions, QueryResult, decodeCursor, encodeCursor } from './query';
+
+const OPERATORS: Record<QueryFilter['op'], string> = {
+  eq: 'eq', neq: 'neq', gt: 'gt', gte: 'gte', lt: 'lt', lte: 'lte', in: 'in', ilike: 'ilike', contains: 'cs',
+  isNull: 'is', notNull: 'not.is'
+};
+
+// Values inside PostgREST or() expressions are double-quoted so commas, dots
+// and parentheses in user input cannot break the expression.
+const quote = (value: any): string => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const toExpression = (filter: QueryFilter): string => {
+  const op = OPERATORS[filter.op];
+  if (filter.op === 'in') return `${filter.field}.in.(${(filter.value as any[]).map(quote).join(',')})`;
+  if (filter.op === 'ilike') return `${filter.field}.ilike.${quote(`*${filter.value}*`)}`;
+  if (filter.op === 'contains') return `${filter.field}.cs.${quote(JSON.stringify(filter.value))}`;
+  if (filter.op === 'isNull' || filter.op === 'notNull') return `${filter.field}.${op}.null`;
+  return `${filter.field}.${op}.${quote(filter.value)}`;
+};
+
+export class SupabaseAdapter implements StorageAdapter {
+  readonly name = 'supabase';
+  private client: SupabaseClient;
+
+  constructor(url: string, anonKey: string) {
+    this.client = createClient(url, anonKey);
+  }
+
+  async all<T extends { id: string }>(table: string): Promise<T[]> {
+    const { data, error } = await this.client.from(table).select('*');
+    if (error) throw toDbError(error, table);
+    return (data as T[]) || [];
+  }
+
+  async query<T extends { id: string }>(table: string, options: QueryOptions): Promise<QueryResult<T>> {
+    const { filters = [], anyOf = [], dateRange, orderBy, limit, offset = 0, cursor, includeDeleted } = options;
+    const field = orderBy?.field || 'id';
+    const ascending = orderBy?.direction === 'ASC';
+    const position = cursor ? decodeCursor(cursor) : null;
+
+    const build = (head: boolean, withCursor: boolean) => {
+      let request: any = this.client.from(table).select('*', { count: 'exact', head });
+      if (!includeDeleted) request = request.is('deletedAt', null);
+      for (const filter of filters) {
+        if (filter.op === 'isNull') request = request.is(filter.field, null);
+        else if (filter.op === 'notNull') request = request.not(filter.field, 'is', null);
+        else if (filter.op === 'ilike') request = request.ilike(filter.field, `%${filter.value}%`);
+        else if (filter.op === 'contains') request = request.contains(filter.field, filter.value);
+        else request = request.filter(filter.field, OPERATORS[filter.op], filter.op === 'in' ? `(${(filter.value as any[]).map(quote).join(',')})` : filter.value);
+      }
+      if (dateRange?.from) request = request.gte(dateRange.field, dateRange.from);
+      if (dateRange?.to) request = request.lt(dateRange.field, dateRange.to);
+
+      const groups: string[] = [];
+      if (anyOf.length > 0) groups.push(`or(${anyOf.map(toExpression).join(',')})`);
+      if (withCursor && position) {
+        const op = ascending ? 'gt' : 'lt';
+        groups.push(`or(${field}.${op}.${quote(position.value)},and(${field}.eq.${quote(position.value)},id.${op}.${quote(position.id)}))`);
+      }
+      if (groups.length > 0) request = request.or(`and(${groups.join(',')})`);
+      return request;
+    };
+
+    if (limit === 0) {
+      const { count, error } = await build(true, false);
+      if (error) throw toDbError(error, table);
+      return { rows: [], total: count || 0, nextCursor: null };
+    }
+
+    let request = build(false, true)
+      .order(field, { ascending })
+      .order('id', { ascending });
+    // One extra row tells us whether another page exists.
+    if (limit !== undefined) {
+      request = position ? request.limit(limit + 1) : request.range(offset, offset + limit);
+    }
+    const { data, count, error } = await request;
+    if (error) throw toDbError(error, table);
+
+    let total = count || 0;
+    if (position) {
+      // The cursor narrows the count; report the size of the whole result set.
+      const { count: fullCount, error: countError } = await build(true, false);
+      if (countError) throw toDbError(countError, table);
+      total = fullCount || 0;
+    }
+
+    const rows = ((data as T[]) || []).slice(0, limit ?? undefined);
+    const last = rows[rows.length - 1];
+    const hasMore = limit !== undefined && (data || []).length > limit;
+    return {
+      rows,
+      total,
+      nextCursor: hasMore && last ? encodeCursor({ value: (last as any)[field], id: last.id }) : null
+    };
+  }
+
+  async getById<T extends { id: string }>(table: string, id: string): Promise<T | null> {
+    const { data, error } = await this.client.from(table).select('*').eq('id', id).maybeSingle();
+    if (error) throw toDbError(error, table, id);
+    return (data as T) || null;
+  }
+
+  async save<T extends { id: string }>(table: string, item: T): Promise<T> {
+    const { error } = await this.client.from(table).upsert(item);
+    if (error) throw toDbError(error, table, item.id);
+    return item;
+  }
+
+  async saveIfVersion<T extends { id: string; version: number }>(table: string, item: T, expected: number): Promise<boolean> {
+    if (expected === 0) {
+      const { error } = await this.client.from(table).insert(item);
+      if (!error) return true;
+      if (error.code === '23505') return false;
+      throw toDbError(error, table, item.id);
+    }
+    const { data, error } = await this.client.from(table).update(item).eq('id', item.id).eq('version', expected).select('id');
+    if (error) throw toDbError(error, table, item.id);
+    return (data?.length ?? 0) > 0;
+  }
+
+  async delete(table: string, id: string): Promise<void> {
+    const { error } = await this.client.from(table).delete().eq('id', id);
+    if (error) throw toDbError(error, table, id);
+  }
+
+  subscribe<T extends { id: string }>(table: string, callback: (change: ChangeEvent<T>) => void): () => void {
+    const channel: RealtimeChannel = this.client
+      .channel(`public:${table}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: table },
+        (payload: any) => {
+          console.debug(`Real-time ${payload.eventType} received for table: ${table}`);
+          const isDelete = payload.eventType === 'DELETE';
+          callback({
+            table,
+            type: payload.eventType,
+            id: (isDelete ? payload.old?.id : payload.new?.id) as string,
+            record: isDelete ? null : payload.new as T
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+}
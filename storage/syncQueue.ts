@@ -0,0 +1,271 @@
+
+import { LocalStore, QueuedOperation } from './localStore';
+import { StorageAdapter } from './storageAdapter';
+import { toDbError } from './errors';
+
+// --- Outbound Sync Queue ---
+// Writes land in the local mirror first and are replayed to the cloud in the
+// order they were made. Before each replay the current server copy is compared
+// with the copy this terminal last saw; if someone else changed the record in
+// the meantime the operation is parked as a conflict instead of overwriting.
+
+export type SyncStatus = 'LOCAL_ONLY' | 'OFFLINE' | 'SYNCING' | 'PENDING' | 'CONFLICT' | 'SYNCED';
+
+export interface SyncState {
+  status: SyncStatus;
+  online: boolean;
+  pending: number;
+  conflicts: QueuedOperation[];
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+export type ConflictResolution = 'KEEP_LOCAL' | 'KEEP_REMOTE';
+
+const RETRY_INTERVAL_MS = 30000;
+
+const normalize = (value: any): any => {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .filter(key => value[key] !== null && value[key] !== undefined)
+      .sort()
+      .reduce((acc, key) => ({ ...acc, [key]: normalize(value[key]) }), {} as Record<string, any>);
+  }
+  return value;
+};
+
+export const sameRecord = (a: any, b: any): boolean => {
+  if (!a || !b) return !a && !b;
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+};
+
+export class SyncQueue {
+  private listeners = new Set<(state: SyncState) => void>();
+  private flushing: Promise<void> | null = null;
+  // Queue changes are read-modify-write; they take turns so none is lost.
+  private lock: Promise<unknown> = Promise.resolve();
+  // Set when a write arrives while a replay is running, so it runs another pass.
+  private rerun = false;
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+  private state: SyncState;
+
+  constructor(private local: LocalStore, private remote: StorageAdapter | null) {
+    this.state = {
+      status: remote ? 'SYNCED' : 'LOCAL_ONLY',
+      online: this.isOnline(),
+      pending: 0,
+      conflicts: [],
+      lastSyncedAt: null,
+      lastError: null
+    };
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => { this.flush(); });
+      window.addEventListener('offline', () => { this.refresh(); });
+    }
+  }
+
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  hasRemote(): boolean {
+    return !!this.remote;
+  }
+
+  setRemote(remote: StorageAdapter | null) {
+    this.remote = remote;
+    this.refresh();
+  }
+
+  getState(): SyncState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: SyncState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private setState(patch: Partial<SyncState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  private exclusive<R>(work: () => Promise<R>): Promise<R> {
+    const run = this.lock.then(work, work);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  // `base` is the copy of the record the mirror held before this write, i.e.
+  // the last server copy this terminal knew about.
+  async enqueue(table: string, action: 'UPSERT' | 'DELETE', recordId: string, payload: any | null, base: any | null): Promise<void> {
+    await this.exclusive(async () => {
+      const ops = await this.local.queued();
+      const sameTarget = ops.filter(o => o.table === table && o.recordId === recordId);
+      const open = sameTarget.find(o => !o.conflict);
+
+      if (open) {
+        // Coalesce: only the latest state of a record needs to reach the cloud.
+        await this.local.putQueued({ ...open, action, payload, queuedAt: new Date().toISOString() });
+      } else {
+        await this.local.putQueued({
+          table,
+          action,
+          recordId,
+          payload,
+          base: sameTarget.length > 0 ? sameTarget[sameTarget.length - 1].base : base,
+          queuedAt: new Date().toISOString(),
+          attempts: 0
+        });
+      }
+      if (this.flushing) this.rerun = true;
+    });
+    await this.refresh();
+  }
+
+  // Applies writes that have not reached the cloud yet on top of a server snapshot.
+  async overlay<T extends { id: string }>(table: string, rows: T[]): Promise<T[]> {
+    const ops = (await this.local.queued()).filter(o => o.table === table);
+    if (ops.length === 0) return rows;
+    const byId = new Map(rows.map(row => [row.id, row]));
+    for (const op of ops) {
+      if (op.action === 'DELETE') byId.delete(op.recordId);
+      else byId.set(op.recordId, op.payload);
+    }
+    return Array.from(byId.values());
+  }
+
+  // Same as overlay, for a single page of results: rows are patched or dropped
+  // but never added, since a pending insert may not belong on this page.
+  async patch<T extends { id: string }>(table: string, rows: T[]): Promise<T[]> {
+    const ops = (await this.local.queued()).filter(o => o.table === table);
+    if (ops.length === 0) return rows;
+    const latest = new Map(ops.map(op => [op.recordId, op]));
+    return rows
+      .filter(row => latest.get(row.id)?.action !== 'DELETE')
+      .map(row => (latest.has(row.id) ? latest.get(row.id)!.payload : row));
+  }
+
+  async pendingFor(table: string, id: string): Promise<QueuedOperation | undefined> {
+    const ops = (await this.local.queued()).filter(o => o.table === table && o.recordId === id);
+    return ops[ops.length - 1];
+  }
+
+  flush(): Promise<void> {
+    if (!this.remote || !this.isOnline()) return this.refresh();
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => { this.flushing = null; });
+    }
+    return this.flushing;
+  }
+
+  private async replay(): Promise<void> {
+    const remote = this.remote!;
+    this.setState({ status: 'SYNCING' });
+    let lastError: string | null = null;
+
+    do {
+      this.rerun = false;
+      const blocked = new Set<string>();
+      for (const op of await this.local.queued()) {
+        const key = `${op.table}:${op.recordId}`;
+        if (op.conflict || blocked.has(key)) {
+          blocked.add(key);
+          continue;
+        }
+        try {
+          const current = await remote.getById(op.table, op.recordId);
+          const target = op.action === 'DELETE' ? null : op.payload;
+          if (!sameRecord(current, op.base) && !sameRecord(current, target)) {
+            await this.update(op.seq!, latest => ({ ...latest, conflict: { remote: current, detectedAt: new Date().toISOString() } }));
+            blocked.add(key);
+            continue;
+          }
+          if (op.action === 'DELETE') await remote.delete(op.table, op.recordId);
+          else await remote.save(op.table, op.payload);
+          await this.settle(op);
+        } catch (err) {
+          const message = toDbError(err, op.table, op.recordId).message;
+          lastError = message;
+          await this.update(op.seq!, latest => ({ ...latest, attempts: latest.attempts + 1, lastError: message }));
+          // Keep replay order intact; the rest waits for the next attempt.
+          break;
+        }
+      }
+    } while (!lastError && this.rerun);
+
+    await this.refresh({ lastError, lastSyncedAt: lastError ? this.state.lastSyncedAt : new Date().toISOString() });
+  }
+
+  // Rewrites a queued operation as it is now, not as the replay first read it.
+  private update(seq: number, change: (op: QueuedOperation) => QueuedOperation): Promise<void> {
+    return this.exclusive(async () => {
+      const latest = await this.local.getQueued(seq);
+      if (latest) await this.local.putQueued(change(latest));
+    });
+  }
+
+  // Drops a replayed operation, unless a newer write was coalesced into it while
+  // it was on its way: that one stays queued, on top of what the cloud now holds.
+  private settle(sent: QueuedOperation): Promise<void> {
+    return this.exclusive(async () => {
+      const latest = await this.local.getQueued(sent.seq!);
+      if (latest && (latest.action !== sent.action || !sameRecord(latest.payload, sent.payload))) {
+        await this.local.putQueued({ ...latest, base: sent.action === 'DELETE' ? null : sent.payload, attempts: 0 });
+        this.rerun = true;
+      } else {
+        await this.local.removeQueued(sent.seq!);
+      }
+    });
+  }
+
+  async resolveConflict(seq: number, resolution: ConflictResolution): Promise<void> {
+    const resolved = await this.exclusive(async () => {
+      const op = await this.local.getQueued(seq);
+      if (!op || !op.conflict) return false;
+
+      if (resolution === 'KEEP_REMOTE') {
+        const related = (await this.local.queued()).filter(o => o.table === op.table && o.recordId === op.recordId);
+        for (const o of related) await this.local.removeQueued(o.seq!);
+        if (op.conflict.remote) await this.local.put(op.table, op.conflict.remote);
+        else await this.local.remove(op.table, op.recordId);
+      } else {
+        // Accept the server copy as the new base so the local version can go through.
+        await this.local.putQueued({ ...op, base: op.conflict.remote, conflict: undefined });
+      }
+      return true;
+    });
+    if (resolved) await this.flush();
+  }
+
+  async refresh(patch: Partial<SyncState> = {}): Promise<void> {
+    const ops = await this.local.queued();
+    const conflicts = ops.filter(o => o.conflict);
+    const online = this.isOnline();
+    const merged = { ...this.state, ...patch };
+
+    let status: SyncStatus;
+    if (!this.remote) status = 'LOCAL_ONLY';
+    else if (conflicts.length > 0) status = 'CONFLICT';
+    else if (!online) status = 'OFFLINE';
+    else if (ops.length > 0) status = 'PENDING';
+    else status = 'SYNCED';
+
+    this.setState({ ...merged, status, online, pending: ops.length, conflicts });
+    this.scheduleRetry(ops.length - conflicts.length > 0);
+  }
+
+  private scheduleRetry(needed: boolean) {
+    if (!this.remote || typeof window === 'undefined') return;
+    if (needed && !this.retryTimer) {
+      this.retryTimer = setInterval(() => { this.flush(); }, RETRY_INTERVAL_MS);
+    } else if (!needed && this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
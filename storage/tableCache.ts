@@ -0,0 +1,78 @@
+
+import { ChangeEvent } from './storageAdapter';
+
+// --- Shared Table Cache ---
+// One in-memory copy of a table for every screen that watches it. The table is
+// loaded once when the first watcher arrives; after that, change events are
+// applied as deltas instead of reloading anything.
+
+export class TableCache<T extends { id: string }> {
+  private rows = new Map<string, T>();
+  private listeners = new Set<(rows: T[]) => void>();
+  private detach: (() => void) | null = null;
+  private ready = false;
+
+  constructor(
+    private load: () => Promise<T[]>,
+    private feed: (listener: (change: ChangeEvent<T>) => void) => () => void,
+    // Rows failing this are treated as absent, e.g. records moved to the trash.
+    private keep: (row: T) => boolean = () => true
+  ) {}
+
+  watch(listener: (rows: T[]) => void): () => void {
+    this.listeners.add(listener);
+    if (!this.detach) this.start();
+    else if (this.ready) listener(this.snapshot());
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  snapshot(): T[] {
+    return Array.from(this.rows.values());
+  }
+
+  private start() {
+    // Listen before loading so a change landing mid-load is not lost.
+    const buffered: ChangeEvent<T>[] = [];
+    this.ready = false;
+    this.detach = this.feed(change => {
+      if (this.ready) this.apply(change);
+      else buffered.push(change);
+    });
+
+    this.load()
+      .then(rows => {
+        if (!this.detach) return;
+        this.rows = new Map(rows.filter(this.keep).map(row => [row.id, row]));
+        buffered.forEach(change => this.applyQuietly(change));
+        this.ready = true;
+        this.emit();
+      })
+      .catch(err => console.error('Table cache failed to load:', err));
+  }
+
+  // Without watchers nothing keeps the copy current, so the next watcher reloads.
+  private stop() {
+    this.detach?.();
+    this.detach = null;
+    this.ready = false;
+    this.rows.clear();
+  }
+
+  private applyQuietly(change: ChangeEvent<T>) {
+    if (change.type === 'DELETE' || !change.record || !this.keep(change.record)) this.rows.delete(change.id);
+    else this.rows.set(change.id, change.record);
+  }
+
+  private apply(change: ChangeEvent<T>) {
+    this.applyQuietly(change);
+    this.emit();
+  }
+
+  private emit() {
+    const rows = this.snapshot();
+    this.listeners.forEach(listener => listener(rows));
+  }
+}
@@ -0,0 +1,102 @@
+
+import { TwoFactor } from '../types';
+import { sha256 } from './backup';
+
+// --- Two-Factor Codes ---
+// Time-based one-time passwords (RFC 6238: HMAC-SHA1, 30-second steps, six
+// digits) computed with WebCrypto, so any authenticator app works and nothing
+// leaves the browser. A code is accepted one step either side of now to allow
+// for clock drift, and never twice. Recovery codes are stored as hashes and
+// each one is spent on use.
+
+export const TOTP_STEP = 30;
+export const TOTP_DIGITS = 6;
+// Steps accepted either side of the current one.
+const DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+export const RECOVERY_CODE_COUNT = 10;
+// Wrong codes allowed per sign-in before the password has to be entered again.
+export const MAX_TOTP_ATTEMPTS = 5;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // The user's role demands it
+  recoveryCodesLeft: number;
+}
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const toBase32 = (bytes: Uint8Array) => {
+  let bits = '';
+  bytes.forEach(b => { bits += b.toString(2).padStart(8, '0'); });
+  let text = '';
+  for (let i = 0; i < bits.length; i += 5) text += BASE32[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  return text;
+};
+
+const fromBase32 = (text: string) => {
+  const bits = text.toUpperCase().replace(/[\s=]/g, '').split('').map(c => {
+    const value = BASE32.indexOf(c);
+    if (value < 0) throw new Error('Invalid secret');
+    return value.toString(2).padStart(5, '0');
+  }).join('');
+  const bytes = new Uint8Array(Math.floor(bits.length / 8));
+  bytes.forEach((_, i) => { bytes[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2); });
+  return bytes;
+};
+
+export const generateSecret = (): string => toBase32(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+
+// Groups of four so the key is easier to type into an app by hand.
+export const formatSecret = (secret: string): string => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+export const otpauthUrl = (issuer: string, account: string, secret: string): string => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP}`;
+};
+
+export const currentStep = (now = new Date()): number => Math.floor(now.getTime() / 1000 / TOTP_STEP);
+
+export const totpCode = async (secret: string, step: number): Promise<string> => {
+  const counter = new Uint8Array(8);
+  for (let i = 7, value = step; i >= 0; i--, value = Math.floor(value / 256)) counter[i] = value & 0xff;
+  const key = await crypto.subtle.importKey('raw', fromBase32(secret) as BufferSource, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hash = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+  const offset = hash[hash.length - 1] & 0x0f;
+  const binary = ((hash[offset] & 0x7f) << 24) | (hash[offset + 1] << 16) | (hash[offset + 2] << 8) | hash[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+// The step the code belongs to, or null when it is wrong, stale or already used.
+export const matchTotp = async (secret: string, code: string, lastUsedStep: number, now = new Date()): Promise<number | null> => {
+  const entered = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(entered) || entered.length !== TOTP_DIGITS) return null;
+  const current = currentStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (step > lastUsedStep && await totpCode(secret, step) === entered) return step;
+  }
+  return null;
+};
+
+// --- Recovery Codes ---
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (userId: string, code: string) => sha256(`${userId}:${normalizeRecoveryCode(code)}`);
+
+export const looksLikeRecoveryCode = (code: string): boolean => /^[0-9a-f]{10}$/.test(normalizeRecoveryCode(code));
+
+// Plain codes to show once, and the hashes to store.
+export const generateRecoveryCodes = async (userId: string): Promise<{ codes: string[]; hashes: string[] }> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = Array.from(crypto.getRandomValues(new Uint8Array(5))).map(b => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: await Promise.all(codes.map(code => hashRecoveryCode(userId, code))) };
+};
+
+// The record without the spent code, or null when the code is not one of the unused ones.
+export const spendRecoveryCode = async (record: TwoFactor, code: string): Promise<TwoFactor | null> => {
+  const hash = await hashRecoveryCode(record.id, code);
+  if (!record.recoveryCodes.includes(hash)) return null;
+  return { ...record, recoveryCodes: record.recoveryCodes.filter(h => h !== hash) };
+};
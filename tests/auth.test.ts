@@ -0,0 +1,28 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { db, PermissionError, RateLimitError } from '../db';
+import { FREE_FAILURES } from '../storage/loginAttempts';
+
+// The seeded administrator's first sign-in, where the default password has to be replaced.
+
+const NEW_PASSWORD = 'Administrator#2026';
+
+beforeAll(async () => {
+  await db.init();
+});
+
+describe('changing a password', () => {
+  it('is refused to anyone who has not passed the password step', async () => {
+    await expect(db.auth.changePassword('u1', 'password123', NEW_PASSWORD)).rejects.toBeInstanceOf(PermissionError);
+  });
+
+  it('throttles guesses at the current password like sign-ins', async () => {
+    const admin = await db.auth.login('admin', 'password123');
+    expect(admin?.mustChangePassword).toBe(true);
+    for (let i = 0; i <= FREE_FAILURES; i++) {
+      await expect(db.auth.changePassword(admin!.id, 'wrong-guess', NEW_PASSWORD)).rejects.toBeInstanceOf(PermissionError);
+    }
+    // The right password is refused too until the delay has passed.
+    await expect(db.auth.changePassword(admin!.id, 'password123', NEW_PASSWORD)).rejects.toBeInstanceOf(RateLimitError);
+    await expect(db.auth.login('admin', 'password123')).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
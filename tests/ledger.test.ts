@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { db, businessDay, ValidationError } from '../db';
+import { Job } from '../types';
+import { newId } from '../utils/ids';
+import { recalculateJob } from '../utils/jobTotals';
+
+// Money only moves through the payment ledger; jobs carry the totals it works out.
+
+const PASSWORD = 'Administrator#2026';
+
+// A ₹1000 invoice with no tax, fees or discount.
+const createJob = async (): Promise<Job> => {
+  const now = new Date().toISOString();
+  return db.jobs.save(recalculateJob({
+    id: newId('job'),
+    customerId: 'cust_ledger',
+    items: [{ serviceId: 'svc_ledger', quantity: 1, unitPrice: 1000, discount: 0, subtotal: 1000, status: 'PENDING' }],
+    status: 'PENDING',
+    paymentStatus: 'UNPAID',
+    discount: 0,
+    totalAmount: 0,
+    paidAmount: 0,
+    balance: 0,
+    notes: '',
+    createdAt: now,
+    updatedAt: now
+  }));
+};
+
+const reload = async (job: Job) => (await db.jobs.query({ filters: [{ field: 'id', op: 'eq', value: job.id }] })).rows[0];
+
+beforeAll(async () => {
+  await db.init();
+  const seeded = await db.auth.login('admin', 'password123');
+  await db.auth.changePassword(seeded!.id, 'password123', PASSWORD);
+  await db.auth.setSession(await db.auth.login('admin', PASSWORD));
+});
+
+describe('payments', () => {
+  it('move the paid amount and balance of their job', async () => {
+    const job = await createJob();
+    expect(job).toMatchObject({ totalAmount: 1000, paidAmount: 0, balance: 1000, paymentStatus: 'UNPAID' });
+
+    const payment = await db.payments.record({ jobId: job.id, amount: 400, mode: 'UPI', reference: 'UTR1' });
+    expect(await reload(job)).toMatchObject({ paidAmount: 400, balance: 600, paymentStatus: 'PARTIAL' });
+
+    await db.payments.record({ jobId: job.id, amount: 600, mode: 'UPI', reference: 'UTR2' });
+    expect(await reload(job)).toMatchObject({ paidAmount: 1000, balance: 0, paymentStatus: 'PAID' });
+
+    await db.payments.void(payment.id);
+    expect(await reload(job)).toMatchObject({ paidAmount: 600, balance: 400, paymentStatus: 'PARTIAL' });
+  });
+});
+
+describe('credit notes', () => {
+  it('wait one at a time on an invoice', async () => {
+    const job = await createJob();
+    const fields = { jobId: job.id, reason: 'Service not delivered', amount: 200, refundAmount: 0, refundMode: 'CASH' as const, refundReference: '', cancelInvoice: false };
+    const first = await db.creditNotes.request(fields);
+    await expect(db.creditNotes.request(fields)).rejects.toBeInstanceOf(ValidationError);
+
+    // Once the first is decided, the next one may be raised.
+    await db.creditNotes.reject(first.id);
+    const second = await db.creditNotes.request(fields);
+    expect(second.status).toBe('PENDING');
+
+    // Approval credits the invoice once; a second attempt finds the note decided.
+    await db.creditNotes.approve(second.id);
+    await expect(db.creditNotes.approve(second.id)).rejects.toBeInstanceOf(ValidationError);
+    expect(await reload(job)).toMatchObject({ creditedAmount: 200, balance: 800 });
+  });
+});
+
+describe('the cash book', () => {
+  it('expects the opening balance plus cash in, less refunds and expenses', async () => {
+    const today = businessDay();
+    await db.cashBook.open(today, 500);
+    const job = await createJob();
+    await db.payments.record({ jobId: job.id, amount: 300, mode: 'CASH', reference: '' });
+    const note = await db.creditNotes.request({ jobId: job.id, reason: 'Overcharged', amount: 100, refundAmount: 100, refundMode: 'CASH', refundReference: '', cancelInvoice: false });
+    await db.creditNotes.approve(note.id);
+    await db.cashBook.addExpense({ amount: 50, description: 'Printer paper' });
+
+    const book = await db.cashBook.get(today);
+    expect(book).toMatchObject({ openingBalance: 500, cashIn: 300, refundsOut: 100, expensesOut: 50, expected: 650 });
+
+    const closed = await db.cashBook.close(today, 640, 'Short by ten');
+    expect(closed).toMatchObject({ expectedClosing: 650, countedClosing: 640, variance: -10 });
+  });
+});
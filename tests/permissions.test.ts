@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { db, PermissionError } from '../db';
+import { ADMIN_ROLE_ID, DEFAULT_ROLE_ID, DEFAULT_ROLES } from '../storage/roles';
+import { Customer, Privilege, Role } from '../types';
+
+// Every role is run through the same operations. An operation the role's
+// privileges allow may still fail (most point at records that do not exist),
+// but never with a PermissionError; one they do not allow always does.
+
+const PASSWORDS: Record<string, string> = {};
+
+const signInAs = async (username: string) => {
+  await db.auth.setSession(null);
+  const user = await db.auth.login(username, PASSWORDS[username]);
+  if (!user) throw new Error(`Could not sign in as ${username}`);
+  return db.auth.setSession(user);
+};
+
+interface Operation {
+  name: string;
+  privileges: Privilege[]; // Any one of them allows it
+  run: () => Promise<unknown>;
+}
+
+const OPERATIONS: Operation[] = [
+  { name: 'list customers', privileges: ['CUSTOMERS_VIEW', 'JOBS_VIEW', 'REPORTS_VIEW'], run: () => db.customers.all() },
+  { name: 'list services', privileges: ['SERVICES_VIEW', 'JOBS_VIEW', 'REPORTS_VIEW'], run: () => db.services.all() },
+  { name: 'list jobs', privileges: ['JOBS_VIEW', 'REPORTS_VIEW'], run: () => db.jobs.all() },
+  { name: 'query jobs', privileges: ['JOBS_VIEW', 'REPORTS_VIEW'], run: () => db.jobs.query({ limit: 1 }) },
+  { name: 'list inventory', privileges: ['INVENTORY_VIEW'], run: () => db.inventory.all() },
+  { name: 'list users', privileges: ['USERS_MANAGE', 'ROLES_MANAGE'], run: () => db.users.all() },
+  { name: 'create a customer', privileges: ['CUSTOMERS_CREATE'], run: () => db.customers.save({ id: 'cust_matrix' } as Customer) },
+  { name: 'delete a customer', privileges: ['CUSTOMERS_DELETE'], run: () => db.customers.delete('missing') },
+  { name: 'delete a service', privileges: ['SERVICES_DELETE'], run: () => db.services.delete('missing') },
+  { name: 'delete a job', privileges: ['JOBS_DELETE'], run: () => db.jobs.delete('missing') },
+  { name: 'delete stock', privileges: ['INVENTORY_DELETE'], run: () => db.inventory.delete('missing') },
+  { name: 'purge the trash', privileges: ['TRASH_PURGE'], run: () => db.customers.purge('missing') },
+  { name: 'delete a user', privileges: ['USERS_MANAGE'], run: () => db.users.delete('missing') },
+  { name: 'delete a role', privileges: ['ROLES_MANAGE'], run: () => db.roles.delete('missing') },
+  { name: 'delete a branch', privileges: ['BRANCHES_MANAGE'], run: () => db.branches.delete('missing') },
+  { name: 'read the audit trail', privileges: ['AUDIT_VIEW'], run: () => db.audit.query({ limit: 1 }) },
+  { name: 'follow the audit trail', privileges: ['AUDIT_VIEW'], run: async () => db.audit.subscribe(() => {})() },
+  { name: 'follow sign-in attempts', privileges: ['AUDIT_VIEW'], run: async () => db.logins.subscribe(() => {})() },
+  { name: 'follow user changes', privileges: ['USERS_MANAGE'], run: async () => db.users.subscribe(() => {})() },
+  { name: 'list snapshots', privileges: ['BACKUP_CREATE'], run: () => db.snapshots.list() },
+  { name: 'open a snapshot for restore', privileges: ['BACKUP_RESTORE'], run: () => db.snapshots.open('missing') },
+  { name: 'run migrations', privileges: ['MIGRATIONS_RUN'], run: () => db.migrations.run() },
+  { name: 'save settings', privileges: ['SETTINGS_MANAGE'], run: async () => db.settings.save(await db.settings.get()) },
+  { name: 'reject a credit note', privileges: ['REFUNDS_APPROVE'], run: () => db.creditNotes.reject('missing') },
+  { name: 'reopen a cash day', privileges: ['CASHBOOK_REOPEN'], run: () => db.cashBook.reopen('2026-04-01') }
+];
+
+const outcome = async (operation: Operation) => {
+  try {
+    await operation.run();
+    return 'ALLOWED';
+  } catch (err) {
+    return err instanceof PermissionError ? 'REFUSED' : 'ALLOWED';
+  }
+};
+
+const allows = (role: Role, operation: Operation) => operation.privileges.some(p => role.privileges.includes(p));
+
+beforeAll(async () => {
+  await db.init();
+  // The seeded administrator has to replace the default password first.
+  const seeded = await db.auth.login('admin', 'password123');
+  PASSWORDS.admin = 'Administrator#2026';
+  await db.auth.changePassword(seeded!.id, 'password123', PASSWORDS.admin);
+  await signInAs('admin');
+  for (const role of DEFAULT_ROLES) {
+    const username = role.name.toLowerCase();
+    if (username === 'administrator') continue;
+    PASSWORDS[username] = `${role.name}#2026`;
+    await db.users.save({ id: `u_${username}`, username, email: `${username}@example.com`, password: PASSWORDS[username], roleId: role.id });
+  }
+});
+
+describe('privileges by role', () => {
+  for (const role of DEFAULT_ROLES) {
+    const username = role.name === 'Administrator' ? 'admin' : role.name.toLowerCase();
+    it(`${role.name} may do exactly what its privileges allow`, async () => {
+      await signInAs(username);
+      for (const operation of OPERATIONS) {
+        expect([operation.name, await outcome(operation)]).toEqual([operation.name, allows(role, operation) ? 'ALLOWED' : 'REFUSED']);
+      }
+    });
+  }
+
+  it('refuses everything before anyone signs in', async () => {
+    await db.auth.setSession(null);
+    for (const operation of OPERATIONS) {
+      expect([operation.name, await outcome(operation)]).toEqual([operation.name, 'REFUSED']);
+    }
+  });
+
+  it('keeps password hashes out of the user list', async () => {
+    await signInAs('admin');
+    const users = await db.users.all({ includeDeleted: true });
+    expect(users.length).toBeGreaterThan(1);
+    expect(users.every(user => user.password === undefined)).toBe(true);
+  });
+
+  it('keeps user managers from handing out or touching roles stronger than their own', async () => {
+    await signInAs('admin');
+    const staffRole = DEFAULT_ROLES.find(role => role.id === DEFAULT_ROLE_ID)!;
+    await db.roles.save({ id: 'role_user_admin', name: 'User Admin', description: '', privileges: [...staffRole.privileges, 'USERS_MANAGE'], maxDiscountPercent: 0 });
+    PASSWORDS.useradmin = 'UserAdmin#2026';
+    await db.users.save({ id: 'u_useradmin', username: 'useradmin', email: 'useradmin@example.com', password: PASSWORDS.useradmin, roleId: 'role_user_admin' });
+    const staff = (await db.users.all()).find(user => user.username === 'staff')!;
+    const admin = (await db.users.all()).find(user => user.username === 'admin')!;
+
+    await signInAs('useradmin');
+    await expect(db.users.save({ ...staff, roleId: ADMIN_ROLE_ID })).rejects.toBeInstanceOf(PermissionError);
+    await expect(db.users.save({ ...admin, password: 'Takeover#2026' })).rejects.toBeInstanceOf(PermissionError);
+    await expect(db.users.save({ ...admin, roleId: DEFAULT_ROLE_ID })).rejects.toBeInstanceOf(PermissionError);
+    await expect(db.users.save({ ...staff, email: 'front-desk@example.com' })).resolves.toMatchObject({ email: 'front-desk@example.com' });
+  });
+
+  it('only opens a session for the user the password step accepted', async () => {
+    await db.auth.setSession(null);
+    const staff = (await signInAs('staff'))!;
+    await db.auth.setSession(null);
+    await expect(db.auth.setSession(staff)).rejects.toBeInstanceOf(PermissionError);
+    expect(db.auth.can('CUSTOMERS_VIEW')).toBe(false);
+  });
+});
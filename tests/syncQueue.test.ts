@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { LocalStore } from '../storage/localStore';
+import { SyncQueue } from '../storage/syncQueue';
+import { MemoryAdapter } from '../storage/memoryAdapter';
+
+type Row = { id: string; v: number };
+
+// The same steps DatabaseEngine.save takes: mirror first, then queue against the row it replaced.
+const setup = (seed: Row[] = []) => {
+  const remote = new MemoryAdapter({ rows: seed });
+  const local = new LocalStore(['rows']);
+  const queue = new SyncQueue(local, remote);
+  const write = async (row: Row) => {
+    const existing = await local.get<Row>('rows', row.id);
+    await local.put('rows', row);
+    await queue.enqueue('rows', 'UPSERT', row.id, row, existing);
+  };
+  const erase = async (id: string) => {
+    const existing = await local.get<Row>('rows', id);
+    await local.remove('rows', id);
+    await queue.enqueue('rows', 'DELETE', id, null, existing);
+  };
+  return { remote, local, queue, write, erase };
+};
+
+describe('SyncQueue', () => {
+  it('replays inserts, updates and deletes to the cloud', async () => {
+    const { remote, local, queue, write, erase } = setup([{ id: 'a', v: 1 }, { id: 'c', v: 1 }]);
+    await local.put('rows', { id: 'a', v: 1 });
+    await local.put('rows', { id: 'c', v: 1 });
+    await write({ id: 'a', v: 2 });
+    await write({ id: 'b', v: 1 });
+    await erase('c');
+    await queue.flush();
+    expect(await remote.getById('rows', 'a')).toEqual({ id: 'a', v: 2 });
+    expect(await remote.getById('rows', 'b')).toEqual({ id: 'b', v: 1 });
+    expect(await remote.getById('rows', 'c')).toBeNull();
+    expect(queue.getState()).toMatchObject({ status: 'SYNCED', pending: 0 });
+  });
+
+  it('parks a write as a conflict when someone else changed the record', async () => {
+    const { remote, local, queue, write } = setup([{ id: 'a', v: 1 }]);
+    await local.put('rows', { id: 'a', v: 1 });
+    await remote.save('rows', { id: 'a', v: 5 });
+    await write({ id: 'a', v: 2 });
+    await queue.flush();
+    expect(await remote.getById('rows', 'a')).toEqual({ id: 'a', v: 5 });
+    expect(queue.getState().status).toBe('CONFLICT');
+  });
+
+  it('keeps a write made while an earlier one is on its way', async () => {
+    const { remote, queue, write } = setup();
+    const save = remote.save.bind(remote);
+    let release = () => {};
+    const held = new Promise<void>(resolve => { release = resolve; });
+    remote.save = async <T extends { id: string }>(table: string, item: T) => {
+      await held;
+      return save(table, item);
+    };
+    await write({ id: 'a', v: 1 });
+    const replay = queue.flush();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await write({ id: 'a', v: 2 });
+    release();
+    await replay;
+    await queue.flush();
+    expect(await remote.getById('rows', 'a')).toEqual({ id: 'a', v: 2 });
+    expect(queue.getState()).toMatchObject({ status: 'SYNCED', pending: 0 });
+  });
+});
@@ -1,38 +1,86 @@
+// Entities whose records are permissioned action by action.
+export type PermissionEntity = 'CUSTOMERS' | 'SERVICES' | 'JOBS' | 'INVENTORY';
+export type PermissionAction = 'VIEW' | 'CREATE' | 'EDIT' | 'DELETE' | 'EXPORT';
 
-export type UserRole = 'ADMIN' | 'MANAGER' | 'STAFF';
+export type Privilege =
+  | `${PermissionEntity}_${PermissionAction}`
+  | 'JOBS_EDIT_COMPLETED' // Change a completed job beyond recording payments
+  | 'REPORTS_VIEW'
+  | 'REPORTS_REVENUE' // Collection and revenue figures on the dashboard and reports
+  | 'USERS_MANAGE'
+  | 'ROLES_MANAGE'
+  | 'BACKUP_CREATE'
+  | 'BACKUP_RESTORE'
+  | 'AUDIT_VIEW'
+  | 'SETTINGS_MANAGE'
+  | 'TRASH_PURGE'
+  | 'MIGRATIONS_RUN'
+  | 'BRANCHES_MANAGE'
+  | 'REPORTS_ALL_BRANCHES' // Reports that add up every branch, not just the active one
+  | 'REFUNDS_APPROVE' // Approve credit notes and the refunds paid out on them
+  | 'CASHBOOK_REOPEN'; // Reopen a closed cash day so cash on it can change again
 
-export type Privilege = 
-  | 'MANAGE_USERS' 
-  | 'VIEW_REPORTS' 
-  | 'MANAGE_CUSTOMERS' 
-  | 'MANAGE_SERVICES' 
-  | 'MANAGE_JOBS' 
-  | 'MANAGE_INVENTORY';
+export interface Role {
+  id: string;
+  name: string;
+  description: string;
+  privileges: Privilege[];
+  maxDiscountPercent: number; // Largest discount, as a share of the invoice's gross, this role may give
+  builtIn?: boolean; // Seeded roles cannot be deleted; see storage/roles.ts
+  requireTwoFactor?: boolean; // Holders must set up an authenticator before they can sign in
+}
+
+// A shop location. Customers, jobs and inventory belong to one; see storage/branches.ts.
+export interface Branch {
+  id: string;
+  name: string;
+  code: string; // Short label for the header switcher, e.g. MAIN
+  address: string;
+  phone: string;
+}
 
-export interface User {
+// Rows are moved to the trash rather than erased; see db.*.delete / restore / purge.
+export interface SoftDeletable {
+  deletedAt?: string | null;
+  deletedBy?: string | null; // User id of whoever moved it to the trash
+}
+
+export interface User extends SoftDeletable {
   id: string;
   username: string;
   email: string;
-  password?: string;
-  role: UserRole;
-  privileges: Privilege[];
+  password?: string; // Salted hash, see storage/passwords.ts; older rows hold plaintext until the next login
+  mustChangePassword?: boolean; // Set on the seeded admin; cleared once a new password is chosen
+  roleId: string;
+  branchIds?: string[]; // Branches the user may work in; administrators may use every branch
 }
 
-export interface Customer {
+// The signed-in user together with the role their permissions come from.
+export interface SessionUser extends User {
+  role: Role;
+}
+
+export interface Customer extends SoftDeletable {
   id: string;
   name: string;
   phone: string;
   aadhaarNumber: string;
   address: string;
   createdAt: string;
+  branchId?: string; // Branch it was recorded at; rows from before branches belong to the main one
+  gstin?: string; // Registered business customers only; printed on their tax invoices
+  stateCode?: string; // Two-digit GST state code, used for the place of supply
 }
 
-export interface Service {
+export interface Service extends SoftDeletable {
   id: string;
   name: string;
   description: string;
-  basePrice: number;
+  basePrice: number; // What the customer pays per unit, government fee included
+  governmentFee?: number; // Part of basePrice remitted to the government; the rest is our service charge
   category: string;
+  hsnSac?: string; // HSN or SAC code printed on tax invoices
+  taxRate?: number; // GST rate in percent; 0 (or missing) for government-fee pass-through
 }
 
 export type JobStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
@@ -45,24 +93,112 @@ export interface JobItem {
   discount: number; // Line item discount
   subtotal: number; // Calculated field: (qty * rate) - discount
   status: JobStatus; // Track status per service item
+  governmentFee?: number; // Per unit, copied from the service; not ours, and not taxed
+  hsnSac?: string; // Copied from the service when the line is added
+  taxRate?: number; // Copied from the service when the line is added
+  cgst?: number; // Tax on this line, see utils/gst.ts
+  sgst?: number;
+  igst?: number;
 }
 
-export interface Job {
+export interface Job extends SoftDeletable {
   id: string;
+  number?: string; // Invoice number from the numbering service, e.g. RJS/2026-27/000123
   customerId: string;
   items: JobItem[]; // Support for multiple services
   status: JobStatus; // Overall job status (optional/sync with items)
   paymentStatus: PaymentStatus;
   discount: number; // Global discount (optional, additive to line items)
+  taxAmount?: number; // GST on all lines; included in totalAmount
   totalAmount: number;
-  paidAmount: number;
+  paidAmount: number; // Sum of the payment ledger (plus paidBeforeLedger, less refunds); kept by the data layer
   balance: number;
   notes: string;
   createdAt: string;
   updatedAt: string;
+  version?: number; // Bumped on every save; a stale version is rejected as a conflict
+  branchId?: string; // See Customer.branchId
+  placeOfSupply?: string; // GST state code the invoice was taxed for
+  sellerGstin?: string; // Branch GSTIN when the invoice was issued
+  buyerGstin?: string; // Customer GSTIN when the invoice was issued
+  paidBeforeLedger?: number; // Paid on invoices from before payments were recorded one by one
+  creditedAmount?: number; // Approved credit notes; no longer owed
+  refundedAmount?: number; // Paid back on approved credit notes
+  cancelledAt?: string | null; // Cancelled by a credit note; kept, but can no longer change
+}
+
+export type PaymentMode = 'CASH' | 'UPI' | 'CARD' | 'AEPS' | 'WALLET';
+
+// One installment received against a job; see the payment ledger in db.ts.
+export interface Payment {
+  id: string;
+  jobId: string;
+  amount: number;
+  mode: PaymentMode;
+  reference: string; // UPI/card/AePS transaction reference; blank for cash
+  receivedAt: string;
+  receivedBy: string; // User id
+  receivedByName: string;
+  branchId?: string; // The job's branch
+  voidedAt?: string | null; // Entered by mistake; kept, but no longer counted
+  voidedBy?: string | null;
+}
+
+export type CreditNoteStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// A credit against an issued invoice, e.g. when a portal rejects the
+// application. It changes nothing until a manager approves it.
+export interface CreditNote {
+  id: string;
+  number?: string; // Issued on approval
+  jobId: string;
+  reason: string;
+  amount: number; // Taken off the invoice
+  refundAmount: number; // Of that, paid back to the customer
+  refundMode: PaymentMode;
+  refundReference: string;
+  cancelInvoice: boolean; // Writes off what is still owed plus the refund, and cancels the invoice
+  status: CreditNoteStatus;
+  requestedAt: string;
+  requestedBy: string; // User id
+  requestedByName: string;
+  decidedAt?: string | null;
+  decidedBy?: string | null;
+  decidedByName?: string | null;
+  decisionNote?: string;
+  branchId?: string; // The job's branch
+  version?: number; // Bumped on every save, so two decisions on one note cannot both land
+}
+
+// One branch's cash drawer on one day; see storage/cashbook.ts.
+export interface CashDay {
+  id: string; // branchId:YYYY-MM-DD
+  branchId: string;
+  date: string; // YYYY-MM-DD, local time
+  openingBalance: number;
+  expectedClosing?: number | null; // Worked out from the records when the day is closed
+  countedClosing?: number | null;
+  variance?: number | null; // Counted less expected; negative when cash is short
+  closingNote?: string | null;
+  closedAt?: string | null;
+  closedBy?: string | null;
+  closedByName?: string | null;
+}
+
+// Cash paid out of the drawer for running costs.
+export interface CashExpense {
+  id: string;
+  amount: number;
+  description: string;
+  paidAt: string;
+  paidBy: string; // User id
+  paidByName: string;
+  branchId?: string;
+  voidedAt?: string | null;
+  voidedBy?: string | null;
 }
 
-export interface InventoryItem {
+export interface InventoryItem extends SoftDeletable {
   id: string;
   name: string;
   quantity: number;
@@ -70,6 +206,7 @@ export interface InventoryItem {
   minStock: number;
   category: string;
   lastUpdated: string;
+  branchId?: string; // See Customer.branchId
 }
 
 export interface CompanySettings {
@@ -79,4 +216,81 @@ export interface CompanySettings {
   ownerName: string;
   email: string;
   website: string;
+  gstin?: string; // Blank when not registered for GST; no tax is charged then
+  schemaVersion?: number; // Last migration applied to this database; see storage/migrations.ts
+  numberSeries?: Partial<Record<DocumentType, NumberSeries>>;
+}
+
+export type DocumentType = 'INVOICE' | 'CREDIT_NOTE';
+
+export interface NumberSeries {
+  prefix: string;
+  padding: number;   // digits in the running number
+  blockSize: number; // numbers a terminal reserves at a time, for use offline
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  tokenHash: string; // SHA-256 of the secret half of the token kept by the browser
+  device: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  revokedAt?: string | null;
+}
+
+export interface PasswordReset {
+  id: string;
+  userId: string;
+  codeHash: string; // SHA-256 of the reset id and the code that was sent
+  createdAt: string;
+  expiresAt: string;
+  attempts: number; // Wrong codes entered so far
+  usedAt?: string | null;
+}
+
+export type LoginOutcome = 'SUCCESS' | 'FAILED' | 'LOCKED' | 'UNLOCKED';
+
+// One sign-in attempt, or an administrator lifting a lockout; see storage/loginAttempts.ts.
+export interface LoginAttempt {
+  id: string;
+  username: string; // As typed, lower-cased; need not belong to an account
+  userId?: string | null;
+  terminalId: string | null; // Browser the attempt came from
+  device: string;
+  at: string;
+  outcome: LoginOutcome;
+  reason?: string;
+}
+
+// A user's authenticator enrollment, keyed by their user id; see storage/totp.ts.
+export interface TwoFactor {
+  id: string;
+  secret: string; // Base32 TOTP key shared with the authenticator app
+  enabledAt: string;
+  lastUsedStep: number; // Time step of the last accepted code; it and older ones are refused
+  recoveryCodes: string[]; // SHA-256 hashes of the recovery codes not yet used
+}
+
+export type AuditAction =
+  | 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE'
+  | 'RESET_REQUESTED' | 'RESET_FAILED' | 'RESET_COMPLETED' // Password recovery events
+  | 'TWO_FACTOR_ENABLED' | 'TWO_FACTOR_DISABLED' | 'TWO_FACTOR_FAILED' | 'TWO_FACTOR_RECOVERY'; // Authenticator events
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface AuditEntry {
+  id: string;
+  table: string; // Store the record lives in, e.g. 'jobs'
+  recordId: string;
+  action: AuditAction;
+  actorId: string | null; // null for writes made before anyone logged in
+  actorName: string | null; // Kept so the log stays readable after the user is purged
+  at: string;
+  changes: FieldChange[];
 }
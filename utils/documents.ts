@@ -0,0 +1,7 @@
+
+import { Job } from '../types';
+
+// The number printed on an invoice. Jobs created before numbering existed fall
+// back to the short id they were always shown with.
+export const jobNumber = (job: Pick<Job, 'id' | 'number'>): string =>
+  job.number || `#${job.id.slice(-6).toUpperCase()}`;
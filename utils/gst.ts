@@ -0,0 +1,119 @@
+
+import { Customer, JobItem } from '../types';
+import { roundMoney } from './money';
+
+// --- GST ---
+// Tax is worked out per invoice line from the rate copied off the service.
+// A branch without a GSTIN is not registered and charges no tax. Otherwise
+// the place of supply decides the split: within the seller's own state half
+// goes to CGST and half to SGST, anywhere else it is all IGST. Government
+// fees are collected on the customer's behalf, so only the service charge
+// around them is taxed.
+
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+export const INDIAN_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh',
+  '05': 'Uttarakhand', '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh',
+  '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur',
+  '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam', '19': 'West Bengal',
+  '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu', '27': 'Maharashtra', '29': 'Karnataka',
+  '30': 'Goa', '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands', '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh'
+};
+
+export const stateName = (code?: string): string =>
+  code ? `${INDIAN_STATES[code] || 'State'} (${code})` : '';
+
+// The first two characters of a GSTIN are the state it is registered in.
+export const stateOfGstin = (gstin?: string): string | undefined =>
+  gstin && /^\d{2}/.test(gstin) ? gstin.slice(0, 2) : undefined;
+
+// The customer's state when known, otherwise the counter they were served at.
+export const placeOfSupply = (customer: Pick<Customer, 'stateCode' | 'gstin'> | undefined, sellerGstin?: string): string | undefined =>
+  customer?.stateCode || stateOfGstin(customer?.gstin) || stateOfGstin(sellerGstin);
+
+export const passThroughFee = (item: JobItem): number => roundMoney((item.governmentFee || 0) * item.quantity);
+
+// What the centre keeps from a line before tax; negative if discounted below the fee.
+export const serviceCharge = (item: JobItem): number => roundMoney(item.subtotal - passThroughFee(item));
+
+const taxableValue = (item: JobItem): number => Math.max(0, serviceCharge(item));
+
+export const lineTax = (item: JobItem): number => roundMoney((item.cgst || 0) + (item.sgst || 0) + (item.igst || 0));
+
+// Stamps each line with its tax for the given seller and place of supply.
+export const applyTax = (items: JobItem[], sellerGstin?: string, supplyState?: string): JobItem[] => {
+  const interState = Boolean(supplyState && stateOfGstin(sellerGstin) !== supplyState);
+  return items.map(({ cgst, sgst, igst, ...item }) => {
+    const rate = sellerGstin ? item.taxRate || 0 : 0;
+    if (rate === 0) return item;
+    if (interState) return { ...item, igst: roundMoney(taxableValue(item) * rate / 100) };
+    const half = roundMoney(taxableValue(item) * rate / 200);
+    return { ...item, cgst: half, sgst: half };
+  });
+};
+
+export interface TaxSummaryRow {
+  hsnSac: string;
+  rate: number;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// One row per HSN/SAC code and rate, as printed under the invoice lines.
+export const taxSummary = (items: JobItem[]): TaxSummaryRow[] => {
+  const rows = new Map<string, TaxSummaryRow>();
+  items.forEach(item => {
+    const hsnSac = item.hsnSac || '';
+    const rate = item.taxRate || 0;
+    const key = `${hsnSac}|${rate}`;
+    const row = rows.get(key) || { hsnSac, rate, taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+    rows.set(key, {
+      ...row,
+      taxable: roundMoney(row.taxable + taxableValue(item)),
+      cgst: roundMoney(row.cgst + (item.cgst || 0)),
+      sgst: roundMoney(row.sgst + (item.sgst || 0)),
+      igst: roundMoney(row.igst + (item.igst || 0))
+    });
+  });
+  return Array.from(rows.values());
+};
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n: number) => n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]} ${ONES[n % 10]}`.trim();
+
+const belowThousand = (n: number) => {
+  const hundreds = Math.floor(n / 100);
+  const rest = belowHundred(n % 100);
+  return hundreds ? `${ONES[hundreds]} Hundred${rest ? ` ${rest}` : ''}` : rest;
+};
+
+// Whole numbers in the Indian system of crores, lakhs and thousands.
+const inWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+  const parts: string[] = [];
+  const crores = Math.floor(n / 10000000);
+  if (crores) parts.push(`${inWords(crores)} Crore`);
+  const lakhs = Math.floor(n / 100000) % 100;
+  if (lakhs) parts.push(`${belowHundred(lakhs)} Lakh`);
+  const thousands = Math.floor(n / 1000) % 100;
+  if (thousands) parts.push(`${belowHundred(thousands)} Thousand`);
+  const rest = n % 1000;
+  if (rest) parts.push(belowThousand(rest));
+  return parts.join(' ');
+};
+
+// e.g. 1180.5 → "Rupees One Thousand One Hundred Eighty and Fifty Paise Only"
+export const amountInWords = (amount: number): string => {
+  const paiseTotal = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+  return `Rupees ${inWords(rupees)}${paise ? ` and ${belowHundred(paise)} Paise` : ''} Only`;
+};
@@ -0,0 +1,9 @@
+
+// --- Record Ids ---
+// Random ids cannot collide between terminals the way timestamp ids could.
+// The prefix only hints at the table when an id shows up in logs.
+
+export const newId = (prefix: string): string =>
+  prefix + (typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID().replace(/-/g, '')
+    : Date.now().toString(36) + Math.random().toString(36).slice(2, 12));
@@ -0,0 +1,98 @@
+
+import { Job, JobItem, JobStatus, Payment, PaymentStatus } from '../types';
+import { applyTax, lineTax, passThroughFee, serviceCharge } from './gst';
+import { roundMoney } from './money';
+
+// --- Job Totals ---
+// The figures every job screen derives from its line items and payment.
+
+export const deriveJobStatus = (items: JobItem[]): JobStatus => {
+  if (items.every(i => i.status === 'COMPLETED')) return 'COMPLETED';
+  if (items.some(i => i.status === 'IN_PROGRESS' || i.status === 'COMPLETED')) return 'IN_PROGRESS';
+  if (items.every(i => i.status === 'CANCELLED')) return 'CANCELLED';
+  return 'PENDING';
+};
+
+// Still to be worked on: neither finished nor cancelled by a credit note.
+export const isOpenStatus = (status: JobStatus): boolean => status !== 'COMPLETED' && status !== 'CANCELLED';
+
+export const derivePaymentStatus = (balance: number, paidAmount: number): PaymentStatus =>
+  balance === 0 ? 'PAID' : paidAmount > 0 ? 'PARTIAL' : 'UNPAID';
+
+export interface JobAmounts {
+  gross: number;
+  discount: number;
+  fees: number; // Government fees passed through
+  commission: number; // Service charges after discount, before tax: the centre's margin
+  tax: number;
+  total: number;
+}
+
+// Lines must already carry their tax, see applyTax.
+export const jobAmounts = (items: JobItem[]): JobAmounts => {
+  const gross = items.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
+  const discount = items.reduce((sum, item) => sum + item.discount, 0);
+  const fees = roundMoney(items.reduce((sum, item) => sum + passThroughFee(item), 0));
+  const commission = roundMoney(items.reduce((sum, item) => sum + serviceCharge(item), 0));
+  const tax = roundMoney(items.reduce((sum, item) => sum + lineTax(item), 0));
+  return { gross, discount, fees, commission, tax, total: roundMoney(gross - discount + tax) };
+};
+
+export interface Earnings {
+  billed: number; // Invoice totals, tax and fees included, less credit notes
+  collected: number; // Cash received against those invoices, less refunds
+  fees: number;
+  tax: number;
+  margin: number; // What the centre actually earned
+  owed: number; // Balances customers still have to pay
+}
+
+export const NO_EARNINGS: Earnings = { billed: 0, collected: 0, fees: 0, tax: 0, margin: 0, owed: 0 };
+
+// Cancelled jobs bill nothing, but cash taken on them still counts as collected.
+// Pass the running total to carry on from an earlier page of jobs.
+export const earnings = (jobs: Job[], from: Earnings = NO_EARNINGS): Earnings => jobs.reduce((sum, job) => {
+  const collected = roundMoney(sum.collected + (job.paidAmount || 0));
+  if (job.status === 'CANCELLED') return { ...sum, collected };
+  const amounts = jobAmounts(job.items);
+  return {
+    billed: roundMoney(sum.billed + job.totalAmount - (job.creditedAmount || 0)),
+    collected,
+    fees: roundMoney(sum.fees + amounts.fees),
+    tax: roundMoney(sum.tax + amounts.tax),
+    // A partial credit is given up out of the centre's own charge.
+    margin: roundMoney(sum.margin + amounts.commission - (job.creditedAmount || 0)),
+    owed: roundMoney(sum.owed + (job.balance || 0))
+  };
+}, from);
+
+// Everything paid on a job: its ledger entries that were not voided, plus any
+// amount carried over from before the ledger, less what was refunded.
+export const ledgerPaid = (job: Pick<Job, 'paidBeforeLedger' | 'refundedAmount'>, payments: Payment[]): number =>
+  roundMoney(payments.filter(p => !p.voidedAt).reduce((sum, p) => sum + p.amount, (job.paidBeforeLedger || 0) - (job.refundedAmount || 0)));
+
+export const withPaid = (job: Job, paidAmount: number): Job => {
+  const balance = Math.max(0, roundMoney(job.totalAmount - (job.creditedAmount || 0) - paidAmount));
+  return { ...job, paidAmount, balance, paymentStatus: derivePaymentStatus(balance, paidAmount) };
+};
+
+// Recomputes totals after fields from two different copies were combined.
+export const recalculateJob = (job: Job): Job => {
+  const items = applyTax(job.items, job.sellerGstin, job.placeOfSupply);
+  const { discount, tax, total } = jobAmounts(items);
+  return withPaid({
+    ...job,
+    items,
+    discount,
+    taxAmount: tax,
+    totalAmount: total,
+    status: deriveJobStatus(job.items)
+  }, job.paidAmount);
+};
+
+// The line discounts together, as a percentage of the undiscounted total.
+export const discountPercent = (job: Pick<Job, 'items'>): number => {
+  const gross = job.items.reduce((sum, item) => sum + (item.unitPrice * item.quantity), 0);
+  const discount = job.items.reduce((sum, item) => sum + item.discount, 0);
+  return gross > 0 ? (discount / gross) * 100 : 0;
+};
@@ -0,0 +1,6 @@
+
+// --- Money ---
+// Amounts are kept in rupees; sums and splits are rounded back to whole paise
+// so floating-point remainders never reach a stored figure or a comparison.
+
+export const roundMoney = (amount: number): number => Math.round(Number(amount) * 100) / 100;
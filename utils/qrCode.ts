@@ -0,0 +1,269 @@
+
+// --- QR Codes ---
+// A small QR encoder (byte mode, error correction level M, versions 1-10) so
+// authenticator setup links can be shown as a code without any external
+// service. Follows ISO/IEC 18004; the mask with the lowest penalty is chosen.
+
+const MAX_VERSION = 10;
+// Level M, indexed by version.
+const ECC_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ECC_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const FORMAT_ECC_BITS = 0; // Level M
+
+const bit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// --- Reed-Solomon over GF(2^8) ---
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number) => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  }
+  return result;
+};
+
+// --- Capacity ---
+const rawModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const align = Math.floor(version / 7) + 2;
+    result -= (25 * align - 10) * align - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawModules(version) / 8) - ECC_PER_BLOCK[version] * ECC_BLOCKS[version];
+
+const alignmentPositions = (version: number, size: number) => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < count; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+// Splits the data into blocks, appends each block's error correction and interleaves them.
+const addErrorCorrection = (data: number[], version: number) => {
+  const blocks = ECC_BLOCKS[version];
+  const eccLength = ECC_PER_BLOCK[version];
+  const raw = Math.floor(rawModules(version) / 8);
+  const shortBlocks = blocks - raw % blocks;
+  const shortLength = Math.floor(raw / blocks);
+  const divisor = rsDivisor(eccLength);
+  const all: number[][] = [];
+  for (let i = 0, k = 0; i < blocks; i++) {
+    const chunk = data.slice(k, k + shortLength - eccLength + (i < shortBlocks ? 0 : 1));
+    k += chunk.length;
+    const ecc = rsRemainder(chunk, divisor);
+    if (i < shortBlocks) chunk.push(0);
+    all.push([...chunk, ...ecc]);
+  }
+  const result: number[] = [];
+  for (let i = 0; i < all[0].length; i++) {
+    all.forEach((block, j) => {
+      // The padding byte added to short blocks is not part of the symbol.
+      if (i !== shortLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+// Runs of one colour, 2x2 blocks, finder look-alikes and dark/light imbalance all score against a mask.
+const penalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let score = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    const text = line.map(dark => (dark ? '1' : '0')).join('');
+    for (const pattern of ['10111010000', '00001011101']) {
+      for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) score += 40;
+    }
+  }
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+// Module grid (true = dark) for the text, without the quiet zone.
+export const encodeQr = (text: string): boolean[][] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  let version = 1;
+  const bitsNeeded = (v: number) => 4 + (v < 10 ? 8 : 16) + bytes.length * 8;
+  while (version <= MAX_VERSION && bitsNeeded(version) > dataCodewords(version) * 8) version++;
+  if (version > MAX_VERSION) throw new Error('Text is too long for a QR code');
+
+  // Byte mode header, the data, terminator and padding.
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  const capacity = dataCodewords(version) * 8;
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(b => push(b, 8));
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8);
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  const codewords = addErrorCorrection(data, version);
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  // Function patterns: timing, finders, alignment, format and version areas.
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+  const align = alignmentPositions(version, size);
+  align.forEach((ax, i) => align.forEach((ay, j) => {
+    const isFinder = (i === 0 && j === 0) || (i === 0 && j === align.length - 1) || (i === align.length - 1 && j === 0);
+    if (isFinder) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) set(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  const drawFormat = (mask: number) => {
+    const value = (FORMAT_ECC_BITS << 3) | mask;
+    let rem = value;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const format = ((value << 10) | rem) ^ 0x5412;
+    for (let i = 0; i <= 5; i++) set(8, i, bit(format, i));
+    set(8, 7, bit(format, 6));
+    set(8, 8, bit(format, 7));
+    set(7, 8, bit(format, 8));
+    for (let i = 9; i < 15; i++) set(14 - i, 8, bit(format, i));
+    for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(format, i));
+    for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(format, i));
+    set(8, size - 8, true);
+  };
+  drawFormat(0);
+
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const info = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      set(a, b, bit(info, i));
+      set(b, a, bit(info, i));
+    }
+  }
+
+  // Codewords fill two-module columns in a zigzag from the bottom right.
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!reserved[y][x] && index < codewords.length * 8) {
+          modules[y][x] = bit(codewords[index >>> 3], 7 - (index & 7));
+          index++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!reserved[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  let best = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(mask);
+    drawFormat(mask);
+    const score = penalty(modules);
+    if (score < bestScore) {
+      best = mask;
+      bestScore = score;
+    }
+    applyMask(mask); // XOR again to undo
+  }
+  applyMask(best);
+  drawFormat(best);
+  return modules;
+};
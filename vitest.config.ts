@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run against the in-memory backend; without IndexedDB the local mirror keeps to memory too.
+export default defineConfig({
+  test: {
+    environment: 'jsdom',
+    env: { VITE_STORAGE_BACKEND: 'memory' },
+    testTimeout: 30000,
+    hookTimeout: 60000
+  }
+});